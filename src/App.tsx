@@ -14,6 +14,7 @@ import Clients from "./pages/Clients";
 import ClientDetails from "./pages/ClientDetails";
 import Analytics from "./pages/Analytics";
 import Activity from "./pages/Activity";
+import Claims from "./pages/Claims";
 import Settings from "./pages/Settings";
 import Reminders from "./pages/Reminders";
 import Messages from "./pages/Messages";
@@ -28,6 +29,7 @@ import ProfileSetup from "./pages/ProfileSetup";
 import TherapistSelection from "./pages/TherapistSelection";
 import ClinicianDashboard from "./pages/ClinicianDashboard";
 import ClientHistoryForm from "./pages/ClientHistoryForm";
+import WaitlistClaim from "./pages/WaitlistClaim";
 
 // Create a client
 const queryClient = new QueryClient();
@@ -69,6 +71,12 @@ const App: React.FC = () => {
                   </ProtectedRoute>
                 } />
                 
+                <Route path="/waitlist/claim/:token" element={
+                  <ProtectedRoute allowedRoles={['client']} blockNewClients={true}>
+                    <WaitlistClaim />
+                  </ProtectedRoute>
+                } />
+                
                 {/* Modified: Allow clinicians to view client details */}
                 <Route path="/clients/:clientId" element={
                   <ProtectedRoute allowedRoles={['admin', 'moderator', 'clinician', 'client']} blockNewClients={true}>
@@ -121,6 +129,11 @@ const App: React.FC = () => {
                     <Activity />
                   </ProtectedRoute>
                 } />
+                <Route path="/claims" element={
+                  <ProtectedRoute allowedRoles={['admin', 'moderator']}>
+                    <Claims />
+                  </ProtectedRoute>
+                } />
                 <Route path="/settings" element={
                   <ProtectedRoute allowedRoles={['admin', 'moderator']}>
                     <Settings />
@@ -131,8 +144,9 @@ const App: React.FC = () => {
                     <Reminders />
                   </ProtectedRoute>
                 } />
+                {/* Only the client's assigned therapist can read their messages */}
                 <Route path="/messages" element={
-                  <ProtectedRoute allowedRoles={['admin', 'moderator']}>
+                  <ProtectedRoute allowedRoles={['clinician']}>
                     <Messages />
                   </ProtectedRoute>
                 } />
@@ -7,11 +7,12 @@ import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
 import { Calendar, Clock, User, MapPin, AlertTriangle, MoreVertical, Trash, X, Edit } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
-import { supabase } from '@/integrations/supabase/client';
+import { supabase, notifyWaitlist, deleteAppointmentOccurrence, endAppointmentSeries } from '@/integrations/supabase/client';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
 import { toast } from '@/hooks/use-toast';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { describeRecurrence, parseRecurrenceRule } from '@/utils/recurrence';
 import EditAppointmentDialog from './EditAppointmentDialog';
 
 interface AppointmentDetailsDialogProps {
@@ -67,19 +68,23 @@ const AppointmentDetailsDialog: React.FC<AppointmentDetailsDialogProps> = ({
     setIsLoading(true);
     try {
       if (isRecurring && deleteOption === 'series') {
-        // Delete all future appointments in the series
-        const { error } = await supabase
-          .from('appointments')
-          .delete()
-          .eq('recurring_group_id', appointment.recurring_group_id)
-          .gte('date', appointment.date);
-
-        if (error) throw error;
+        // Delete all future appointments in the series and end its rule the day before
+        const result = await endAppointmentSeries(appointment);
+        if (!result.success) throw result.error;
 
         toast({
           title: "Success",
           description: "All future recurring appointments have been deleted.",
         });
+      } else if (isRecurring) {
+        // Delete only this appointment, leaving an exception in the series' rule
+        const result = await deleteAppointmentOccurrence(appointment);
+        if (!result.success) throw result.error;
+
+        toast({
+          title: "Success",
+          description: "The appointment has been deleted.",
+        });
       } else {
         // Delete only this specific appointment
         const { error } = await supabase
@@ -95,6 +100,9 @@ const AppointmentDetailsDialog: React.FC<AppointmentDetailsDialogProps> = ({
         });
       }
 
+      // The freed slot is offered to the waitlist in the database; send that offer now
+      notifyWaitlist();
+
       setIsDeleteDialogOpen(false);
       onClose();
       onAppointmentUpdated();
@@ -111,18 +119,15 @@ const AppointmentDetailsDialog: React.FC<AppointmentDetailsDialogProps> = ({
   };
 
   const getRecurrenceText = () => {
-    switch (appointment.appointment_recurring) {
-      case 'weekly':
-        return 'Repeats weekly';
-      case 'biweekly':
-        return 'Repeats every 2 weeks';
-      case 'monthly':
-        return 'Repeats every 4 weeks';
-      default:
-        return '';
-    }
+    const rule = parseRecurrenceRule(appointment.appointment_recurring, appointment.recurrence_date || appointment.date);
+    return rule ? describeRecurrence(rule) : 'Recurring';
   };
 
+  // A session moved on its own keeps the date the series scheduled it for
+  const rescheduledFrom = appointment.recurrence_date && appointment.recurrence_date !== appointment.date
+    ? format(parseISO(appointment.recurrence_date), 'EEE, MMM d')
+    : null;
+
   const handleEditClick = () => {
     setIsEditDialogOpen(true);
   };
@@ -183,6 +188,9 @@ const AppointmentDetailsDialog: React.FC<AppointmentDetailsDialogProps> = ({
                     <Calendar className="h-3 w-3 mr-1" />
                     {getRecurrenceText()}
                   </Badge>
+                  {rescheduledFrom && (
+                    <span className="text-xs text-gray-500">Rescheduled from {rescheduledFrom}</span>
+                  )}
                 </div>
               )}
 
@@ -1,9 +1,26 @@
 
-import React, { useState } from 'react';
-import { format, addWeeks, addMonths, parseISO } from 'date-fns';
+import React, { useState, useEffect } from 'react';
+import { format, parseISO } from 'date-fns';
 import { cn } from '@/lib/utils';
 import { v4 as uuidv4 } from 'uuid';
-import { supabase } from '@/integrations/supabase/client';
+import { bookAppointment, BookingError, checkAppointmentLicensure, fetchSlotEngineData } from '@/integrations/supabase/client';
+import { useUser } from '@/context/UserContext';
+import { isLicensureError } from '@/utils/licenses';
+import {
+  findAppointmentConflict,
+  getAvailabilityWindows,
+  getClosureForDate,
+  isDateInTimeOff,
+  minutesToTime,
+  timeToMinutes
+} from '@/utils/slotEngine';
+import {
+  formatRecurrenceRule,
+  getRecurrenceDates,
+  getRecurrenceWeekday,
+  parseRecurrenceRule,
+  RecurrenceRule
+} from '@/utils/recurrence';
 import { toast } from '@/hooks/use-toast';
 import { 
   Dialog, DialogContent, DialogHeader, DialogTitle, 
@@ -14,14 +31,34 @@ import { Calendar as CalendarComponent } from '@/components/ui/calendar';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
-import { Calendar as CalendarIcon, Loader2 } from 'lucide-react';
+import { Calendar as CalendarIcon, Loader2, AlertTriangle } from 'lucide-react';
+import RecurrenceEditor from './RecurrenceEditor';
 
 interface Client {
   id: string;
   displayName: string;
 }
 
+interface LicensureCheck {
+  clientState: string | null;
+  uncoveredDate: Date | null;
+}
+
+// Sessions booked from the calendar are always an hour
+const SESSION_LENGTH_MINUTES = 60;
+
+// New series default to weekly on the chosen date's weekday for 12 sessions
+const getDefaultRecurrence = (start: string): RecurrenceRule => ({
+  start,
+  interval: 1,
+  weekdays: [getRecurrenceWeekday(start)],
+  count: 12,
+  until: null,
+  exceptionDates: []
+});
+
 interface AppointmentDialogProps {
   isOpen: boolean;
   onClose: () => void;
@@ -43,7 +80,13 @@ const AppointmentDialog: React.FC<AppointmentDialogProps> = ({
   const [selectedClientId, setSelectedClientId] = useState<string | null>(null);
   const [startTime, setStartTime] = useState<string>("09:00");
   const [isRecurring, setIsRecurring] = useState(false);
-  const [recurrenceType, setRecurrenceType] = useState<string>('weekly');
+  const [recurrence, setRecurrence] = useState<RecurrenceRule>(() => getDefaultRecurrence(format(new Date(), 'yyyy-MM-dd')));
+  const [skippedDates, setSkippedDates] = useState<Record<string, string>>({});
+  const [licensure, setLicensure] = useState<LicensureCheck | null>(null);
+  const [overrideReason, setOverrideReason] = useState('');
+  const [scheduleWarning, setScheduleWarning] = useState<string | null>(null);
+  const { userRole } = useUser();
+  const canOverrideLicensure = userRole === 'admin' || userRole === 'moderator';
 
   const generateTimeOptions = () => {
     const options = [];
@@ -59,35 +102,153 @@ const AppointmentDialog: React.FC<AppointmentDialogProps> = ({
 
   const timeOptions = generateTimeOptions();
 
-  const generateRecurringDates = (
-    startDate: Date,
-    recurrenceType: string,
-    count = 26 // 6 months (26 weeks) of appointments
-  ): Date[] => {
-    const dates: Date[] = [new Date(startDate)];
-    let currentDate = new Date(startDate);
-    
-    for (let i = 1; i < count; i++) {
-      if (recurrenceType === 'weekly') {
-        currentDate = addWeeks(currentDate, 1);
-      } else if (recurrenceType === 'biweekly') {
-        currentDate = addWeeks(currentDate, 2);
-      } else if (recurrenceType === 'monthly') {
-        currentDate = addWeeks(currentDate, 4); // Every 4 weeks
+  const selectedDateKey = selectedDate ? format(selectedDate, 'yyyy-MM-dd') : null;
+
+  useEffect(() => {
+    if (selectedDateKey) {
+      setRecurrence(rule => ({
+        ...getDefaultRecurrence(selectedDateKey),
+        interval: rule.interval,
+        count: rule.count,
+        until: rule.until && rule.until >= selectedDateKey ? rule.until : null
+      }));
+    }
+  }, [selectedDateKey]);
+
+  // The rule without its exceptions; unchecking a date shouldn't re-run the schedule check
+  const recurrencePattern = formatRecurrenceRule({ ...recurrence, exceptionDates: [] });
+
+  // Dates the series can't be booked on are skipped rather than failing the whole booking
+  useEffect(() => {
+    setSkippedDates({});
+    if (!isOpen || !isRecurring || !selectedClinicianId) return;
+
+    const rule = parseRecurrenceRule(recurrencePattern, recurrence.start);
+    const dates = rule ? getRecurrenceDates(rule) : [];
+    if (dates.length === 0) return;
+
+    let isCancelled = false;
+
+    const checkSeries = async () => {
+      const result = await fetchSlotEngineData(selectedClinicianId, dates[0], dates[dates.length - 1]);
+      if (isCancelled || !result.success || !result.data) return;
+
+      const { timeOff, closures, appointments } = result.data;
+      const endTime = minutesToTime(timeToMinutes(startTime) + SESSION_LENGTH_MINUTES);
+      const skipped: Record<string, string> = {};
+
+      for (const date of dates) {
+        const closure = getClosureForDate(date, closures);
+        if (closure) {
+          skipped[date] = `Practice closed: ${closure.name}`;
+        } else if (isDateInTimeOff(date, timeOff)) {
+          skipped[date] = 'Time off';
+        } else if (findAppointmentConflict({ date, start_time: startTime, end_time: endTime }, appointments, 0)) {
+          skipped[date] = 'Already booked';
+        }
       }
-      
-      if (currentDate > addMonths(startDate, 6)) {
-        break;
+
+      setSkippedDates(skipped);
+    };
+
+    checkSeries();
+    return () => {
+      isCancelled = true;
+    };
+  }, [isOpen, isRecurring, selectedClinicianId, startTime, recurrencePattern, recurrence.start]);
+
+  const sessionDates = isRecurring
+    ? getRecurrenceDates(recurrence).filter(date => !recurrence.exceptionDates.includes(date) && !skippedDates[date])
+    : selectedDateKey ? [selectedDateKey] : [];
+  const firstSessionDate = sessionDates[0] || null;
+  const lastSessionDate = sessionDates[sessionDates.length - 1] || null;
+
+  // Check the first and last session; licenses only lapse, so the dates between are covered if both are
+  useEffect(() => {
+    setLicensure(null);
+    setOverrideReason('');
+    if (!isOpen || !selectedClientId || !firstSessionDate || !lastSessionDate || !selectedClinicianId) return;
+
+    let isCancelled = false;
+    const datesToCheck = Array.from(new Set([firstSessionDate, lastSessionDate]));
+
+    const checkLicensure = async () => {
+      let clientState: string | null = null;
+      let uncoveredDate: Date | null = null;
+
+      for (const date of datesToCheck) {
+        const result = await checkAppointmentLicensure(selectedClinicianId, selectedClientId, date);
+        if (!result.success || !result.data) return;
+        clientState = result.data.clientState;
+        if (!result.data.isLicensed) {
+          uncoveredDate = parseISO(date);
+          break;
+        }
       }
-      
-      dates.push(new Date(currentDate));
-    }
-    
-    return dates;
-  };
+
+      if (!isCancelled) {
+        setLicensure({ clientState, uncoveredDate });
+      }
+    };
+
+    checkLicensure();
+    return () => {
+      isCancelled = true;
+    };
+  }, [isOpen, selectedClientId, firstSessionDate, lastSessionDate, selectedClinicianId]);
+
+  // Clinicians may book outside their published hours, so these are warnings rather than blocks
+  useEffect(() => {
+    setScheduleWarning(null);
+    if (!isOpen || !selectedDate || !selectedClinicianId) return;
+
+    let isCancelled = false;
+    const date = format(selectedDate, 'yyyy-MM-dd');
+
+    const checkSchedule = async () => {
+      const result = await fetchSlotEngineData(selectedClinicianId, date, date);
+      if (isCancelled || !result.success || !result.data) return;
+
+      const { availability, exceptions, timeOff, closures, appointments, settings } = result.data;
+      const start = timeToMinutes(startTime);
+      const candidate = { date, start_time: startTime, end_time: minutesToTime(start + SESSION_LENGTH_MINUTES) };
+      const closure = getClosureForDate(date, closures);
+
+      if (closure) {
+        setScheduleWarning(`The practice is closed on this date (${closure.name}).`);
+      } else if (isDateInTimeOff(date, timeOff)) {
+        setScheduleWarning('The clinician has time off on this date.');
+      } else if (findAppointmentConflict(candidate, appointments, settings?.buffer_minutes || 0)) {
+        setScheduleWarning('This time overlaps another appointment or its buffer.');
+      } else if (!getAvailabilityWindows(date, availability, exceptions).some(window =>
+        window.start <= start && window.end >= start + SESSION_LENGTH_MINUTES
+      )) {
+        setScheduleWarning("This time is outside the clinician's availability.");
+      }
+    };
+
+    checkSchedule();
+    return () => {
+      isCancelled = true;
+    };
+  }, [isOpen, selectedDate, selectedClinicianId, startTime]);
+
+  const needsOverride = !!licensure?.uncoveredDate;
+  const isBlockedByLicensure = needsOverride && !(canOverrideLicensure && overrideReason.trim());
 
   const handleCreateAppointment = async () => {
-    if (!selectedClientId || !selectedDate || !startTime || !selectedClinicianId) {
+    if (isBlockedByLicensure) {
+      toast({
+        title: "License Required",
+        description: canOverrideLicensure
+          ? "Enter an override reason to schedule outside the clinician's licensed states."
+          : "The clinician isn't licensed in the client's state for this date.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (!selectedClientId || !selectedDate || !startTime || !selectedClinicianId || sessionDates.length === 0) {
       toast({
         title: "Missing Information",
         description: "Please fill in all required fields.",
@@ -102,70 +263,51 @@ const AppointmentDialog: React.FC<AppointmentDialogProps> = ({
       startDateTime.setHours(startTimeParts[0], startTimeParts[1], 0, 0);
       
       const endDateTime = new Date(startDateTime);
-      endDateTime.setMinutes(endDateTime.getMinutes() + 60); // Always 60 minutes
+      endDateTime.setMinutes(endDateTime.getMinutes() + SESSION_LENGTH_MINUTES);
       
       const endTime = `${endDateTime.getHours().toString().padStart(2, '0')}:${endDateTime.getMinutes().toString().padStart(2, '0')}`;
+      // The database rejects unlicensed bookings unless an admin supplies a reason
+      const licensure_override_reason = needsOverride ? overrideReason.trim() : null;
 
-      if (isRecurring) {
-        const recurringGroupId = uuidv4(); // Generate a unique ID to link recurring appointments
-        const recurringDates = generateRecurringDates(selectedDate, recurrenceType);
-        
-        const appointmentsToInsert = recurringDates.map(date => ({
-          client_id: selectedClientId,
-          clinician_id: selectedClinicianId,
-          date: format(date, 'yyyy-MM-dd'),
-          start_time: startTime,
-          end_time: endTime,
-          type: "Therapy Session",
-          status: 'scheduled',
-          appointment_recurring: recurrenceType,
-          recurring_group_id: recurringGroupId
-        }));
-
-        const { data, error } = await supabase
-          .from('appointments')
-          .insert(appointmentsToInsert)
-          .select();
-
-        if (error) {
-          console.error('Error details:', error.message, error);
-          throw error;
-        }
+      // Skipped dates are stored as exceptions so the series' rule matches what was booked
+      const appointmentRecurring = isRecurring
+        ? formatRecurrenceRule({
+            ...recurrence,
+            exceptionDates: [...recurrence.exceptionDates, ...Object.keys(skippedDates)]
+          })
+        : undefined;
 
-        toast({
-          title: "Recurring Appointments Created",
-          description: `Created ${recurringDates.length} recurring appointments.`,
-        });
-      } else {
-        const formattedDate = format(selectedDate, 'yyyy-MM-dd');
-
-        const { data, error } = await supabase
-          .from('appointments')
-          .insert([{
-            client_id: selectedClientId,
-            clinician_id: selectedClinicianId,
-            date: formattedDate,
-            start_time: startTime,
-            end_time: endTime,
-            type: "Therapy Session",
-            status: 'scheduled'
-          }])
-          .select();
-
-        if (error) {
-          console.error('Error details:', error.message, error);
-          throw error;
-        }
+      // The series is booked all-or-nothing; one clash rejects every date
+      const result = await bookAppointment({
+        clientId: selectedClientId,
+        clinicianId: selectedClinicianId,
+        sessions: sessionDates.map(date => ({
+          date,
+          start_time: startTime,
+          end_time: endTime
+        })),
+        type: "Therapy Session",
+        appointmentRecurring,
+        recurringGroupId: isRecurring ? uuidv4() : undefined,
+        licensureOverrideReason: licensure_override_reason
+      });
 
-        toast({
-          title: "Appointment Created",
-          description: "The appointment has been successfully scheduled.",
-        });
+      if (!result.success) {
+        throw result.error;
       }
 
+      toast(isRecurring ? {
+        title: "Recurring Appointments Created",
+        description: `Created ${sessionDates.length} recurring appointments.`,
+      } : {
+        title: "Appointment Created",
+        description: "The appointment has been successfully scheduled.",
+      });
+
       setSelectedClientId(null);
       setStartTime("09:00");
       setIsRecurring(false);
+      setOverrideReason('');
       onClose();
       onAppointmentCreated();
 
@@ -173,7 +315,13 @@ const AppointmentDialog: React.FC<AppointmentDialogProps> = ({
       console.error('Error creating appointment:', error);
       toast({
         title: "Error",
-        description: "Failed to create appointment. Please try again.",
+        description: isLicensureError(error)
+          ? "The clinician isn't licensed in the client's state for one or more of these dates."
+          : (error as BookingError)?.code === 'SLOT_CONFLICT'
+            ? `This time overlaps another appointment on ${((error as BookingError).conflicts || [])
+                .map(conflict => format(parseISO(conflict.date), 'MMM d'))
+                .join(', ')}.`
+            : "Failed to create appointment. Please try again.",
         variant: "destructive"
       });
     }
@@ -181,7 +329,7 @@ const AppointmentDialog: React.FC<AppointmentDialogProps> = ({
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Create New Appointment</DialogTitle>
         </DialogHeader>
@@ -260,6 +408,12 @@ const AppointmentDialog: React.FC<AppointmentDialogProps> = ({
                 ))}
               </SelectContent>
             </Select>
+            {scheduleWarning && (
+              <div className="flex items-center gap-1 text-xs text-amber-700">
+                <AlertTriangle className="h-3 w-3 shrink-0" />
+                {scheduleWarning}
+              </div>
+            )}
           </div>
 
           <div className="flex items-center space-x-2 pt-2">
@@ -272,21 +426,41 @@ const AppointmentDialog: React.FC<AppointmentDialogProps> = ({
           </div>
 
           {isRecurring && (
-            <div className="grid gap-2 pl-6">
-              <Label htmlFor="recurrenceType">Recurrence Pattern</Label>
-              <Select value={recurrenceType} onValueChange={setRecurrenceType}>
-                <SelectTrigger id="recurrenceType">
-                  <SelectValue placeholder="Select recurrence pattern" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="weekly">Weekly</SelectItem>
-                  <SelectItem value="biweekly">Every 2 weeks</SelectItem>
-                  <SelectItem value="monthly">Every 4 weeks</SelectItem>
-                </SelectContent>
-              </Select>
-              <div className="text-xs text-muted-foreground mt-1">
-                This will create appointments for the next 6 months following this pattern.
+            <div className="pl-6">
+              <RecurrenceEditor rule={recurrence} onChange={setRecurrence} skippedDates={skippedDates} />
+            </div>
+          )}
+
+          {licensure && !licensure.clientState && (
+            <div className="text-xs text-amber-700">
+              This client has no state on file, so licensure can't be verified.
+            </div>
+          )}
+
+          {needsOverride && licensure?.uncoveredDate && (
+            <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800 space-y-2">
+              <div className="flex items-start gap-2">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                <span>
+                  This clinician has no active license in {licensure.clientState} on{' '}
+                  {format(licensure.uncoveredDate, 'PPP')}.
+                </span>
               </div>
+              {canOverrideLicensure ? (
+                <div className="grid gap-1">
+                  <Label htmlFor="licensure-override">Override reason</Label>
+                  <Textarea
+                    id="licensure-override"
+                    value={overrideReason}
+                    onChange={(e) => setOverrideReason(e.target.value)}
+                    placeholder="Why this appointment may go ahead (recorded in the audit log)"
+                    rows={2}
+                    className="bg-white"
+                  />
+                </div>
+              ) : (
+                <p className="text-xs">Ask an administrator if this appointment needs to go ahead.</p>
+              )}
             </div>
           )}
         </div>
@@ -294,7 +468,11 @@ const AppointmentDialog: React.FC<AppointmentDialogProps> = ({
           <DialogClose asChild>
             <Button variant="outline">Cancel</Button>
           </DialogClose>
-          <Button type="button" onClick={handleCreateAppointment}>
+          <Button
+            type="button"
+            onClick={handleCreateAppointment}
+            disabled={isBlockedByLicensure || sessionDates.length === 0}
+          >
             {isRecurring ? "Create Recurring Appointments" : "Create Appointment"}
           </Button>
         </DialogFooter>
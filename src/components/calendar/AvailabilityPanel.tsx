@@ -4,7 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
-import { Clock, Plus, X, ChevronDown, ChevronUp, Loader2, Calendar, CalendarPlus } from 'lucide-react';
+import { Clock, Plus, X, ChevronDown, ChevronUp, Loader2, Calendar, CalendarPlus, CalendarOff } from 'lucide-react';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { supabase } from '@/integrations/supabase/client';
@@ -16,6 +16,7 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { Calendar as CalendarComponent } from "@/components/ui/calendar";
 import { format, isSameDay } from 'date-fns';
 import { cn } from "@/lib/utils";
+import TimeOffEditor from './TimeOffEditor';
 
 interface TimeSlot {
   id: string;
@@ -757,7 +758,7 @@ const AvailabilityPanel: React.FC<AvailabilityPanelProps> = ({ clinicianId, onAv
         </div>
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className={cn("grid w-full", clinicianId ? "grid-cols-3" : "grid-cols-2")}>
             <TabsTrigger value="set">
               <Clock className="h-4 w-4 mr-2" />
               Weekly
@@ -766,6 +767,12 @@ const AvailabilityPanel: React.FC<AvailabilityPanelProps> = ({ clinicianId, onAv
               <CalendarPlus className="h-4 w-4 mr-2" />
               Single Day
             </TabsTrigger>
+            {clinicianId && (
+              <TabsTrigger value="timeoff">
+                <CalendarOff className="h-4 w-4 mr-2" />
+                Time Off
+              </TabsTrigger>
+            )}
           </TabsList>
         </Tabs>
       </CardHeader>
@@ -1061,6 +1068,10 @@ const AvailabilityPanel: React.FC<AvailabilityPanelProps> = ({ clinicianId, onAv
             )}
           </div>
         )}
+
+        {activeTab === 'timeoff' && clinicianId && (
+          <TimeOffEditor clinicianId={clinicianId} onTimeOffUpdated={onAvailabilityUpdated} />
+        )}
       </CardContent>
     </Card>
   );
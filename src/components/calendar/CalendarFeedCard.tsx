@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+import { CalendarPlus, Copy, RefreshCw } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { AlertDialog, AlertDialogContent, AlertDialogHeader, AlertDialogTitle, AlertDialogDescription, AlertDialogFooter, AlertDialogAction, AlertDialogCancel } from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { fetchCalendarFeedToken, getCalendarFeedUrl, rotateCalendarFeedToken } from '@/integrations/supabase/client';
+
+interface CalendarFeedCardProps {
+  clinicianId: string;
+}
+
+// The clinician's private iCalendar subscription link, with copy and rotate
+const CalendarFeedCard: React.FC<CalendarFeedCardProps> = ({ clinicianId }) => {
+  const [token, setToken] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRotating, setIsRotating] = useState(false);
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const loadToken = async () => {
+      setIsLoading(true);
+      setToken(await fetchCalendarFeedToken(clinicianId));
+      setIsLoading(false);
+    };
+
+    loadToken();
+  }, [clinicianId]);
+
+  const feedUrl = token ? getCalendarFeedUrl(token) : '';
+
+  const handleRotate = async () => {
+    setIsRotating(true);
+    const result = await rotateCalendarFeedToken(clinicianId);
+    setIsRotating(false);
+    setIsConfirmOpen(false);
+
+    if (!result.success || !result.data) {
+      toast({
+        title: "Error",
+        description: "Failed to create a new calendar link.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: token ? "Calendar link replaced" : "Calendar link created",
+      description: token
+        ? "Calendars subscribed to the old link will stop updating."
+        : "Add it to your calendar app to see your sessions there."
+    });
+    setToken(result.data);
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast({ title: "Copied", description: "Calendar link copied to the clipboard." });
+    } catch (error) {
+      console.error('Error copying calendar link:', error);
+      toast({
+        title: "Error",
+        description: "Couldn't copy the link. Select it and copy it manually.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Calendar Feed</CardTitle>
+        <CardDescription>
+          Subscribe from Google Calendar, Outlook or Apple Calendar to see ValorWell sessions alongside your
+          own. Sessions appear without client names. Anyone with the link can see your schedule, so keep it private.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : token ? (
+          <div className="space-y-3">
+            <div className="flex gap-2">
+              <Input value={feedUrl} readOnly onFocus={(e) => e.target.select()} className="font-mono text-xs" />
+              <Button variant="outline" onClick={handleCopy}>
+                <Copy className="h-4 w-4 mr-2" />
+                Copy
+              </Button>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" asChild>
+                <a href={feedUrl.replace(/^https?:/, 'webcal:')}>
+                  <CalendarPlus className="h-4 w-4 mr-2" />
+                  Subscribe
+                </a>
+              </Button>
+              <Button variant="outline" onClick={() => setIsConfirmOpen(true)} disabled={isRotating}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Replace Link
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button onClick={handleRotate} disabled={isRotating}>
+            <CalendarPlus className="h-4 w-4 mr-2" />
+            {isRotating ? 'Creating...' : 'Create Calendar Link'}
+          </Button>
+        )}
+      </CardContent>
+
+      <AlertDialog open={isConfirmOpen} onOpenChange={setIsConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Replace calendar link?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The current link will stop working and any calendar subscribed to it will stop updating.
+              Do this if the link may have been shared. You'll need to subscribe again with the new link.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isRotating}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRotate} disabled={isRotating}>
+              {isRotating ? 'Replacing...' : 'Replace Link'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default CalendarFeedCard;
@@ -1,6 +1,9 @@
 
-import React from 'react';
+import React, { useState } from 'react';
+import { format } from 'date-fns';
 import DayCell from './DayCell';
+import { PracticeClosure, TimeOffBlock } from '@/integrations/supabase/client';
+import { RescheduleTarget } from './useAppointmentReschedule';
 
 interface Appointment {
   id: string;
@@ -10,6 +13,8 @@ interface Appointment {
   end_time: string;
   type: string;
   status: string;
+  recurring_group_id?: string | null;
+  recurrence_date?: string | null;
 }
 
 interface AvailabilityBlock {
@@ -34,10 +39,13 @@ interface CalendarGridProps {
   dayAvailabilityMap: Map<string, DayAvailabilityData>;
   dayAppointmentsMap: Map<string, Appointment[]>;
   availabilityByDay: Map<string, AvailabilityBlock>;
+  dayTimeOffMap?: Map<string, TimeOffBlock>;
+  dayClosureMap?: Map<string, PracticeClosure>;
   getClientName: (clientId: string) => string;
   onAppointmentClick?: (appointment: Appointment) => void;
   onAvailabilityClick?: (day: Date, availabilityBlock: AvailabilityBlock) => void;
   weekViewMode?: boolean;
+  onAppointmentReschedule?: (appointment: Appointment, target: RescheduleTarget) => void;
 }
 
 const CalendarGrid: React.FC<CalendarGridProps> = ({
@@ -46,15 +54,33 @@ const CalendarGrid: React.FC<CalendarGridProps> = ({
   dayAvailabilityMap,
   dayAppointmentsMap,
   availabilityByDay,
+  dayTimeOffMap,
+  dayClosureMap,
   getClientName,
   onAppointmentClick,
   onAvailabilityClick,
-  weekViewMode = false
+  weekViewMode = false,
+  onAppointmentReschedule
 }) => {
+  const [draggedAppointment, setDraggedAppointment] = useState<Appointment | null>(null);
+
+  // Dropping on another day keeps the session's times
+  const handleAppointmentDrop = (day: Date) => {
+    const appointment = draggedAppointment;
+    setDraggedAppointment(null);
+    if (!appointment || !onAppointmentReschedule) return;
+
+    onAppointmentReschedule(appointment, {
+      date: format(day, 'yyyy-MM-dd'),
+      start_time: appointment.start_time.substring(0, 5),
+      end_time: appointment.end_time.substring(0, 5)
+    });
+  };
+
   const weekDayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
 
   return (
-    <div className="grid grid-cols-7 gap-2">
+    <div className="grid grid-cols-7 gap-2" onDragEnd={() => setDraggedAppointment(null)}>
       {weekDayNames.map((day, index) => (
         <div 
           key={day} 
@@ -85,7 +111,11 @@ const CalendarGrid: React.FC<CalendarGridProps> = ({
             onAppointmentClick={onAppointmentClick}
             onAvailabilityClick={onAvailabilityClick}
             firstAvailability={firstAvailability}
+            timeOff={dayTimeOffMap?.get(dateStr)}
+            closure={dayClosureMap?.get(dateStr)}
             weekViewMode={weekViewMode}
+            onAppointmentDragStart={onAppointmentReschedule ? setDraggedAppointment : undefined}
+            onAppointmentDrop={draggedAppointment ? handleAppointmentDrop : undefined}
           />
         );
       })}
@@ -2,9 +2,12 @@ import React, { useState, useEffect } from 'react';
 import { format, startOfWeek, endOfWeek, eachDayOfInterval, startOfMonth, endOfMonth, parseISO } from 'date-fns';
 import { Card } from '@/components/ui/card';
 import MonthView from './MonthView';
+import DayView from './day-view';
 import AvailabilityPanel from './AvailabilityPanel';
 import AppointmentDetailsDialog from './AppointmentDetailsDialog';
 import AvailabilityEditDialog from './AvailabilityEditDialog';
+import RecurringEditDialog from './RecurringEditDialog';
+import { useAppointmentReschedule } from './useAppointmentReschedule';
 import { supabase } from '@/integrations/supabase/client';
 import { getUserTimeZone } from '@/utils/timeZoneUtils';
 import { getClinicianTimeZone } from '@/hooks/useClinicianData';
@@ -15,7 +18,7 @@ interface CalendarViewProps {
   clinicianId: string | null;
   userTimeZone?: string;
   refreshTrigger?: number;
-  monthViewMode?: 'month' | 'week';
+  monthViewMode?: 'month' | 'week' | 'day';
   currentDate?: Date; // Add currentDate prop
 }
 
@@ -27,6 +30,9 @@ interface Appointment {
   end_time: string;
   type: string;
   status: string;
+  video_room_url?: string | null;
+  recurring_group_id?: string | null;
+  recurrence_date?: string | null;
 }
 
 interface AvailabilityBlock {
@@ -96,7 +102,10 @@ const CalendarView: React.FC<CalendarViewProps> = ({
       try {
         let startDate, endDate;
         
-        if (monthViewMode === 'week') {
+        if (monthViewMode === 'day') {
+          startDate = format(currentDate, 'yyyy-MM-dd');
+          endDate = startDate;
+        } else if (monthViewMode === 'week') {
           const start = startOfWeek(currentDate, { weekStartsOn: 0 });
           const end = endOfWeek(currentDate, { weekStartsOn: 0 });
           startDate = format(start, 'yyyy-MM-dd');
@@ -184,6 +193,14 @@ const CalendarView: React.FC<CalendarViewProps> = ({
     setAppointmentRefreshTrigger(prev => prev + 1);
   };
 
+  const {
+    requestReschedule,
+    isSeriesPromptOpen,
+    closeSeriesPrompt,
+    confirmSeriesReschedule,
+    isSaving: isRescheduling
+  } = useAppointmentReschedule(clinicianId, handleAppointmentUpdated);
+
   const handleAvailabilityClick = (date: Date, availabilityBlock: AvailabilityBlock) => {
     setSelectedAvailability(availabilityBlock);
     setSelectedAvailabilityDate(date);
@@ -193,17 +210,30 @@ const CalendarView: React.FC<CalendarViewProps> = ({
   return (
     <div className="flex gap-4">
       <div className={`flex-1 ${showAvailability ? "w-3/4" : "w-full"}`}>
-        <MonthView 
-          currentDate={currentDate} 
-          clinicianId={clinicianId} 
-          refreshTrigger={availabilityRefreshTrigger} 
-          appointments={appointments} 
-          getClientName={getClientName} 
-          onAppointmentClick={handleAppointmentClick} 
-          onAvailabilityClick={handleAvailabilityClick}
-          userTimeZone={userTimeZone}
-          weekViewMode={monthViewMode === 'week'} 
-        />
+        {monthViewMode === 'day' ? (
+          <DayView
+            currentDate={currentDate}
+            clinicianId={clinicianId}
+            refreshTrigger={availabilityRefreshTrigger}
+            appointments={appointments}
+            getClientName={getClientName}
+            onAppointmentClick={handleAppointmentClick}
+            onAvailabilityClick={handleAvailabilityClick}
+          />
+        ) : (
+          <MonthView 
+            currentDate={currentDate} 
+            clinicianId={clinicianId} 
+            refreshTrigger={availabilityRefreshTrigger} 
+            appointments={appointments} 
+            getClientName={getClientName} 
+            onAppointmentClick={handleAppointmentClick} 
+            onAvailabilityClick={handleAvailabilityClick}
+            userTimeZone={userTimeZone}
+            weekViewMode={monthViewMode === 'week'} 
+            onAppointmentReschedule={requestReschedule}
+          />
+        )}
       </div>
 
       {showAvailability && (
@@ -225,6 +255,13 @@ const CalendarView: React.FC<CalendarViewProps> = ({
         clientTimeZone={selectedAppointment ? getClientTimeZone(selectedAppointment.client_id) : ''} 
       />
 
+      <RecurringEditDialog
+        isOpen={isSeriesPromptOpen}
+        onOpenChange={(open) => !open && closeSeriesPrompt()}
+        onConfirm={confirmSeriesReschedule}
+        isLoading={isRescheduling}
+      />
+
       <AvailabilityEditDialog
         isOpen={isAvailabilityDialogOpen}
         onClose={() => setIsAvailabilityDialogOpen(false)}
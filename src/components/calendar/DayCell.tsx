@@ -1,7 +1,9 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import { format, isSameDay, isSameMonth, parseISO } from 'date-fns';
 import { formatDateToTime12Hour } from '@/utils/timeZoneUtils';
+import { PracticeClosure, TimeOffBlock } from '@/integrations/supabase/client';
+import { getTimeOffLabel } from '@/utils/timeOff';
 
 interface Appointment {
   id: string;
@@ -11,6 +13,8 @@ interface Appointment {
   end_time: string;
   type: string;
   status: string;
+  recurring_group_id?: string | null;
+  recurrence_date?: string | null;
 }
 
 interface AvailabilityBlock {
@@ -36,7 +40,12 @@ interface DayCellProps {
   onAppointmentClick?: (appointment: Appointment) => void;
   onAvailabilityClick?: (day: Date, availabilityBlock: AvailabilityBlock) => void;
   firstAvailability?: AvailabilityBlock;
+  timeOff?: TimeOffBlock;
+  closure?: PracticeClosure;
   weekViewMode?: boolean;
+  // Set to make appointments draggable; onAppointmentDrop is only passed while one is being dragged
+  onAppointmentDragStart?: (appointment: Appointment) => void;
+  onAppointmentDrop?: (day: Date) => void;
 }
 
 const DayCell: React.FC<DayCellProps> = ({
@@ -48,9 +57,14 @@ const DayCell: React.FC<DayCellProps> = ({
   onAppointmentClick,
   onAvailabilityClick,
   firstAvailability,
-  weekViewMode = false
+  timeOff,
+  closure,
+  weekViewMode = false,
+  onAppointmentDragStart,
+  onAppointmentDrop
 }) => {
   const { hasAvailability, isModified, displayHours } = availabilityInfo;
+  const [isDragOver, setIsDragOver] = useState(false);
   
   const handleAvailabilityClick = () => {
     if (onAvailabilityClick && firstAvailability) {
@@ -60,6 +74,48 @@ const DayCell: React.FC<DayCellProps> = ({
 
   const isToday = isSameDay(day, new Date());
   const isCurrentMonth = isSameMonth(day, monthStart);
+
+  // Appointments left on a day off or a practice closure are flagged so they get rescheduled
+  const isDayOff = !!timeOff || !!closure;
+  const appointmentClassName = isDayOff
+    ? 'bg-red-50 border border-red-300 text-red-800 hover:bg-red-100'
+    : 'bg-blue-50 border border-blue-100 text-blue-800 hover:bg-blue-100';
+  const appointmentTitle = closure
+    ? 'Falls on a practice closure; needs rescheduling'
+    : timeOff ? 'Falls during time off; needs rescheduling' : undefined;
+
+  const dropTargetProps = {
+    onDragOver: (event: React.DragEvent<HTMLDivElement>) => {
+      if (!onAppointmentDrop) return;
+      event.preventDefault();
+      setIsDragOver(true);
+    },
+    onDragLeave: () => setIsDragOver(false),
+    onDrop: (event: React.DragEvent<HTMLDivElement>) => {
+      event.preventDefault();
+      setIsDragOver(false);
+      onAppointmentDrop?.(day);
+    }
+  };
+
+  const getDragProps = (appointment: Appointment) => onAppointmentDragStart ? {
+    draggable: true,
+    onDragStart: (event: React.DragEvent<HTMLDivElement>) => {
+      event.dataTransfer.effectAllowed = 'move';
+      onAppointmentDragStart(appointment);
+    }
+  } : {};
+
+  // A practice closure outranks the clinician's own time off
+  const dayOffBadge = closure ? (
+    <div className="bg-gray-200 text-gray-800 text-xs px-1 py-0.5 rounded truncate" title={`Practice closed: ${closure.name}`}>
+      {closure.name}
+    </div>
+  ) : timeOff && (
+    <div className="bg-amber-100 text-amber-800 text-xs px-1 py-0.5 rounded" title={timeOff.note || undefined}>
+      {getTimeOffLabel(timeOff)}
+    </div>
+  );
   
   // For week view mode, show a larger cell with more appointment details
   if (weekViewMode) {
@@ -68,15 +124,17 @@ const DayCell: React.FC<DayCellProps> = ({
         className={`
           p-3 min-h-[180px] border rounded-md transition-all
           ${isToday ? 'border-blue-500 border-2' : 'border-gray-200'} 
-          ${isCurrentMonth ? 'bg-white' : 'bg-gray-50'}
+          ${isDragOver ? 'bg-blue-50' : closure ? 'bg-gray-100' : timeOff ? 'bg-amber-50' : isCurrentMonth ? 'bg-white' : 'bg-gray-50'}
           hover:border-blue-300 hover:shadow-sm
         `}
+        {...dropTargetProps}
       >
         <div className="flex justify-between items-start mb-2">
           <span className={`font-medium ${isToday ? 'text-blue-600' : ''}`}>
             {format(day, 'MMM d')}
           </span>
-          {hasAvailability && (
+          {dayOffBadge}
+          {hasAvailability && !isDayOff && (
             <div 
               className={`
                 ${isModified ? 'bg-teal-100 text-teal-800' : 'bg-green-100 text-green-800'} 
@@ -97,8 +155,10 @@ const DayCell: React.FC<DayCellProps> = ({
             {appointments.map(appointment => (
               <div 
                 key={appointment.id} 
-                className="bg-blue-50 border border-blue-100 text-blue-800 text-xs p-2 rounded cursor-pointer hover:bg-blue-100 transition-colors"
+                className={`${appointmentClassName} text-xs p-2 rounded cursor-pointer transition-colors`}
+                title={appointmentTitle}
                 onClick={() => onAppointmentClick && onAppointmentClick(appointment)}
+              {...getDragProps(appointment)}
               >
                 <div className="font-semibold">
                   {formatDateToTime12Hour(parseISO(`2000-01-01T${appointment.start_time}`))} - {formatDateToTime12Hour(parseISO(`2000-01-01T${appointment.end_time}`))}
@@ -121,16 +181,18 @@ const DayCell: React.FC<DayCellProps> = ({
     <div
       className={`
         p-2 min-h-[120px] border rounded-md transition-all
-        ${!isCurrentMonth ? 'bg-gray-50 text-gray-400' : 'bg-white'} 
+        ${!isCurrentMonth ? 'bg-gray-50 text-gray-400' : isDragOver ? 'bg-blue-50' : closure ? 'bg-gray-100' : timeOff ? 'bg-amber-50' : 'bg-white'} 
         ${isToday ? 'border-blue-500 border-2' : 'border-gray-200'}
         hover:border-blue-300 hover:shadow-sm
       `}
+      {...dropTargetProps}
     >
       <div className="flex justify-between items-start">
         <span className={`text-sm font-medium ${isToday ? 'text-blue-600' : ''}`}>
           {format(day, 'd')}
         </span>
-        {hasAvailability && isCurrentMonth && (
+        {isCurrentMonth && dayOffBadge}
+        {hasAvailability && isCurrentMonth && !isDayOff && (
           <div 
             className={`
               ${isModified ? 'bg-teal-100 text-teal-800' : 'bg-green-100 text-green-800'} 
@@ -151,8 +213,10 @@ const DayCell: React.FC<DayCellProps> = ({
           {appointments.slice(0, 3).map(appointment => (
             <div 
               key={appointment.id} 
-              className="bg-blue-50 border border-blue-100 text-blue-800 text-xs p-1 rounded truncate cursor-pointer hover:bg-blue-100 transition-colors"
+              className={`${appointmentClassName} text-xs p-1 rounded truncate cursor-pointer transition-colors`}
+              title={appointmentTitle}
               onClick={() => onAppointmentClick && onAppointmentClick(appointment)}
+              {...getDragProps(appointment)}
             >
               {formatDateToTime12Hour(parseISO(`2000-01-01T${appointment.start_time}`))} - {getClientName(appointment.client_id)}
             </div>
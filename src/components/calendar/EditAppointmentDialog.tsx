@@ -7,13 +7,14 @@ import { Calendar as CalendarIcon } from 'lucide-react';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Calendar } from '@/components/ui/calendar';
-import { format, parseISO } from 'date-fns';
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
 import { cn } from '@/lib/utils';
-import { supabase } from '@/integrations/supabase/client';
+import { supabase, splitAppointmentSeries } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
-import { AlertDialog, AlertDialogContent, AlertDialogHeader, AlertDialogTitle, AlertDialogDescription, AlertDialogFooter, AlertDialogAction, AlertDialogCancel } from '@/components/ui/alert-dialog';
-import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { formatTime12Hour } from '@/utils/timeZoneUtils';
+import { isLicensureError } from '@/utils/licenses';
+import { SLOT_CONFLICT_ERROR } from '@/utils/slotEngine';
+import RecurringEditDialog from './RecurringEditDialog';
 
 interface EditAppointmentDialogProps {
   isOpen: boolean;
@@ -34,7 +35,6 @@ const EditAppointmentDialog: React.FC<EditAppointmentDialogProps> = ({
   const [startTime, setStartTime] = useState<string>(appointment?.start_time || '09:00');
   const [isLoading, setIsLoading] = useState(false);
   const [isRecurring, setIsRecurring] = useState(false);
-  const [editOption, setEditOption] = useState<'single' | 'series'>('single');
   const [isEditOptionDialogOpen, setIsEditOptionDialogOpen] = useState(false);
 
   const generateTimeOptions = () => {
@@ -92,20 +92,14 @@ const EditAppointmentDialog: React.FC<EditAppointmentDialogProps> = ({
       const endTime = calculateEndTime(startTime);
 
       if (mode === 'single') {
-        const updateData: any = {
-          date: formattedDate,
-          start_time: startTime,
-          end_time: endTime,
-        };
-
-        if (isRecurring) {
-          updateData.recurring_group_id = null;
-          updateData.appointment_recurring = null;
-        }
-
+        // A moved session stays in its series; recurrence_date keeps its original slot
         const { error } = await supabase
           .from('appointments')
-          .update(updateData)
+          .update({
+            date: formattedDate,
+            start_time: startTime,
+            end_time: endTime,
+          })
           .eq('id', appointment.id);
 
         if (error) throw error;
@@ -115,20 +109,17 @@ const EditAppointmentDialog: React.FC<EditAppointmentDialogProps> = ({
           description: "The appointment has been updated.",
         });
       } else if (mode === 'series' && appointment.recurring_group_id) {
-        const { error } = await supabase
-          .from('appointments')
-          .update({
-            start_time: startTime,
-            end_time: endTime,
-          })
-          .eq('recurring_group_id', appointment.recurring_group_id)
-          .gte('date', appointment.date);
+        const result = await splitAppointmentSeries(appointment, {
+          dayOffset: differenceInCalendarDays(selectedDate, parseISO(appointment.date)),
+          startTime,
+          endTime
+        });
 
-        if (error) throw error;
+        if (!result.success) throw result.error;
 
         toast({
           title: "Success",
-          description: "All future recurring appointments have been updated.",
+          description: "This and all following appointments in the series have been updated.",
         });
       }
 
@@ -139,7 +130,11 @@ const EditAppointmentDialog: React.FC<EditAppointmentDialogProps> = ({
       console.error('Error updating appointment:', error);
       toast({
         title: "Error",
-        description: "Failed to update the appointment.",
+        description: isLicensureError(error)
+          ? "The clinician isn't licensed in the client's state on the new date."
+          : (error as { message?: string })?.message === SLOT_CONFLICT_ERROR
+            ? "Another appointment is already booked at one of the new times."
+            : "Failed to update the appointment.",
         variant: "destructive"
       });
     } finally {
@@ -232,35 +227,12 @@ const EditAppointmentDialog: React.FC<EditAppointmentDialogProps> = ({
         </DialogContent>
       </Dialog>
 
-      <AlertDialog open={isEditOptionDialogOpen} onOpenChange={setIsEditOptionDialogOpen}>
-        <AlertDialogContent>
-          <AlertDialogHeader>
-            <AlertDialogTitle>Edit Recurring Appointment</AlertDialogTitle>
-            <AlertDialogDescription>
-              <div className="space-y-4">
-                <p>This is a recurring appointment. Would you like to edit just this appointment or all future appointments in this series?</p>
-
-                <RadioGroup value={editOption} onValueChange={(value) => setEditOption(value as 'single' | 'series')}>
-                  <div className="flex items-center space-x-2">
-                    <RadioGroupItem value="single" id="edit-single" />
-                    <Label htmlFor="edit-single">Edit only this appointment</Label>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <RadioGroupItem value="series" id="edit-series" />
-                    <Label htmlFor="edit-series">Edit this and all future appointments in the series</Label>
-                  </div>
-                </RadioGroup>
-              </div>
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
-            <AlertDialogAction onClick={() => updateAppointment(editOption)} disabled={isLoading}>
-              {isLoading ? 'Saving...' : 'Continue'}
-            </AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
+      <RecurringEditDialog
+        isOpen={isEditOptionDialogOpen}
+        onOpenChange={setIsEditOptionDialogOpen}
+        onConfirm={updateAppointment}
+        isLoading={isLoading}
+      />
     </>
   );
 };
@@ -6,6 +6,7 @@ import { useMonthViewData } from './useMonthViewData';
 import CalendarGrid from './CalendarGrid';
 import WeekView from './week-view';
 import { TimeBlock } from './week-view/useWeekViewData'; 
+import { RescheduleTarget } from './useAppointmentReschedule';
 
 interface Appointment {
   id: string;
@@ -15,6 +16,8 @@ interface Appointment {
   end_time: string;
   type: string;
   status: string;
+  recurring_group_id?: string | null;
+  recurrence_date?: string | null;
 }
 
 interface AvailabilityBlock {
@@ -37,6 +40,7 @@ interface MonthViewProps {
   onAvailabilityClick?: (date: Date, availabilityBlock: AvailabilityBlock | TimeBlock) => void;
   userTimeZone?: string;
   weekViewMode?: boolean;
+  onAppointmentReschedule?: (appointment: Appointment, target: RescheduleTarget) => void;
 }
 
 const MonthView: React.FC<MonthViewProps> = ({ 
@@ -48,7 +52,8 @@ const MonthView: React.FC<MonthViewProps> = ({
   onAppointmentClick,
   onAvailabilityClick,
   userTimeZone,
-  weekViewMode = false
+  weekViewMode = false,
+  onAppointmentReschedule
 }) => {
   const {
     loading,
@@ -56,7 +61,9 @@ const MonthView: React.FC<MonthViewProps> = ({
     days,
     dayAvailabilityMap,
     dayAppointmentsMap,
-    availabilityByDay
+    availabilityByDay,
+    dayTimeOffMap,
+    dayClosureMap
   } = useMonthViewData(currentDate, clinicianId, refreshTrigger, appointments, weekViewMode);
 
   if (loading) {
@@ -77,6 +84,7 @@ const MonthView: React.FC<MonthViewProps> = ({
         getClientName={getClientName}
         onAppointmentClick={onAppointmentClick}
         onAvailabilityClick={onAvailabilityClick as (day: Date, block: TimeBlock) => void}
+        onAppointmentReschedule={onAppointmentReschedule}
         userTimeZone={userTimeZone}
       />
     );
@@ -90,10 +98,13 @@ const MonthView: React.FC<MonthViewProps> = ({
         dayAvailabilityMap={dayAvailabilityMap}
         dayAppointmentsMap={dayAppointmentsMap}
         availabilityByDay={availabilityByDay}
+        dayTimeOffMap={dayTimeOffMap}
+        dayClosureMap={dayClosureMap}
         getClientName={getClientName}
         onAppointmentClick={onAppointmentClick}
         onAvailabilityClick={onAvailabilityClick}
         weekViewMode={weekViewMode}
+        onAppointmentReschedule={onAppointmentReschedule}
       />
     </Card>
   );
@@ -0,0 +1,146 @@
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  getRecurrenceDates,
+  MAX_RECURRENCE_OCCURRENCES,
+  RECURRENCE_WEEKDAYS,
+  RECURRENCE_WEEKDAY_LABELS,
+  RecurrenceRule,
+  RecurrenceWeekday
+} from '@/utils/recurrence';
+
+interface RecurrenceEditorProps {
+  rule: RecurrenceRule;
+  onChange: (rule: RecurrenceRule) => void;
+  // Dates that can't be booked, with the reason shown next to them
+  skippedDates: Record<string, string>;
+}
+
+// Repeat pattern, end and per-date exceptions for a new recurring series
+const RecurrenceEditor: React.FC<RecurrenceEditorProps> = ({ rule, onChange, skippedDates }) => {
+  const dates = getRecurrenceDates(rule);
+  const sessionCount = dates.filter(date => !rule.exceptionDates.includes(date) && !skippedDates[date]).length;
+  const endsOn = rule.until ? 'date' : 'count';
+
+  const toggleException = (date: string, isIncluded: boolean) => {
+    onChange({
+      ...rule,
+      exceptionDates: isIncluded
+        ? rule.exceptionDates.filter(exception => exception !== date)
+        : [...rule.exceptionDates, date].sort()
+    });
+  };
+
+  return (
+    <div className="grid gap-3">
+      <div className="flex items-center gap-2">
+        <Label htmlFor="recurrence-interval" className="shrink-0">Every</Label>
+        <Input
+          id="recurrence-interval"
+          type="number"
+          min={1}
+          max={12}
+          value={rule.interval}
+          onChange={(e) => onChange({ ...rule, interval: Math.max(1, Number(e.target.value) || 1) })}
+          className="w-20"
+        />
+        <span className="text-sm">{rule.interval === 1 ? 'week' : 'weeks'} on</span>
+      </div>
+
+      <ToggleGroup
+        type="multiple"
+        variant="outline"
+        size="sm"
+        className="justify-start"
+        value={rule.weekdays}
+        onValueChange={(weekdays) => {
+          if (weekdays.length > 0) {
+            onChange({ ...rule, weekdays: weekdays as RecurrenceWeekday[] });
+          }
+        }}
+      >
+        {RECURRENCE_WEEKDAYS.map(day => (
+          <ToggleGroupItem key={day} value={day} aria-label={RECURRENCE_WEEKDAY_LABELS[day]}>
+            {RECURRENCE_WEEKDAY_LABELS[day]}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+
+      <RadioGroup
+        value={endsOn}
+        onValueChange={(value) => onChange(value === 'date'
+          ? { ...rule, count: null, until: dates[dates.length - 1] || rule.start }
+          : { ...rule, count: dates.length || 1, until: null }
+        )}
+        className="gap-2"
+      >
+        <div className="flex items-center gap-2">
+          <RadioGroupItem value="count" id="recurrence-ends-count" />
+          <Label htmlFor="recurrence-ends-count" className="shrink-0">Ends after</Label>
+          <Input
+            type="number"
+            min={1}
+            max={MAX_RECURRENCE_OCCURRENCES}
+            value={rule.count || ''}
+            disabled={endsOn !== 'count'}
+            onChange={(e) => onChange({
+              ...rule,
+              count: Math.min(MAX_RECURRENCE_OCCURRENCES, Math.max(1, Number(e.target.value) || 1))
+            })}
+            className="w-20"
+          />
+          <span className="text-sm">occurrences</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <RadioGroupItem value="date" id="recurrence-ends-date" />
+          <Label htmlFor="recurrence-ends-date" className="shrink-0">Ends on</Label>
+          <Input
+            type="date"
+            min={rule.start}
+            value={rule.until || ''}
+            disabled={endsOn !== 'date'}
+            onChange={(e) => e.target.value && onChange({ ...rule, until: e.target.value })}
+            className="w-40"
+          />
+        </div>
+      </RadioGroup>
+
+      <div className="grid gap-1">
+        <Label>Sessions ({sessionCount})</Label>
+        <div className="max-h-40 overflow-y-auto rounded-md border p-2 space-y-1">
+          {dates.map(date => {
+            const skipReason = skippedDates[date];
+            const isIncluded = !skipReason && !rule.exceptionDates.includes(date);
+            return (
+              <div key={date} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  id={`recurrence-${date}`}
+                  checked={isIncluded}
+                  disabled={!!skipReason}
+                  onCheckedChange={(checked) => toggleException(date, checked === true)}
+                />
+                <Label
+                  htmlFor={`recurrence-${date}`}
+                  className={isIncluded ? 'font-normal' : 'font-normal text-muted-foreground line-through'}
+                >
+                  {format(parseISO(date), 'EEE, MMM d, yyyy')}
+                </Label>
+                {skipReason && <span className="text-xs text-amber-700">{skipReason}</span>}
+              </div>
+            );
+          })}
+        </div>
+        <div className="text-xs text-muted-foreground">
+          Uncheck a date to skip it. Practice closures and dates the clinician is off or already booked are skipped automatically.
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecurrenceEditor;
@@ -0,0 +1,63 @@
+import React, { useEffect, useState } from 'react';
+import { Label } from '@/components/ui/label';
+import { AlertDialog, AlertDialogContent, AlertDialogHeader, AlertDialogTitle, AlertDialogDescription, AlertDialogFooter, AlertDialogAction, AlertDialogCancel } from '@/components/ui/alert-dialog';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+
+export type RecurringEditMode = 'single' | 'series';
+
+interface RecurringEditDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (mode: RecurringEditMode) => void;
+  isLoading?: boolean;
+}
+
+// Asks whether a change to a recurring appointment applies to this session or the rest of the series
+const RecurringEditDialog: React.FC<RecurringEditDialogProps> = ({
+  isOpen,
+  onOpenChange,
+  onConfirm,
+  isLoading = false
+}) => {
+  const [editOption, setEditOption] = useState<RecurringEditMode>('single');
+
+  useEffect(() => {
+    if (isOpen) {
+      setEditOption('single');
+    }
+  }, [isOpen]);
+
+  return (
+    <AlertDialog open={isOpen} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Edit Recurring Appointment</AlertDialogTitle>
+          <AlertDialogDescription>
+            <div className="space-y-4">
+              <p>This is a recurring appointment. Would you like to edit just this appointment or all future appointments in this series?</p>
+
+              <RadioGroup value={editOption} onValueChange={(value) => setEditOption(value as RecurringEditMode)}>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="single" id="edit-single" />
+                  <Label htmlFor="edit-single">Edit only this appointment</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="series" id="edit-series" />
+                  <Label htmlFor="edit-series">Edit this and all future appointments in the series</Label>
+                </div>
+              </RadioGroup>
+            </div>
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isLoading}>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={() => onConfirm(editOption)} disabled={isLoading}>
+            {isLoading ? 'Saving...' : 'Continue'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default RecurringEditDialog;
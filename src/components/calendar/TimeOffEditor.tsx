@@ -0,0 +1,275 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { format, parseISO } from 'date-fns';
+import { AlertTriangle, Loader2, Pencil, Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  TimeOffBlock,
+  ScheduledAppointment,
+  fetchTimeOffBlocks,
+  saveTimeOffBlock,
+  deleteTimeOffBlock,
+  fetchScheduledAppointments
+} from '@/integrations/supabase/client';
+import { TIME_OFF_TYPES, TIME_OFF_TYPE_LABELS, getTimeOffLabel } from '@/utils/timeOff';
+import { formatTime12Hour } from '@/utils/timeZoneUtils';
+
+interface TimeOffEditorProps {
+  clinicianId: string;
+  onTimeOffUpdated?: () => void;
+}
+
+const emptyBlock = (clinicianId: string): TimeOffBlock => {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  return {
+    clinician_id: clinicianId,
+    start_date: today,
+    end_date: today,
+    time_off_type: 'vacation',
+    note: null
+  };
+};
+
+const formatDateRange = (block: TimeOffBlock) => {
+  const start = format(parseISO(block.start_date), 'MMM d, yyyy');
+  return block.start_date === block.end_date ? start : `${start} – ${format(parseISO(block.end_date), 'MMM d, yyyy')}`;
+};
+
+const TimeOffEditor: React.FC<TimeOffEditorProps> = ({ clinicianId, onTimeOffUpdated }) => {
+  const [blocks, setBlocks] = useState<TimeOffBlock[]>([]);
+  const [affectedAppointments, setAffectedAppointments] = useState<ScheduledAppointment[]>([]);
+  const [editingBlock, setEditingBlock] = useState<TimeOffBlock | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  // Upcoming time off, plus the appointments already booked inside it
+  const loadTimeOff = useCallback(async () => {
+    setLoading(true);
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const upcoming = await fetchTimeOffBlocks(clinicianId, today);
+    setBlocks(upcoming);
+
+    if (upcoming.length > 0) {
+      const lastDate = upcoming.reduce((latest, block) => (block.end_date > latest ? block.end_date : latest), today);
+      setAffectedAppointments(await fetchScheduledAppointments(clinicianId, today, lastDate));
+    } else {
+      setAffectedAppointments([]);
+    }
+    setLoading(false);
+  }, [clinicianId]);
+
+  useEffect(() => {
+    loadTimeOff();
+  }, [loadTimeOff]);
+
+  const getAppointmentsInBlock = (block: TimeOffBlock) =>
+    affectedAppointments.filter(appointment => appointment.date >= block.start_date && appointment.date <= block.end_date);
+
+  const handleSave = async () => {
+    if (!editingBlock) return;
+
+    if (!editingBlock.start_date || !editingBlock.end_date || editingBlock.end_date < editingBlock.start_date) {
+      toast({
+        title: "Invalid dates",
+        description: "The last day off can't be before the first.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    const result = await saveTimeOffBlock(editingBlock);
+    setIsSaving(false);
+
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: "Failed to save time off. Please try again.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const conflicts = await fetchScheduledAppointments(clinicianId, editingBlock.start_date, editingBlock.end_date);
+    toast(conflicts.length > 0 ? {
+      title: "Time off saved",
+      description: `${conflicts.length} scheduled appointment${conflicts.length === 1 ? '' : 's'} fall in this time off and need to be rescheduled.`,
+      variant: "destructive"
+    } : {
+      title: "Time off saved",
+      description: "Clients can no longer book these days."
+    });
+
+    setEditingBlock(null);
+    await loadTimeOff();
+    onTimeOffUpdated?.();
+  };
+
+  const handleDelete = async (block: TimeOffBlock) => {
+    if (!block.id) return;
+    const confirmed = window.confirm(`Remove time off for ${formatDateRange(block)}? Clients will be able to book these days again.`);
+    if (!confirmed) return;
+
+    const result = await deleteTimeOffBlock(block.id);
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: "Failed to remove time off. Please try again.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: "Time off removed",
+      description: "These days are open for booking again."
+    });
+    await loadTimeOff();
+    onTimeOffUpdated?.();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="p-3 border rounded-md">
+        <div className="flex items-center justify-between">
+          <h3 className="font-medium">Time Off</h3>
+          {!editingBlock && (
+            <Button variant="ghost" size="sm" onClick={() => setEditingBlock(emptyBlock(clinicianId))} className="h-8 w-8 p-0">
+              <Plus className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+        <p className="text-sm text-muted-foreground mt-1">
+          Days off are shaded on your calendar and hidden from client booking.
+        </p>
+
+        {editingBlock && (
+          <>
+            <Separator className="my-3" />
+            <div className="space-y-3">
+              <div className="grid gap-1">
+                <Label htmlFor="time-off-type">Type</Label>
+                <Select
+                  value={editingBlock.time_off_type}
+                  onValueChange={(value) => setEditingBlock({ ...editingBlock, time_off_type: value })}
+                >
+                  <SelectTrigger id="time-off-type" className="h-8">
+                    <SelectValue placeholder="Select type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TIME_OFF_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{TIME_OFF_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="grid gap-1">
+                  <Label htmlFor="time-off-start">First day</Label>
+                  <Input
+                    id="time-off-start"
+                    type="date"
+                    className="h-8"
+                    value={editingBlock.start_date}
+                    onChange={(e) => setEditingBlock({
+                      ...editingBlock,
+                      start_date: e.target.value,
+                      end_date: editingBlock.end_date < e.target.value ? e.target.value : editingBlock.end_date
+                    })}
+                  />
+                </div>
+                <div className="grid gap-1">
+                  <Label htmlFor="time-off-end">Last day</Label>
+                  <Input
+                    id="time-off-end"
+                    type="date"
+                    className="h-8"
+                    min={editingBlock.start_date}
+                    value={editingBlock.end_date}
+                    onChange={(e) => setEditingBlock({ ...editingBlock, end_date: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="grid gap-1">
+                <Label htmlFor="time-off-note">Note</Label>
+                <Input
+                  id="time-off-note"
+                  className="h-8"
+                  placeholder="Optional"
+                  value={editingBlock.note || ''}
+                  onChange={(e) => setEditingBlock({ ...editingBlock, note: e.target.value || null })}
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" className="flex-1" onClick={() => setEditingBlock(null)} disabled={isSaving}>
+                  Cancel
+                </Button>
+                <Button className="flex-1" onClick={handleSave} disabled={isSaving}>
+                  {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {isSaving ? 'Saving...' : 'Save'}
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        </div>
+      ) : blocks.length === 0 ? (
+        <div className="text-sm text-gray-500 text-center py-2">
+          No upcoming time off. Click the + button to add some.
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {blocks.map(block => {
+            const blockAppointments = getAppointmentsInBlock(block);
+            return (
+              <div key={block.id} className="p-2 border rounded-md bg-gray-50 space-y-1">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <div className="text-sm font-medium">{getTimeOffLabel(block)}</div>
+                    <div className="text-xs text-gray-500">{formatDateRange(block)}</div>
+                    {block.note && <div className="text-xs text-gray-500 mt-0.5">{block.note}</div>}
+                  </div>
+                  <div className="flex">
+                    <Button variant="ghost" size="sm" onClick={() => setEditingBlock(block)} className="h-7 w-7 p-0">
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(block)} className="h-7 w-7 p-0">
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                {blockAppointments.length > 0 && (
+                  <div className="rounded border border-amber-200 bg-amber-50 p-2 text-xs text-amber-800">
+                    <div className="flex items-center gap-1 font-medium">
+                      <AlertTriangle className="h-3 w-3 shrink-0" />
+                      {blockAppointments.length} appointment{blockAppointments.length === 1 ? '' : 's'} to reschedule
+                    </div>
+                    <ul className="mt-1 space-y-0.5">
+                      {blockAppointments.map(appointment => (
+                        <li key={appointment.id}>
+                          {format(parseISO(appointment.date), 'MMM d')}, {formatTime12Hour(appointment.start_time)} – {appointment.client_name}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TimeOffEditor;
@@ -0,0 +1,233 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ArrowDown, ArrowUp, Loader2, Plus, X } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  WaitlistEntry,
+  fetchWaitlistEntries,
+  saveWaitlistEntry,
+  removeWaitlistEntry
+} from '@/integrations/supabase/client';
+import { describeWaitlistPreferences } from '@/utils/waitlist';
+import WaitlistPreferencesFields from './WaitlistPreferencesFields';
+
+interface Client {
+  id: string;
+  displayName: string;
+}
+
+interface WaitlistDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  clients: Client[];
+  selectedClinicianId: string | null;
+}
+
+const WaitlistDialog: React.FC<WaitlistDialogProps> = ({ isOpen, onClose, clients, selectedClinicianId }) => {
+  const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+  const [draft, setDraft] = useState<WaitlistEntry | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const loadEntries = useCallback(async () => {
+    if (!selectedClinicianId) return;
+    setLoading(true);
+    setEntries(await fetchWaitlistEntries({ clinicianId: selectedClinicianId }));
+    setLoading(false);
+  }, [selectedClinicianId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadEntries();
+    } else {
+      setDraft(null);
+    }
+  }, [isOpen, loadEntries]);
+
+  const startAdding = () => {
+    if (!selectedClinicianId) return;
+    setDraft({
+      clinician_id: selectedClinicianId,
+      client_id: '',
+      preferred_days: [],
+      earliest_time: null,
+      latest_time: null,
+      priority: 0,
+      notes: null
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    if (!draft.client_id) {
+      toast({
+        title: "Missing client",
+        description: "Choose a client to add to the waitlist.",
+        variant: "destructive"
+      });
+      return;
+    }
+    if (draft.earliest_time && draft.latest_time && draft.latest_time <= draft.earliest_time) {
+      toast({
+        title: "Invalid times",
+        description: "The latest end time must be after the earliest start time.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    const result = await saveWaitlistEntry(draft);
+    setIsSaving(false);
+
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: "Failed to save the waitlist entry. The client may already be on the waitlist.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setDraft(null);
+    await loadEntries();
+  };
+
+  // Priority decides who is offered an opening first
+  const changePriority = async (entry: WaitlistEntry, change: number) => {
+    const result = await saveWaitlistEntry({ ...entry, priority: entry.priority + change });
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: "Failed to change priority. Please try again.",
+        variant: "destructive"
+      });
+      return;
+    }
+    await loadEntries();
+  };
+
+  const handleRemove = async (entry: WaitlistEntry) => {
+    if (!entry.id) return;
+    const confirmed = window.confirm(`Remove ${entry.client_name} from the waitlist?`);
+    if (!confirmed) return;
+
+    const result = await removeWaitlistEntry(entry.id);
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: "Failed to remove the waitlist entry. Please try again.",
+        variant: "destructive"
+      });
+      return;
+    }
+    await loadEntries();
+  };
+
+  const waitlistedClientIds = new Set(entries.map(entry => entry.client_id));
+  const availableClients = clients.filter(client => !waitlistedClientIds.has(client.id));
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Waitlist</DialogTitle>
+          <DialogDescription>
+            When an appointment is cancelled, the opening is emailed to the first matching client on this list.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!selectedClinicianId ? (
+          <div className="text-sm text-gray-500 text-center py-4">Select a clinician to see their waitlist.</div>
+        ) : (
+          <div className="space-y-4">
+            {draft ? (
+              <div className="p-3 border rounded-md space-y-3">
+                <div className="grid gap-1">
+                  <Label htmlFor="waitlist-client">Client</Label>
+                  <Select value={draft.client_id || undefined} onValueChange={(value) => setDraft({ ...draft, client_id: value })}>
+                    <SelectTrigger id="waitlist-client" className="h-8">
+                      <SelectValue placeholder="Select a client" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {availableClients.map(client => (
+                        <SelectItem key={client.id} value={client.id}>{client.displayName}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <WaitlistPreferencesFields value={draft} onChange={(preferences) => setDraft({ ...draft, ...preferences })} />
+                <div className="grid gap-1">
+                  <Label htmlFor="waitlist-notes">Notes</Label>
+                  <Input
+                    id="waitlist-notes"
+                    className="h-8"
+                    placeholder="Optional"
+                    value={draft.notes || ''}
+                    onChange={(e) => setDraft({ ...draft, notes: e.target.value || null })}
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" className="flex-1" onClick={() => setDraft(null)} disabled={isSaving}>
+                    Cancel
+                  </Button>
+                  <Button className="flex-1" onClick={handleSave} disabled={isSaving}>
+                    {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    {isSaving ? 'Saving...' : 'Add to Waitlist'}
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <Button variant="outline" size="sm" onClick={startAdding}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Client
+              </Button>
+            )}
+
+            <Separator />
+
+            {loading ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-5 w-5 animate-spin text-primary" />
+              </div>
+            ) : entries.length === 0 ? (
+              <div className="text-sm text-gray-500 text-center py-2">Nobody is on the waitlist.</div>
+            ) : (
+              <ol className="space-y-2 max-h-[360px] overflow-y-auto">
+                {entries.map((entry, index) => (
+                  <li key={entry.id} className="flex items-start justify-between gap-2 p-2 border rounded-md bg-gray-50">
+                    <div className="text-sm">
+                      <div className="font-medium">{index + 1}. {entry.client_name}</div>
+                      <div className="text-xs text-gray-500">{describeWaitlistPreferences(entry)}</div>
+                      {entry.notes && <div className="text-xs text-gray-500 mt-0.5">{entry.notes}</div>}
+                    </div>
+                    <div className="flex">
+                      <Button variant="ghost" size="sm" onClick={() => changePriority(entry, 1)} className="h-7 w-7 p-0" title="Move up">
+                        <ArrowUp className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => changePriority(entry, -1)} className="h-7 w-7 p-0" title="Move down">
+                        <ArrowDown className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleRemove(entry)} className="h-7 w-7 p-0" title="Remove">
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WaitlistDialog;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { WAITLIST_DAYS, WaitlistPreferences } from '@/utils/waitlist';
+
+interface WaitlistPreferencesFieldsProps {
+  value: WaitlistPreferences;
+  onChange: (value: WaitlistPreferences) => void;
+  idPrefix?: string;
+}
+
+// Days and time range a waitlisted client can make; shared by the client portal and the calendar
+const WaitlistPreferencesFields: React.FC<WaitlistPreferencesFieldsProps> = ({ value, onChange, idPrefix = 'waitlist' }) => {
+  const toggleDay = (day: string, checked: boolean) => {
+    onChange({
+      ...value,
+      preferred_days: checked
+        ? [...value.preferred_days, day]
+        : value.preferred_days.filter(selected => selected !== day)
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid gap-1">
+        <Label>Days</Label>
+        <div className="flex flex-wrap gap-3">
+          {WAITLIST_DAYS.map(day => (
+            <label key={day} htmlFor={`${idPrefix}-${day}`} className="flex items-center gap-1.5 text-sm">
+              <Checkbox
+                id={`${idPrefix}-${day}`}
+                checked={value.preferred_days.includes(day)}
+                onCheckedChange={(checked) => toggleDay(day, checked === true)}
+              />
+              {day.substring(0, 3)}
+            </label>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">Leave every day unchecked for any day.</p>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div className="grid gap-1">
+          <Label htmlFor={`${idPrefix}-earliest`}>Earliest start</Label>
+          <Input
+            id={`${idPrefix}-earliest`}
+            type="time"
+            className="h-8"
+            value={value.earliest_time?.substring(0, 5) || ''}
+            onChange={(e) => onChange({ ...value, earliest_time: e.target.value || null })}
+          />
+        </div>
+        <div className="grid gap-1">
+          <Label htmlFor={`${idPrefix}-latest`}>Latest end</Label>
+          <Input
+            id={`${idPrefix}-latest`}
+            type="time"
+            className="h-8"
+            value={value.latest_time?.substring(0, 5) || ''}
+            onChange={(e) => onChange({ ...value, latest_time: e.target.value || null })}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WaitlistPreferencesFields;
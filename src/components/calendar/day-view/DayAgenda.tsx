@@ -0,0 +1,98 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { Calendar, Printer, Video } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { formatTime12Hour } from '@/utils/timeZoneUtils';
+import { DayAppointment } from './types';
+
+interface DayAgendaProps {
+  day: Date;
+  appointments: DayAppointment[];
+  getClientName: (clientId: string) => string;
+  onAppointmentClick?: (appointment: DayAppointment) => void;
+  timeOffLabel?: string | null;
+}
+
+// The day's sessions as a list. Printing hides everything else on the page (see index.css).
+const DayAgenda: React.FC<DayAgendaProps> = ({
+  day,
+  appointments,
+  getClientName,
+  onAppointmentClick,
+  timeOffLabel
+}) => {
+  const sortedAppointments = [...appointments].sort((a, b) => a.start_time.localeCompare(b.start_time));
+
+  return (
+    <div className="printable-agenda space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold">Agenda for {format(day, 'EEEE, MMMM d, yyyy')}</h3>
+          <p className="text-sm text-gray-500">
+            {sortedAppointments.length} session{sortedAppointments.length === 1 ? '' : 's'}
+            {timeOffLabel && ` · ${timeOffLabel}`}
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => window.print()} className="print:hidden">
+          <Printer className="h-4 w-4 mr-2" />
+          Print
+        </Button>
+      </div>
+
+      {sortedAppointments.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-10 text-center">
+          <Calendar className="h-12 w-12 text-gray-300 mb-3" />
+          <h3 className="text-lg font-medium">No sessions scheduled</h3>
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Time</TableHead>
+              <TableHead>Client</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>Video</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sortedAppointments.map(appointment => (
+              <TableRow
+                key={appointment.id}
+                className={onAppointmentClick ? 'cursor-pointer' : undefined}
+                onClick={() => onAppointmentClick?.(appointment)}
+              >
+                <TableCell className="whitespace-nowrap">
+                  {formatTime12Hour(appointment.start_time)} – {formatTime12Hour(appointment.end_time)}
+                </TableCell>
+                <TableCell className="font-medium">{getClientName(appointment.client_id)}</TableCell>
+                <TableCell>{appointment.type}</TableCell>
+                <TableCell>
+                  {appointment.video_room_url ? (
+                    <>
+                      <a
+                        href={appointment.video_room_url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center text-valorwell-600 hover:underline print:hidden"
+                        onClick={(e) => e.stopPropagation()}
+                      >
+                        <Video className="h-4 w-4 mr-1" />
+                        Join
+                      </a>
+                      <span className="hidden print:inline text-xs break-all">{appointment.video_room_url}</span>
+                    </>
+                  ) : (
+                    <span className="text-gray-400">Not created yet</span>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+};
+
+export default DayAgenda;
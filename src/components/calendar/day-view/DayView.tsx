@@ -0,0 +1,176 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { format, isSameDay, isToday, startOfDay } from 'date-fns';
+import { Card } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Loader2, List, Rows3 } from 'lucide-react';
+import { useWeekViewData, TimeBlock } from '../week-view/useWeekViewData';
+import AppointmentBlock from '../week-view/AppointmentBlock';
+import AvailabilityBlock from '../week-view/AvailabilityBlock';
+import TimeColumn from '../week-view/TimeColumn';
+import { getTimeOffLabel } from '@/utils/timeOff';
+import DayAgenda from './DayAgenda';
+import { DayViewProps } from './types';
+
+// Taller than the week view so 15-minute slots are big enough to read
+const HOUR_HEIGHT = 96;
+const HEADER_HEIGHT = 56;
+const DEFAULT_SCROLL_HOUR = 8;
+
+const DayView: React.FC<DayViewProps> = ({
+  currentDate,
+  clinicianId,
+  refreshTrigger = 0,
+  appointments = [],
+  getClientName = () => 'Client',
+  onAppointmentClick,
+  onAvailabilityClick
+}) => {
+  const [mode, setMode] = useState<'schedule' | 'agenda'>('schedule');
+  const [now, setNow] = useState(new Date());
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const { day, days, hours } = useMemo(() => {
+    const day = startOfDay(currentDate);
+    return { day, days: [day], hours: Array.from({ length: 24 }, (_, i) => i) };
+  }, [currentDate]);
+
+  const {
+    loading,
+    timeBlocks,
+    appointmentBlocks,
+    getTimeOffForDay
+  } = useWeekViewData(days, clinicianId, refreshTrigger, appointments, getClientName);
+
+  const dayAppointments = appointments.filter(appointment => appointment.date === format(day, 'yyyy-MM-dd'));
+  const dayAppointmentBlocks = appointmentBlocks.filter(block => isSameDay(block.day, day));
+  const timeOff = getTimeOffForDay(day);
+
+  // Keep the current-time line moving while the day is on screen
+  useEffect(() => {
+    if (!isToday(day)) return;
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, [day]);
+
+  // Open at the start of the working day, or earlier if a session starts before it
+  const firstHour = Math.min(DEFAULT_SCROLL_HOUR, ...dayAppointmentBlocks.map(block => block.start.getHours()));
+  useEffect(() => {
+    if (loading || mode !== 'schedule' || !scrollRef.current) return;
+    scrollRef.current.scrollTop = Math.max(firstHour - 1, 0) * HOUR_HEIGHT;
+  }, [loading, mode, day, firstHour]);
+
+  if (loading) {
+    return (
+      <Card className="p-4 flex justify-center items-center h-[300px]">
+        <Loader2 className="h-6 w-6 animate-spin text-valorwell-500" />
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="p-4 overflow-hidden">
+      <div className="flex justify-end mb-3 print:hidden">
+        <Tabs value={mode} onValueChange={(value) => setMode(value as 'schedule' | 'agenda')}>
+          <TabsList>
+            <TabsTrigger value="schedule">
+              <Rows3 className="h-4 w-4 mr-2" />
+              Schedule
+            </TabsTrigger>
+            <TabsTrigger value="agenda">
+              <List className="h-4 w-4 mr-2" />
+              Agenda
+            </TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      {mode === 'agenda' ? (
+        <DayAgenda
+          day={day}
+          appointments={dayAppointments}
+          getClientName={getClientName}
+          onAppointmentClick={onAppointmentClick}
+          timeOffLabel={timeOff ? getTimeOffLabel(timeOff) : null}
+        />
+      ) : (
+        <div ref={scrollRef} className="max-h-[75vh] overflow-y-auto">
+          <div className="grid grid-cols-[5rem_1fr]">
+            <TimeColumn hours={hours} hourHeight={HOUR_HEIGHT} />
+
+            <div className="relative">
+              {/* Day header */}
+              <div className="h-14 border-b border-gray-200 flex items-center justify-center gap-2">
+                <div className="text-sm text-gray-500">{format(day, 'EEEE')}</div>
+                <div className={`text-lg ${isToday(day) ?
+                  'bg-valorwell-500 text-white rounded-full w-8 h-8 flex items-center justify-center' : ''}`}>
+                  {format(day, 'd')}
+                </div>
+              </div>
+
+              {/* Hour cells with 15-minute gridlines */}
+              {hours.map((hour) => (
+                <div
+                  key={hour}
+                  className="w-full border-b border-gray-200"
+                  style={{ height: `${HOUR_HEIGHT}px` }}
+                >
+                  {[1, 2, 3].map(quarter => (
+                    <div
+                      key={quarter}
+                      className={`w-full border-b ${quarter === 2 ? 'border-gray-200' : 'border-gray-100'}`}
+                      style={{ height: `${HOUR_HEIGHT / 4}px` }}
+                    />
+                  ))}
+                </div>
+              ))}
+
+              {timeOff && (
+                <div
+                  className="absolute left-0 right-0 bottom-0 z-[5] bg-amber-50/80 border-x border-amber-100 pointer-events-none"
+                  style={{ top: `${HEADER_HEIGHT}px` }}
+                >
+                  <div className="m-1 text-xs font-medium text-amber-800 bg-amber-100 rounded px-1 py-0.5 w-fit">
+                    {getTimeOffLabel(timeOff)}
+                  </div>
+                </div>
+              )}
+
+              {isToday(day) && (
+                <div
+                  className="absolute left-0 right-0 z-20 border-t-2 border-red-500 pointer-events-none"
+                  style={{ top: `${HEADER_HEIGHT + (now.getHours() + now.getMinutes() / 60) * HOUR_HEIGHT}px` }}
+                />
+              )}
+
+              {dayAppointmentBlocks.map(appointment => (
+                <AppointmentBlock
+                  key={appointment.id}
+                  appointment={appointment}
+                  hourHeight={HOUR_HEIGHT}
+                  onAppointmentClick={onAppointmentClick}
+                  originalAppointments={appointments}
+                  isDuringTimeOff={!!timeOff}
+                  showType
+                />
+              ))}
+
+              {!timeOff && timeBlocks
+                .filter(block => isSameDay(block.day, day))
+                .map((block, index) => (
+                  <AvailabilityBlock
+                    key={`${block.availabilityIds.join('-')}-${index}`}
+                    block={block}
+                    day={day}
+                    hourHeight={HOUR_HEIGHT}
+                    onAvailabilityClick={onAvailabilityClick as (day: Date, block: TimeBlock) => void}
+                  />
+                ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default DayView;
@@ -0,0 +1,7 @@
+
+import DayView from './DayView';
+
+export default DayView;
+export type { DayAppointment, DayViewProps } from './types';
+
+export { default as DayAgenda } from './DayAgenda';
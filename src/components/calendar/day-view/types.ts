@@ -0,0 +1,15 @@
+import { Appointment, AvailabilityBlock, TimeBlock } from '../week-view/useWeekViewData';
+
+export interface DayAppointment extends Appointment {
+  video_room_url?: string | null;
+}
+
+export interface DayViewProps {
+  currentDate: Date;
+  clinicianId: string | null;
+  refreshTrigger?: number;
+  appointments?: DayAppointment[];
+  getClientName?: (clientId: string) => string;
+  onAppointmentClick?: (appointment: DayAppointment) => void;
+  onAvailabilityClick?: (day: Date, block: AvailabilityBlock | TimeBlock) => void;
+}
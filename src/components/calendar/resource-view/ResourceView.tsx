@@ -0,0 +1,325 @@
+import React, { useMemo, useState } from 'react';
+import { eachDayOfInterval, endOfWeek, format, parseISO, startOfWeek } from 'date-fns';
+import { Loader2, Users } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { moveAppointment, ScheduledAppointment } from '@/integrations/supabase/client';
+import { formatTime12Hour, formatTimeZoneDisplay } from '@/utils/timeZoneUtils';
+import { getTimeOffLabel } from '@/utils/timeOff';
+import { isLicensureError } from '@/utils/licenses';
+import { SLOT_CONFLICT_ERROR } from '@/utils/slotEngine';
+import AppointmentBlock from '../week-view/AppointmentBlock';
+import AvailabilityBlock from '../week-view/AvailabilityBlock';
+import TimeColumn from '../week-view/TimeColumn';
+import { useResourceViewData, ResourceClinician } from './useResourceViewData';
+import { convertWallClock } from './utils';
+
+interface ResourceViewProps {
+  currentDate: Date;
+  view: 'day' | 'week';
+  clinicians: ResourceClinician[];
+  selectedClinicianIds: string[];
+  onSelectedClinicianIdsChange: (clinicianIds: string[]) => void;
+  viewerTimeZone: string;
+  refreshTrigger?: number;
+}
+
+interface PendingReassignment {
+  appointment: ScheduledAppointment;
+  fromClinician: ResourceClinician;
+  toClinician: ResourceClinician;
+  date: string;
+  startTime: string;
+  endTime: string;
+}
+
+const HOUR_HEIGHT = 60;
+
+const ResourceView: React.FC<ResourceViewProps> = ({
+  currentDate,
+  view,
+  clinicians,
+  selectedClinicianIds,
+  onSelectedClinicianIdsChange,
+  viewerTimeZone,
+  refreshTrigger = 0
+}) => {
+  const [localRefresh, setLocalRefresh] = useState(0);
+  const [draggedAppointmentId, setDraggedAppointmentId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [pendingReassignment, setPendingReassignment] = useState<PendingReassignment | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const { dates, hours } = useMemo(() => {
+    const days = view === 'day'
+      ? [currentDate]
+      : eachDayOfInterval({
+          start: startOfWeek(currentDate, { weekStartsOn: 0 }),
+          end: endOfWeek(currentDate, { weekStartsOn: 0 })
+        });
+    return {
+      dates: days.map(day => format(day, 'yyyy-MM-dd')),
+      hours: Array.from({ length: 24 }, (_, i) => i)
+    };
+  }, [currentDate, view]);
+
+  const selectedClinicians = useMemo(
+    () => clinicians.filter(clinician => selectedClinicianIds.includes(clinician.id)),
+    [clinicians, selectedClinicianIds]
+  );
+
+  const {
+    loading,
+    appointments,
+    appointmentBlocks,
+    timeBlocks,
+    getTimeOff,
+    getClinicianTimeZone
+  } = useResourceViewData(selectedClinicians, dates, viewerTimeZone, refreshTrigger + localRefresh);
+
+  const toggleClinician = (clinicianId: string, checked: boolean) => {
+    onSelectedClinicianIdsChange(
+      checked
+        ? [...selectedClinicianIds, clinicianId]
+        : selectedClinicianIds.filter(id => id !== clinicianId)
+    );
+  };
+
+  const handleDrop = (targetClinician: ResourceClinician) => {
+    setDropTarget(null);
+    const appointment = appointments.find(a => a.id === draggedAppointmentId);
+    setDraggedAppointmentId(null);
+    if (!appointment || appointment.clinician_id === targetClinician.id) return;
+
+    const fromClinician = clinicians.find(clinician => clinician.id === appointment.clinician_id);
+    const fromTimeZone = getClinicianTimeZone(appointment.clinician_id);
+    const toTimeZone = getClinicianTimeZone(targetClinician.id);
+    if (!fromClinician || !fromTimeZone || !toTimeZone) return;
+
+    // Keep the same moment; only the clinician's local date and times change
+    const start = convertWallClock(appointment.date, appointment.start_time.substring(0, 5), fromTimeZone, toTimeZone);
+    const end = convertWallClock(appointment.date, appointment.end_time.substring(0, 5), fromTimeZone, toTimeZone);
+    if (start.date !== end.date) {
+      toast({
+        title: "Can't reassign",
+        description: `This session would run past midnight in ${targetClinician.clinician_professional_name}'s time zone.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setPendingReassignment({
+      appointment,
+      fromClinician,
+      toClinician: targetClinician,
+      date: start.date,
+      startTime: start.time,
+      endTime: end.time
+    });
+  };
+
+  const confirmReassignment = async () => {
+    if (!pendingReassignment) return;
+    const { appointment, toClinician, date, startTime, endTime } = pendingReassignment;
+
+    setIsSaving(true);
+    const result = await moveAppointment(appointment.id, {
+      clinician_id: toClinician.id,
+      date,
+      start_time: startTime,
+      end_time: endTime
+    });
+    setIsSaving(false);
+    setPendingReassignment(null);
+
+    if (!result.success) {
+      let description = "Failed to reassign the appointment. Please try again.";
+      if (isLicensureError(result.error)) {
+        description = result.error?.details || `${toClinician.clinician_professional_name} isn't licensed in the client's state.`;
+      } else if (result.error?.message === SLOT_CONFLICT_ERROR) {
+        description = `${toClinician.clinician_professional_name} already has an appointment at this time.`;
+      }
+      toast({ title: "Couldn't reassign", description, variant: "destructive" });
+      return;
+    }
+
+    toast({
+      title: "Appointment reassigned",
+      description: `${appointment.client_name} is now with ${toClinician.clinician_professional_name}.`
+    });
+    setLocalRefresh(prev => prev + 1);
+  };
+
+  const clinicianPicker = (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Users className="h-4 w-4 mr-2" />
+          Clinicians ({selectedClinicians.length})
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="max-h-[320px] overflow-y-auto">
+        <DropdownMenuLabel>Show side by side</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {clinicians.map(clinician => (
+          <DropdownMenuCheckboxItem
+            key={clinician.id}
+            checked={selectedClinicianIds.includes(clinician.id)}
+            onCheckedChange={(checked) => toggleClinician(clinician.id, checked === true)}
+            onSelect={(event) => event.preventDefault()}
+          >
+            {clinician.clinician_professional_name}
+          </DropdownMenuCheckboxItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+
+  const columns = dates.flatMap(date => selectedClinicians.map(clinician => ({ date, clinician })));
+
+  return (
+    <Card className="p-4 overflow-hidden">
+      <div className="flex items-center justify-between mb-3">
+        <p className="text-sm text-gray-500">
+          Times shown in {formatTimeZoneDisplay(viewerTimeZone)}. Drag an appointment onto another clinician to reassign it.
+        </p>
+        {clinicianPicker}
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center items-center h-[300px]">
+          <Loader2 className="h-6 w-6 animate-spin text-valorwell-500" />
+        </div>
+      ) : selectedClinicians.length === 0 ? (
+        <div className="text-sm text-gray-500 text-center py-10">Choose clinicians to compare.</div>
+      ) : (
+        <div className="max-h-[75vh] overflow-auto">
+          <div
+            className="grid"
+            style={{ gridTemplateColumns: `5rem repeat(${columns.length}, minmax(140px, 1fr))` }}
+          >
+            <TimeColumn hours={hours} hourHeight={HOUR_HEIGHT} />
+
+            {columns.map(({ date, clinician }, columnIndex) => {
+              const columnKey = `${date}:${clinician.id}`;
+              const timeOff = getTimeOff(clinician.id, date);
+              const clinicianTimeZone = getClinicianTimeZone(clinician.id);
+              const startsDay = columnIndex % selectedClinicians.length === 0;
+
+              return (
+                <div
+                  key={columnKey}
+                  className={`relative ${startsDay ? 'border-l-2 border-gray-300' : 'border-l border-gray-100'} ${
+                    dropTarget === columnKey ? 'bg-blue-50' : ''
+                  }`}
+                  onDragOver={(event) => {
+                    if (!draggedAppointmentId) return;
+                    event.preventDefault();
+                    setDropTarget(columnKey);
+                  }}
+                  onDragLeave={() => setDropTarget(prev => (prev === columnKey ? null : prev))}
+                  onDrop={(event) => {
+                    event.preventDefault();
+                    handleDrop(clinician);
+                  }}
+                >
+                  <div className="h-14 border-b border-gray-200 flex flex-col items-center justify-center px-1 text-center">
+                    <div className="text-sm font-medium truncate w-full">{clinician.clinician_professional_name}</div>
+                    <div className="text-xs text-gray-500 truncate w-full">
+                      {view === 'week' && `${format(parseISO(date), 'EEE d')} · `}
+                      {clinicianTimeZone ? formatTimeZoneDisplay(clinicianTimeZone) : ''}
+                    </div>
+                  </div>
+
+                  {hours.map((hour) => (
+                    <div key={hour} className="w-full border-b border-gray-200" style={{ height: `${HOUR_HEIGHT}px` }}>
+                      <div className="w-full h-1/2 border-b border-gray-100"></div>
+                    </div>
+                  ))}
+
+                  {timeOff && (
+                    <div
+                      className="absolute left-0 right-0 bottom-0 z-[5] bg-amber-50/80 pointer-events-none"
+                      style={{ top: '56px' }}
+                    >
+                      <div className="m-1 text-xs font-medium text-amber-800 bg-amber-100 rounded px-1 py-0.5 truncate">
+                        {getTimeOffLabel(timeOff)}
+                      </div>
+                    </div>
+                  )}
+
+                  {appointmentBlocks
+                    .filter(block => block.clinicianId === clinician.id && block.viewerDate === date)
+                    .map(block => (
+                      <AppointmentBlock
+                        key={`${block.id}-${block.viewerDate}`}
+                        appointment={block}
+                        hourHeight={HOUR_HEIGHT}
+                        originalAppointments={appointments}
+                        isDuringTimeOff={!!timeOff}
+                        onDragStart={(event) => {
+                          event.dataTransfer.effectAllowed = 'move';
+                          event.dataTransfer.setData('text/plain', block.id);
+                          setDraggedAppointmentId(block.id);
+                        }}
+                      />
+                    ))}
+
+                  {!timeOff && timeBlocks
+                    .filter(block => block.clinicianId === clinician.id && block.viewerDate === date)
+                    .map(block => (
+                      <AvailabilityBlock key={block.id} block={block} day={block.day} hourHeight={HOUR_HEIGHT} />
+                    ))}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <AlertDialog open={!!pendingReassignment} onOpenChange={(open) => !open && setPendingReassignment(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reassign appointment?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingReassignment && (
+                <>
+                  Move {pendingReassignment.appointment.client_name}'s session from {pendingReassignment.fromClinician.clinician_professional_name} to {pendingReassignment.toClinician.clinician_professional_name}.
+                  It will be at {formatTime12Hour(pendingReassignment.startTime)} on {format(parseISO(pendingReassignment.date), 'EEEE, MMMM d')} in {pendingReassignment.toClinician.clinician_professional_name}'s time zone.
+                </>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSaving}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmReassignment} disabled={isSaving}>
+              {isSaving ? 'Reassigning...' : 'Reassign'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default ResourceView;
@@ -0,0 +1,6 @@
+
+import ResourceView from './ResourceView';
+
+export default ResourceView;
+export { useResourceViewData } from './useResourceViewData';
+export type { ResourceClinician, ResourceAppointmentBlock, ResourceTimeBlock } from './useResourceViewData';
@@ -0,0 +1,163 @@
+import { useState, useEffect, useMemo } from 'react';
+import {
+  fetchSlotEngineData,
+  fetchScheduledAppointments,
+  ScheduledAppointment,
+  TimeOffBlock
+} from '@/integrations/supabase/client';
+import {
+  addDaysToDate,
+  getAvailabilityWindows,
+  isDateInTimeOff,
+  timeToMinutes,
+  SlotAvailabilityBlock,
+  SlotAvailabilityException
+} from '@/utils/slotEngine';
+import { getTimeOffForDate } from '@/utils/timeOff';
+import { AppointmentBlock, TimeBlock } from '../week-view/useWeekViewData';
+import { toBlockDate, toViewerSegments } from './utils';
+
+export interface ResourceClinician {
+  id: string;
+  clinician_professional_name: string;
+}
+
+interface ClinicianSchedule {
+  timeZone: string;
+  availability: SlotAvailabilityBlock[];
+  exceptions: SlotAvailabilityException[];
+  timeOff: TimeOffBlock[];
+}
+
+export interface ResourceAppointmentBlock extends AppointmentBlock {
+  clinicianId: string;
+  viewerDate: string;
+}
+
+export interface ResourceTimeBlock extends TimeBlock {
+  clinicianId: string;
+  viewerDate: string;
+}
+
+/**
+ * Appointments and availability for several clinicians over the given viewer
+ * dates. Everything is stored in each clinician's own time zone and converted
+ * to the viewer's here, so the columns line up on real time.
+ */
+export const useResourceViewData = (
+  clinicians: ResourceClinician[],
+  dates: string[],
+  viewerTimeZone: string,
+  refreshTrigger: number = 0
+) => {
+  const [loading, setLoading] = useState(true);
+  const [schedules, setSchedules] = useState<Record<string, ClinicianSchedule>>({});
+  const [appointments, setAppointments] = useState<ScheduledAppointment[]>([]);
+
+  const clinicianIds = clinicians.map(clinician => clinician.id).join(',');
+  const firstDate = dates[0];
+  const lastDate = dates[dates.length - 1];
+
+  useEffect(() => {
+    const ids = clinicianIds ? clinicianIds.split(',') : [];
+    if (ids.length === 0 || !firstDate) {
+      setSchedules({});
+      setAppointments([]);
+      setLoading(false);
+      return;
+    }
+
+    // A day either side, since a clinician's day can land on the viewer's neighbouring date
+    const fetchStart = addDaysToDate(firstDate, -1);
+    const fetchEnd = addDaysToDate(lastDate, 1);
+
+    const fetchSchedules = async () => {
+      setLoading(true);
+      const [results, scheduled] = await Promise.all([
+        Promise.all(ids.map(id => fetchSlotEngineData(id, fetchStart, fetchEnd))),
+        fetchScheduledAppointments(ids, fetchStart, fetchEnd)
+      ]);
+
+      const byClinician: Record<string, ClinicianSchedule> = {};
+      results.forEach((result, index) => {
+        if (result.success && result.data) {
+          byClinician[ids[index]] = {
+            timeZone: result.data.clinicianTimeZone,
+            availability: result.data.availability,
+            exceptions: result.data.exceptions,
+            timeOff: result.data.timeOff
+          };
+        }
+      });
+
+      setSchedules(byClinician);
+      setAppointments(scheduled);
+      setLoading(false);
+    };
+
+    fetchSchedules();
+  }, [clinicianIds, firstDate, lastDate, refreshTrigger]);
+
+  const appointmentBlocks = useMemo(() => appointments.flatMap(appointment => {
+    const schedule = schedules[appointment.clinician_id];
+    if (!schedule) return [];
+
+    return toViewerSegments(
+      appointment.date,
+      timeToMinutes(appointment.start_time),
+      timeToMinutes(appointment.end_time),
+      schedule.timeZone,
+      viewerTimeZone
+    ).map((segment): ResourceAppointmentBlock => ({
+      id: appointment.id,
+      day: toBlockDate(segment.date, 0),
+      start: toBlockDate(segment.date, segment.start),
+      end: toBlockDate(segment.date, segment.end),
+      clientId: appointment.client_id,
+      type: appointment.type,
+      clientName: appointment.client_name,
+      clinicianId: appointment.clinician_id,
+      viewerDate: segment.date
+    }));
+  }), [appointments, schedules, viewerTimeZone]);
+
+  const timeBlocks = useMemo(() => {
+    if (!firstDate) return [];
+    const clinicianDates = [addDaysToDate(firstDate, -1), ...dates, addDaysToDate(lastDate, 1)];
+
+    return Object.entries(schedules).flatMap(([clinicianId, schedule]) =>
+      clinicianDates
+        .filter(date => !isDateInTimeOff(date, schedule.timeOff))
+        .flatMap(date =>
+          getAvailabilityWindows(date, schedule.availability, schedule.exceptions).flatMap((window, index) =>
+            toViewerSegments(date, window.start, window.end, schedule.timeZone, viewerTimeZone)
+              .filter(segment => dates.includes(segment.date))
+              .map((segment): ResourceTimeBlock => ({
+                id: `${clinicianId}-${date}-${index}`,
+                day: toBlockDate(segment.date, 0),
+                start: toBlockDate(segment.date, segment.start),
+                end: toBlockDate(segment.date, segment.end),
+                availabilityIds: [],
+                clinicianId,
+                viewerDate: segment.date
+              }))
+          )
+        )
+    );
+  }, [schedules, dates, firstDate, lastDate, viewerTimeZone]);
+
+  // Time off is kept in whole clinician-local days; shade the matching viewer date
+  const getTimeOff = (clinicianId: string, date: string) =>
+    getTimeOffForDate(date, schedules[clinicianId]?.timeOff || []);
+
+  const getClinicianTimeZone = (clinicianId: string) => schedules[clinicianId]?.timeZone;
+
+  return {
+    loading,
+    appointments,
+    appointmentBlocks,
+    timeBlocks,
+    getTimeOff,
+    getClinicianTimeZone
+  };
+};
@@ -0,0 +1,51 @@
+import { setMinutes, startOfDay, parseISO } from 'date-fns';
+import {
+  minutesToTime,
+  timeToMinutes,
+  toZonedParts,
+  zonedTimeToInstant
+} from '@/utils/slotEngine';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export interface ViewerSegment {
+  date: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * A clinician-local time range (minutes after midnight on `date`) as it falls
+ * on the viewer's calendar. Ranges that cross the viewer's midnight come back
+ * as two segments, one per day.
+ */
+export const toViewerSegments = (
+  date: string,
+  startMinutes: number,
+  endMinutes: number,
+  fromTimeZone: string,
+  viewerTimeZone: string
+): ViewerSegment[] => {
+  const start = zonedTimeToInstant(date, minutesToTime(startMinutes), fromTimeZone);
+  const end = new Date(start.getTime() + (endMinutes - startMinutes) * 60000);
+  const viewerStart = toZonedParts(start, viewerTimeZone);
+  const viewerEnd = toZonedParts(end, viewerTimeZone);
+
+  if (viewerStart.date === viewerEnd.date) {
+    return [{ date: viewerStart.date, start: timeToMinutes(viewerStart.time), end: timeToMinutes(viewerEnd.time) }];
+  }
+
+  const segments = [{ date: viewerStart.date, start: timeToMinutes(viewerStart.time), end: MINUTES_PER_DAY }];
+  if (viewerEnd.time !== '00:00') {
+    segments.push({ date: viewerEnd.date, start: 0, end: timeToMinutes(viewerEnd.time) });
+  }
+  return segments;
+};
+
+// Same wall-clock moment for another clinician, e.g. when reassigning an appointment
+export const convertWallClock = (date: string, time: string, fromTimeZone: string, toTimeZone: string) =>
+  toZonedParts(zonedTimeToInstant(date, time, fromTimeZone), toTimeZone);
+
+// Local Date objects for the week-view blocks, which position themselves by getHours()
+export const toBlockDate = (date: string, minutes: number) =>
+  setMinutes(startOfDay(parseISO(date)), Math.min(minutes, MINUTES_PER_DAY - 1));
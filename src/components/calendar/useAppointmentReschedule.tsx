@@ -0,0 +1,270 @@
+import React, { useState } from 'react';
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
+import {
+  fetchSeriesSessions,
+  fetchSlotEngineData,
+  rescheduleAppointments,
+  splitAppointmentSeries,
+  AppointmentReschedule
+} from '@/integrations/supabase/client';
+import {
+  addDaysToDate,
+  findAppointmentConflict,
+  getAvailabilityWindows,
+  getClosureForDate,
+  isDateInTimeOff,
+  timeToMinutes,
+  SLOT_CONFLICT_ERROR
+} from '@/utils/slotEngine';
+import { isLicensureError } from '@/utils/licenses';
+import { formatTime12Hour } from '@/utils/timeZoneUtils';
+import { RecurringEditMode } from './RecurringEditDialog';
+
+export interface ReschedulableAppointment {
+  id: string;
+  date: string;
+  start_time: string;
+  end_time: string;
+  recurring_group_id?: string | null;
+  recurrence_date?: string | null;
+}
+
+// Where an appointment was dropped, in the clinician's local date and times
+export interface RescheduleTarget {
+  date: string;
+  start_time: string;
+  end_time: string;
+}
+
+interface PendingReschedule {
+  appointment: ReschedulableAppointment;
+  target: RescheduleTarget;
+}
+
+// One session that would move, and where it would land
+interface PlannedMove {
+  id: string;
+  target: RescheduleTarget;
+}
+
+const getRescheduleErrorMessage = (error?: { message?: string; details?: string }) => {
+  if (isLicensureError(error)) {
+    return error?.details || "The clinician isn't licensed in the client's state on the new date.";
+  }
+  if (error?.message === SLOT_CONFLICT_ERROR) {
+    return 'Another appointment is already booked at this time.';
+  }
+  return 'Failed to move the appointment. Please try again.';
+};
+
+/**
+ * Drag-and-drop rescheduling for the calendar views. Recurring appointments ask
+ * whether to move just this session or the rest of the series. Every session
+ * that would move is checked against the clinician's other appointments
+ * (blocking) and practice closures, time off and availability (confirm to
+ * override), and every move can be undone from its toast.
+ */
+export const useAppointmentReschedule = (clinicianId: string | null, onRescheduled: () => void) => {
+  const [pending, setPending] = useState<PendingReschedule | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const checkMoves = async (moves: PlannedMove[]) => {
+    if (!clinicianId || moves.length === 0) return false;
+
+    const dates = moves.map(move => move.target.date).sort();
+    const result = await fetchSlotEngineData(clinicianId, dates[0], dates[dates.length - 1]);
+    if (!result.success || !result.data) {
+      toast({
+        title: "Couldn't move appointment",
+        description: "The clinician's schedule couldn't be checked. Please try again.",
+        variant: "destructive"
+      });
+      return false;
+    }
+
+    const { availability, exceptions, timeOff, closures } = result.data;
+    // Sessions of the series that move together can't conflict with each other's old times
+    const movingIds = moves.map(move => move.id);
+    const appointments = result.data.appointments.filter(appointment => !movingIds.includes(appointment.id));
+
+    const conflict = moves.find(move => findAppointmentConflict(move.target, appointments));
+    if (conflict) {
+      toast({
+        title: "Time unavailable",
+        description: moves.length > 1
+          ? `Another appointment is already booked at this time on ${format(parseISO(conflict.target.date), 'EEE, MMM d')}.`
+          : 'Another appointment is already booked at this time.',
+        variant: "destructive"
+      });
+      return false;
+    }
+
+    const closedDates: string[] = [];
+    const timeOffDates: string[] = [];
+    const unavailableDates: string[] = [];
+    const closureNames = new Set<string>();
+
+    moves.forEach(({ target }) => {
+      const closure = getClosureForDate(target.date, closures);
+      const start = timeToMinutes(target.start_time);
+      const end = timeToMinutes(target.end_time);
+      if (closure) {
+        closedDates.push(target.date);
+        closureNames.add(closure.name);
+      } else if (isDateInTimeOff(target.date, timeOff)) {
+        timeOffDates.push(target.date);
+      } else if (!getAvailabilityWindows(target.date, availability, exceptions).some(window => window.start <= start && window.end >= end)) {
+        unavailableDates.push(target.date);
+      }
+    });
+
+    const isSeries = moves.length > 1;
+    const closureList = Array.from(closureNames).join(', ');
+    if (closedDates.length > 0 && !window.confirm(isSeries
+      ? `${closedDates.length} of the ${moves.length} sessions fall on days the practice is closed (${closureList}). Move the series anyway?`
+      : `The practice is closed on this day (${closureList}). Move the appointment anyway?`)) {
+      return false;
+    }
+    if (timeOffDates.length > 0 && !window.confirm(isSeries
+      ? `The clinician is off for ${timeOffDates.length} of the ${moves.length} sessions. Move the series anyway?`
+      : 'The clinician is off on this day. Move the appointment anyway?')) {
+      return false;
+    }
+    if (unavailableDates.length > 0 && !window.confirm(isSeries
+      ? `${unavailableDates.length} of the ${moves.length} sessions are outside the clinician's availability. Move the series anyway?`
+      : "This time is outside the clinician's availability. Move the appointment anyway?")) {
+      return false;
+    }
+
+    return true;
+  };
+
+  // "This and following" moves the session and every later one in its series
+  // by the same number of days, all to the new times
+  const getSeriesMoves = async (appointment: ReschedulableAppointment, target: RescheduleTarget) => {
+    if (!appointment.recurring_group_id) return null;
+
+    const result = await fetchSeriesSessions(appointment.recurring_group_id);
+    if (!result.success || !result.data) return null;
+
+    const from = appointment.recurrence_date || appointment.date;
+    const dayOffset = differenceInCalendarDays(parseISO(target.date), parseISO(appointment.date));
+    return result.data
+      .filter(session => (session.recurrence_date || session.date) >= from)
+      .map(session => ({
+        id: session.id,
+        target: { date: addDaysToDate(session.date, dayOffset), start_time: target.start_time, end_time: target.end_time }
+      }));
+  };
+
+  const undoReschedule = async (previous: AppointmentReschedule[]) => {
+    const result = await rescheduleAppointments(previous);
+    if (!result.success) {
+      toast({
+        title: "Couldn't undo",
+        description: getRescheduleErrorMessage(result.error),
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({ title: "Move undone" });
+    onRescheduled();
+  };
+
+  const applyReschedule = async (
+    appointment: ReschedulableAppointment,
+    target: RescheduleTarget,
+    mode: RecurringEditMode
+  ) => {
+    setIsSaving(true);
+    // A single session keeps its place in the series as an exception; "this and
+    // following" splits the rest off into a series of its own
+    const result = mode === 'series' && appointment.recurring_group_id
+      ? await splitAppointmentSeries(appointment, {
+          dayOffset: differenceInCalendarDays(parseISO(target.date), parseISO(appointment.date)),
+          startTime: target.start_time,
+          endTime: target.end_time
+        })
+      : await rescheduleAppointments([{ id: appointment.id, ...target }]);
+    setIsSaving(false);
+    setPending(null);
+
+    if (!result.success || !result.previous) {
+      toast({
+        title: "Couldn't move appointment",
+        description: getRescheduleErrorMessage(result.error),
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const previous = result.previous;
+    const when = `${format(parseISO(target.date), 'EEE, MMM d')} at ${formatTime12Hour(target.start_time)}`;
+    toast({
+      title: "Appointment moved",
+      description: result.data.length > 1
+        ? `${result.data.length} sessions in the series moved, starting ${when}.`
+        : `Moved to ${when}.`,
+      action: (
+        <ToastAction altText="Undo the move" onClick={() => undoReschedule(previous)}>
+          Undo
+        </ToastAction>
+      )
+    });
+    onRescheduled();
+  };
+
+  const requestReschedule = async (appointment: ReschedulableAppointment, target: RescheduleTarget) => {
+    const isUnchanged = appointment.date === target.date &&
+      timeToMinutes(appointment.start_time) === timeToMinutes(target.start_time) &&
+      timeToMinutes(appointment.end_time) === timeToMinutes(target.end_time);
+    if (isUnchanged || isSaving) return;
+
+    // Which sessions to check depends on whether the whole series moves
+    if (appointment.recurring_group_id) {
+      setPending({ appointment, target });
+      return;
+    }
+
+    if (await checkMoves([{ id: appointment.id, target }])) {
+      applyReschedule(appointment, target, 'single');
+    }
+  };
+
+  const confirmSeriesReschedule = async (mode: RecurringEditMode) => {
+    if (!pending) return;
+
+    const { appointment, target } = pending;
+    const moves = mode === 'series'
+      ? await getSeriesMoves(appointment, target)
+      : [{ id: appointment.id, target }];
+
+    if (!moves) {
+      setPending(null);
+      toast({
+        title: "Couldn't move appointment",
+        description: "The rest of the series couldn't be loaded. Please try again.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (await checkMoves(moves)) {
+      applyReschedule(appointment, target, mode);
+    } else {
+      setPending(null);
+    }
+  };
+
+  return {
+    requestReschedule,
+    isSeriesPromptOpen: !!pending,
+    closeSeriesPrompt: () => setPending(null),
+    confirmSeriesReschedule,
+    isSaving
+  };
+};
@@ -9,7 +9,9 @@ import {
   parseISO,
 } from 'date-fns';
 import { formatDateToTime12Hour } from '@/utils/timeZoneUtils';
-import { supabase } from '@/integrations/supabase/client';
+import { supabase, fetchPracticeClosures, fetchTimeOffBlocks, PracticeClosure, TimeOffBlock } from '@/integrations/supabase/client';
+import { getTimeOffForDate } from '@/utils/timeOff';
+import { getClosureForDate } from '@/utils/slotEngine';
 
 interface Appointment {
   id: string;
@@ -51,6 +53,8 @@ export const useMonthViewData = (
   const [loading, setLoading] = useState(true);
   const [availabilityData, setAvailabilityData] = useState<AvailabilityBlock[]>([]);
   const [exceptions, setExceptions] = useState<AvailabilityException[]>([]);
+  const [timeOffBlocks, setTimeOffBlocks] = useState<TimeOffBlock[]>([]);
+  const [closures, setClosures] = useState<PracticeClosure[]>([]);
 
   const { monthStart, monthEnd, startDate, endDate, days } = useMemo(() => {
     if (weekViewMode) {
@@ -138,6 +142,56 @@ export const useMonthViewData = (
     fetchAvailabilityAndExceptions();
   }, [clinicianId, refreshTrigger, startDate, endDate]);
 
+  useEffect(() => {
+    if (!clinicianId) {
+      setTimeOffBlocks([]);
+      return;
+    }
+
+    const loadTimeOff = async () => {
+      setTimeOffBlocks(await fetchTimeOffBlocks(clinicianId, format(startDate, 'yyyy-MM-dd'), format(endDate, 'yyyy-MM-dd')));
+    };
+
+    loadTimeOff();
+  }, [clinicianId, refreshTrigger, startDate, endDate]);
+
+  // Practice closures apply to every clinician, so they show whoever is selected
+  useEffect(() => {
+    const loadClosures = async () => {
+      setClosures(await fetchPracticeClosures(format(startDate, 'yyyy-MM-dd'), format(endDate, 'yyyy-MM-dd')));
+    };
+
+    loadClosures();
+  }, [refreshTrigger, startDate, endDate]);
+
+  const dayClosureMap = useMemo(() => {
+    const result = new Map<string, PracticeClosure>();
+
+    days.forEach(day => {
+      const dateStr = format(day, 'yyyy-MM-dd');
+      const closure = getClosureForDate(dateStr, closures);
+      if (closure) {
+        result.set(dateStr, closure);
+      }
+    });
+
+    return result;
+  }, [days, closures]);
+
+  const dayTimeOffMap = useMemo(() => {
+    const result = new Map<string, TimeOffBlock>();
+
+    days.forEach(day => {
+      const dateStr = format(day, 'yyyy-MM-dd');
+      const block = getTimeOffForDate(dateStr, timeOffBlocks);
+      if (block) {
+        result.set(dateStr, block);
+      }
+    });
+
+    return result;
+  }, [days, timeOffBlocks]);
+
   const dayAvailabilityMap = useMemo(() => {
     const result = new Map<string, { 
       hasAvailability: boolean, 
@@ -234,6 +288,8 @@ export const useMonthViewData = (
     days,
     dayAvailabilityMap,
     dayAppointmentsMap,
-    availabilityByDay
+    availabilityByDay,
+    dayTimeOffMap,
+    dayClosureMap
   };
 };
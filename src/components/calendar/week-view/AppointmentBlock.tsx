@@ -1,5 +1,5 @@
 
-import React from 'react';
+import React, { useRef, useState } from 'react';
 import { format } from 'date-fns';
 import { AppointmentBlock as AppointmentBlockType, Appointment } from './useWeekViewData';
 
@@ -8,14 +8,27 @@ interface AppointmentBlockProps {
   hourHeight: number;
   onAppointmentClick?: (appointment: Appointment) => void;
   originalAppointments: Appointment[];
+  isDuringTimeOff?: boolean;
+  showType?: boolean;
+  // Makes the block draggable, e.g. to hand it to another clinician
+  onDragStart?: (event: React.DragEvent<HTMLDivElement>, appointment: AppointmentBlockType) => void;
+  // Adds a handle on the bottom edge for dragging out a new length, snapped to 15 minutes
+  onResize?: (appointment: AppointmentBlockType, durationMinutes: number) => void;
 }
 
 const AppointmentBlock: React.FC<AppointmentBlockProps> = ({
   appointment,
   hourHeight,
   onAppointmentClick,
-  originalAppointments
+  originalAppointments,
+  isDuringTimeOff = false,
+  showType = false,
+  onDragStart,
+  onResize
 }) => {
+  const [resizeHeight, setResizeHeight] = useState<number | null>(null);
+  const justResizedRef = useRef(false);
+
   // Calculate position and height based on start and end time
   const startHour = appointment.start.getHours() + (appointment.start.getMinutes() / 60);
   const endHour = appointment.end.getHours() + (appointment.end.getMinutes() / 60);
@@ -25,6 +38,11 @@ const AppointmentBlock: React.FC<AppointmentBlockProps> = ({
   const height = duration * hourHeight;
 
   const handleClick = () => {
+    // Letting go of a resize inside the block shouldn't also open it
+    if (justResizedRef.current) {
+      justResizedRef.current = false;
+      return;
+    }
     if (onAppointmentClick) {
       const originalAppointment = originalAppointments.find(app => 
         app.id === appointment.id
@@ -35,15 +53,53 @@ const AppointmentBlock: React.FC<AppointmentBlockProps> = ({
     }
   };
 
+  const handleResizeStart = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!onResize) return;
+    // Stops the browser from starting a drag of the whole block
+    event.preventDefault();
+    event.stopPropagation();
+
+    const startY = event.clientY;
+    const snapHeight = hourHeight / 4;
+    const maxHeight = (24 - startHour) * hourHeight;
+    let nextHeight = height;
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      const snapped = Math.round((height + moveEvent.clientY - startY) / snapHeight) * snapHeight;
+      nextHeight = Math.min(Math.max(snapped, snapHeight), maxHeight);
+      setResizeHeight(nextHeight);
+    };
+
+    const handleMouseUp = () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+      setResizeHeight(null);
+      justResizedRef.current = true;
+      if (nextHeight !== height) {
+        onResize(appointment, Math.round((nextHeight / hourHeight) * 60));
+      }
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+  };
+
+  const displayHeight = resizeHeight ?? height;
+
   return (
     <div 
-      className="absolute left-0.5 right-0.5 z-10 rounded-md border border-blue-400 bg-blue-50 p-1 overflow-hidden cursor-pointer hover:bg-blue-100 transition-colors shadow-sm"
+      className={`absolute left-0.5 right-0.5 z-10 rounded-md border p-1 overflow-hidden cursor-pointer transition-colors shadow-sm ${
+        isDuringTimeOff ? 'border-red-400 bg-red-50 hover:bg-red-100' : 'border-blue-400 bg-blue-50 hover:bg-blue-100'
+      }`}
+      title={isDuringTimeOff ? 'Falls during time off; needs rescheduling' : undefined}
       style={{ 
         top: `${top}px`, 
-        height: `${height}px`,
-        maxHeight: `${Math.max(height, 24)}px` // Ensure minimum height for very short appointments
+        height: `${displayHeight}px`,
+        maxHeight: `${Math.max(displayHeight, 24)}px` // Ensure minimum height for very short appointments
       }}
       onClick={handleClick}
+      draggable={!!onDragStart}
+      onDragStart={onDragStart ? (event) => onDragStart(event, appointment) : undefined}
     >
       <div className="flex flex-col h-full text-xs">
         <div className="font-medium truncate">{appointment.clientName}</div>
@@ -52,7 +108,17 @@ const AppointmentBlock: React.FC<AppointmentBlockProps> = ({
             {format(appointment.start, 'h:mm a')} - {format(appointment.end, 'h:mm a')}
           </div>
         )}
+        {showType && height >= 60 && (
+          <div className="text-[10px] text-gray-500 truncate">{appointment.type}</div>
+        )}
       </div>
+      {onResize && (
+        <div
+          className="absolute left-0 right-0 bottom-0 h-1.5 cursor-ns-resize hover:bg-blue-300/60"
+          onMouseDown={handleResizeStart}
+          onClick={(event) => event.stopPropagation()}
+        />
+      )}
     </div>
   );
 };
@@ -1,5 +1,5 @@
 
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   format,
   startOfWeek,
@@ -12,11 +12,16 @@ import {
 } from 'date-fns';
 import { Card } from '@/components/ui/card';
 import { Loader2 } from 'lucide-react';
-import { useWeekViewData } from './useWeekViewData';
+import { useWeekViewData, AppointmentBlock as AppointmentBlockType } from './useWeekViewData';
 import { WeekViewProps } from './types';
 import AppointmentBlock from './AppointmentBlock';
 import AvailabilityBlock from './AvailabilityBlock';
 import TimeColumn from './TimeColumn';
+import { getTimeOffLabel } from '@/utils/timeOff';
+import { minutesToTime, timeToMinutes } from '@/utils/slotEngine';
+
+const HEADER_HEIGHT = 56;
+const SNAP_MINUTES = 15;
 
 const WeekView: React.FC<WeekViewProps> = ({ 
   currentDate, 
@@ -25,8 +30,13 @@ const WeekView: React.FC<WeekViewProps> = ({
   appointments = [],
   getClientName = () => 'Client',
   onAppointmentClick,
-  onAvailabilityClick
+  onAvailabilityClick,
+  onAppointmentReschedule
 }) => {
+  // The appointment being dragged and how far down the block it was picked up, in minutes
+  const [dragged, setDragged] = useState<{ id: string; grabOffset: number } | null>(null);
+  const [dropDay, setDropDay] = useState<string | null>(null);
+
   // Create array of days for the week and time slots for each day
   const { days, hours } = useMemo(() => {
     const days = eachDayOfInterval({
@@ -44,12 +54,51 @@ const WeekView: React.FC<WeekViewProps> = ({
   const {
     loading,
     timeBlocks,
-    appointmentBlocks
+    appointmentBlocks,
+    getTimeOffForDay
   } = useWeekViewData(days, clinicianId, refreshTrigger, appointments, getClientName);
 
   // Calculate the height of each hour cell
   const hourHeight = 60; // pixels per hour
 
+  const handleDragStart = (event: React.DragEvent<HTMLDivElement>, block: AppointmentBlockType) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    event.dataTransfer.effectAllowed = 'move';
+    setDragged({ id: block.id, grabOffset: ((event.clientY - rect.top) / hourHeight) * 60 });
+  };
+
+  // Keeps the session's length and lines its top edge up with the nearest 15 minutes
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>, day: Date) => {
+    event.preventDefault();
+    setDropDay(null);
+    setDragged(null);
+    const appointment = appointments.find(a => a.id === dragged?.id);
+    if (!dragged || !appointment || !onAppointmentReschedule) return;
+
+    const rect = event.currentTarget.getBoundingClientRect();
+    const duration = timeToMinutes(appointment.end_time) - timeToMinutes(appointment.start_time);
+    const pointer = ((event.clientY - rect.top - HEADER_HEIGHT) / hourHeight) * 60 - dragged.grabOffset;
+    const start = Math.min(Math.max(Math.round(pointer / SNAP_MINUTES) * SNAP_MINUTES, 0), 24 * 60 - duration);
+
+    onAppointmentReschedule(appointment, {
+      date: format(day, 'yyyy-MM-dd'),
+      start_time: minutesToTime(start),
+      end_time: minutesToTime(start + duration)
+    });
+  };
+
+  const handleResize = (block: AppointmentBlockType, durationMinutes: number) => {
+    const appointment = appointments.find(a => a.id === block.id);
+    if (!appointment || !onAppointmentReschedule) return;
+
+    const start = timeToMinutes(appointment.start_time);
+    onAppointmentReschedule(appointment, {
+      date: appointment.date,
+      start_time: appointment.start_time.substring(0, 5),
+      end_time: minutesToTime(start + durationMinutes)
+    });
+  };
+
   if (loading) {
     return (
       <Card className="p-4 flex justify-center items-center h-[300px]">
@@ -60,63 +109,98 @@ const WeekView: React.FC<WeekViewProps> = ({
 
   return (
     <Card className="p-4 overflow-hidden">
-      <div className="grid grid-cols-8 h-[1500px]">
+      <div
+        className="grid grid-cols-8 h-[1500px]"
+        onDragEnd={() => {
+          setDragged(null);
+          setDropDay(null);
+        }}
+      >
         {/* Time column */}
         <TimeColumn hours={hours} hourHeight={hourHeight} />
 
         {/* Days columns */}
-        {days.map((day, dayIndex) => (
-          <div key={day.toString()} className="col-span-1 relative">
-            {/* Day header */}
-            <div className="h-14 border-b border-gray-200 flex flex-col items-center justify-center">
-              <div className="text-sm text-gray-500">{format(day, 'EEE')}</div>
-              <div className={`text-lg ${format(day, 'yyyy-MM-dd') === format(new Date(), 'yyyy-MM-dd') ? 
-                'bg-valorwell-500 text-white rounded-full w-8 h-8 flex items-center justify-center' : ''}`}>
-                {format(day, 'd')}
+        {days.map((day) => {
+          const timeOff = getTimeOffForDay(day);
+          const dayKey = format(day, 'yyyy-MM-dd');
+          return (
+            <div
+              key={day.toString()}
+              className={`col-span-1 relative ${dropDay === dayKey ? 'bg-blue-50/50' : ''}`}
+              onDragOver={(event) => {
+                if (!dragged) return;
+                event.preventDefault();
+                setDropDay(dayKey);
+              }}
+              onDragLeave={() => setDropDay(prev => (prev === dayKey ? null : prev))}
+              onDrop={(event) => handleDrop(event, day)}
+            >
+              {/* Day header */}
+              <div className="h-14 border-b border-gray-200 flex flex-col items-center justify-center">
+                <div className="text-sm text-gray-500">{format(day, 'EEE')}</div>
+                <div className={`text-lg ${format(day, 'yyyy-MM-dd') === format(new Date(), 'yyyy-MM-dd') ? 
+                  'bg-valorwell-500 text-white rounded-full w-8 h-8 flex items-center justify-center' : ''}`}>
+                  {format(day, 'd')}
+                </div>
               </div>
-            </div>
 
-            {/* Hour cells background */}
-            {hours.map((hour) => (
-              <div 
-                key={hour} 
-                className="w-full border-b border-gray-200" 
-                style={{ height: `${hourHeight}px` }}
-              >
-                {/* Half-hour divider */}
-                <div className="w-full h-1/2 border-b border-gray-100"></div>
-              </div>
-            ))}
-
-            {/* Appointment blocks - rendered on top using absolute positioning */}
-            {appointmentBlocks
-              .filter(appt => isSameDay(appt.day, day))
-              .map(appointment => (
-                <AppointmentBlock 
-                  key={appointment.id}
-                  appointment={appointment}
-                  hourHeight={hourHeight}
-                  onAppointmentClick={onAppointmentClick}
-                  originalAppointments={appointments}
-                />
+              {/* Hour cells background */}
+              {hours.map((hour) => (
+                <div 
+                  key={hour} 
+                  className="w-full border-b border-gray-200" 
+                  style={{ height: `${hourHeight}px` }}
+                >
+                  {/* Half-hour divider */}
+                  <div className="w-full h-1/2 border-b border-gray-100"></div>
+                </div>
               ))}
 
-            {/* Availability blocks - rendered with a lower z-index than appointments */}
-            {timeBlocks
-              .filter(block => isSameDay(block.day, day))
-              .map((block, index) => (
-                <AvailabilityBlock
-                  key={`${block.availabilityIds.join('-')}-${index}`}
-                  block={block}
-                  day={day}
-                  hourHeight={hourHeight}
-                  onAvailabilityClick={onAvailabilityClick ? 
-                    (day, block) => onAvailabilityClick(day, block) : 
-                    undefined}
-                />
-              ))}
-          </div>
-        ))}
+              {/* Time off shades the whole day; availability is hidden underneath */}
+              {timeOff && (
+                <div
+                  className="absolute left-0 right-0 bottom-0 z-[5] bg-amber-50/80 border-x border-amber-100 pointer-events-none"
+                  style={{ top: `${HEADER_HEIGHT}px` }}
+                >
+                  <div className="m-1 text-xs font-medium text-amber-800 bg-amber-100 rounded px-1 py-0.5 truncate">
+                    {getTimeOffLabel(timeOff)}
+                  </div>
+                </div>
+              )}
+
+              {/* Appointment blocks - rendered on top using absolute positioning */}
+              {appointmentBlocks
+                .filter(appt => isSameDay(appt.day, day))
+                .map(appointment => (
+                  <AppointmentBlock 
+                    key={appointment.id}
+                    appointment={appointment}
+                    hourHeight={hourHeight}
+                    onAppointmentClick={onAppointmentClick}
+                    originalAppointments={appointments}
+                    isDuringTimeOff={!!timeOff}
+                    onDragStart={onAppointmentReschedule ? handleDragStart : undefined}
+                    onResize={onAppointmentReschedule ? handleResize : undefined}
+                  />
+                ))}
+
+              {/* Availability blocks - rendered with a lower z-index than appointments */}
+              {!timeOff && timeBlocks
+                .filter(block => isSameDay(block.day, day))
+                .map((block, index) => (
+                  <AvailabilityBlock
+                    key={`${block.availabilityIds.join('-')}-${index}`}
+                    block={block}
+                    day={day}
+                    hourHeight={hourHeight}
+                    onAvailabilityClick={onAvailabilityClick ? 
+                      (day, block) => onAvailabilityClick(day, block) : 
+                      undefined}
+                  />
+                ))}
+            </div>
+          );
+        })}
       </div>
     </Card>
   );
@@ -1,5 +1,6 @@
 
 import { TimeBlock } from './useWeekViewData';
+import { RescheduleTarget } from '../useAppointmentReschedule';
 
 export interface WeekViewProps {
   currentDate: Date;
@@ -9,6 +10,8 @@ export interface WeekViewProps {
   getClientName?: (clientId: string) => string;
   onAppointmentClick?: (appointment: Appointment) => void;
   onAvailabilityClick?: (day: Date, block: TimeBlock) => void;
+  // Enables dragging appointments to a new time and resizing them
+  onAppointmentReschedule?: (appointment: Appointment, target: RescheduleTarget) => void;
   userTimeZone?: string;
 }
 
@@ -20,6 +23,8 @@ export interface Appointment {
   end_time: string;
   type: string;
   status: string;
+  recurring_group_id?: string | null;
+  recurrence_date?: string | null;
 }
 
 export interface AvailabilityBlock {
@@ -7,7 +7,8 @@ import {
   setMinutes,
   parseISO
 } from 'date-fns';
-import { supabase } from '@/integrations/supabase/client';
+import { supabase, fetchTimeOffBlocks, TimeOffBlock } from '@/integrations/supabase/client';
+import { getTimeOffForDate } from '@/utils/timeOff';
 
 interface Appointment {
   id: string;
@@ -75,6 +76,7 @@ export const useWeekViewData = (
   const [availabilityBlocks, setAvailabilityBlocks] = useState<AvailabilityBlock[]>([]);
   const [exceptions, setExceptions] = useState<AvailabilityException[]>([]);
   const [appointmentBlocks, setAppointmentBlocks] = useState<AppointmentBlock[]>([]);
+  const [timeOffBlocks, setTimeOffBlocks] = useState<TimeOffBlock[]>([]);
 
   // Process appointments into blocks
   useEffect(() => {
@@ -229,6 +231,23 @@ export const useWeekViewData = (
     fetchAvailability();
   }, [clinicianId, refreshTrigger, days]);
 
+  useEffect(() => {
+    if (!clinicianId || days.length === 0) {
+      setTimeOffBlocks([]);
+      return;
+    }
+
+    const loadTimeOff = async () => {
+      setTimeOffBlocks(await fetchTimeOffBlocks(
+        clinicianId,
+        format(days[0], 'yyyy-MM-dd'),
+        format(days[days.length - 1], 'yyyy-MM-dd')
+      ));
+    };
+
+    loadTimeOff();
+  }, [clinicianId, refreshTrigger, days]);
+
   // Process availability data with exceptions
   const processAvailabilityWithExceptions = (blocks: AvailabilityBlock[], exceptionsData: AvailabilityException[]) => {
     const allTimeBlocks: TimeBlock[] = [];
@@ -477,6 +496,8 @@ export const useWeekViewData = (
     return availabilityBlocks.find(block => block.id === blockId);
   };
 
+  const getTimeOffForDay = (day: Date) => getTimeOffForDate(format(day, 'yyyy-MM-dd'), timeOffBlocks);
+
   return {
     loading,
     timeBlocks,
@@ -484,6 +505,7 @@ export const useWeekViewData = (
     exceptions,
     availabilityBlocks,
     getAvailabilityForBlock,
+    getTimeOffForDay,
     ...timeSlotUtils
   };
 };
@@ -0,0 +1,397 @@
+import { useState, useEffect, useMemo } from 'react';
+import { AlertCircle, Download, FileText } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { saveClaim, Claim } from '@/integrations/supabase/client';
+import { BillingSessionNote, CLAIM_STATUS_LABELS, PLACE_OF_SERVICE_OPTIONS, validateClaim } from '@/utils/claims';
+import { generateCMS1500PDF } from '@/utils/cms1500';
+import { download837P } from '@/utils/claim837';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+
+const RELATIONSHIPS = ['Self', 'Spouse', 'Child', 'Other'];
+
+interface ClaimEditorDialogProps {
+  claim: Claim | null;
+  sessionNote: BillingSessionNote | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (claim: Claim) => void;
+}
+
+const ClaimEditorDialog = ({ claim, sessionNote, open, onOpenChange, onSaved }: ClaimEditorDialogProps) => {
+  const [draft, setDraft] = useState<Claim | null>(claim);
+  const [diagnosisText, setDiagnosisText] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(claim);
+    setDiagnosisText(claim?.diagnosis_codes.join(', ') || '');
+  }, [claim]);
+
+  const issues = useMemo(() => (draft ? validateClaim(draft, sessionNote) : []), [draft, sessionNote]);
+
+  if (!draft) return null;
+
+  // Submitted and paid claims are what the payer has; only drafts and denials can be corrected
+  const isLocked = draft.status === 'submitted' || draft.status === 'paid';
+
+  const updateField = <K extends keyof Claim>(field: K, value: Claim[K]) => {
+    setDraft(prev => (prev ? { ...prev, [field]: value } : prev));
+  };
+
+  const textValue = (field: keyof Claim) => (draft[field] as string | null) || '';
+  const setText = (field: keyof Claim) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    updateField(field, (e.target.value || null) as Claim[typeof field]);
+
+  const handleDiagnosisChange = (value: string) => {
+    setDiagnosisText(value);
+    updateField('diagnosis_codes', value.split(',').map(code => code.trim().toUpperCase()).filter(Boolean));
+  };
+
+  const persist = async (changes: Partial<Claim> = {}) => {
+    setIsSaving(true);
+    const result = await saveClaim({ ...draft, ...changes });
+    setIsSaving(false);
+
+    if (!result.success || !result.data) {
+      toast({
+        title: 'Error',
+        description: 'Failed to save claim',
+        variant: 'destructive',
+      });
+      return null;
+    }
+
+    setDraft(result.data);
+    onSaved(result.data);
+    return result.data;
+  };
+
+  const handleSave = async () => {
+    if (await persist()) {
+      toast({ title: 'Claim saved', description: 'The claim has been saved.' });
+    }
+  };
+
+  // Exports always reflect what is stored, so save pending edits first
+  const handleDownloadPDF = async () => {
+    const saved = await persist();
+    if (saved) generateCMS1500PDF(saved);
+  };
+
+  const handleDownload837 = async () => {
+    const saved = await persist();
+    if (saved) download837P(saved);
+  };
+
+  const handleStatusChange = async (status: Claim['status']) => {
+    const now = new Date().toISOString();
+    const changes: Partial<Claim> = { status };
+
+    if (status === 'submitted') {
+      changes.submitted_at = now;
+      changes.denial_reason = null;
+    } else if (status === 'paid') {
+      if (!(Number(draft.paid_amount) > 0)) {
+        toast({ title: 'Paid amount required', description: 'Enter the amount the payer paid.', variant: 'destructive' });
+        return;
+      }
+      changes.adjudicated_at = now;
+      changes.denial_reason = null;
+    } else if (status === 'denied') {
+      if (!draft.denial_reason?.trim()) {
+        toast({ title: 'Denial reason required', description: 'Enter the reason the payer gave.', variant: 'destructive' });
+        return;
+      }
+      changes.adjudicated_at = now;
+      changes.paid_amount = null;
+    }
+
+    if (await persist(changes)) {
+      toast({ title: 'Claim updated', description: `Claim marked as ${CLAIM_STATUS_LABELS[status].toLowerCase()}.` });
+    }
+  };
+
+  const canExport = issues.length === 0 && !isSaving;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {draft.claim_number ? `Claim ${draft.claim_number}` : 'New Claim'}
+            <span className="ml-2 text-sm font-normal text-gray-500">{CLAIM_STATUS_LABELS[draft.status]}</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        {issues.length > 0 && (
+          <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+            <div className="flex items-center gap-2 font-medium mb-1">
+              <AlertCircle className="h-4 w-4" />
+              Fix these before exporting
+            </div>
+            <ul className="list-disc pl-6 space-y-0.5">
+              {issues.map((issue, index) => (
+                <li key={`${issue.field}-${index}`}>{issue.message}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="space-y-6 py-2">
+          <section className="space-y-3">
+            <h4 className="font-medium text-sm text-gray-700">Payer & insured</h4>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="claim-payer-name">Payer name</Label>
+                <Input id="claim-payer-name" value={textValue('payer_name')} onChange={setText('payer_name')} disabled={isLocked} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="claim-payer-id">Payer ID</Label>
+                <Input id="claim-payer-id" value={textValue('payer_id')} onChange={setText('payer_id')} disabled={isLocked} placeholder="Clearinghouse payer ID" />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="claim-policy">Insured ID (policy number)</Label>
+                <Input id="claim-policy" value={textValue('policy_number')} onChange={setText('policy_number')} disabled={isLocked} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="claim-group">Group number</Label>
+                <Input id="claim-group" value={textValue('group_number')} onChange={setText('group_number')} disabled={isLocked} />
+              </div>
+              <div className="space-y-1">
+                <Label>Patient relationship to insured</Label>
+                <Select
+                  value={draft.subscriber_relationship || ''}
+                  onValueChange={(value) => updateField('subscriber_relationship', value)}
+                  disabled={isLocked}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select relationship" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RELATIONSHIPS.map(relationship => (
+                      <SelectItem key={relationship} value={relationship}>{relationship}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {draft.subscriber_relationship && draft.subscriber_relationship !== 'Self' && (
+                <>
+                  <div className="space-y-1">
+                    <Label htmlFor="claim-subscriber-name">Insured name</Label>
+                    <Input id="claim-subscriber-name" value={textValue('subscriber_name')} onChange={setText('subscriber_name')} disabled={isLocked} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="claim-subscriber-dob">Insured date of birth</Label>
+                    <Input id="claim-subscriber-dob" type="date" value={textValue('subscriber_dob')} onChange={setText('subscriber_dob')} disabled={isLocked} />
+                  </div>
+                </>
+              )}
+            </div>
+          </section>
+
+          <section className="space-y-3">
+            <h4 className="font-medium text-sm text-gray-700">Patient</h4>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Name</Label>
+                <Input value={`${draft.patient_first_name || ''} ${draft.patient_last_name || ''}`.trim()} disabled />
+              </div>
+              <div className="space-y-1">
+                <Label>Date of birth</Label>
+                <Input value={draft.patient_dob || ''} disabled />
+              </div>
+              <div className="space-y-1 col-span-2">
+                <Label htmlFor="claim-address">Street address</Label>
+                <Input id="claim-address" value={textValue('patient_address1')} onChange={setText('patient_address1')} disabled={isLocked} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="claim-city">City</Label>
+                <Input id="claim-city" value={textValue('patient_city')} onChange={setText('patient_city')} disabled={isLocked} />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="claim-state">State</Label>
+                  <Input
+                    id="claim-state"
+                    value={textValue('patient_state')}
+                    onChange={(e) => updateField('patient_state', e.target.value.toUpperCase() || null)}
+                    maxLength={2}
+                    disabled={isLocked}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="claim-zip">ZIP code</Label>
+                  <Input id="claim-zip" value={textValue('patient_zip')} onChange={setText('patient_zip')} disabled={isLocked} />
+                </div>
+              </div>
+            </div>
+          </section>
+
+          <section className="space-y-3">
+            <h4 className="font-medium text-sm text-gray-700">Service</h4>
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <Label>Date of service</Label>
+                <Input value={draft.service_date} disabled />
+              </div>
+              <div className="space-y-1 col-span-2">
+                <Label>Place of service</Label>
+                <Select value={draft.place_of_service} onValueChange={(value) => updateField('place_of_service', value)} disabled={isLocked}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PLACE_OF_SERVICE_OPTIONS.map(option => (
+                      <SelectItem key={option.code} value={option.code}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="claim-cpt">CPT code</Label>
+                <Input id="claim-cpt" value={textValue('cpt_code')} onChange={setText('cpt_code')} disabled={isLocked} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="claim-modifier">Modifier</Label>
+                <Input id="claim-modifier" value={textValue('modifier')} onChange={setText('modifier')} maxLength={2} disabled={isLocked} />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="claim-units">Units</Label>
+                  <Input
+                    id="claim-units"
+                    type="number"
+                    min={1}
+                    value={draft.units}
+                    onChange={(e) => updateField('units', Math.max(1, parseInt(e.target.value) || 1))}
+                    disabled={isLocked}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="claim-charge">Charge ($)</Label>
+                  <Input
+                    id="claim-charge"
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={draft.charge_amount}
+                    onChange={(e) => updateField('charge_amount', parseFloat(e.target.value) || 0)}
+                    disabled={isLocked}
+                  />
+                </div>
+              </div>
+              <div className="space-y-1 col-span-3">
+                <Label htmlFor="claim-diagnoses">Diagnosis codes (ICD-10, comma separated)</Label>
+                <Input
+                  id="claim-diagnoses"
+                  value={diagnosisText}
+                  onChange={(e) => handleDiagnosisChange(e.target.value)}
+                  placeholder="F41.1, F33.1"
+                  disabled={isLocked}
+                />
+              </div>
+            </div>
+          </section>
+
+          <section className="space-y-3">
+            <h4 className="font-medium text-sm text-gray-700">Providers</h4>
+            <div className="grid grid-cols-2 gap-3 text-sm">
+              <div className="rounded-md border p-3">
+                <div className="text-gray-500">Rendering provider</div>
+                <div>{`${draft.rendering_provider_first_name || ''} ${draft.rendering_provider_last_name || ''}`.trim() || '—'}</div>
+                <div>NPI {draft.rendering_provider_npi || '—'}</div>
+              </div>
+              <div className="rounded-md border p-3">
+                <div className="text-gray-500">Billing provider</div>
+                <div>{draft.billing_provider_name || '—'}</div>
+                <div>NPI {draft.billing_provider_npi || '—'} · Tax ID {draft.billing_provider_tax_id || '—'}</div>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              Provider details come from the clinician profile and Settings &gt; Practice when the claim is created.
+            </p>
+          </section>
+
+          {draft.id && draft.status !== 'draft' && (
+            <section className="space-y-3">
+              <h4 className="font-medium text-sm text-gray-700">Adjudication</h4>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="claim-paid">Paid amount ($)</Label>
+                  <Input
+                    id="claim-paid"
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={draft.paid_amount ?? ''}
+                    onChange={(e) => updateField('paid_amount', e.target.value === '' ? null : parseFloat(e.target.value))}
+                    disabled={draft.status === 'paid'}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="claim-denial">Denial reason</Label>
+                  <Input
+                    id="claim-denial"
+                    value={textValue('denial_reason')}
+                    onChange={setText('denial_reason')}
+                    disabled={draft.status === 'paid'}
+                  />
+                </div>
+              </div>
+            </section>
+          )}
+
+          <div className="space-y-1">
+            <Label htmlFor="claim-notes">Internal notes</Label>
+            <Textarea id="claim-notes" value={textValue('notes')} onChange={setText('notes')} rows={2} />
+          </div>
+        </div>
+
+        <DialogFooter className="flex-wrap gap-2 sm:justify-between">
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleDownloadPDF} disabled={!canExport}>
+              <FileText className="h-4 w-4 mr-1" />
+              CMS-1500
+            </Button>
+            <Button variant="outline" onClick={handleDownload837} disabled={!canExport}>
+              <Download className="h-4 w-4 mr-1" />
+              837P
+            </Button>
+          </div>
+          <div className="flex gap-2">
+            {draft.id && draft.status === 'draft' && (
+              <Button variant="outline" onClick={() => handleStatusChange('submitted')} disabled={!canExport}>
+                Mark Submitted
+              </Button>
+            )}
+            {draft.id && draft.status === 'denied' && (
+              <Button variant="outline" onClick={() => handleStatusChange('submitted')} disabled={!canExport}>
+                Resubmit
+              </Button>
+            )}
+            {draft.id && draft.status === 'submitted' && (
+              <>
+                <Button variant="outline" onClick={() => handleStatusChange('denied')} disabled={isSaving}>
+                  Mark Denied
+                </Button>
+                <Button variant="outline" onClick={() => handleStatusChange('paid')} disabled={isSaving}>
+                  Mark Paid
+                </Button>
+              </>
+            )}
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? 'Saving...' : draft.id ? 'Save' : 'Save Draft'}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ClaimEditorDialog;
@@ -2,14 +2,17 @@
 import React, { useState, useEffect } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { BarChart2, ClipboardCheck, FileText, ClipboardList, Download, Calendar, Eye, PenLine, FileX, FilePlus2 } from "lucide-react";
+import { BarChart2, ClipboardCheck, FileText, ClipboardList, Download, Calendar, Eye, PenLine, FileX, FilePlus2, History } from "lucide-react";
 import TreatmentPlanTemplate from "@/components/templates/TreatmentPlanTemplate";
 import SessionNoteTemplate from "@/components/templates/SessionNoteTemplate";
 import PHQ9Template from "@/components/templates/PHQ9Template";
 import PCL5Template from "@/components/templates/PCL5Template";
+import GAD7Template from "@/components/templates/GAD7Template";
+import SessionNoteHistoryDrawer from "@/components/client/SessionNoteHistoryDrawer";
+import TreatmentPlanTimeline from "@/components/client/TreatmentPlanTimeline";
 import { useClinicianData } from "@/hooks/useClinicianData";
 import { ClientDetails } from "@/types/client";
-import { fetchClinicalDocuments, getDocumentDownloadURL } from "@/integrations/supabase/client";
+import { fetchClinicalDocuments, getDocumentDownloadURL, fetchGAD7Assessments, fetchPCL5Assessments, fetchTreatmentPlans, TreatmentPlan } from "@/integrations/supabase/client";
 import { format } from "date-fns";
 import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
@@ -29,6 +32,25 @@ interface ClinicalDocument {
   created_by?: string;
 }
 
+interface GAD7Result {
+  id: string;
+  assessment_date: string;
+  total_score: number;
+  severity: string;
+  additional_notes: string | null;
+}
+
+interface PCL5Result {
+  id: string;
+  assessment_date: string;
+  total_score: number;
+  cluster_b_intrusion: number;
+  cluster_c_avoidance: number;
+  cluster_d_negative_alterations: number;
+  cluster_e_arousal: number;
+  provisional_ptsd: boolean;
+}
+
 const DocumentationTab: React.FC<DocumentationTabProps> = ({
   clientData
 }) => {
@@ -36,10 +58,17 @@ const DocumentationTab: React.FC<DocumentationTabProps> = ({
   const [showSessionNoteTemplate, setShowSessionNoteTemplate] = useState(false);
   const [showPHQ9Template, setShowPHQ9Template] = useState(false);
   const [showPCL5Template, setShowPCL5Template] = useState(false);
+  const [showGAD7Template, setShowGAD7Template] = useState(false);
+  const [gad7Results, setGad7Results] = useState<GAD7Result[]>([]);
+  const [pcl5Results, setPcl5Results] = useState<PCL5Result[]>([]);
+  const [isLoadingAssessments, setIsLoadingAssessments] = useState(false);
   const [documents, setDocuments] = useState<ClinicalDocument[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [assignedDocuments, setAssignedDocuments] = useState<any[]>([]);
   const [isLoadingAssignedDocs, setIsLoadingAssignedDocs] = useState(false);
+  const [historySessionDate, setHistorySessionDate] = useState<string | null>(null);
+  const [treatmentPlans, setTreatmentPlans] = useState<TreatmentPlan[]>([]);
+  const [isLoadingPlans, setIsLoadingPlans] = useState(false);
 
   const {
     clinicianData
@@ -65,6 +94,22 @@ const DocumentationTab: React.FC<DocumentationTabProps> = ({
         });
       });
       
+      setIsLoadingAssessments(true);
+      Promise.all([
+        fetchGAD7Assessments(clientData.id),
+        fetchPCL5Assessments(clientData.id)
+      ]).then(([gad7, pcl5]) => {
+        setGad7Results(gad7);
+        setPcl5Results(pcl5);
+        setIsLoadingAssessments(false);
+      });
+
+      setIsLoadingPlans(true);
+      fetchTreatmentPlans(clientData.id).then(plans => {
+        setTreatmentPlans(plans);
+        setIsLoadingPlans(false);
+      });
+      
       // In the future, we'll add actual fetching of assigned documents here
       setIsLoadingAssignedDocs(true);
       // Mock data for assigned documents - this will be replaced with actual API call
@@ -79,6 +124,7 @@ const DocumentationTab: React.FC<DocumentationTabProps> = ({
     setShowTreatmentPlanTemplate(false);
     if (clientData?.id) {
       fetchClinicalDocuments(clientData.id).then(docs => setDocuments(docs)).catch(err => console.error('Error refreshing documents:', err));
+      fetchTreatmentPlans(clientData.id).then(plans => setTreatmentPlans(plans));
     }
   };
 
@@ -100,6 +146,14 @@ const DocumentationTab: React.FC<DocumentationTabProps> = ({
     setShowPCL5Template(false);
     if (clientData?.id) {
       fetchClinicalDocuments(clientData.id).then(docs => setDocuments(docs)).catch(err => console.error('Error refreshing documents:', err));
+      fetchPCL5Assessments(clientData.id).then(results => setPcl5Results(results)).catch(err => console.error('Error refreshing PCL-5 results:', err));
+    }
+  };
+
+  const handleCloseGAD7 = () => {
+    setShowGAD7Template(false);
+    if (clientData?.id) {
+      fetchGAD7Assessments(clientData.id).then(results => setGad7Results(results)).catch(err => console.error('Error refreshing GAD-7 results:', err));
     }
   };
 
@@ -147,10 +201,34 @@ const DocumentationTab: React.FC<DocumentationTabProps> = ({
               <FileText className="h-4 w-4" />
               Treatment Plan
             </Button>
+            <Button 
+              variant="outline" 
+              className="flex items-center gap-2" 
+              onClick={() => setShowGAD7Template(true)}
+            >
+              <ClipboardList className="h-4 w-4" />
+              GAD-7
+            </Button>
+            <Button 
+              variant="outline" 
+              className="flex items-center gap-2" 
+              onClick={() => setShowPCL5Template(true)}
+            >
+              <ClipboardList className="h-4 w-4" />
+              PCL-5
+            </Button>
           </CardContent>
         </Card>
       )}
 
+      <TreatmentPlanTimeline
+        plans={treatmentPlans}
+        isLoading={isLoadingPlans}
+        canUpdate={canCreateDocumentation}
+        onUpdatePlan={() => setShowTreatmentPlanTemplate(true)}
+        onViewPlan={handleViewDocument}
+      />
+
       {/* New section: Assigned Documents */}
       <Card>
         <CardHeader>
@@ -246,9 +324,93 @@ const DocumentationTab: React.FC<DocumentationTabProps> = ({
         </div>}
       
       {showPCL5Template && <div className="animate-fade-in">
-          <PCL5Template onClose={handleClosePCL5} clinicianName={clinicianData?.clinician_professional_name || ''} clientData={clientData} />
+          <PCL5Template onClose={handleClosePCL5} clinicianName={clinicianData?.clinician_professional_name || ''} clinicianId={clinicianData?.id} clientData={clientData} />
+        </div>}
+
+      {showGAD7Template && <div className="animate-fade-in">
+          <GAD7Template onClose={handleCloseGAD7} clinicianName={clinicianData?.clinician_professional_name || ''} clinicianId={clinicianData?.id} clientData={clientData} />
         </div>}
 
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <BarChart2 className="h-5 w-5 text-valorwell-600" />
+            Assessment Results
+          </CardTitle>
+          <CardDescription>Scored measures saved for this client</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoadingAssessments ? <div className="flex justify-center py-8">
+              <p>Loading assessments...</p>
+            </div> : gad7Results.length === 0 && pcl5Results.length === 0 ? <div className="flex flex-col items-center justify-center py-8 text-center">
+              <BarChart2 className="h-12 w-12 text-gray-300 mb-3" />
+              <h3 className="text-lg font-medium">No assessments found</h3>
+              <p className="text-sm text-gray-500 mt-1">
+                Saved GAD-7 and PCL-5 results will appear here
+              </p>
+            </div> : <div className="overflow-x-auto space-y-6">
+              {gad7Results.length > 0 && <div>
+              <h4 className="font-medium mb-2">GAD-7</h4>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Score</TableHead>
+                    <TableHead>Severity</TableHead>
+                    <TableHead>Notes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {gad7Results.map(result => <TableRow key={result.id}>
+                      <TableCell>
+                        <div className="flex items-center gap-1">
+                          <Calendar className="h-4 w-4 text-gray-500" />
+                          {format(new Date(`${result.assessment_date}T00:00:00`), 'MMM d, yyyy')}
+                        </div>
+                      </TableCell>
+                      <TableCell className="font-medium">{result.total_score} / 21</TableCell>
+                      <TableCell>{result.severity}</TableCell>
+                      <TableCell className="max-w-xs truncate">{result.additional_notes || '—'}</TableCell>
+                    </TableRow>)}
+                </TableBody>
+              </Table>
+              </div>}
+              {pcl5Results.length > 0 && <div>
+              <h4 className="font-medium mb-2">PCL-5</h4>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Total</TableHead>
+                    <TableHead>B</TableHead>
+                    <TableHead>C</TableHead>
+                    <TableHead>D</TableHead>
+                    <TableHead>E</TableHead>
+                    <TableHead>Provisional PTSD</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {pcl5Results.map(result => <TableRow key={result.id}>
+                      <TableCell>
+                        <div className="flex items-center gap-1">
+                          <Calendar className="h-4 w-4 text-gray-500" />
+                          {format(new Date(`${result.assessment_date}T00:00:00`), 'MMM d, yyyy')}
+                        </div>
+                      </TableCell>
+                      <TableCell className="font-medium">{result.total_score} / 80</TableCell>
+                      <TableCell>{result.cluster_b_intrusion}</TableCell>
+                      <TableCell>{result.cluster_c_avoidance}</TableCell>
+                      <TableCell>{result.cluster_d_negative_alterations}</TableCell>
+                      <TableCell>{result.cluster_e_arousal}</TableCell>
+                      <TableCell>{result.provisional_ptsd ? 'Yes' : 'No'}</TableCell>
+                    </TableRow>)}
+                </TableBody>
+              </Table>
+              </div>}
+            </div>}
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
@@ -287,6 +449,10 @@ const DocumentationTab: React.FC<DocumentationTabProps> = ({
                         </div>
                       </TableCell>
                       <TableCell className="text-right">
+                        {doc.document_type === 'session_note' && <Button variant="outline" size="sm" className="ml-2" onClick={() => setHistorySessionDate(doc.document_date)}>
+                            <History className="h-4 w-4 mr-1" />
+                            History
+                          </Button>}
                         <Button variant="outline" size="sm" className="ml-2" onClick={() => handleViewDocument(doc.file_path)}>
                           <Eye className="h-4 w-4 mr-1" />
                           View
@@ -298,6 +464,8 @@ const DocumentationTab: React.FC<DocumentationTabProps> = ({
             </div>}
         </CardContent>
       </Card>
+
+      {clientData?.id && <SessionNoteHistoryDrawer clientId={clientData.id} sessionDate={historySessionDate} onClose={() => setHistorySessionDate(null)} />}
     </div>;
 };
 
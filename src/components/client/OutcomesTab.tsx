@@ -0,0 +1,282 @@
+import React, { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@/components/ui/table";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, ReferenceArea, ReferenceLine } from "recharts";
+import { TrendingUp } from "lucide-react";
+import { format } from "date-fns";
+import {
+  supabase,
+  fetchPHQ9Assessments,
+  fetchGAD7Assessments,
+  fetchPCL5Assessments
+} from "@/integrations/supabase/client";
+import { ClientDetails } from "@/types/client";
+import { useToast } from "@/hooks/use-toast";
+import {
+  OUTCOME_MEASURES,
+  OutcomeMeasureKey,
+  OutcomeScore,
+  calculateChangeIndicators,
+  getSeverityBand
+} from "@/utils/outcomeMeasures";
+
+interface OutcomesTabProps {
+  clientData?: ClientDetails | null;
+}
+
+// Appointment statuses that mean no session took place
+const MISSED_SESSION_STATUSES = ['Cancelled', 'cancelled', 'No Call/No Show'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toTimestamp = (date: string) => new Date(`${date}T00:00:00`).getTime();
+
+const OutcomesTab: React.FC<OutcomesTabProps> = ({ clientData }) => {
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(false);
+  const [scores, setScores] = useState<Record<OutcomeMeasureKey, OutcomeScore[]>>({
+    phq9: [],
+    gad7: [],
+    pcl5: []
+  });
+  const [sessionDates, setSessionDates] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!clientData?.id) return;
+
+    const fetchOutcomes = async () => {
+      setIsLoading(true);
+      try {
+        const toScores = (rows: { assessment_date: string; total_score: number }[]) =>
+          rows.map(row => ({ date: row.assessment_date, score: row.total_score }));
+
+        const [phq9, gad7, pcl5, sessionsResult] = await Promise.all([
+          fetchPHQ9Assessments(clientData.id),
+          fetchGAD7Assessments(clientData.id),
+          fetchPCL5Assessments(clientData.id),
+          supabase
+            .from('appointments')
+            .select('date, status')
+            .eq('client_id', clientData.id)
+            .lte('date', format(new Date(), 'yyyy-MM-dd'))
+            .order('date', { ascending: true })
+        ]);
+
+        if (sessionsResult.error) throw sessionsResult.error;
+
+        setScores({
+          phq9: toScores(phq9),
+          gad7: toScores(gad7),
+          pcl5: toScores(pcl5)
+        });
+        setSessionDates(
+          (sessionsResult.data || [])
+            .filter(session => !MISSED_SESSION_STATUSES.includes(session.status))
+            .map(session => session.date)
+        );
+      } catch (error) {
+        console.error('Error fetching outcome data:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load outcome measures",
+          variant: "destructive"
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchOutcomes();
+  }, [clientData?.id, toast]);
+
+  const measureKeys = Object.keys(OUTCOME_MEASURES) as OutcomeMeasureKey[];
+
+  const renderChangeBadge = (key: OutcomeMeasureKey) => {
+    const indicators = calculateChangeIndicators(OUTCOME_MEASURES[key], scores[key]);
+
+    if (!indicators) {
+      return <span className="text-sm text-gray-500">Needs 2+ scores</span>;
+    }
+
+    return (
+      <div className="flex flex-wrap gap-1">
+        {indicators.clinicallySignificantImprovement && (
+          <Badge className="bg-green-600 hover:bg-green-700">Clinically significant improvement</Badge>
+        )}
+        {indicators.reliableImprovement && !indicators.clinicallySignificantImprovement && (
+          <Badge className="bg-green-500 hover:bg-green-600">Reliable improvement</Badge>
+        )}
+        {indicators.reliableDeterioration && (
+          <Badge variant="destructive">Reliable deterioration</Badge>
+        )}
+        {!indicators.reliableImprovement && !indicators.reliableDeterioration && (
+          <Badge variant="secondary">No reliable change</Badge>
+        )}
+      </div>
+    );
+  };
+
+  const renderChart = (key: OutcomeMeasureKey) => {
+    const measure = OUTCOME_MEASURES[key];
+    const data = [...scores[key]]
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .map(entry => ({ ...entry, timestamp: toTimestamp(entry.date) }));
+
+    if (data.length === 0) {
+      return (
+        <div className="flex justify-center py-8 text-sm text-gray-500">
+          No {measure.label} scores recorded yet
+        </div>
+      );
+    }
+
+    const sessionTimestamps = sessionDates.map(toTimestamp);
+    const allTimestamps = [...data.map(entry => entry.timestamp), ...sessionTimestamps];
+    const domainStart = Math.min(...allTimestamps) - DAY_MS;
+    const domainEnd = Math.max(...allTimestamps) + DAY_MS;
+
+    return (
+      <ChartContainer
+        config={{ score: { label: measure.label, color: "hsl(var(--primary))" } }}
+        className="aspect-auto h-64 w-full"
+      >
+        <LineChart data={data} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+          {measure.bands.map(band => (
+            <ReferenceArea
+              key={band.label}
+              y1={band.min}
+              y2={band.max}
+              fill={band.color}
+              fillOpacity={0.5}
+              strokeOpacity={0}
+            />
+          ))}
+          <CartesianGrid strokeDasharray="3 3" vertical={false} />
+          <XAxis
+            dataKey="timestamp"
+            type="number"
+            scale="time"
+            domain={[domainStart, domainEnd]}
+            tickFormatter={(value: number) => format(new Date(value), 'MMM d')}
+          />
+          <YAxis domain={[0, measure.maxScore]} allowDecimals={false} width={32} />
+          {sessionTimestamps.map(timestamp => (
+            <ReferenceLine key={timestamp} x={timestamp} stroke="#94a3b8" strokeDasharray="2 4" />
+          ))}
+          <ReferenceLine y={measure.clinicalCutoff} stroke="#dc2626" strokeDasharray="4 4" />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) => {
+                  const point = payload?.[0]?.payload;
+                  if (!point) return measure.label;
+                  const band = getSeverityBand(measure, point.score);
+                  return `${format(new Date(point.timestamp), 'MMM d, yyyy')}${band ? ` – ${band.label}` : ''}`;
+                }}
+              />
+            }
+          />
+          <Line
+            dataKey="score"
+            type="monotone"
+            stroke="var(--color-score)"
+            strokeWidth={2}
+            dot={{ r: 4 }}
+            isAnimationActive={false}
+          />
+        </LineChart>
+      </ChartContainer>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <p>Loading outcome measures...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <TrendingUp className="h-5 w-5 text-valorwell-600" />
+            Measurement-Based Care Summary
+          </CardTitle>
+          <CardDescription>
+            Change from first to most recent score. Reliable change uses each measure's reliable change index;
+            clinically significant change also requires moving from the clinical range to below the cutoff.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Measure</TableHead>
+                <TableHead>Baseline</TableHead>
+                <TableHead>Latest</TableHead>
+                <TableHead>Change</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {measureKeys.map(key => {
+                const measure = OUTCOME_MEASURES[key];
+                const indicators = calculateChangeIndicators(measure, scores[key]);
+
+                return (
+                  <TableRow key={key}>
+                    <TableCell className="font-medium">{measure.label}</TableCell>
+                    <TableCell>
+                      {indicators ? `${indicators.baseline.score} (${format(new Date(`${indicators.baseline.date}T00:00:00`), 'MMM d, yyyy')})` : '—'}
+                    </TableCell>
+                    <TableCell>
+                      {indicators ? `${indicators.latest.score} (${format(new Date(`${indicators.latest.date}T00:00:00`), 'MMM d, yyyy')})` : '—'}
+                    </TableCell>
+                    <TableCell>
+                      {indicators ? (indicators.change > 0 ? `+${indicators.change}` : indicators.change) : '—'}
+                    </TableCell>
+                    <TableCell>{renderChangeBadge(key)}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {measureKeys.map(key => {
+        const measure = OUTCOME_MEASURES[key];
+
+        return (
+          <Card key={key}>
+            <CardHeader>
+              <CardTitle>{measure.label}</CardTitle>
+              <CardDescription>
+                Shaded regions show severity bands, the red line marks the clinical cutoff ({measure.clinicalCutoff})
+                and dotted vertical lines mark session dates.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {renderChart(key)}
+              <div className="flex flex-wrap gap-3 mt-4 text-xs text-gray-600">
+                {measure.bands.map(band => (
+                  <div key={band.label} className="flex items-center gap-1">
+                    <span className="inline-block h-3 w-3 rounded-sm" style={{ backgroundColor: band.color }} />
+                    {band.label} ({band.min}-{band.max})
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
+
+export default OutcomesTab;
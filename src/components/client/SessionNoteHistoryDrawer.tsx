@@ -0,0 +1,138 @@
+import React, { useState, useEffect } from "react";
+import { format, parseISO } from "date-fns";
+import { History } from "lucide-react";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@/components/ui/table";
+import { fetchSessionNoteVersions, SessionNoteVersion } from "@/integrations/supabase/client";
+import { getChangedFields } from "@/utils/recordDiff";
+
+interface SessionNoteHistoryDrawerProps {
+  clientId: string;
+  // Session date (yyyy-MM-dd) of the note, or null when the drawer is closed
+  sessionDate: string | null;
+  onClose: () => void;
+}
+
+// Bookkeeping columns that change on every save and aren't part of the note itself
+const IGNORED_FIELDS = [
+  'id', 'client_id', 'clinician_id', 'appointment_id', 'created_at', 'updated_at',
+  'pdf_path', 'saved_at', 'saved_by', 'saved_by_name', 'signed_by'
+];
+
+const formatFieldName = (field: string) => {
+  const label = field.replace(/_/g, ' ');
+  return label.charAt(0).toUpperCase() + label.slice(1);
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return '—';
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const getVersionChanges = (version: SessionNoteVersion, previous?: SessionNoteVersion) => {
+  const content = Object.fromEntries(
+    Object.entries(version.session_data).filter(([field]) => !IGNORED_FIELDS.includes(field))
+  );
+  return Object.entries(getChangedFields(previous?.session_data, content));
+};
+
+const SessionNoteHistoryDrawer: React.FC<SessionNoteHistoryDrawerProps> = ({
+  clientId,
+  sessionDate,
+  onClose
+}) => {
+  const [versions, setVersions] = useState<SessionNoteVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!sessionDate) return;
+
+    setIsLoading(true);
+    fetchSessionNoteVersions(clientId, sessionDate).then(data => {
+      setVersions(data);
+      setIsLoading(false);
+    });
+  }, [clientId, sessionDate]);
+
+  return (
+    <Sheet open={!!sessionDate} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-2xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <History className="h-5 w-5 text-valorwell-600" />
+            Session Note History
+          </SheetTitle>
+          <SheetDescription>
+            {sessionDate && `Every saved version of the ${format(parseISO(sessionDate), 'MMM d, yyyy')} session note, newest first.`}
+          </SheetDescription>
+        </SheetHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <p>Loading history...</p>
+          </div>
+        ) : versions.length === 0 ? (
+          <div className="text-sm text-gray-500 text-center py-8">
+            No saved versions of this session note were found.
+          </div>
+        ) : (
+          <div className="space-y-6 mt-6">
+            {versions.map((version, index) => {
+              const previous = versions[index + 1]?.session_note_id === version.session_note_id
+                ? versions[index + 1]
+                : undefined;
+              const changes = previous ? getVersionChanges(version, previous) : [];
+
+              return (
+                <div key={version.id} className="border rounded-md p-4">
+                  <div className="flex items-center justify-between mb-3">
+                    <div className="text-sm">
+                      <div className="font-medium">
+                        {version.saved_at ? format(parseISO(version.saved_at), "MMM d, yyyy 'at' h:mm a") : 'Unknown time'}
+                      </div>
+                      <div className="text-gray-500">Saved by {version.saved_by_name || 'an unknown user'}</div>
+                    </div>
+                    <div className="flex gap-2">
+                      {version.is_current && <Badge>Current</Badge>}
+                      {!!version.session_data.signed_at && <Badge variant="outline">Signed</Badge>}
+                    </div>
+                  </div>
+
+                  {!previous ? (
+                    <p className="text-sm text-gray-500">First saved version.</p>
+                  ) : changes.length === 0 ? (
+                    <p className="text-sm text-gray-500">No changes to the note's content.</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Field</TableHead>
+                          <TableHead>Before</TableHead>
+                          <TableHead>After</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {changes.map(([field, change]) => (
+                          <TableRow key={field}>
+                            <TableCell className="font-medium">{formatFieldName(field)}</TableCell>
+                            <TableCell className="text-red-700 break-words max-w-[220px] whitespace-pre-wrap">{formatValue(change.before)}</TableCell>
+                            <TableCell className="text-green-700 break-words max-w-[220px] whitespace-pre-wrap">{formatValue(change.after)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default SessionNoteHistoryDrawer;
@@ -0,0 +1,121 @@
+import React from "react";
+import { format, parseISO, startOfDay } from "date-fns";
+import { Eye, Milestone, RefreshCw } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { TreatmentPlan } from "@/integrations/supabase/client";
+import { formatPlanLength, getPlanObjectives, OBJECTIVE_PROGRESS_LABELS, PLAN_OBJECTIVES } from "@/utils/treatmentPlans";
+
+interface TreatmentPlanTimelineProps {
+  plans: TreatmentPlan[];
+  isLoading: boolean;
+  canUpdate: boolean;
+  onUpdatePlan: () => void;
+  onViewPlan: (filePath: string) => void;
+}
+
+const objectiveLabel = (key: string) => PLAN_OBJECTIVES.find(objective => objective.key === key)?.label || 'Objective';
+
+// Every version of the client's treatment plan, newest first, with the progress recorded at each review
+const TreatmentPlanTimeline: React.FC<TreatmentPlanTimelineProps> = ({
+  plans,
+  isLoading,
+  canUpdate,
+  onUpdatePlan,
+  onViewPlan
+}) => {
+  const activePlan = plans.find(plan => plan.status === 'active');
+  const isReviewDue = !!activePlan?.review_due_date && parseISO(activePlan.review_due_date) < startOfDay(new Date());
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Milestone className="h-5 w-5 text-valorwell-600" />
+            Treatment Plan Timeline
+          </CardTitle>
+          <CardDescription>
+            {activePlan?.review_due_date
+              ? `Active plan review ${isReviewDue ? 'was due' : 'due'} ${format(parseISO(activePlan.review_due_date), 'MMM d, yyyy')}`
+              : 'Current and previous versions of the treatment plan'}
+          </CardDescription>
+        </div>
+        {canUpdate && activePlan && (
+          <Button
+            variant={isReviewDue ? "default" : "outline"}
+            className="flex items-center gap-2"
+            onClick={onUpdatePlan}
+          >
+            <RefreshCw className="h-4 w-4" />
+            Review / Update Plan
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <p>Loading treatment plans...</p>
+          </div>
+        ) : plans.length === 0 ? (
+          <div className="text-sm text-gray-500 text-center py-8">
+            No treatment plan has been created for this client yet.
+          </div>
+        ) : (
+          <ol className="relative border-l-2 border-gray-200 ml-2 space-y-6">
+            {plans.map(plan => (
+              <li key={plan.id} className="ml-6">
+                <span
+                  className={`absolute -left-[9px] mt-1.5 h-4 w-4 rounded-full border-2 border-white ${plan.status === 'active' ? 'bg-valorwell-600' : 'bg-gray-300'}`}
+                />
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">Version {plan.version}</span>
+                    {plan.status === 'active' ? <Badge>Active</Badge> : <Badge variant="outline">Superseded</Badge>}
+                  </div>
+                  {plan.pdf_path && (
+                    <Button variant="outline" size="sm" onClick={() => onViewPlan(plan.pdf_path as string)}>
+                      <Eye className="h-4 w-4 mr-1" /> View
+                    </Button>
+                  )}
+                </div>
+                <div className="text-sm text-gray-500 mt-1">
+                  Started {format(parseISO(plan.start_date), 'MMM d, yyyy')}
+                  {plan.plan_length && ` · ${formatPlanLength(plan.plan_length)} plan`}
+                  {plan.review_due_date && ` · Review due ${format(parseISO(plan.review_due_date), 'MMM d, yyyy')}`}
+                  {plan.clinician_name && ` · ${plan.clinician_name}`}
+                </div>
+
+                <ul className="mt-2 space-y-1 text-sm">
+                  {getPlanObjectives(plan).map(objective => (
+                    <li key={objective.key}>
+                      <span className="font-medium">{objective.label}:</span> {objective.text}
+                    </li>
+                  ))}
+                </ul>
+
+                {plan.objective_progress.length > 0 && (
+                  <div className="mt-3 rounded-md bg-gray-50 p-3 text-sm">
+                    <div className="font-medium mb-1">Progress on version {plan.version - 1} objectives</div>
+                    <ul className="space-y-1">
+                      {plan.objective_progress.map(progress => (
+                        <li key={progress.objective}>
+                          <span className="font-medium">{objectiveLabel(progress.objective)}:</span>{' '}
+                          {OBJECTIVE_PROGRESS_LABELS[progress.status] || progress.status}
+                          {progress.note && <span className="text-gray-500"> — {progress.note}</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TreatmentPlanTimeline;
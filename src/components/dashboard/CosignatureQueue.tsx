@@ -0,0 +1,230 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Calendar, Eye, FileSignature, UserCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Cosignature,
+  fetchCosignatureQueue,
+  getDocumentDownloadURL,
+  reviewCosignature
+} from '@/integrations/supabase/client';
+
+interface CosignatureQueueProps {
+  clinicianId: string;
+  onOpenSessionNote: (appointmentId: string) => void;
+}
+
+type ReviewAction = 'approve' | 'return';
+
+const documentLabel = (cosignature: Cosignature) =>
+  cosignature.session_note_id ? 'Session Note' : 'Treatment Plan';
+
+// Supervisors review their supervisees' documents here; supervisees see what was returned to them
+export const CosignatureQueue: React.FC<CosignatureQueueProps> = ({
+  clinicianId,
+  onOpenSessionNote
+}) => {
+  const [queue, setQueue] = useState<Cosignature[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [reviewing, setReviewing] = useState<{ cosignature: Cosignature; action: ReviewAction } | null>(null);
+  const [reviewText, setReviewText] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const loadQueue = useCallback(async () => {
+    setIsLoading(true);
+    setQueue(await fetchCosignatureQueue(clinicianId));
+    setIsLoading(false);
+  }, [clinicianId]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const toReview = queue.filter(cosignature => cosignature.supervisor_id === clinicianId);
+  const returned = queue.filter(cosignature => cosignature.clinician_id === clinicianId);
+
+  const handleViewDocument = async (cosignature: Cosignature) => {
+    const url = cosignature.pdf_path ? await getDocumentDownloadURL(cosignature.pdf_path) : null;
+    if (url) {
+      window.open(url, '_blank');
+    } else {
+      toast({
+        title: "Error",
+        description: "Could not retrieve the document",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const openReview = (cosignature: Cosignature, action: ReviewAction) => {
+    setReviewText('');
+    setReviewing({ cosignature, action });
+  };
+
+  const handleReview = async () => {
+    if (!reviewing || !reviewText.trim()) return;
+
+    setIsSaving(true);
+    const approve = reviewing.action === 'approve';
+    const result = await reviewCosignature(reviewing.cosignature, approve, reviewText.trim());
+    setIsSaving(false);
+
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: approve ? "Failed to co-sign the document." : "Failed to return the document.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: approve ? "Document co-signed" : "Document returned",
+      description: approve
+        ? `${documentLabel(reviewing.cosignature)} for ${reviewing.cosignature.client_name} is co-signed.`
+        : `Your comments were sent to ${reviewing.cosignature.clinician_name || 'the clinician'}.`
+    });
+    setReviewing(null);
+    await loadQueue();
+  };
+
+  if (!isLoading && queue.length === 0) {
+    return null;
+  }
+
+  return (
+    <div>
+      <h2 className="text-xl font-semibold mb-4 flex items-center">
+        <FileSignature className="h-5 w-5 mr-2" />
+        Pending Co-signature
+      </h2>
+
+      {isLoading ? (
+        Array.from({ length: 2 }).map((_, i) => (
+          <Skeleton key={i} className="h-[160px] w-full mb-3" />
+        ))
+      ) : (
+        <>
+          {toReview.map(cosignature => (
+            <Card key={cosignature.id} className="mb-3">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base font-semibold flex items-center">
+                  <UserCircle className="h-4 w-4 mr-2" />
+                  {cosignature.client_name}
+                </CardTitle>
+                <CardDescription className="flex items-center">
+                  <Calendar className="h-4 w-4 mr-2" />
+                  {documentLabel(cosignature)}
+                  {cosignature.document_date && ` · ${format(parseISO(cosignature.document_date), 'MMM d, yyyy')}`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="pb-2 text-sm">
+                By {cosignature.clinician_name || 'your supervisee'}, submitted {format(parseISO(cosignature.requested_at), 'MMM d')}
+                {cosignature.supervisor_comments && (
+                  <div className="text-xs text-gray-500 mt-1">Resubmitted after your comments: {cosignature.supervisor_comments}</div>
+                )}
+              </CardContent>
+              <CardFooter className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => handleViewDocument(cosignature)} disabled={!cosignature.pdf_path}>
+                  <Eye className="h-4 w-4 mr-1" />
+                  View
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => openReview(cosignature, 'return')}>
+                  Return
+                </Button>
+                <Button size="sm" className="ml-auto" onClick={() => openReview(cosignature, 'approve')}>
+                  Co-sign
+                </Button>
+              </CardFooter>
+            </Card>
+          ))}
+
+          {returned.map(cosignature => (
+            <Card key={cosignature.id} className="mb-3 border-amber-200">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base font-semibold flex items-center">
+                  <UserCircle className="h-4 w-4 mr-2" />
+                  {cosignature.client_name}
+                </CardTitle>
+                <CardDescription className="flex items-center">
+                  <Calendar className="h-4 w-4 mr-2" />
+                  {documentLabel(cosignature)} returned
+                  {cosignature.document_date && ` · ${format(parseISO(cosignature.document_date), 'MMM d, yyyy')}`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="pb-2 text-sm">
+                <div className="whitespace-pre-wrap">{cosignature.supervisor_comments}</div>
+                <div className="text-xs text-gray-500 mt-1">
+                  {cosignature.reviewed_by_name}
+                  {cosignature.reviewed_at && `, ${format(parseISO(cosignature.reviewed_at), 'MMM d')}`}
+                  {' · '}
+                  {cosignature.session_note_id
+                    ? 'Add an addendum to send the note back for co-signature.'
+                    : "Save an updated treatment plan from the client's Documentation tab."}
+                </div>
+              </CardContent>
+              {cosignature.appointment_id && (
+                <CardFooter>
+                  <Button size="sm" className="w-full" onClick={() => onOpenSessionNote(cosignature.appointment_id as string)}>
+                    Open Session Note
+                  </Button>
+                </CardFooter>
+              )}
+            </Card>
+          ))}
+        </>
+      )}
+
+      <Dialog open={!!reviewing} onOpenChange={(open) => !open && setReviewing(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {reviewing?.action === 'approve' ? 'Co-sign' : 'Return'} {reviewing && documentLabel(reviewing.cosignature)}
+            </DialogTitle>
+          </DialogHeader>
+          {reviewing?.action === 'approve' ? (
+            <div className="grid gap-2 py-2">
+              <Label htmlFor="cosignature-signature">Signature</Label>
+              <Input
+                id="cosignature-signature"
+                placeholder="Digital signature"
+                value={reviewText}
+                onChange={(e) => setReviewText(e.target.value)}
+              />
+              <p className="text-xs text-gray-500">
+                Co-signing confirms you reviewed this document. Your name and the time are recorded with your signature.
+              </p>
+            </div>
+          ) : (
+            <div className="grid gap-2 py-2">
+              <Label htmlFor="cosignature-comments">Comments for the clinician</Label>
+              <Textarea
+                id="cosignature-comments"
+                placeholder="What needs to change before you can co-sign"
+                value={reviewText}
+                onChange={(e) => setReviewText(e.target.value)}
+                className="min-h-[100px]"
+              />
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewing(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleReview} disabled={isSaving || !reviewText.trim()}>
+              {isSaving ? 'Saving...' : reviewing?.action === 'approve' ? 'Co-sign' : 'Return to Clinician'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
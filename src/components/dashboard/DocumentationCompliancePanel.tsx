@@ -0,0 +1,174 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { format, parseISO } from 'date-fns';
+import { ClipboardCheck, FileText } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { fetchDocumentationComplianceData } from '@/integrations/supabase/client';
+import {
+  COMPLIANCE_ISSUE_LABELS,
+  ComplianceIssue,
+  getComplianceIssues,
+  summarizeComplianceByClinician
+} from '@/utils/documentationCompliance';
+
+interface DocumentationCompliancePanelProps {
+  clinicianId: string;
+  isAdmin: boolean;
+  onOpenSessionNote: (appointmentId: string) => void;
+}
+
+type ComplianceScope = 'mine' | 'all';
+
+const ISSUE_LIMIT = 10;
+
+const formatLate = (issue: ComplianceIssue) =>
+  issue.hoursLate < 48 ? `${issue.hoursLate}h` : `${Math.floor(issue.hoursLate / 24)}d`;
+
+
+// Documentation that's missing or late; admins can also see every clinician at once
+export const DocumentationCompliancePanel: React.FC<DocumentationCompliancePanelProps> = ({
+  clinicianId,
+  isAdmin,
+  onOpenSessionNote
+}) => {
+  const [scope, setScope] = useState<ComplianceScope>('mine');
+  const [issues, setIssues] = useState<ComplianceIssue[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState(false);
+  const [showAll, setShowAll] = useState(false);
+
+  const loadIssues = useCallback(async () => {
+    setIsLoading(true);
+    const result = await fetchDocumentationComplianceData(scope === 'all' ? undefined : clinicianId);
+    if (result.success && result.data) {
+      setIssues(getComplianceIssues(result.data.appointments, result.data.treatmentPlans));
+      setError(false);
+    } else {
+      setError(true);
+    }
+    setIsLoading(false);
+  }, [scope, clinicianId]);
+
+  useEffect(() => {
+    loadIssues();
+  }, [loadIssues]);
+
+  const countOf = (type: ComplianceIssue['type']) => issues.filter(issue => issue.type === type).length;
+  const visibleIssues = showAll ? issues : issues.slice(0, ISSUE_LIMIT);
+  const summaries = scope === 'all' ? summarizeComplianceByClinician(issues) : [];
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold flex items-center">
+          <ClipboardCheck className="h-5 w-5 mr-2" />
+          Documentation Compliance
+        </h2>
+        {isAdmin && (
+          <Tabs value={scope} onValueChange={(value) => setScope(value as ComplianceScope)}>
+            <TabsList>
+              <TabsTrigger value="mine">My Caseload</TabsTrigger>
+              <TabsTrigger value="all">All Clinicians</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        )}
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-[180px] w-full" />
+      ) : error ? (
+        <p className="text-red-500">Error loading documentation compliance</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {(['missingNote', 'unsignedNote', 'unclosedSession', 'planDue'] as const).map(type => (
+              <div key={type} className="rounded-md border p-3">
+                <div className="text-2xl font-semibold">{countOf(type)}</div>
+                <div className="text-sm text-gray-500">{COMPLIANCE_ISSUE_LABELS[type]}</div>
+              </div>
+            ))}
+          </div>
+
+          {summaries.length > 0 && (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Clinician</TableHead>
+                    <TableHead className="text-right">No note</TableHead>
+                    <TableHead className="text-right">Unsigned</TableHead>
+                    <TableHead className="text-right">Still scheduled</TableHead>
+                    <TableHead className="text-right">Plan reviews due</TableHead>
+                    <TableHead className="text-right">Overdue</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {summaries.map(summary => (
+                    <TableRow key={summary.clinician_id}>
+                      <TableCell>{summary.clinician_name || 'Unknown clinician'}</TableCell>
+                      <TableCell className="text-right">{summary.counts.missingNote}</TableCell>
+                      <TableCell className="text-right">{summary.counts.unsignedNote}</TableCell>
+                      <TableCell className="text-right">{summary.counts.unclosedSession}</TableCell>
+                      <TableCell className="text-right">{summary.counts.planDue}</TableCell>
+                      <TableCell className={`text-right font-medium ${summary.overdue > 0 ? 'text-red-700' : ''}`}>{summary.overdue}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          {issues.length === 0 ? (
+            <p className="text-gray-500">All documentation is up to date.</p>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Client</TableHead>
+                    {scope === 'all' && <TableHead>Clinician</TableHead>}
+                    <TableHead>Issue</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Late</TableHead>
+                    <TableHead className="text-right">Action</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleIssues.map(issue => (
+                    <TableRow key={`${issue.type}-${issue.id}`}>
+                      <TableCell>{issue.client_name}</TableCell>
+                      {scope === 'all' && <TableCell>{issue.clinician_name || '—'}</TableCell>}
+                      <TableCell>{COMPLIANCE_ISSUE_LABELS[issue.type]}</TableCell>
+                      <TableCell className="whitespace-nowrap">{format(parseISO(issue.date), 'MMM d, yyyy')}</TableCell>
+                      <TableCell>
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${issue.overdue ? 'bg-red-100 text-red-800' : 'bg-amber-100 text-amber-800'}`}>
+                          {formatLate(issue)}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {issue.appointment_id && issue.clinician_id === clinicianId && (
+                          <Button variant="outline" size="sm" onClick={() => onOpenSessionNote(issue.appointment_id as string)}>
+                            <FileText className="h-4 w-4 mr-1" />
+                            {issue.type === 'unsignedNote' ? 'Open Note' : 'Document'}
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          {issues.length > ISSUE_LIMIT && (
+            <Button variant="link" className="p-0" onClick={() => setShowAll(!showAll)}>
+              {showAll ? 'Show fewer' : `Show all ${issues.length} items`}
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,6 @@
 
 import { useState, useEffect } from 'react';
-import { supabase } from '@/integrations/supabase/client';
+import { supabase, notifyWaitlist } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { 
   Dialog,
@@ -58,6 +58,8 @@ export const SessionDidNotOccurDialog = ({
         .eq('id', appointmentId);
 
       if (error) throw error;
+
+      notifyWaitlist();
       
       toast({
         title: "Status updated",
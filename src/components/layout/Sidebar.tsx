@@ -8,6 +8,7 @@ import {
   Settings, 
   Bell, 
   MessageSquare,
+  Receipt,
   ChevronLeft,
   UserCheck,
   LayoutDashboard,
@@ -17,6 +18,7 @@ import {
 import { useUser } from '@/context/UserContext';
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { useUnreadMessages } from '@/hooks/useUnreadMessages';
 
 const Sidebar = () => {
   const location = useLocation();
@@ -26,6 +28,7 @@ const Sidebar = () => {
   const isClinician = userRole === 'clinician';
   const isNewClient = isClient && clientStatus === 'New';
   const [clinicianId, setClinicianId] = useState<string | null>(null);
+  const { totalUnread } = useUnreadMessages(isNewClient ? null : userId);
   
   useEffect(() => {
     const fetchUserId = async () => {
@@ -44,6 +47,12 @@ const Sidebar = () => {
     return currentPath === path;
   };
 
+  const unreadBadge = totalUnread > 0 && (
+    <span className="ml-auto rounded-full bg-valorwell-600 px-2 py-0.5 text-xs font-medium text-white">
+      {totalUnread}
+    </span>
+  );
+
   if (isLoading) {
     return (
       <div className="w-[220px] min-h-screen border-r bg-white flex items-center justify-center">
@@ -80,6 +89,15 @@ const Sidebar = () => {
               <span>Patient Dashboard</span>
             </Link>
             
+            <Link 
+              to="/patient-dashboard?tab=messages" 
+              className={`sidebar-link ${isActive('/patient-dashboard') && location.search.includes('tab=messages') ? 'active' : ''}`}
+            >
+              <MessageSquare size={18} />
+              <span>Messages</span>
+              {unreadBadge}
+            </Link>
+            
             <Link 
               to="/therapist-selection" 
               className={`sidebar-link ${isActive('/therapist-selection') ? 'active' : ''}`}
@@ -201,6 +219,14 @@ const Sidebar = () => {
               <span>Activity</span>
             </Link>
             
+            <Link 
+              to="/claims" 
+              className={`sidebar-link ${isActive('/claims') ? 'active' : ''}`}
+            >
+              <Receipt size={18} />
+              <span>Claims</span>
+            </Link>
+            
             <Link 
               to="/settings" 
               className={`sidebar-link ${isActive('/settings') ? 'active' : ''}`}
@@ -215,23 +241,24 @@ const Sidebar = () => {
       <div className="border-t py-4 space-y-1 px-2">
         {/* Only show these links for admin/moderator roles */}
         {(userRole === 'admin' || userRole === 'moderator') && (
-          <>
-            <Link 
-              to="/reminders" 
-              className={`sidebar-link ${isActive('/reminders') ? 'active' : ''}`}
-            >
-              <Bell size={18} />
-              <span>Reminders</span>
-            </Link>
-            
-            <Link 
-              to="/messages" 
-              className={`sidebar-link ${isActive('/messages') ? 'active' : ''}`}
-            >
-              <MessageSquare size={18} />
-              <span>Messages</span>
-            </Link>
-          </>
+          <Link 
+            to="/reminders" 
+            className={`sidebar-link ${isActive('/reminders') ? 'active' : ''}`}
+          >
+            <Bell size={18} />
+            <span>Reminders</span>
+          </Link>
+        )}
+        
+        {isClinician && (
+          <Link 
+            to="/messages" 
+            className={`sidebar-link ${isActive('/messages') ? 'active' : ''}`}
+          >
+            <MessageSquare size={18} />
+            <span>Messages</span>
+            {unreadBadge}
+          </Link>
         )}
       </div>
     </div>
@@ -0,0 +1,238 @@
+import { useState, useEffect, useRef } from 'react';
+import { format } from 'date-fns';
+import { Paperclip, Send, X, FileText } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import {
+  supabase,
+  fetchMessages,
+  sendMessage,
+  markMessageThreadRead,
+  getMessageAttachmentURL,
+  Message
+} from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+
+// Attachments are meant for forms and letters, not large media
+const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+interface ConversationViewProps {
+  threadId: string;
+  currentUserId: string;
+  otherPartyName: string;
+  onMessagesRead?: () => void;
+}
+
+const ConversationView = ({ threadId, currentUserId, otherPartyName, onMessagesRead }: ConversationViewProps) => {
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [draft, setDraft] = useState('');
+  const [attachment, setAttachment] = useState<File | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    let isCurrent = true;
+
+    const loadMessages = async () => {
+      setIsLoading(true);
+      const data = await fetchMessages(threadId);
+      if (!isCurrent) return;
+      setMessages(data);
+      setIsLoading(false);
+
+      if (data.some(message => message.sender_id !== currentUserId && !message.read_at)) {
+        await markMessageThreadRead(threadId);
+        onMessagesRead?.();
+      }
+    };
+
+    loadMessages();
+
+    const channel = supabase
+      .channel(`message-thread-${threadId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'messages', filter: `thread_id=eq.${threadId}` },
+        async (payload) => {
+          const incoming = payload.new as Message;
+          setMessages(current => current.some(message => message.id === incoming.id) ? current : [...current, incoming]);
+
+          if (incoming.sender_id !== currentUserId) {
+            await markMessageThreadRead(threadId);
+            onMessagesRead?.();
+          }
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'messages', filter: `thread_id=eq.${threadId}` },
+        (payload) => {
+          const updated = payload.new as Message;
+          setMessages(current => current.map(message => message.id === updated.id ? updated : message));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      isCurrent = false;
+      supabase.removeChannel(channel);
+    };
+  }, [threadId, currentUserId, onMessagesRead]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages]);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0] || null;
+    event.target.value = '';
+
+    if (file && file.size > MAX_ATTACHMENT_SIZE) {
+      toast({
+        title: 'File too large',
+        description: 'Attachments must be 10 MB or smaller.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setAttachment(file);
+  };
+
+  const handleSend = async () => {
+    const body = draft.trim();
+    if (!body && !attachment) return;
+
+    setIsSending(true);
+    const result = await sendMessage(threadId, currentUserId, body, attachment);
+    setIsSending(false);
+
+    if (!result.success || !result.data) {
+      toast({
+        title: 'Error',
+        description: 'Your message could not be sent. Please try again.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const sent = result.data;
+    setMessages(current => current.some(message => message.id === sent.id) ? current : [...current, sent]);
+    setDraft('');
+    setAttachment(null);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault();
+      handleSend();
+    }
+  };
+
+  const handleOpenAttachment = async (message: Message) => {
+    if (!message.attachment_path) return;
+
+    const url = await getMessageAttachmentURL(message.attachment_path);
+    if (!url) {
+      toast({
+        title: 'Error',
+        description: 'Could not open the attachment. Please try again.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    window.open(url, '_blank');
+  };
+
+  return (
+    <div className="flex flex-col h-[600px]">
+      <div className="flex-1 overflow-y-auto p-4 space-y-3 bg-gray-50">
+        {isLoading ? (
+          <p className="text-center text-sm text-gray-500 py-8">Loading messages...</p>
+        ) : messages.length === 0 ? (
+          <p className="text-center text-sm text-gray-500 py-8">
+            No messages yet. Send a message to start the conversation with {otherPartyName}.
+          </p>
+        ) : (
+          messages.map((message) => {
+            const isOwn = message.sender_id === currentUserId;
+            return (
+              <div key={message.id} className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}>
+                <div
+                  className={`max-w-[70%] rounded-lg px-3 py-2 text-sm shadow-sm ${
+                    isOwn ? 'bg-valorwell-600 text-white' : 'bg-white text-gray-800 border'
+                  }`}
+                >
+                  {message.body && <p className="whitespace-pre-wrap break-words">{message.body}</p>}
+                  {message.attachment_path && (
+                    <button
+                      type="button"
+                      onClick={() => handleOpenAttachment(message)}
+                      className={`mt-1 flex items-center gap-1 underline ${isOwn ? 'text-white' : 'text-valorwell-600'}`}
+                    >
+                      <FileText className="h-4 w-4" />
+                      {message.attachment_name || 'Attachment'}
+                    </button>
+                  )}
+                  <p className={`mt-1 text-xs ${isOwn ? 'text-valorwell-100' : 'text-gray-400'}`}>
+                    {format(new Date(message.created_at), 'MMM d, h:mm a')}
+                    {isOwn && message.read_at && ' · Read'}
+                  </p>
+                </div>
+              </div>
+            );
+          })
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      <div className="border-t p-3 bg-white">
+        {attachment && (
+          <div className="mb-2 flex items-center gap-2 text-sm text-gray-600">
+            <Paperclip className="h-4 w-4" />
+            <span className="truncate">{attachment.name}</span>
+            <button type="button" onClick={() => setAttachment(null)} className="text-gray-400 hover:text-gray-600">
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+        <div className="flex items-end gap-2">
+          <input ref={fileInputRef} type="file" className="hidden" onChange={handleFileChange} />
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isSending}
+          >
+            <Paperclip className="h-4 w-4" />
+          </Button>
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder={`Message ${otherPartyName}...`}
+            className="min-h-[40px] max-h-32 resize-none"
+            rows={1}
+          />
+          <Button
+            type="button"
+            onClick={handleSend}
+            disabled={isSending || (!draft.trim() && !attachment)}
+            className="bg-valorwell-700 hover:bg-valorwell-800"
+          >
+            <Send className="h-4 w-4" />
+          </Button>
+        </div>
+        <p className="mt-1 text-xs text-gray-400">
+          Messages are not monitored around the clock. If this is an emergency, call 911 or the Veterans Crisis Line (988, press 1).
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ConversationView;
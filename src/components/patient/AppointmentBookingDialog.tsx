@@ -1,10 +1,12 @@
 
-import React, { useState, useEffect } from 'react';
-import { format, parse, addDays, isSameDay, isAfter, differenceInCalendarDays } from 'date-fns';
-import { Calendar as CalendarIcon, Clock, Check } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
+import React, { useState, useEffect, useMemo } from 'react';
+import { format, addDays } from 'date-fns';
+import { Calendar as CalendarIcon, Clock, Check, AlertTriangle } from 'lucide-react';
+import { bookAppointment, checkAppointmentLicensure, fetchSlotEngineData } from '@/integrations/supabase/client';
+import { isLicensureError } from '@/utils/licenses';
+import { computeBookableSlots, DEFAULT_SLOT_SETTINGS, BookableSlot, SlotEngineInput } from '@/utils/slotEngine';
 import { useToast } from '@/hooks/use-toast';
-import { formatTimeInUserTimeZone, getUserTimeZone } from '@/utils/timeZoneUtils';
+import { formatTime12Hour, getUserTimeZone } from '@/utils/timeZoneUtils';
 
 import { 
   Dialog, 
@@ -33,22 +35,13 @@ interface AppointmentBookingDialogProps {
   userTimeZone?: string;
 }
 
-interface AvailabilityBlock {
-  id: string;
-  day_of_week: string;
-  start_time: string;
-  end_time: string;
-}
+type SlotEngineData = Omit<SlotEngineInput, 'viewerTimeZone' | 'startDate' | 'endDate'>;
 
-interface TimeSlot {
-  time: string;
-  available: boolean;
-}
+// Online bookings are half-hour sessions
+const SESSION_LENGTH_MINUTES = 30;
 
-interface AvailabilitySettings {
-  time_granularity: string;
-  min_days_ahead: number;
-}
+// How far ahead to load; the clinician's max_days_ahead setting trims this further
+const BOOKING_HORIZON_DAYS = 365;
 
 const AppointmentBookingDialog: React.FC<AppointmentBookingDialogProps> = ({
   open,
@@ -62,165 +55,80 @@ const AppointmentBookingDialog: React.FC<AppointmentBookingDialogProps> = ({
   const [selectedDate, setSelectedDate] = useState<Date | undefined>(new Date());
   const [selectedTime, setSelectedTime] = useState<string | null>(null);
   const [notes, setNotes] = useState<string>("");
-  const [availabilityBlocks, setAvailabilityBlocks] = useState<AvailabilityBlock[]>([]);
-  const [timeSlots, setTimeSlots] = useState<TimeSlot[]>([]);
+  const [engineData, setEngineData] = useState<SlotEngineData | null>(null);
   const [loading, setLoading] = useState<boolean>(false);
   const [bookingInProgress, setBookingInProgress] = useState<boolean>(false);
-  const [minDaysAhead, setMinDaysAhead] = useState<number>(1);
+  const [unlicensedState, setUnlicensedState] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
   const { toast } = useToast();
   const userTimeZone = propTimeZone || getUserTimeZone();
+  const minDaysAhead = Number(engineData?.settings?.min_days_ahead ?? DEFAULT_SLOT_SETTINGS.min_days_ahead);
 
   useEffect(() => {
     if (!open || !clinicianId) return;
-    
-    const fetchSettings = async () => {
-      try {
-        console.log('Fetching availability settings for clinician ID:', clinicianId);
-        const { data: settingsData, error: settingsError } = await supabase.functions.invoke('getavailabilitysettings', {
-          body: { clinicianId }
-        });
-        
-        if (settingsError) {
-          console.error('Error fetching availability settings:', settingsError);
-        } else if (settingsData) {
-          const parsedMinDays = Number(settingsData.min_days_ahead);
-          console.log('Received availability settings:', settingsData);
-          console.log('Parsed min_days_ahead:', parsedMinDays);
-          setMinDaysAhead(parsedMinDays || 1);
-          console.log('Set minDaysAhead state to:', parsedMinDays || 1);
-        } else {
-          console.log('No settings data received, using default value of 1 for minDaysAhead');
-        }
-      } catch (error) {
-        console.error('Caught error in fetchSettings:', error);
-      }
-    };
-    
-    fetchSettings();
-  }, [clinicianId, open]);
 
-  useEffect(() => {
-    const fetchAvailability = async () => {
-      if (!clinicianId) return;
-      
+    const loadSlotData = async () => {
       setLoading(true);
-      try {
-        const { data, error } = await supabase
-          .from('availability')
-          .select('*')
-          .eq('clinician_id', clinicianId)
-          .eq('is_active', true);
-          
-        if (error) {
-          console.error('Error fetching availability:', error);
-          toast({
-            title: "Error",
-            description: "Could not fetch therapist availability",
-            variant: "destructive"
-          });
-        } else {
-          setAvailabilityBlocks(data || []);
-        }
-      } catch (error) {
-        console.error('Error:', error);
-      } finally {
-        setLoading(false);
+      const today = format(new Date(), 'yyyy-MM-dd');
+      const result = await fetchSlotEngineData(clinicianId, today, format(addDays(new Date(), BOOKING_HORIZON_DAYS), 'yyyy-MM-dd'));
+
+      if (!result.success || !result.data) {
+        toast({
+          title: "Error",
+          description: "Could not fetch therapist availability",
+          variant: "destructive"
+        });
+        setEngineData(null);
+      } else {
+        setEngineData(result.data);
       }
+      setLoading(false);
     };
 
-    fetchAvailability();
-  }, [clinicianId, toast]);
+    loadSlotData();
+  }, [clinicianId, open, toast, reloadKey]);
 
-  useEffect(() => {
-    if (!selectedDate || !availabilityBlocks.length) {
-      setTimeSlots([]);
-      return;
-    }
+  // Every bookable slot, grouped by the day it falls on for the viewer
+  const slotsByDate = useMemo(() => {
+    const grouped: Record<string, BookableSlot[]> = {};
+    if (!engineData) return grouped;
 
-    const dayOfWeek = format(selectedDate, 'EEEE');
-    const availabilityForDay = availabilityBlocks.filter(
-      block => block.day_of_week === dayOfWeek
-    );
+    const today = format(new Date(), 'yyyy-MM-dd');
+    computeBookableSlots({
+      ...engineData,
+      viewerTimeZone: userTimeZone,
+      startDate: today,
+      endDate: format(addDays(new Date(), BOOKING_HORIZON_DAYS), 'yyyy-MM-dd'),
+      durationMinutes: SESSION_LENGTH_MINUTES
+    }).forEach(slot => {
+      (grouped[slot.viewerDate] = grouped[slot.viewerDate] || []).push(slot);
+    });
+    return grouped;
+  }, [engineData, userTimeZone]);
 
-    if (availabilityForDay.length === 0) {
-      setTimeSlots([]);
-      return;
-    }
+  const timeSlots = selectedDate ? slotsByDate[format(selectedDate, 'yyyy-MM-dd')] || [] : [];
+  const selectedSlot = timeSlots.find(slot => slot.start === selectedTime) || null;
 
-    const slots: TimeSlot[] = [];
-    
-    availabilityForDay.forEach(block => {
-      const startTime = parse(block.start_time, 'HH:mm:ss', new Date());
-      const endTime = parse(block.end_time, 'HH:mm:ss', new Date());
-      
-      let currentTime = startTime;
-      while (currentTime < endTime) {
-        const timeString = format(currentTime, 'HH:mm');
-        slots.push({
-          time: timeString,
-          available: true
-        });
-        currentTime = addDays(currentTime, 0);
-        currentTime.setMinutes(currentTime.getMinutes() + 30);
-      }
-    });
+  useEffect(() => {
+    setUnlicensedState(null);
+    if (!open || !selectedDate || !clinicianId || !clientId) return;
 
-    const checkExistingAppointments = async () => {
-      if (!selectedDate || !clinicianId) return;
-      
-      const dateStr = format(selectedDate, 'yyyy-MM-dd');
-      console.log('Checking appointments for date:', dateStr);
-      
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const daysFromToday = differenceInCalendarDays(selectedDate, today);
-      console.log('Days from today:', daysFromToday, 'minDaysAhead:', minDaysAhead);
-      
-      if (daysFromToday < minDaysAhead) {
-        console.log('Selected date is too soon, should be blocked');
-        setTimeSlots([]);
-        return;
-      }
-      
-      try {
-        const { data, error } = await supabase
-          .from('appointments')
-          .select('*')
-          .eq('clinician_id', clinicianId)
-          .eq('date', dateStr)
-          .eq('status', 'scheduled');
-          
-        if (error) {
-          console.error('Error fetching appointments:', error);
-        } else if (data && data.length > 0) {
-          const updatedSlots = slots.map(slot => {
-            const slotTime = parse(slot.time, 'HH:mm', new Date());
-            const slotTimeStr = format(slotTime, 'HH:mm:ss');
-            
-            const isBooked = data.some(appointment => 
-              appointment.start_time === slotTimeStr
-            );
-            
-            return {
-              ...slot,
-              available: !isBooked
-            };
-          });
-          
-          setTimeSlots(updatedSlots);
-        } else {
-          setTimeSlots(slots);
-        }
-      } catch (error) {
-        console.error('Error:', error);
+    let isCancelled = false;
+    const checkLicensure = async () => {
+      const result = await checkAppointmentLicensure(clinicianId, clientId, format(selectedDate, 'yyyy-MM-dd'));
+      if (!isCancelled && result.success && result.data && !result.data.isLicensed) {
+        setUnlicensedState(result.data.clientState);
       }
     };
-    
-    checkExistingAppointments();
-  }, [selectedDate, availabilityBlocks, clinicianId, minDaysAhead]);
+
+    checkLicensure();
+    return () => {
+      isCancelled = true;
+    };
+  }, [open, selectedDate, clinicianId, clientId]);
 
   const handleBookAppointment = async () => {
-    if (!selectedDate || !selectedTime || !clinicianId || !clientId) {
+    if (!selectedSlot || !clinicianId || !clientId) {
       toast({
         title: "Missing information",
         description: "Please select a date and time",
@@ -229,52 +137,35 @@ const AppointmentBookingDialog: React.FC<AppointmentBookingDialogProps> = ({
       return;
     }
 
-    // Add validation to ensure the selected date meets the minimum days ahead requirement
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const daysFromToday = differenceInCalendarDays(selectedDate, today);
-    
-    if (daysFromToday < minDaysAhead) {
-      toast({
-        title: "Invalid date selection",
-        description: `Appointments must be booked at least ${minDaysAhead} day${minDaysAhead !== 1 ? 's' : ''} in advance.`,
-        variant: "destructive"
-      });
-      return;
-    }
-
     setBookingInProgress(true);
     
     try {
-      const startTime = selectedTime;
-      const endTimeObj = parse(selectedTime, 'HH:mm', new Date());
-      endTimeObj.setMinutes(endTimeObj.getMinutes() + 30);
-      const endTime = format(endTimeObj, 'HH:mm');
-      
-      const dateStr = format(selectedDate, 'yyyy-MM-dd');
-      
-      const { data, error } = await supabase
-        .from('appointments')
-        .insert([
-          {
-            client_id: clientId,
-            clinician_id: clinicianId,
-            date: dateStr,
-            start_time: startTime,
-            end_time: endTime,
-            type: "Therapy Session",
-            notes: notes,
-            status: 'scheduled'
-          }
-        ]);
-        
-      if (error) {
-        console.error('Error booking appointment:', error);
+      // Appointments are stored in the clinician's local time
+      const result = await bookAppointment({
+        clientId,
+        clinicianId,
+        sessions: [{ date: selectedSlot.date, start_time: selectedSlot.startTime, end_time: selectedSlot.endTime }],
+        type: "Therapy Session",
+        notes
+      });
+
+      if (!result.success) {
+        const code = result.error?.code;
         toast({
           title: "Error",
-          description: "Failed to book appointment. Please try again.",
+          description: isLicensureError(result.error)
+            ? "Your therapist isn't licensed in your state on this date. Please contact the practice."
+            : code === 'SLOT_CONFLICT' || code === 'SLOT_UNAVAILABLE'
+              ? "Sorry, that time was just taken. Please choose another time."
+              : "Failed to book appointment. Please try again.",
           variant: "destructive"
         });
+
+        // Someone else got there first; reload so the slot disappears
+        if (code === 'SLOT_CONFLICT' || code === 'SLOT_UNAVAILABLE') {
+          setSelectedTime(null);
+          setReloadKey(key => key + 1);
+        }
       } else {
         toast({
           title: "Success",
@@ -298,56 +189,9 @@ const AppointmentBookingDialog: React.FC<AppointmentBookingDialogProps> = ({
     }
   };
 
-  const isDayUnavailable = (date: Date) => {
-    const dayOfWeek = format(date, 'EEEE');
-    return !availabilityBlocks.some(block => block.day_of_week === dayOfWeek);
-  };
-
-  const isPastDate = (date: Date) => {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    return date < today;
-  };
+  const disabledDays = (date: Date) => !slotsByDate[format(date, 'yyyy-MM-dd')];
 
-  const isDateTooSoon = (date: Date) => {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const daysFromToday = differenceInCalendarDays(date, today);
-    const result = daysFromToday < minDaysAhead;
-    console.log('isDateTooSoon check:', {
-      date: format(date, 'yyyy-MM-dd'),
-      today: format(today, 'yyyy-MM-dd'),
-      daysFromToday,
-      minDaysAhead,
-      isTooSoon: result
-    });
-    return result;
-  };
-
-  const disabledDays = (date: Date) => {
-    const unavailable = isDayUnavailable(date);
-    const pastDate = isPastDate(date);
-    const tooSoon = isDateTooSoon(date);
-    
-    const today = new Date();
-    const daysFromToday = differenceInCalendarDays(date, today);
-    if (daysFromToday >= 0 && daysFromToday < 10) {
-      console.log('Checking date:', format(date, 'yyyy-MM-dd'), {
-        unavailable,
-        pastDate,
-        tooSoon,
-        minDaysAhead,
-        daysFromToday,
-        disabled: unavailable || pastDate || tooSoon
-      });
-    }
-    
-    return unavailable || pastDate || tooSoon;
-  };
-
-  const formatTimeDisplay = (timeString: string) => {
-    return formatTimeInUserTimeZone(timeString, userTimeZone);
-  };
+  const formatTimeDisplay = (time: string) => formatTime12Hour(time);
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -365,9 +209,9 @@ const AppointmentBookingDialog: React.FC<AppointmentBookingDialogProps> = ({
           <div className="flex justify-center items-center py-10">
             <Loader2 className="h-8 w-8 animate-spin text-valorwell-500" />
           </div>
-        ) : availabilityBlocks.length === 0 ? (
+        ) : Object.keys(slotsByDate).length === 0 ? (
           <div className="text-center py-6">
-            <p className="text-gray-500">No availability found for this therapist.</p>
+            <p className="text-gray-500">No open times found for this therapist.</p>
             <p className="text-sm text-gray-400 mt-2">Please contact the clinic for assistance.</p>
           </div>
         ) : (
@@ -384,6 +228,15 @@ const AppointmentBookingDialog: React.FC<AppointmentBookingDialogProps> = ({
             </TabsList>
             
             <TabsContent value="calendar" className="space-y-4">
+              {unlicensedState && (
+                <div className="flex items-start gap-2 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                  <span>
+                    {clinicianName || 'Your therapist'} isn't licensed in {unlicensedState} on this date, so this
+                    appointment can't be booked online. Please contact the practice for help.
+                  </span>
+                </div>
+              )}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div>
                   <h3 className="text-sm font-medium mb-2">Select Date</h3>
@@ -394,8 +247,8 @@ const AppointmentBookingDialog: React.FC<AppointmentBookingDialogProps> = ({
                     mode="single"
                     selected={selectedDate}
                     onSelect={(date) => {
-                      console.log('Date selected:', date ? format(date, 'yyyy-MM-dd') : 'none');
                       setSelectedDate(date);
+                      setSelectedTime(null);
                     }}
                     disabled={disabledDays}
                     className="border rounded-md"
@@ -412,18 +265,14 @@ const AppointmentBookingDialog: React.FC<AppointmentBookingDialogProps> = ({
                       <RadioGroup value={selectedTime || ''} onValueChange={setSelectedTime}>
                         <div className="grid grid-cols-2 gap-2">
                           {timeSlots.map(slot => (
-                            <div key={slot.time} className="flex items-center">
+                            <div key={slot.start} className="flex items-center">
                               <RadioGroupItem
-                                value={slot.time}
-                                id={`time-${slot.time}`}
-                                disabled={!slot.available}
+                                value={slot.start}
+                                id={`time-${slot.start}`}
                                 className="focus:ring-valorwell-500"
                               />
-                              <Label
-                                htmlFor={`time-${slot.time}`}
-                                className={`ml-2 ${!slot.available ? 'line-through text-gray-400' : ''}`}
-                              >
-                                {formatTimeDisplay(slot.time)}
+                              <Label htmlFor={`time-${slot.start}`} className="ml-2">
+                                {formatTimeDisplay(slot.viewerStartTime)}
                               </Label>
                             </div>
                           ))}
@@ -455,7 +304,7 @@ const AppointmentBookingDialog: React.FC<AppointmentBookingDialogProps> = ({
                       }
                     }
                   }}
-                  disabled={!selectedTime}
+                  disabled={!selectedTime || !!unlicensedState}
                 >
                   Continue
                 </Button>
@@ -485,7 +334,7 @@ const AppointmentBookingDialog: React.FC<AppointmentBookingDialogProps> = ({
                   <div className="flex justify-between">
                     <span className="text-gray-500">Time:</span>
                     <span className="font-medium">
-                      {selectedTime ? formatTimeDisplay(selectedTime) : ''}
+                      {selectedSlot ? formatTimeDisplay(selectedSlot.viewerStartTime) : ''}
                     </span>
                   </div>
                   <div className="flex justify-between">
@@ -520,7 +369,7 @@ const AppointmentBookingDialog: React.FC<AppointmentBookingDialogProps> = ({
                 </Button>
                 <Button 
                   onClick={handleBookAppointment}
-                  disabled={bookingInProgress}
+                  disabled={bookingInProgress || !!unlicensedState}
                 >
                   {bookingInProgress ? (
                     <>
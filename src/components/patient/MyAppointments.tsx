@@ -2,7 +2,7 @@
 import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Calendar } from 'lucide-react';
+import { Calendar, CalendarPlus } from 'lucide-react';
 import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from '@/components/ui/table';
 import { supabase } from '@/integrations/supabase/client';
 import { format, parseISO, startOfToday } from 'date-fns';
@@ -15,6 +15,8 @@ import {
   ensureIANATimeZone
 } from '@/utils/timeZoneUtils';
 import { useToast } from '@/hooks/use-toast';
+import { getClinicianTimeZone } from '@/hooks/useClinicianData';
+import { appointmentToICSEvent, buildICSCalendar, downloadICS } from '@/utils/ics';
 
 interface PastAppointment {
   id: string | number;
@@ -23,6 +25,9 @@ interface PastAppointment {
   type: string;
   therapist: string;
   rawDate?: string;
+  rawTime?: string;
+  rawEndTime?: string;
+  clinicianId?: string;
   status?: string;
 }
 
@@ -147,6 +152,8 @@ const MyAppointments: React.FC<MyAppointmentsProps> = ({ pastAppointments: initi
                 therapist: clinicianName || 'Your Therapist',
                 rawDate: appointment.date,
                 rawTime: appointment.start_time,
+                rawEndTime: appointment.end_time,
+                clinicianId: appointment.clinician_id,
                 status: appointment.status
               };
             } catch (error) {
@@ -185,6 +192,33 @@ const MyAppointments: React.FC<MyAppointmentsProps> = ({ pastAppointments: initi
 
   const timeZoneDisplay = formatTimeZoneDisplay(clientTimeZone);
 
+  // Appointment times are stored in the clinician's time zone
+  const handleAddToCalendar = async (appointment: PastAppointment) => {
+    if (!appointment.rawDate || !appointment.rawTime || !appointment.rawEndTime || !appointment.clinicianId) {
+      toast({
+        title: "Error",
+        description: "This appointment can't be added to a calendar.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const clinicianTimeZone = ensureIANATimeZone(await getClinicianTimeZone(appointment.clinicianId));
+    const event = appointmentToICSEvent({
+      id: String(appointment.id),
+      date: appointment.rawDate,
+      start_time: appointment.rawTime,
+      end_time: appointment.rawEndTime,
+      status: appointment.status || 'scheduled'
+    }, clinicianTimeZone, {
+      summary: 'ValorWell appointment',
+      description: 'Sign in to your ValorWell patient portal for details.',
+      url: window.location.origin
+    });
+
+    downloadICS(`valorwell-appointment-${appointment.rawDate}.ics`, buildICSCalendar([event]));
+  };
+
   return (
     <Card>
       <CardHeader>
@@ -214,7 +248,11 @@ const MyAppointments: React.FC<MyAppointmentsProps> = ({ pastAppointments: initi
                   <TableCell>{appointment.type}</TableCell>
                   <TableCell>{appointment.therapist}</TableCell>
                   <TableCell>{appointment.status}</TableCell>
-                  <TableCell className="text-right">
+                  <TableCell className="text-right space-x-2">
+                    <Button variant="outline" size="sm" onClick={() => handleAddToCalendar(appointment)}>
+                      <CalendarPlus className="h-4 w-4 mr-1" />
+                      Add to Calendar
+                    </Button>
                     <Button variant="outline" size="sm">View Details</Button>
                   </TableCell>
                 </TableRow>
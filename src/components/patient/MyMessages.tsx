@@ -0,0 +1,90 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { MessageSquare } from 'lucide-react';
+import { getOrCreateMessageThread, getClinicianNameById, MessageThread } from '@/integrations/supabase/client';
+import { useUser } from '@/context/UserContext';
+import { useToast } from '@/hooks/use-toast';
+import ConversationView from '@/components/messages/ConversationView';
+
+interface MyMessagesProps {
+  clientData: { client_assigned_therapist?: string | null } | null;
+  loading: boolean;
+}
+
+const MyMessages: React.FC<MyMessagesProps> = ({ clientData, loading }) => {
+  const [thread, setThread] = useState<MessageThread | null>(null);
+  const [clinicianName, setClinicianName] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const { userId } = useUser();
+  const { toast } = useToast();
+
+  const assignedTherapist = clientData?.client_assigned_therapist || null;
+
+  const loadThread = useCallback(async () => {
+    if (!userId || !assignedTherapist) {
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    const [threadResult, name] = await Promise.all([
+      getOrCreateMessageThread(userId),
+      getClinicianNameById(assignedTherapist)
+    ]);
+
+    if (threadResult.success && threadResult.data) {
+      setThread(threadResult.data);
+    } else {
+      toast({
+        title: "Error",
+        description: "Failed to load your messages",
+        variant: "destructive"
+      });
+    }
+    setClinicianName(name);
+    setIsLoading(false);
+  }, [userId, assignedTherapist, toast]);
+
+  useEffect(() => {
+    loadThread();
+  }, [loadThread]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquare className="h-5 w-5 text-valorwell-600" />
+          Messages
+        </CardTitle>
+        <CardDescription>
+          {clinicianName
+            ? `Secure messages with ${clinicianName}`
+            : 'Secure messages with your therapist'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-0">
+        {loading || isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-valorwell-600"></div>
+          </div>
+        ) : !assignedTherapist ? (
+          <p className="text-center text-sm text-gray-500 py-12 px-6">
+            You'll be able to message your therapist once one has been assigned to you.
+          </p>
+        ) : thread && userId ? (
+          <ConversationView
+            threadId={thread.id}
+            currentUserId={userId}
+            otherPartyName={clinicianName || 'your therapist'}
+          />
+        ) : (
+          <p className="text-center text-sm text-gray-500 py-12 px-6">
+            Your messages could not be loaded. Please refresh the page to try again.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MyMessages;
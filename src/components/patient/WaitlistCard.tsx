@@ -0,0 +1,201 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { Clock, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import {
+  WaitlistEntry,
+  WaitlistOffer,
+  fetchWaitlistEntries,
+  fetchWaitlistOffers,
+  saveWaitlistEntry,
+  removeWaitlistEntry
+} from '@/integrations/supabase/client';
+import { describeWaitlistPreferences } from '@/utils/waitlist';
+import { formatTime12Hour } from '@/utils/timeZoneUtils';
+import WaitlistPreferencesFields from '@/components/calendar/WaitlistPreferencesFields';
+
+interface WaitlistCardProps {
+  clientId: string | null;
+  clinicianId: string | null;
+  clinicianName: string | null;
+}
+
+const WaitlistCard: React.FC<WaitlistCardProps> = ({ clientId, clinicianId, clinicianName }) => {
+  const [entry, setEntry] = useState<WaitlistEntry | null>(null);
+  const [offers, setOffers] = useState<WaitlistOffer[]>([]);
+  const [draft, setDraft] = useState<WaitlistEntry | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const loadWaitlist = useCallback(async () => {
+    if (!clientId || !clinicianId) return;
+    setLoading(true);
+    const [entries, pendingOffers] = await Promise.all([
+      fetchWaitlistEntries({ clientId, clinicianId }),
+      fetchWaitlistOffers(clientId)
+    ]);
+    setEntry(entries[0] || null);
+    setOffers(pendingOffers);
+    setLoading(false);
+  }, [clientId, clinicianId]);
+
+  useEffect(() => {
+    loadWaitlist();
+  }, [loadWaitlist]);
+
+  if (!clientId || !clinicianId) return null;
+
+  const startEditing = () => {
+    setDraft(entry || {
+      clinician_id: clinicianId,
+      client_id: clientId,
+      preferred_days: [],
+      earliest_time: null,
+      latest_time: null,
+      priority: 0,
+      notes: null
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    if (draft.earliest_time && draft.latest_time && draft.latest_time <= draft.earliest_time) {
+      toast({
+        title: "Invalid times",
+        description: "The latest end time must be after the earliest start time.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    const result = await saveWaitlistEntry(draft);
+    setIsSaving(false);
+
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: "Failed to update your waitlist request. Please try again.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: entry ? "Waitlist updated" : "You're on the waitlist",
+      description: "We'll email you if an earlier time opens up."
+    });
+    setDraft(null);
+    await loadWaitlist();
+  };
+
+  const handleLeave = async () => {
+    if (!entry?.id) return;
+    const confirmed = window.confirm("Leave the waitlist? You won't be offered earlier times.");
+    if (!confirmed) return;
+
+    const result = await removeWaitlistEntry(entry.id);
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: "Failed to leave the waitlist. Please try again.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({ title: "You've left the waitlist" });
+    await loadWaitlist();
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <div>
+          <CardTitle>Waitlist</CardTitle>
+          <CardDescription>Get offered earlier times with {clinicianName || 'your therapist'} when they open up</CardDescription>
+        </div>
+        {!loading && !draft && (
+          <Button variant="outline" size="sm" onClick={startEditing}>
+            <Clock className="mr-2 h-4 w-4" />
+            {entry ? 'Edit Request' : 'Join Waitlist'}
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            {offers.map(offer => (
+              <div key={offer.id} className="flex items-center justify-between gap-4 rounded-md border border-green-200 bg-green-50 p-3">
+                <div className="text-sm">
+                  <div className="font-medium text-green-800">
+                    {format(parseISO(offer.date), 'EEEE, MMMM d')} at {formatTime12Hour(offer.start_time)} is available
+                  </div>
+                  <div className="text-green-700">
+                    Claim by {format(parseISO(offer.expires_at), 'h:mm a')} or it goes to the next person in line.
+                  </div>
+                </div>
+                <Button size="sm" asChild>
+                  <Link to={`/waitlist/claim/${offer.token}`}>Claim</Link>
+                </Button>
+              </div>
+            ))}
+
+            {draft ? (
+              <div className="space-y-3">
+                <WaitlistPreferencesFields
+                  value={draft}
+                  onChange={(preferences) => setDraft({ ...draft, ...preferences })}
+                  idPrefix="my-waitlist"
+                />
+                <div className="grid gap-1">
+                  <Label htmlFor="my-waitlist-notes">Notes</Label>
+                  <Input
+                    id="my-waitlist-notes"
+                    className="h-8"
+                    placeholder="Optional"
+                    value={draft.notes || ''}
+                    onChange={(e) => setDraft({ ...draft, notes: e.target.value || null })}
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={() => setDraft(null)} disabled={isSaving}>
+                    Cancel
+                  </Button>
+                  <Button onClick={handleSave} disabled={isSaving}>
+                    {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    {isSaving ? 'Saving...' : 'Save'}
+                  </Button>
+                </div>
+              </div>
+            ) : entry ? (
+              <div className="flex items-center justify-between text-sm">
+                <span>You're on the waitlist for <span className="font-medium">{describeWaitlistPreferences(entry)}</span>.</span>
+                <Button variant="ghost" size="sm" onClick={handleLeave}>
+                  Leave Waitlist
+                </Button>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">
+                Want to be seen sooner? Join the waitlist and we'll email you when a matching time opens up.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WaitlistCard;
@@ -0,0 +1,190 @@
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { RefreshCw, Send } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import {
+  fetchAppointmentReminders,
+  runAppointmentReminders,
+  AppointmentReminder
+} from '@/integrations/supabase/client';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+
+const statusStyles: Record<AppointmentReminder['status'], string> = {
+  pending: 'bg-blue-100 text-blue-800',
+  sent: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-600'
+};
+
+const ReminderQueueTab = () => {
+  const [reminders, setReminders] = useState<AppointmentReminder[]>([]);
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRunning, setIsRunning] = useState(false);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+
+  const loadReminders = useCallback(async () => {
+    setIsLoading(true);
+    const data = await fetchAppointmentReminders(statusFilter);
+    setReminders(data);
+    setIsLoading(false);
+  }, [statusFilter]);
+
+  useEffect(() => {
+    loadReminders();
+  }, [loadReminders]);
+
+  const handleRunNow = async () => {
+    setIsRunning(true);
+    const result = await runAppointmentReminders();
+    setIsRunning(false);
+
+    if (!result.success) {
+      toast({
+        title: 'Error',
+        description: 'Failed to run the reminder engine. Please try again.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({
+      title: 'Reminders processed',
+      description: `Queued ${result.data?.queued ?? 0}, sent ${result.data?.sent ?? 0}, failed ${result.data?.failed ?? 0}.`,
+    });
+    loadReminders();
+  };
+
+  const handleRetry = async (reminder: AppointmentReminder) => {
+    setRetryingId(reminder.id);
+    const result = await runAppointmentReminders([reminder.id]);
+    setRetryingId(null);
+
+    if (!result.success || result.data?.sent === 0) {
+      toast({
+        title: 'Retry failed',
+        description: 'The reminder could not be sent. Check the error column for details.',
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'Reminder sent',
+        description: 'The reminder was delivered successfully.',
+      });
+    }
+    loadReminders();
+  };
+
+  return (
+    <div className="p-6 animate-fade-in">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h2 className="text-xl font-semibold">Reminder Queue</h2>
+          <p className="text-sm text-gray-500">Reminders are generated from scheduled appointments and sent every five minutes.</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All statuses</SelectItem>
+              <SelectItem value="pending">Pending</SelectItem>
+              <SelectItem value="sent">Sent</SelectItem>
+              <SelectItem value="failed">Failed</SelectItem>
+              <SelectItem value="cancelled">Cancelled</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="icon" onClick={loadReminders} disabled={isLoading}>
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+          <Button onClick={handleRunNow} disabled={isRunning} className="bg-valorwell-700 hover:bg-valorwell-800">
+            <Send className="h-4 w-4 mr-1" />
+            {isRunning ? 'Running...' : 'Run Now'}
+          </Button>
+        </div>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Client</TableHead>
+              <TableHead>Appointment</TableHead>
+              <TableHead>Rule</TableHead>
+              <TableHead>Channel</TableHead>
+              <TableHead>Scheduled For</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Details</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center py-8 text-gray-500">
+                  Loading reminders...
+                </TableCell>
+              </TableRow>
+            ) : reminders.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center py-8 text-gray-500">
+                  No reminders found.
+                </TableCell>
+              </TableRow>
+            ) : (
+              reminders.map((reminder) => (
+                <TableRow key={reminder.id}>
+                  <TableCell className="font-medium">
+                    {reminder.clients ? `${reminder.clients.client_first_name || ''} ${reminder.clients.client_last_name || ''}` : '—'}
+                  </TableCell>
+                  <TableCell>
+                    {reminder.appointments
+                      ? `${format(new Date(`${reminder.appointments.date}T00:00:00`), 'MMM d, yyyy')} ${reminder.appointments.start_time.substring(0, 5)}`
+                      : '—'}
+                  </TableCell>
+                  <TableCell>{reminder.reminder_rules?.name || '—'}</TableCell>
+                  <TableCell className="uppercase">{reminder.channel}</TableCell>
+                  <TableCell>{format(new Date(reminder.scheduled_for), 'MMM d, yyyy h:mm a')}</TableCell>
+                  <TableCell>
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${statusStyles[reminder.status]}`}>
+                      {reminder.status}
+                    </span>
+                  </TableCell>
+                  <TableCell className="max-w-xs truncate text-sm text-gray-600">
+                    {reminder.status === 'sent' && reminder.sent_at
+                      ? `Sent ${format(new Date(reminder.sent_at), 'MMM d, h:mm a')} via ${reminder.provider}`
+                      : reminder.last_error || (reminder.attempts > 0 ? `${reminder.attempts} attempt(s)` : '—')}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {(reminder.status === 'failed' || reminder.status === 'pending') && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRetry(reminder)}
+                        disabled={retryingId === reminder.id}
+                      >
+                        {retryingId === reminder.id ? 'Sending...' : reminder.status === 'failed' ? 'Retry' : 'Send Now'}
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default ReminderQueueTab;
@@ -0,0 +1,327 @@
+import { useState, useEffect } from 'react';
+import { Plus } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import {
+  fetchReminderRules,
+  saveReminderRule,
+  deleteReminderRule,
+  ReminderRule
+} from '@/integrations/supabase/client';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+
+const APPOINTMENT_TYPES = ['Therapy Session'];
+const ALL_TYPES = 'all';
+
+const emptyRule: ReminderRule = {
+  name: '',
+  appointment_type: null,
+  minutes_before: 1440,
+  channel: 'email',
+  message_template: '',
+  is_active: true
+};
+
+const formatLeadTime = (minutes: number) => {
+  if (minutes % 1440 === 0) return `${minutes / 1440} day${minutes === 1440 ? '' : 's'} before`;
+  if (minutes % 60 === 0) return `${minutes / 60} hour${minutes === 60 ? '' : 's'} before`;
+  return `${minutes} minutes before`;
+};
+
+const ReminderRulesTab = () => {
+  const [rules, setRules] = useState<ReminderRule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<ReminderRule>(emptyRule);
+  const [leadHours, setLeadHours] = useState('24');
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  const loadRules = async () => {
+    setIsLoading(true);
+    try {
+      const data = await fetchReminderRules();
+      setRules(data);
+    } catch (error) {
+      console.error('Error loading reminder rules:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load reminder rules. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleAddRule = () => {
+    setEditingRule(emptyRule);
+    setLeadHours(String(emptyRule.minutes_before / 60));
+    setIsDialogOpen(true);
+  };
+
+  const handleEditRule = (rule: ReminderRule) => {
+    setEditingRule({ ...rule, message_template: rule.message_template || '' });
+    setLeadHours(String(rule.minutes_before / 60));
+    setIsDialogOpen(true);
+  };
+
+  const handleToggleRule = async (rule: ReminderRule) => {
+    const result = await saveReminderRule({ ...rule, is_active: !rule.is_active });
+    if (!result.success) {
+      toast({
+        title: 'Error',
+        description: 'Failed to update reminder rule. Please try again.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setRules(rules.map(r => r.id === rule.id ? { ...r, is_active: !r.is_active } : r));
+  };
+
+  const handleDeleteRule = async (ruleId: string) => {
+    const confirmed = window.confirm('Are you sure you want to delete this reminder rule? Reminders already queued by it will still be sent.');
+
+    if (!confirmed) return;
+
+    const result = await deleteReminderRule(ruleId);
+    if (!result.success) {
+      toast({
+        title: 'Error',
+        description: 'Failed to delete reminder rule. Please try again.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setRules(rules.filter(rule => rule.id !== ruleId));
+    toast({
+      title: 'Success',
+      description: 'Reminder rule deleted successfully',
+    });
+  };
+
+  const handleSaveRule = async () => {
+    const hours = parseFloat(leadHours);
+    if (!editingRule.name.trim() || isNaN(hours) || hours <= 0) {
+      toast({
+        title: 'Validation Error',
+        description: 'Please enter a name and a lead time greater than 0 hours.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const result = await saveReminderRule({
+      ...editingRule,
+      minutes_before: Math.round(hours * 60),
+      message_template: editingRule.message_template?.trim() || null
+    });
+
+    if (!result.success) {
+      toast({
+        title: 'Error',
+        description: 'Failed to save reminder rule. Please try again.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({
+      title: 'Success',
+      description: editingRule.id ? 'Reminder rule updated successfully' : 'Reminder rule added successfully',
+    });
+    setIsDialogOpen(false);
+    loadRules();
+  };
+
+  return (
+    <div className="p-6 animate-fade-in">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h2 className="text-xl font-semibold">Reminder Rules</h2>
+          <p className="text-sm text-gray-500">Each active rule queues one reminder per matching scheduled appointment.</p>
+        </div>
+        <button
+          onClick={handleAddRule}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm bg-valorwell-700 text-white rounded hover:bg-valorwell-800"
+        >
+          <Plus size={16} />
+          <span>Add Rule</span>
+        </button>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Appointment Type</TableHead>
+              <TableHead>When</TableHead>
+              <TableHead>Channel</TableHead>
+              <TableHead>Active</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-8 text-gray-500">
+                  Loading reminder rules...
+                </TableCell>
+              </TableRow>
+            ) : rules.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-8 text-gray-500">
+                  No reminder rules found. Click the button above to add your first rule.
+                </TableCell>
+              </TableRow>
+            ) : (
+              rules.map((rule) => (
+                <TableRow key={rule.id}>
+                  <TableCell className="font-medium">{rule.name}</TableCell>
+                  <TableCell>{rule.appointment_type || 'All types'}</TableCell>
+                  <TableCell>{formatLeadTime(rule.minutes_before)}</TableCell>
+                  <TableCell className="uppercase">{rule.channel}</TableCell>
+                  <TableCell>
+                    <Switch checked={rule.is_active} onCheckedChange={() => handleToggleRule(rule)} />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <button
+                        onClick={() => handleEditRule(rule)}
+                        className="px-3 py-1 bg-blue-500 text-white text-sm rounded hover:bg-blue-600"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => rule.id && handleDeleteRule(rule.id)}
+                        className="px-3 py-1 bg-red-500 text-white text-sm rounded hover:bg-red-600"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[525px]">
+          <DialogHeader>
+            <DialogTitle>{editingRule.id ? 'Edit Reminder Rule' : 'Add Reminder Rule'}</DialogTitle>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="rule-name" className="text-right">
+                Name
+              </Label>
+              <Input
+                id="rule-name"
+                value={editingRule.name}
+                onChange={(e) => setEditingRule({ ...editingRule, name: e.target.value })}
+                className="col-span-3"
+                placeholder="E.g., 48 hour email reminder"
+              />
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label className="text-right">Type</Label>
+              <div className="col-span-3">
+                <Select
+                  value={editingRule.appointment_type || ALL_TYPES}
+                  onValueChange={(value) => setEditingRule({ ...editingRule, appointment_type: value === ALL_TYPES ? null : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_TYPES}>All appointment types</SelectItem>
+                    {APPOINTMENT_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{type}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="rule-lead" className="text-right">
+                Hours before
+              </Label>
+              <Input
+                id="rule-lead"
+                type="number"
+                min="0.25"
+                step="0.25"
+                value={leadHours}
+                onChange={(e) => setLeadHours(e.target.value)}
+                className="col-span-3"
+              />
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label className="text-right">Channel</Label>
+              <div className="col-span-3">
+                <Select
+                  value={editingRule.channel}
+                  onValueChange={(value) => setEditingRule({ ...editingRule, channel: value as ReminderRule['channel'] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="email">Email</SelectItem>
+                    <SelectItem value="sms">SMS</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-4 items-start gap-4">
+              <Label htmlFor="rule-template" className="text-right pt-2">
+                Message
+              </Label>
+              <div className="col-span-3">
+                <Textarea
+                  id="rule-template"
+                  value={editingRule.message_template || ''}
+                  onChange={(e) => setEditingRule({ ...editingRule, message_template: e.target.value })}
+                  className="min-h-[100px]"
+                  placeholder="Leave blank to use the default message"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Available placeholders: {'{{client_name}}'}, {'{{clinician_name}}'}, {'{{appointment_type}}'}, {'{{date}}'}, {'{{time}}'}
+                </p>
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" onClick={handleSaveRule}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ReminderRulesTab;
@@ -1,15 +1,449 @@
+import { useState, useEffect, useMemo } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Plus, AlertTriangle, FileText } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import {
+  supabase,
+  fetchClinicianLicenses,
+  saveClinicianLicense,
+  deleteClinicianLicense,
+  getLicenseProofURL,
+  ClinicianLicense
+} from '@/integrations/supabase/client';
+import {
+  LICENSE_TYPES,
+  LICENSE_STATUS_LABELS,
+  LICENSE_STATUS_STYLES,
+  getDaysUntilExpiration,
+  getLicenseExpiryStatus
+} from '@/utils/licenses';
+import { US_STATE_NAMES } from '@/utils/usStates';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 
-import React from 'react';
+interface ClinicianOption {
+  id: string;
+  clinician_first_name: string | null;
+  clinician_last_name: string | null;
+}
+
+const ALL_CLINICIANS = 'all';
+
+const emptyLicense: ClinicianLicense = {
+  clinician_id: '',
+  state: '',
+  license_type: null,
+  license_number: '',
+  issue_date: null,
+  expiration_date: null,
+  proof_path: null,
+  proof_file_name: null
+};
+
+const formatDate = (date: string | null) => (date ? format(parseISO(date), 'MMM d, yyyy') : '—');
 
 const LicensesTab = () => {
+  const [licenses, setLicenses] = useState<ClinicianLicense[]>([]);
+  const [clinicians, setClinicians] = useState<ClinicianOption[]>([]);
+  const [clinicianFilter, setClinicianFilter] = useState(ALL_CLINICIANS);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [editingLicense, setEditingLicense] = useState<ClinicianLicense>(emptyLicense);
+  const [proofFile, setProofFile] = useState<File | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    setIsLoading(true);
+    try {
+      const [licenseData, { data: clinicianData, error }] = await Promise.all([
+        fetchClinicianLicenses(),
+        supabase
+          .from('clinicians')
+          .select('id, clinician_first_name, clinician_last_name')
+          .order('clinician_last_name')
+      ]);
+
+      if (error) throw error;
+
+      setLicenses(licenseData);
+      setClinicians(clinicianData || []);
+    } catch (error) {
+      console.error('Error loading licenses:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load licenses. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const clinicianNames = useMemo(() => Object.fromEntries(
+    clinicians.map(clinician => [
+      clinician.id,
+      `${clinician.clinician_first_name || ''} ${clinician.clinician_last_name || ''}`.trim() || 'Unnamed clinician'
+    ])
+  ), [clinicians]);
+
+  const filteredLicenses = clinicianFilter === ALL_CLINICIANS
+    ? licenses
+    : licenses.filter(license => license.clinician_id === clinicianFilter);
+
+  const expiringLicenses = licenses.filter(license => {
+    const status = getLicenseExpiryStatus(license.expiration_date);
+    return status === 'expired' || status === 'critical' || status === 'warning';
+  });
+
+  const handleAddLicense = () => {
+    setEditingLicense({
+      ...emptyLicense,
+      clinician_id: clinicianFilter === ALL_CLINICIANS ? '' : clinicianFilter
+    });
+    setProofFile(null);
+    setIsDialogOpen(true);
+  };
+
+  const handleEditLicense = (license: ClinicianLicense) => {
+    setEditingLicense(license);
+    setProofFile(null);
+    setIsDialogOpen(true);
+  };
+
+  const handleDeleteLicense = async (license: ClinicianLicense) => {
+    const confirmed = window.confirm(`Are you sure you want to delete the ${license.state} license? The clinician will no longer be listed as licensed there.`);
+
+    if (!confirmed) return;
+
+    const result = await deleteClinicianLicense(license);
+    if (!result.success) {
+      toast({
+        title: 'Error',
+        description: 'Failed to delete license. Please try again.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setLicenses(licenses.filter(l => l.id !== license.id));
+    toast({
+      title: 'Success',
+      description: 'License deleted successfully',
+    });
+  };
+
+  const handleViewProof = async (proofPath: string) => {
+    const url = await getLicenseProofURL(proofPath);
+    if (!url) {
+      toast({
+        title: 'Error',
+        description: 'Failed to open the license document.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    window.open(url, '_blank');
+  };
+
+  const handleSaveLicense = async () => {
+    if (!editingLicense.clinician_id || !editingLicense.state || !editingLicense.license_number.trim()) {
+      toast({
+        title: 'Validation Error',
+        description: 'Please select a clinician and state and enter the license number.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (editingLicense.issue_date && editingLicense.expiration_date && editingLicense.expiration_date < editingLicense.issue_date) {
+      toast({
+        title: 'Validation Error',
+        description: 'The expiration date must be after the issue date.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    const result = await saveClinicianLicense(
+      { ...editingLicense, license_number: editingLicense.license_number.trim() },
+      proofFile
+    );
+    setIsSaving(false);
+
+    if (!result.success) {
+      toast({
+        title: 'Error',
+        description: 'Failed to save license. Please try again.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({
+      title: 'Success',
+      description: editingLicense.id ? 'License updated successfully' : 'License added successfully',
+    });
+    setIsDialogOpen(false);
+    loadData();
+  };
+
   return (
     <div className="p-6 animate-fade-in">
-      <div className="flex flex-col items-center justify-center py-12 text-center">
-        <h2 className="text-2xl font-bold mb-4 text-gray-800">License Management Coming Soon</h2>
-        <p className="text-gray-600 max-w-md">
-          License management features will be implemented in the next phase.
-        </p>
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h2 className="text-xl font-semibold">Licenses</h2>
+          <p className="text-sm text-gray-500">
+            Clinicians are shown to clients in the states of their unexpired licenses.
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <Select value={clinicianFilter} onValueChange={setClinicianFilter}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_CLINICIANS}>All clinicians</SelectItem>
+              {clinicians.map(clinician => (
+                <SelectItem key={clinician.id} value={clinician.id}>{clinicianNames[clinician.id]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <button
+            onClick={handleAddLicense}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm bg-valorwell-700 text-white rounded hover:bg-valorwell-800"
+          >
+            <Plus size={16} />
+            <span>Add License</span>
+          </button>
+        </div>
       </div>
+
+      {!isLoading && expiringLicenses.length > 0 && (
+        <div className="mb-6 rounded-md border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800">
+          <div className="flex items-center gap-2 font-medium mb-2">
+            <AlertTriangle className="h-4 w-4" />
+            {expiringLicenses.length} license{expiringLicenses.length === 1 ? ' needs' : 's need'} attention
+          </div>
+          <ul className="space-y-1 pl-6 list-disc">
+            {expiringLicenses.map(license => {
+              const daysLeft = getDaysUntilExpiration(license.expiration_date) ?? 0;
+              return (
+                <li key={license.id}>
+                  {clinicianNames[license.clinician_id] || 'Unknown clinician'} – {license.state} {license.license_type || ''}{' '}
+                  {daysLeft < 0
+                    ? `expired ${formatDate(license.expiration_date)}`
+                    : `expires in ${daysLeft} day${daysLeft === 1 ? '' : 's'} (${formatDate(license.expiration_date)})`}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Clinician</TableHead>
+              <TableHead>State</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>License #</TableHead>
+              <TableHead>Issued</TableHead>
+              <TableHead>Expires</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Proof</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={9} className="text-center py-8 text-gray-500">
+                  Loading licenses...
+                </TableCell>
+              </TableRow>
+            ) : filteredLicenses.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={9} className="text-center py-8 text-gray-500">
+                  No licenses found. Click the button above to add a license.
+                </TableCell>
+              </TableRow>
+            ) : (
+              filteredLicenses.map((license) => {
+                const status = getLicenseExpiryStatus(license.expiration_date);
+                return (
+                  <TableRow key={license.id}>
+                    <TableCell className="font-medium">{clinicianNames[license.clinician_id] || 'Unknown clinician'}</TableCell>
+                    <TableCell>{license.state}</TableCell>
+                    <TableCell>{license.license_type || '—'}</TableCell>
+                    <TableCell>{license.license_number}</TableCell>
+                    <TableCell>{formatDate(license.issue_date)}</TableCell>
+                    <TableCell>{formatDate(license.expiration_date)}</TableCell>
+                    <TableCell>
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${LICENSE_STATUS_STYLES[status]}`}>
+                        {LICENSE_STATUS_LABELS[status]}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      {license.proof_path ? (
+                        <button
+                          onClick={() => handleViewProof(license.proof_path as string)}
+                          className="flex items-center gap-1 text-sm text-valorwell-700 hover:underline"
+                        >
+                          <FileText size={14} />
+                          <span className="max-w-[120px] truncate">{license.proof_file_name || 'View'}</span>
+                        </button>
+                      ) : (
+                        <span className="text-gray-400">—</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <button
+                          onClick={() => handleEditLicense(license)}
+                          className="px-3 py-1 bg-blue-500 text-white text-sm rounded hover:bg-blue-600"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleDeleteLicense(license)}
+                          className="px-3 py-1 bg-red-500 text-white text-sm rounded hover:bg-red-600"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[525px]">
+          <DialogHeader>
+            <DialogTitle>{editingLicense.id ? 'Edit License' : 'Add License'}</DialogTitle>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="space-y-2">
+              <Label>Clinician</Label>
+              <Select
+                value={editingLicense.clinician_id}
+                onValueChange={(value) => setEditingLicense({ ...editingLicense, clinician_id: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select clinician" />
+                </SelectTrigger>
+                <SelectContent>
+                  {clinicians.map(clinician => (
+                    <SelectItem key={clinician.id} value={clinician.id}>{clinicianNames[clinician.id]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>State</Label>
+                <Select
+                  value={editingLicense.state}
+                  onValueChange={(value) => setEditingLicense({ ...editingLicense, state: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select state" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {US_STATE_NAMES.map(state => (
+                      <SelectItem key={state} value={state}>{state}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>License Type</Label>
+                <Select
+                  value={editingLicense.license_type || ''}
+                  onValueChange={(value) => setEditingLicense({ ...editingLicense, license_type: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LICENSE_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{type}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="license-number">License Number</Label>
+              <Input
+                id="license-number"
+                value={editingLicense.license_number}
+                onChange={(e) => setEditingLicense({ ...editingLicense, license_number: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="license-issued">Issue Date</Label>
+                <Input
+                  id="license-issued"
+                  type="date"
+                  value={editingLicense.issue_date || ''}
+                  onChange={(e) => setEditingLicense({ ...editingLicense, issue_date: e.target.value || null })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="license-expires">Expiration Date</Label>
+                <Input
+                  id="license-expires"
+                  type="date"
+                  value={editingLicense.expiration_date || ''}
+                  onChange={(e) => setEditingLicense({ ...editingLicense, expiration_date: e.target.value || null })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="license-proof">Proof of License</Label>
+              <Input
+                id="license-proof"
+                type="file"
+                accept=".pdf,image/*"
+                onChange={(e) => setProofFile(e.target.files?.[0] || null)}
+              />
+              {editingLicense.proof_file_name && !proofFile && (
+                <p className="text-xs text-gray-500">
+                  Current file: {editingLicense.proof_file_name}. Choose a new file to replace it.
+                </p>
+              )}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSaveLicense} disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
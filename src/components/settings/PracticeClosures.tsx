@@ -0,0 +1,231 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { format, parseISO } from 'date-fns';
+import { CalendarPlus, Loader2, Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import {
+  PracticeClosure,
+  fetchPracticeClosures,
+  addPracticeClosures,
+  deletePracticeClosure
+} from '@/integrations/supabase/client';
+import { getFederalHolidays } from '@/utils/practiceClosures';
+
+const emptyClosure = (): PracticeClosure => {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  return { start_date: today, end_date: today, name: '', closure_type: 'custom' };
+};
+
+const formatDateRange = (closure: PracticeClosure) => {
+  const start = format(parseISO(closure.start_date), 'EEE, MMM d, yyyy');
+  return closure.start_date === closure.end_date ? start : `${start} – ${format(parseISO(closure.end_date), 'EEE, MMM d, yyyy')}`;
+};
+
+// Practice-wide holidays and closures; every clinician's calendar and client booking skip them
+const PracticeClosures: React.FC = () => {
+  const [closures, setClosures] = useState<PracticeClosure[]>([]);
+  const [newClosure, setNewClosure] = useState<PracticeClosure | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+  const nextYear = new Date().getFullYear() + 1;
+
+  const loadClosures = useCallback(async () => {
+    setLoading(true);
+    setClosures(await fetchPracticeClosures(format(new Date(), 'yyyy-MM-dd')));
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadClosures();
+  }, [loadClosures]);
+
+  const hasNextYearHolidays = closures.some(closure =>
+    closure.closure_type === 'holiday' && closure.start_date.startsWith(`${nextYear}-`)
+  );
+
+  const handleAddHolidays = async () => {
+    setIsSaving(true);
+    const result = await addPracticeClosures(getFederalHolidays(nextYear).map(holiday => ({
+      start_date: holiday.date,
+      end_date: holiday.date,
+      name: holiday.name,
+      closure_type: 'holiday'
+    })));
+    setIsSaving(false);
+
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: "Failed to add the federal holidays. Please try again.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: "Holidays added",
+      description: `Federal holidays for ${nextYear} are now closed for booking.`
+    });
+    await loadClosures();
+  };
+
+  const handleSave = async () => {
+    if (!newClosure) return;
+
+    if (!newClosure.name.trim() || !newClosure.start_date || !newClosure.end_date || newClosure.end_date < newClosure.start_date) {
+      toast({
+        title: "Missing Information",
+        description: "Give the closure a name and a last day on or after the first.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    const result = await addPracticeClosures([{ ...newClosure, name: newClosure.name.trim() }]);
+    setIsSaving(false);
+
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: "Failed to save the closure. Please try again.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: "Closure saved",
+      description: "Clients can no longer book these days. Sessions already booked are flagged on the calendar."
+    });
+    setNewClosure(null);
+    await loadClosures();
+  };
+
+  const handleDelete = async (closure: PracticeClosure) => {
+    if (!closure.id) return;
+    const confirmed = window.confirm(`Remove ${closure.name} (${formatDateRange(closure)})? Clients will be able to book these days again.`);
+    if (!confirmed) return;
+
+    const result = await deletePracticeClosure(closure.id);
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: "Failed to remove the closure. Please try again.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: "Closure removed",
+      description: "These days are open for booking again."
+    });
+    await loadClosures();
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-lg font-medium">Holidays & Closures</h3>
+        <div className="flex items-center gap-2">
+          {!hasNextYearHolidays && (
+            <Button variant="outline" size="sm" onClick={handleAddHolidays} disabled={isSaving || loading}>
+              <CalendarPlus size={14} className="mr-1" />
+              Add {nextYear} Federal Holidays
+            </Button>
+          )}
+          {!newClosure && (
+            <Button size="sm" onClick={() => setNewClosure(emptyClosure())}>
+              <Plus size={14} className="mr-1" />
+              Add Closure
+            </Button>
+          )}
+        </div>
+      </div>
+      <p className="text-sm text-gray-500 mb-4">
+        The practice is closed on these days for every clinician. They're shown on all calendars, hidden from client
+        booking and skipped when recurring appointments are created.
+      </p>
+
+      {newClosure && (
+        <div className="p-3 border rounded-md mb-4 space-y-3">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="grid gap-1">
+              <Label htmlFor="closure-name">Name</Label>
+              <Input
+                id="closure-name"
+                placeholder="e.g. Office move"
+                value={newClosure.name}
+                onChange={(e) => setNewClosure({ ...newClosure, name: e.target.value })}
+              />
+            </div>
+            <div className="grid gap-1">
+              <Label htmlFor="closure-start">First day</Label>
+              <Input
+                id="closure-start"
+                type="date"
+                value={newClosure.start_date}
+                onChange={(e) => setNewClosure({
+                  ...newClosure,
+                  start_date: e.target.value,
+                  end_date: newClosure.end_date < e.target.value ? e.target.value : newClosure.end_date
+                })}
+              />
+            </div>
+            <div className="grid gap-1">
+              <Label htmlFor="closure-end">Last day</Label>
+              <Input
+                id="closure-end"
+                type="date"
+                min={newClosure.start_date}
+                value={newClosure.end_date}
+                onChange={(e) => setNewClosure({ ...newClosure, end_date: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setNewClosure(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {isSaving ? 'Saving...' : 'Save Closure'}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        </div>
+      ) : closures.length === 0 ? (
+        <div className="text-sm text-gray-500 text-center py-4 border rounded-md">
+          No upcoming holidays or closures.
+        </div>
+      ) : (
+        <div className="border rounded-md divide-y">
+          {closures.map(closure => (
+            <div key={closure.id} className="flex items-center justify-between px-3 py-2">
+              <div className="flex items-center gap-3">
+                <span className="text-sm font-medium">{closure.name}</span>
+                <span className="text-sm text-gray-500">{formatDateRange(closure)}</span>
+                {closure.closure_type === 'holiday' && <Badge variant="outline">Federal holiday</Badge>}
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => handleDelete(closure)} className="h-7 w-7 p-0">
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PracticeClosures;
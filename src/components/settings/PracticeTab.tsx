@@ -4,6 +4,7 @@ import { Pencil, Save, X } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import { fetchPracticeInfo, updatePracticeInfo, PracticeInfo } from '@/integrations/supabase/client';
 import { Button } from "@/components/ui/button";
+import PracticeClosures from './PracticeClosures';
 
 const PracticeTab = () => {
   const [practiceInfo, setPracticeInfo] = useState<PracticeInfo>({
@@ -249,6 +250,10 @@ const PracticeTab = () => {
           />
         </div>
       </div>
+
+      <div className="mt-10">
+        <PracticeClosures />
+      </div>
     </div>
   );
 };
@@ -1,16 +1,22 @@
 
 import React, { useState } from 'react';
 import { X, CheckCircle } from 'lucide-react';
+import { format } from 'date-fns';
 import { ClientDetails } from '@/types/client';
+import { useToast } from '@/hooks/use-toast';
+import { saveGAD7Assessment } from '@/integrations/supabase/client';
 
 interface GAD7TemplateProps {
   onClose: () => void;
   clinicianName: string;
-  clientDetails?: ClientDetails;
+  clinicianId?: string | null;
+  clientData?: ClientDetails | null;
 }
 
-const GAD7Template = ({ onClose, clinicianName, clientDetails }: GAD7TemplateProps) => {
+const GAD7Template = ({ onClose, clinicianName, clinicianId, clientData }: GAD7TemplateProps) => {
+  const { toast } = useToast();
   const [responses, setResponses] = useState<number[]>(Array(7).fill(0));
+  const [additionalNotes, setAdditionalNotes] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isSaved, setIsSaved] = useState(false);
   
@@ -53,18 +59,64 @@ const GAD7Template = ({ onClose, clinicianName, clientDetails }: GAD7TemplatePro
     setResponses(newResponses);
   };
   
+  // Summary sentence stored with the scores so it can be dropped into session notes
+  const buildNarrative = (score: number, severity: string): string => {
+    const clientName = clientData?.client_first_name || 'Client';
+    return `${clientName} completed the GAD-7 and scored ${score} out of 21, indicating ${severity.toLowerCase()}.`;
+  };
+  
   const handleSave = async () => {
+    if (!clientData?.id) {
+      console.warn('Cannot save GAD-7 assessment: Missing client data or ID');
+      toast({
+        title: "Error",
+        description: "A client must be selected before the assessment can be saved.",
+        variant: "destructive"
+      });
+      return;
+    }
+    
     setIsSubmitting(true);
     try {
-      // Here you would typically save to a database
-      // For now, we'll just simulate a successful save
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      const score = calculateScore();
+      const severity = getScoreInterpretation(score);
+      
+      const result = await saveGAD7Assessment({
+        client_id: clientData.id,
+        clinician_id: clinicianId || null,
+        assessment_date: format(new Date(), 'yyyy-MM-dd'),
+        question_1: responses[0],
+        question_2: responses[1],
+        question_3: responses[2],
+        question_4: responses[3],
+        question_5: responses[4],
+        question_6: responses[5],
+        question_7: responses[6],
+        total_score: score,
+        severity,
+        gad7_narrative: buildNarrative(score, severity),
+        additional_notes: additionalNotes
+      });
+      
+      if (!result.success) {
+        throw result.error;
+      }
+      
+      toast({
+        title: "Assessment Saved",
+        description: "GAD-7 assessment has been saved successfully.",
+      });
       setIsSaved(true);
       setTimeout(() => {
         setIsSaved(false);
       }, 3000);
     } catch (error) {
       console.error('Error saving GAD-7 form:', error);
+      toast({
+        title: "Error",
+        description: "There was an issue saving the GAD-7 assessment.",
+        variant: "destructive"
+      });
     } finally {
       setIsSubmitting(false);
     }
@@ -91,7 +143,7 @@ const GAD7Template = ({ onClose, clinicianName, clientDetails }: GAD7TemplatePro
           <div>
             <label className="block text-sm font-medium text-gray-700">Patient Name</label>
             <p className="p-2 border rounded-md bg-gray-50">
-              {clientDetails ? `${clientDetails.client_first_name} ${clientDetails.client_last_name}` : "Not specified"}
+              {clientData ? `${clientData.client_first_name} ${clientData.client_last_name}` : "Not specified"}
             </p>
           </div>
           <div>
@@ -168,6 +220,17 @@ const GAD7Template = ({ onClose, clinicianName, clientDetails }: GAD7TemplatePro
         </div>
       </div>
       
+      <div className="mb-6">
+        <label htmlFor="gad7-additional-notes" className="block text-sm font-medium text-gray-700 mb-1">Additional Notes</label>
+        <textarea
+          id="gad7-additional-notes"
+          value={additionalNotes}
+          onChange={(e) => setAdditionalNotes(e.target.value)}
+          rows={4}
+          className="w-full p-2 border rounded-md"
+        />
+      </div>
+      
       <div className="flex justify-end gap-4">
         <button
           onClick={onClose}
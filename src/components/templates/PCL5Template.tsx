@@ -1,23 +1,39 @@
 
-import React, { useState } from "react";
+import React, { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
 import { ClientDetails } from "@/types/client";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Form, FormField, FormItem, FormControl } from "@/components/ui/form";
 import { useForm } from "react-hook-form";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
+import { supabase, savePCL5Assessment } from "@/integrations/supabase/client";
 
 interface PCL5TemplateProps {
   onClose: () => void;
   clinicianName: string;
+  clinicianId?: string | null;
   clientData?: ClientDetails | null;
+  appointmentId?: string | null;
 }
 
+interface LinkableAppointment {
+  id: string;
+  date: string;
+  start_time: string;
+  type: string;
+}
+
+const NO_APPOINTMENT = "none";
+
+// Provisional PTSD cut-off recommended by the National Center for PTSD
+const PROVISIONAL_PTSD_CUTOFF = 33;
+
 // PCL-5 questions based on the official assessment
 const pcl5Questions = [
   "Repeated, disturbing, and unwanted memories of the stressful experience?",
@@ -51,10 +67,13 @@ const answerOptions = [
   { value: 4, label: "Extremely" }
 ];
 
-const PCL5Template: React.FC<PCL5TemplateProps> = ({ onClose, clinicianName, clientData }) => {
+const PCL5Template: React.FC<PCL5TemplateProps> = ({ onClose, clinicianName, clinicianId, clientData, appointmentId }) => {
   const { toast } = useToast();
   const [scores, setScores] = useState<number[]>(new Array(20).fill(0));
   const [additionalNotes, setAdditionalNotes] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [appointments, setAppointments] = useState<LinkableAppointment[]>([]);
+  const [selectedAppointmentId, setSelectedAppointmentId] = useState<string>(appointmentId || NO_APPOINTMENT);
   
   const form = useForm({
     defaultValues: {
@@ -65,12 +84,36 @@ const PCL5Template: React.FC<PCL5TemplateProps> = ({ onClose, clinicianName, cli
     }
   });
 
+  // Load the client's recent appointments so the assessment can be tied to a session
+  useEffect(() => {
+    if (appointmentId || !clientData?.id) return;
+    
+    const fetchAppointments = async () => {
+      const { data, error } = await supabase
+        .from('appointments')
+        .select('id, date, start_time, type')
+        .eq('client_id', clientData.id)
+        .lte('date', format(new Date(), "yyyy-MM-dd"))
+        .order('date', { ascending: false })
+        .limit(10);
+        
+      if (error) {
+        console.error('Error fetching appointments for PCL-5:', error);
+        return;
+      }
+      
+      setAppointments(data || []);
+    };
+    
+    fetchAppointments();
+  }, [appointmentId, clientData?.id]);
+
   // Calculate total score
   const totalScore = scores.reduce((sum, score) => sum + score, 0);
   
   // Get interpretation based on total score
   const getInterpretation = (score: number) => {
-    if (score >= 33) {
+    if (score >= PROVISIONAL_PTSD_CUTOFF) {
       return "Score suggests PTSD diagnosis may be appropriate";
     } else {
       return "Score below provisional PTSD diagnosis threshold";
@@ -83,15 +126,6 @@ const PCL5Template: React.FC<PCL5TemplateProps> = ({ onClose, clinicianName, cli
     setScores(newScores);
   };
 
-  const handleSubmit = () => {
-    toast({
-      title: "Assessment Saved",
-      description: "PCL-5 assessment has been saved successfully.",
-    });
-    
-    onClose();
-  };
-
   const calculateClusterScores = () => {
     // Clusters according to DSM-5 PTSD symptom clusters
     const intrusion = scores.slice(0, 5).reduce((sum, score) => sum + score, 0);
@@ -102,7 +136,88 @@ const PCL5Template: React.FC<PCL5TemplateProps> = ({ onClose, clinicianName, cli
     return { intrusion, avoidance, negativeAlterations, arousal };
   };
 
+  // An item rated 2 ("Moderately") or higher counts as an endorsed symptom
+  const meetsSymptomCriteria = () => {
+    const endorsed = (start: number, end: number) => scores.slice(start, end).filter(score => score >= 2).length;
+    
+    return endorsed(0, 5) >= 1 && endorsed(5, 7) >= 1 && endorsed(7, 14) >= 2 && endorsed(14, 20) >= 2;
+  };
+
   const clusterScores = calculateClusterScores();
+  const symptomCriteriaMet = meetsSymptomCriteria();
+  const provisionalPTSD = symptomCriteriaMet && totalScore >= PROVISIONAL_PTSD_CUTOFF;
+
+  const handleSubmit = async () => {
+    if (!clientData?.id) {
+      console.warn('Cannot save PCL-5 assessment: Missing client data or ID');
+      toast({
+        title: "Error",
+        description: "A client must be selected before the assessment can be saved.",
+        variant: "destructive"
+      });
+      return;
+    }
+    
+    setIsSaving(true);
+    try {
+      const values = form.getValues();
+      const result = await savePCL5Assessment({
+        client_id: clientData.id,
+        clinician_id: clinicianId || null,
+        appointment_id: selectedAppointmentId === NO_APPOINTMENT ? null : selectedAppointmentId,
+        assessment_date: values.date,
+        event_description: values.eventDescription,
+        question_1: scores[0],
+        question_2: scores[1],
+        question_3: scores[2],
+        question_4: scores[3],
+        question_5: scores[4],
+        question_6: scores[5],
+        question_7: scores[6],
+        question_8: scores[7],
+        question_9: scores[8],
+        question_10: scores[9],
+        question_11: scores[10],
+        question_12: scores[11],
+        question_13: scores[12],
+        question_14: scores[13],
+        question_15: scores[14],
+        question_16: scores[15],
+        question_17: scores[16],
+        question_18: scores[17],
+        question_19: scores[18],
+        question_20: scores[19],
+        cluster_b_intrusion: clusterScores.intrusion,
+        cluster_c_avoidance: clusterScores.avoidance,
+        cluster_d_negative_alterations: clusterScores.negativeAlterations,
+        cluster_e_arousal: clusterScores.arousal,
+        total_score: totalScore,
+        meets_symptom_criteria: symptomCriteriaMet,
+        provisional_ptsd: provisionalPTSD,
+        additional_notes: additionalNotes
+      });
+      
+      if (!result.success) {
+        throw result.error;
+      }
+      
+      toast({
+        title: "Assessment Saved",
+        description: "PCL-5 assessment has been saved successfully.",
+      });
+      
+      onClose();
+    } catch (error) {
+      console.error('Error saving PCL-5 assessment:', error);
+      toast({
+        title: "Error",
+        description: "There was an issue saving the PCL-5 assessment.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
 
   return (
     <Card className="w-full mb-6">
@@ -175,6 +290,25 @@ const PCL5Template: React.FC<PCL5TemplateProps> = ({ onClose, clinicianName, cli
                 </FormItem>
               )}
             />
+
+            {!appointmentId && (
+              <div className="space-y-2">
+                <Label>Linked Session</Label>
+                <Select value={selectedAppointmentId} onValueChange={setSelectedAppointmentId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a session" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_APPOINTMENT}>Not linked to a session</SelectItem>
+                    {appointments.map(appointment => (
+                      <SelectItem key={appointment.id} value={appointment.id}>
+                        {format(new Date(`${appointment.date}T00:00:00`), "MMM d, yyyy")} at {appointment.start_time.substring(0, 5)} – {appointment.type}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
           </div>
 
           <div className="mb-6">
@@ -223,6 +357,8 @@ const PCL5Template: React.FC<PCL5TemplateProps> = ({ onClose, clinicianName, cli
                 <div>
                   <p><strong>Total Score:</strong> {totalScore}</p>
                   <p><strong>Interpretation:</strong> {getInterpretation(totalScore)}</p>
+                  <p><strong>Symptom Criteria Met:</strong> {symptomCriteriaMet ? "Yes" : "No"}</p>
+                  <p><strong>Provisional PTSD:</strong> {provisionalPTSD ? "Yes" : "No"}</p>
                   <p className="text-sm mt-2">A provisional PTSD diagnosis can be made if:</p>
                   <ul className="text-sm list-disc pl-5">
                     <li>DSM-5 symptom criteria are met (at least 1 B, 1 C, 2 D, and 2 E symptoms scored ≥2)</li>
@@ -255,11 +391,11 @@ const PCL5Template: React.FC<PCL5TemplateProps> = ({ onClose, clinicianName, cli
           </div>
 
           <div className="flex justify-end gap-4">
-            <Button variant="outline" onClick={onClose}>
+            <Button variant="outline" onClick={onClose} disabled={isSaving}>
               Cancel
             </Button>
-            <Button onClick={handleSubmit}>
-              Save Assessment
+            <Button onClick={handleSubmit} disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save Assessment"}
             </Button>
           </div>
         </Form>
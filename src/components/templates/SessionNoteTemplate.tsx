@@ -1,13 +1,15 @@
 
 import React, { useRef } from 'react';
 import { Button } from "@/components/ui/button";
-import { X, FileText } from 'lucide-react';
+import { X, FileText, Lock } from 'lucide-react';
 import { ClientDetails, SessionNoteTemplateProps } from '@/types/client';
 import { useSessionNoteForm } from './sessionNote/useSessionNoteForm';
 import { ClientInfoSection } from './sessionNote/ClientInfoSection';
 import { MentalStatusSection } from './sessionNote/MentalStatusSection';
 import { TreatmentObjectivesSection } from './sessionNote/TreatmentObjectivesSection';
 import { SessionAssessmentSection } from './sessionNote/SessionAssessmentSection';
+import { SignatureSection } from './sessionNote/SignatureSection';
+import { AddendumForm } from './sessionNote/AddendumForm';
 import { Textarea } from "@/components/ui/textarea";
 
 // Add PDF-specific styles
@@ -24,9 +26,13 @@ const SessionNoteTemplate: React.FC<SessionNoteTemplateProps> = ({
   const {
     formState,
     isSubmitting,
+    isLocked,
+    savedNote,
+    addenda,
     phq9Data,
     handleChange,
-    handleSave
+    handleSave,
+    handleAddAddendum
   } = useSessionNoteForm({
     clientData,
     clinicianName,
@@ -56,84 +62,114 @@ const SessionNoteTemplate: React.FC<SessionNoteTemplateProps> = ({
         <div className="flex items-center gap-2 mb-6 pdf-header">
           <FileText className="h-5 w-5 text-gray-700" />
           <h3 className="text-lg font-medium">Therapy Session Note</h3>
+          {isLocked && <Lock className="h-4 w-4 text-gray-500" />}
         </div>
 
-        {/* Client Information Section */}
-        <div className="pdf-section">
-          <ClientInfoSection 
-            formState={formState} 
-            handleChange={handleChange} 
-          />
-        </div>
+        {/* A signed note is read-only; changes go in an addendum */}
+        <fieldset disabled={isLocked} className="min-w-0">
+          {/* Client Information Section */}
+          <div className="pdf-section">
+            <ClientInfoSection 
+              formState={formState} 
+              handleChange={handleChange} 
+            />
+          </div>
 
-        {/* Mental Status Examination */}
-        <div className="pdf-section">
-          <MentalStatusSection 
-            formState={formState} 
-            handleChange={handleChange} 
-          />
-        </div>
+          {/* Mental Status Examination */}
+          <div className="pdf-section">
+            <MentalStatusSection 
+              formState={formState} 
+              handleChange={handleChange} 
+            />
+          </div>
         
-        {/* Problem Narrative and Treatment Goal - Only show if they have values */}
-        {showProblemTreatmentSection && (
-          <div className="mb-6 mt-6 pdf-section">
-            <h4 className="text-md font-medium text-gray-800 mb-4">Problem & Treatment Goals</h4>
+          {/* Problem Narrative and Treatment Goal - Only show if they have values */}
+          {showProblemTreatmentSection && (
+            <div className="mb-6 mt-6 pdf-section">
+              <h4 className="text-md font-medium text-gray-800 mb-4">Problem & Treatment Goals</h4>
             
-            {hasProblemNarrative && (
-              <div className="mb-6">
-                <label className="block text-sm font-medium text-gray-700 mb-1">Problem Narrative</label>
-                <Textarea
-                  placeholder="Describe the problem narrative"
-                  className="min-h-[100px] bg-gray-100 resize-y"
-                  value={formState.problemNarrative}
-                  onChange={(e) => handleChange('problemNarrative', e.target.value)}
-                  readOnly
-                />
-              </div>
-            )}
+              {hasProblemNarrative && (
+                <div className="mb-6">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Problem Narrative</label>
+                  <Textarea
+                    placeholder="Describe the problem narrative"
+                    className="min-h-[100px] bg-gray-100 resize-y"
+                    value={formState.problemNarrative}
+                    onChange={(e) => handleChange('problemNarrative', e.target.value)}
+                    readOnly
+                  />
+                </div>
+              )}
 
-            {hasTreatmentGoalNarrative && (
-              <div className="mb-6">
-                <label className="block text-sm font-medium text-gray-700 mb-1">Treatment Goal Narrative</label>
-                <Textarea
-                  placeholder="Describe the treatment goals"
-                  className="min-h-[100px] bg-gray-100 resize-y"
-                  value={formState.treatmentGoalNarrative}
-                  onChange={(e) => handleChange('treatmentGoalNarrative', e.target.value)}
-                  readOnly
-                />
-              </div>
-            )}
+              {hasTreatmentGoalNarrative && (
+                <div className="mb-6">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Treatment Goal Narrative</label>
+                  <Textarea
+                    placeholder="Describe the treatment goals"
+                    className="min-h-[100px] bg-gray-100 resize-y"
+                    value={formState.treatmentGoalNarrative}
+                    onChange={(e) => handleChange('treatmentGoalNarrative', e.target.value)}
+                    readOnly
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Treatment Objectives & Interventions */}
+          <div className="pdf-section">
+            <TreatmentObjectivesSection 
+              formState={formState} 
+              handleChange={handleChange} 
+            />
           </div>
-        )}
 
-        {/* Treatment Objectives & Interventions */}
-        <div className="pdf-section">
-          <TreatmentObjectivesSection 
-            formState={formState} 
-            handleChange={handleChange} 
-          />
-        </div>
+          {/* Session Assessment Section - Now includes PHQ-9 assessment before Plan & Signature */}
+          <div className="pdf-section">
+            <SessionAssessmentSection 
+              formState={formState} 
+              handleChange={handleChange}
+              phq9Data={phq9Data}
+            />
+          </div>
+        </fieldset>
 
-        {/* Session Assessment Section - Now includes PHQ-9 assessment before Plan & Signature */}
-        <div className="pdf-section">
-          <SessionAssessmentSection 
-            formState={formState} 
-            handleChange={handleChange}
-            phq9Data={phq9Data}
-          />
-        </div>
+        {/* Signature block and addenda - included in the PDF */}
+        {savedNote?.signed_at && (
+          <div className="pdf-section">
+            <SignatureSection
+              signature={savedNote.signature}
+              signedAt={savedNote.signed_at}
+              signedByName={savedNote.signed_by_name}
+              addenda={addenda}
+            />
+          </div>
+        )}
       </div>
 
+      {isLocked && (
+        <AddendumForm
+          isSubmitting={isSubmitting}
+          onAddAddendum={handleAddAddendum}
+        />
+      )}
+
       <div className="flex justify-end gap-2 mt-6">
         <Button variant="outline" onClick={onClose} disabled={isSubmitting}>Close</Button>
-        <Button
-          className="bg-valorwell-700 hover:bg-valorwell-800"
-          onClick={handleSave}
-          disabled={isSubmitting}
-        >
-          {isSubmitting ? 'Saving...' : 'Save Session Note'}
-        </Button>
+        {!isLocked && (
+          <>
+            <Button variant="outline" onClick={() => handleSave(false)} disabled={isSubmitting}>
+              Save Draft
+            </Button>
+            <Button
+              className="bg-valorwell-700 hover:bg-valorwell-800"
+              onClick={() => handleSave(true)}
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? 'Saving...' : 'Sign & Lock'}
+            </Button>
+          </>
+        )}
       </div>
     </div>
   );
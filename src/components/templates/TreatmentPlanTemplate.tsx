@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
@@ -8,12 +8,21 @@ import { Label } from "@/components/ui/label";
 import { CalendarIcon, Plus } from "lucide-react";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
-import { format } from "date-fns";
+import { format, parseISO } from "date-fns";
 import { cn } from "@/lib/utils";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ClientDetails } from "@/types/client";
 import { useToast } from "@/hooks/use-toast";
-import { supabase, formatDateForDB, getCurrentUser } from "@/integrations/supabase/client";
+import { supabase, formatDateForDB, getCurrentUser, updateClientProfile, logAuditEvent, fetchActiveTreatmentPlan, TreatmentPlan } from "@/integrations/supabase/client";
+import { getChangedFields } from "@/utils/recordDiff";
+import {
+  getPlanObjectives,
+  getPlanReviewDueDate,
+  OBJECTIVE_PROGRESS_LABELS,
+  ObjectiveProgress,
+  ObjectiveProgressStatus,
+  PLAN_OBJECTIVES
+} from "@/utils/treatmentPlans";
 import { DiagnosisSelector } from "@/components/DiagnosisSelector";
 import { generateAndSavePDF } from "@/utils/pdfUtils";
 
@@ -25,6 +34,8 @@ interface TreatmentPlanTemplateProps {
   clientData?: ClientDetails | null;
 }
 
+type ObjectiveProgressDraft = Omit<ObjectiveProgress, 'status'> & { status: ObjectiveProgressStatus | '' };
+
 const TreatmentPlanTemplate: React.FC<TreatmentPlanTemplateProps> = ({ 
   onClose, 
   clinicianName = '',
@@ -38,6 +49,8 @@ const TreatmentPlanTemplate: React.FC<TreatmentPlanTemplateProps> = ({
   const [showSecondaryObjective, setShowSecondaryObjective] = useState(false);
   const [showTertiaryObjective, setShowTertiaryObjective] = useState(false);
   const [isFormValid, setIsFormValid] = useState(false);
+  const [previousPlan, setPreviousPlan] = useState<TreatmentPlan | null>(null);
+  const [objectiveProgress, setObjectiveProgress] = useState<ObjectiveProgressDraft[]>([]);
   
   // Initialize form state from client data
   const [formState, setFormState] = useState({
@@ -64,7 +77,7 @@ const TreatmentPlanTemplate: React.FC<TreatmentPlanTemplateProps> = ({
   });
 
   // Validate form fields
-  const validateForm = () => {
+  const validateForm = useCallback(() => {
     // Check required fields that are always visible
     const baseFieldsValid = [
       !!formState.planLength,
@@ -91,9 +104,12 @@ const TreatmentPlanTemplate: React.FC<TreatmentPlanTemplateProps> = ({
       !!formState.intervention5.trim(),
       !!formState.intervention6.trim()
     ].every(Boolean);
+
+    // A review has to say how the client did on each of the previous objectives
+    const progressValid = objectiveProgress.every(progress => !!progress.status);
     
-    return baseFieldsValid && secondaryFieldsValid && tertiaryFieldsValid;
-  };
+    return baseFieldsValid && secondaryFieldsValid && tertiaryFieldsValid && progressValid;
+  }, [formState, showSecondaryObjective, showTertiaryObjective, objectiveProgress]);
 
   // Update form state if clientData changes
   useEffect(() => {
@@ -124,18 +140,59 @@ const TreatmentPlanTemplate: React.FC<TreatmentPlanTemplateProps> = ({
       // Show objectives if they exist in client data
       setShowSecondaryObjective(!!clientData.client_secondaryobjective);
       setShowTertiaryObjective(!!clientData.client_tertiaryobjective);
+
+      // Reviewing an existing plan starts from its active version
+      fetchActiveTreatmentPlan(clientData.id).then(plan => {
+        setPreviousPlan(plan);
+        if (!plan) return;
+
+        setFormState(prev => ({
+          ...prev,
+          planLength: plan.plan_length,
+          treatmentFrequency: plan.treatment_frequency,
+          diagnosisCodes: plan.diagnosis || [],
+          problemNarrative: plan.problem_narrative || '',
+          treatmentGoalNarrative: plan.treatment_goal_narrative || '',
+          primaryObjective: plan.primary_objective,
+          intervention1: plan.intervention1,
+          intervention2: plan.intervention2,
+          secondaryObjective: plan.secondary_objective || '',
+          intervention3: plan.intervention3 || '',
+          intervention4: plan.intervention4 || '',
+          tertiaryObjective: plan.tertiary_objective || '',
+          intervention5: plan.intervention5 || '',
+          intervention6: plan.intervention6 || '',
+          // The previous review date is the one being met now
+          nextUpdate: '',
+          privateNote: plan.private_note || ''
+        }));
+        setShowSecondaryObjective(!!plan.secondary_objective);
+        setShowTertiaryObjective(!!plan.tertiary_objective);
+        setObjectiveProgress(getPlanObjectives(plan).map(objective => ({
+          objective: objective.key,
+          text: objective.text,
+          status: '',
+          note: ''
+        })));
+      });
     }
   }, [clientData, clinicianName]);
 
   // Check form validity whenever form state changes
   useEffect(() => {
     setIsFormValid(validateForm());
-  }, [formState, showSecondaryObjective, showTertiaryObjective]);
+  }, [validateForm]);
 
   const handleChange = (field: string, value: any) => {
     setFormState(prev => ({ ...prev, [field]: value }));
   };
 
+  const reviewDueDate = getPlanReviewDueDate(formState.startDate || new Date(), formState.planLength, formState.nextUpdate);
+
+  const handleProgressChange = (index: number, field: 'status' | 'note', value: string) => {
+    setObjectiveProgress(prev => prev.map((progress, i) => (i === index ? { ...progress, [field]: value } : progress)));
+  };
+
   const handleAddObjective = () => {
     if (!showSecondaryObjective) {
       setShowSecondaryObjective(true);
@@ -183,15 +240,12 @@ const TreatmentPlanTemplate: React.FC<TreatmentPlanTemplateProps> = ({
       console.log('Saving treatment plan with updates:', clientUpdates);
       console.log('For client with ID:', clientData.id);
 
-      // Update client in database
-      const { error: clientError } = await supabase
-        .from('clients')
-        .update(clientUpdates)
-        .eq('id', clientData.id);
+      // The client record mirrors the active plan for the session note template
+      const clientResult = await updateClientProfile(clientData.id, clientUpdates);
 
-      if (clientError) {
-        console.error('Error updating client:', clientError);
-        throw clientError;
+      if (!clientResult.success) {
+        console.error('Error updating client:', clientResult.error);
+        throw clientResult.error;
       }
 
       // Generate and save PDF
@@ -238,23 +292,37 @@ const TreatmentPlanTemplate: React.FC<TreatmentPlanTemplateProps> = ({
         intervention5: formState.intervention5,
         intervention6: formState.intervention6,
         next_update: formState.nextUpdate,
+        review_due_date: formatDateForDB(reviewDueDate),
+        objective_progress: objectiveProgress as ObjectiveProgress[],
         private_note: formState.privateNote,
         pdf_path: pdfPath
       };
 
-      // Insert into treatment_plans table
-      const { error: treatmentPlanError } = await supabase
+      // The database numbers the version and supersedes the previous active plan
+      const { data: newPlan, error: treatmentPlanError } = await supabase
         .from('treatment_plans')
-        .insert(treatmentPlanData);
+        .insert(treatmentPlanData)
+        .select('id, version')
+        .single();
 
       if (treatmentPlanError) {
         console.error('Error creating treatment plan record:', treatmentPlanError);
         throw treatmentPlanError;
       }
 
+      await logAuditEvent({
+        action: 'create',
+        tableName: 'treatment_plans',
+        recordId: newPlan?.id,
+        clientId: clientData.id,
+        changes: getChangedFields(null, treatmentPlanData),
+      });
+
       toast({
         title: "Success",
-        description: "Treatment plan saved successfully"
+        description: newPlan?.version > 1
+          ? `Treatment plan version ${newPlan.version} is now the active plan`
+          : "Treatment plan saved successfully"
       });
 
       onClose();
@@ -273,9 +341,13 @@ const TreatmentPlanTemplate: React.FC<TreatmentPlanTemplateProps> = ({
   return (
     <Card className="w-full border border-gray-200 rounded-md">
       <CardHeader className="pb-0">
-        <CardTitle className="text-lg font-semibold text-valorwell-700">Treatment Plan Template</CardTitle>
+        <CardTitle className="text-lg font-semibold text-valorwell-700">
+          {previousPlan ? 'Review Treatment Plan' : 'Treatment Plan Template'}
+        </CardTitle>
         <p className="text-sm text-gray-500 mt-1">
-          This is the template used for client treatment plans. This template will be used when creating a new treatment plan from a client's record section.
+          {previousPlan
+            ? `Starts from version ${previousPlan.version}, started ${format(parseISO(previousPlan.start_date), 'PPP')}. Record the client's progress on each objective and update the plan; saving makes it version ${previousPlan.version + 1}.`
+            : "This is the template used for client treatment plans. This template will be used when creating a new treatment plan from a client's record section."}
         </p>
       </CardHeader>
       <CardContent className="pt-4">
@@ -285,7 +357,9 @@ const TreatmentPlanTemplate: React.FC<TreatmentPlanTemplateProps> = ({
             ref={treatmentPlanRef}
             className="border rounded-md p-4 bg-white"
           >
-            <h2 className="text-xl font-semibold text-valorwell-800 mb-4">Therapy Treatment Plan</h2>
+            <h2 className="text-xl font-semibold text-valorwell-800 mb-4">
+              Therapy Treatment Plan{previousPlan && ` (Version ${previousPlan.version + 1})`}
+            </h2>
             
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
               <div className="space-y-2">
@@ -414,6 +488,41 @@ const TreatmentPlanTemplate: React.FC<TreatmentPlanTemplateProps> = ({
               />
             </div>
             
+            {objectiveProgress.length > 0 && (
+              <div className="space-y-4 mb-6">
+                <h3 className="text-base font-semibold text-valorwell-800">Progress on Previous Objectives</h3>
+                {objectiveProgress.map((progress, index) => (
+                  <div key={progress.objective} className="border rounded-md p-3 space-y-2">
+                    <Label htmlFor={`progress-${progress.objective}`} className="text-sm text-valorwell-700 font-semibold">
+                      {PLAN_OBJECTIVES.find(objective => objective.key === progress.objective)?.label}
+                    </Label>
+                    <p className="text-sm whitespace-pre-wrap">{progress.text}</p>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <Select
+                        value={progress.status}
+                        onValueChange={(value) => handleProgressChange(index, 'status', value)}
+                      >
+                        <SelectTrigger id={`progress-${progress.objective}`}>
+                          <SelectValue placeholder="Select progress" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(OBJECTIVE_PROGRESS_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        className="md:col-span-2"
+                        placeholder="Progress notes"
+                        value={progress.note}
+                        onChange={(e) => handleProgressChange(index, 'note', e.target.value)}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+            
             <div className="space-y-2 mb-4">
               <Label htmlFor="primary-objective" className="text-sm text-valorwell-700 font-semibold">Primary Objective</Label>
               <Textarea 
@@ -552,6 +661,9 @@ const TreatmentPlanTemplate: React.FC<TreatmentPlanTemplateProps> = ({
                 value={formState.nextUpdate}
                 onChange={(e) => handleChange('nextUpdate', e.target.value)}
               />
+              {reviewDueDate && (
+                <p className="text-xs text-gray-500">Review due {format(reviewDueDate, 'PPP')}</p>
+              )}
             </div>
           </div>
           
@@ -0,0 +1,63 @@
+
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+
+interface AddendumFormProps {
+  isSubmitting: boolean;
+  onAddAddendum: (content: string, signature: string) => Promise<boolean>;
+}
+
+export const AddendumForm: React.FC<AddendumFormProps> = ({
+  isSubmitting,
+  onAddAddendum
+}) => {
+  const [content, setContent] = useState('');
+  const [signature, setSignature] = useState('');
+
+  const handleSubmit = async () => {
+    if (await onAddAddendum(content, signature)) {
+      setContent('');
+      setSignature('');
+    }
+  };
+
+  return (
+    <div className="border rounded-md p-4 mt-4">
+      <h4 className="text-md font-medium text-gray-800 mb-1">Add Addendum</h4>
+      <p className="text-sm text-gray-600 mb-4">
+        This note is signed and can't be edited. Corrections and later information are added as a signed addendum.
+      </p>
+
+      <div className="mb-4">
+        <label className="block text-sm font-medium text-gray-700 mb-1">Addendum</label>
+        <Textarea
+          placeholder="Describe the correction or additional information"
+          className="min-h-[100px] resize-y"
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+        />
+      </div>
+
+      <div className="mb-4">
+        <label className="block text-sm font-medium text-gray-700 mb-1">Signature</label>
+        <Input
+          placeholder="Digital signature"
+          value={signature}
+          onChange={(e) => setSignature(e.target.value)}
+        />
+      </div>
+
+      <div className="flex justify-end">
+        <Button
+          className="bg-valorwell-700 hover:bg-valorwell-800"
+          onClick={handleSubmit}
+          disabled={isSubmitting || !content.trim() || !signature.trim()}
+        >
+          {isSubmitting ? 'Signing...' : 'Sign Addendum'}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { SessionNoteAddendum } from '@/integrations/supabase/client';
+
+interface SignatureSectionProps {
+  signature: string | null;
+  signedAt: string;
+  signedByName: string | null;
+  addenda: SessionNoteAddendum[];
+}
+
+const formatSignedAt = (signedAt: string) => format(parseISO(signedAt), "MMM d, yyyy 'at' h:mm a");
+
+// Signature block for a signed note, followed by its addenda in the order they were signed
+export const SignatureSection: React.FC<SignatureSectionProps> = ({
+  signature,
+  signedAt,
+  signedByName,
+  addenda
+}) => {
+  return (
+    <div className="mb-6 mt-6">
+      <div className="border-t pt-4">
+        <p className="text-sm font-medium text-gray-800">/s/ {signature}</p>
+        <p className="text-sm text-gray-600">
+          Electronically signed by {signedByName || signature} on {formatSignedAt(signedAt)}
+        </p>
+      </div>
+
+      {addenda.length > 0 && (
+        <div className="mt-6">
+          <h4 className="text-md font-medium text-gray-800 mb-4">Addenda</h4>
+          {addenda.map(addendum => (
+            <div key={addendum.id} className="mb-4 border-l-2 border-gray-300 pl-3">
+              <p className="text-sm whitespace-pre-wrap">{addendum.content}</p>
+              <p className="text-sm font-medium text-gray-800 mt-2">/s/ {addendum.signature}</p>
+              <p className="text-xs text-gray-600">
+                Addendum electronically signed by {addendum.signed_by_name || addendum.signature} on {formatSignedAt(addendum.signed_at)}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
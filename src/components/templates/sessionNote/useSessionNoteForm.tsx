@@ -1,5 +1,16 @@
 import { useState, useEffect, RefObject } from 'react';
-import { supabase } from "@/integrations/supabase/client";
+import { flushSync } from 'react-dom';
+import {
+  supabase,
+  updateClientProfile,
+  logAuditEvent,
+  addSessionNoteAddendum,
+  fetchSessionNoteAddenda,
+  SessionNoteAddendum,
+  SESSION_NOTE_LOCKED_ERROR
+} from "@/integrations/supabase/client";
+import { Tables } from '@/integrations/supabase/types';
+import { getChangedFields } from '@/utils/recordDiff';
 import { useToast } from "@/hooks/use-toast";
 import { ClientDetails } from '@/types/client';
 import { generateAndSavePDF } from '@/utils/pdfUtils';
@@ -12,6 +23,11 @@ interface UseSessionNoteFormProps {
   contentRef?: RefObject<HTMLDivElement>;
 }
 
+type SessionNote = Tables<'session_notes'>;
+
+const isLockedError = (error: unknown) =>
+  String((error as { message?: string } | null)?.message || '').includes(SESSION_NOTE_LOCKED_ERROR);
+
 export const useSessionNoteForm = ({
   clientData,
   clinicianName,
@@ -22,6 +38,9 @@ export const useSessionNoteForm = ({
   const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [phq9Data, setPhq9Data] = useState<any>(null);
+  const [savedNote, setSavedNote] = useState<SessionNote | null>(null);
+  const [addenda, setAddenda] = useState<SessionNoteAddendum[]>([]);
+  const isLocked = !!savedNote?.signed_at;
 
   const [formState, setFormState] = useState({
     sessionDate: '',
@@ -94,7 +113,7 @@ export const useSessionNoteForm = ({
           if (data && data.clinician_nameinsurance) {
             setFormState(prevState => ({
               ...prevState,
-              clinicianName: data.clinician_nameinsurance
+              clinicianName: prevState.clinicianName || data.clinician_nameinsurance
             }));
           }
         }
@@ -174,6 +193,89 @@ export const useSessionNoteForm = ({
     }
   }, [appointment, clientData]);
 
+  // A note already saved for this appointment is shown as it was saved, and
+  // once signed it's read-only apart from addenda
+  useEffect(() => {
+    const fetchSavedNote = async () => {
+      if (!clientData?.id || !appointment?.id) return;
+
+      try {
+        const { data, error } = await supabase
+          .from('session_notes')
+          .select('*')
+          .eq('client_id', clientData.id)
+          .eq('appointment_id', appointment.id)
+          .maybeSingle();
+
+        if (error) {
+          console.error('Error fetching saved session note:', error);
+          return;
+        }
+
+        setSavedNote(data);
+        if (!data) return;
+
+        setFormState(prevState => ({
+          ...prevState,
+          sessionDate: data.session_date || prevState.sessionDate,
+          patientName: data.patient_name || prevState.patientName,
+          patientDOB: data.patient_dob || '',
+          clinicianName: data.clinician_name || prevState.clinicianName,
+          diagnosis: (data.diagnosis || []).join(', '),
+          planType: data.plan_type || '',
+          treatmentFrequency: data.treatment_frequency || '',
+          medications: data.medications || '',
+          sessionType: data.session_type || prevState.sessionType,
+          personsInAttendance: data.persons_in_attendance || '',
+
+          appearance: data.appearance || '',
+          attitude: data.attitude || '',
+          behavior: data.behavior || '',
+          speech: data.speech || '',
+          affect: data.affect || '',
+          thoughtProcess: data.thought_process || '',
+          perception: data.perception || '',
+          orientation: data.orientation || '',
+          memoryConcentration: data.memory_concentration || '',
+          insightJudgement: data.insight_judgement || '',
+          mood: data.mood || '',
+          substanceAbuseRisk: data.substance_abuse_risk || '',
+          suicidalIdeation: data.suicidal_ideation || '',
+          homicidalIdeation: data.homicidal_ideation || '',
+
+          primaryObjective: data.primary_objective || '',
+          intervention1: data.intervention1 || '',
+          intervention2: data.intervention2 || '',
+          secondaryObjective: data.secondary_objective || '',
+          intervention3: data.intervention3 || '',
+          intervention4: data.intervention4 || '',
+          tertiaryObjective: data.tertiary_objective || '',
+          intervention5: data.intervention5 || '',
+          intervention6: data.intervention6 || '',
+
+          currentSymptoms: data.current_symptoms || '',
+          functioning: data.functioning || '',
+          prognosis: data.prognosis || '',
+          progress: data.progress || '',
+          problemNarrative: data.problem_narrative || '',
+          treatmentGoalNarrative: data.treatment_goal_narrative || '',
+          sessionNarrative: data.session_narrative || '',
+          nextTreatmentPlanUpdate: data.next_treatment_plan_update || '',
+          signature: data.signature || '',
+          privateNote: data.private_note || ''
+        }));
+
+        if (data.signed_at) {
+          setAddenda(await fetchSessionNoteAddenda(data.id));
+        }
+      } catch (error) {
+        console.error('Error in fetchSavedNote:', error);
+      }
+    };
+
+    fetchSavedNote();
+  }, [clientData?.id, appointment?.id]);
+
   const fetchPHQ9Assessment = async (clientId: string, assessmentDate: string) => {
     try {
       const { data, error } = await supabase
@@ -208,7 +310,42 @@ export const useSessionNoteForm = ({
     }
   };
 
-  const handleSave = async () => {
+  const savePDF = async (sessionNoteId: string, sessionDate: string) => {
+    if (!contentRef?.current || !clientData?.id) return null;
+
+    console.log("Generating PDF...");
+    const clientName = formState.patientName || 'Unknown Client';
+    const documentInfo = {
+      clientId: clientData.id,
+      documentType: 'session_note',
+      documentDate: sessionDate,
+      documentTitle: `Session Note - ${clientName} - ${sessionDate}`,
+      createdBy: clinicianName
+    };
+
+    try {
+      const pdfPath = await generateAndSavePDF('session-note-content', documentInfo);
+
+      if (pdfPath) {
+        console.log("Updating session note with PDF path:", pdfPath);
+        await supabase
+          .from('session_notes')
+          .update({ pdf_path: pdfPath })
+          .eq('id', sessionNoteId);
+      } else {
+        console.error('Failed to generate PDF');
+      }
+
+      return pdfPath;
+    } catch (pdfError) {
+      console.error('Error generating PDF:', pdfError);
+      return null;
+    }
+  };
+
+  // Saving without signing keeps a draft that can still be edited; signing
+  // locks the note for good and generates its PDF
+  const handleSave = async (sign = false) => {
     if (!clientData?.id) {
       toast({
         title: "Error",
@@ -218,6 +355,31 @@ export const useSessionNoteForm = ({
       return;
     }
 
+    if (isLocked) {
+      toast({
+        title: "Session note is signed",
+        description: "Signed notes can't be changed. Add an addendum instead.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (sign) {
+      if (!formState.signature.trim()) {
+        toast({
+          title: "Signature required",
+          description: "Type your signature before signing the session note.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const confirmed = window.confirm(
+        "Sign and lock this session note? Once signed it can't be edited; any later changes must be added as a signed addendum."
+      );
+      if (!confirmed) return;
+    }
+
     setIsSubmitting(true);
 
     try {
@@ -266,19 +428,15 @@ export const useSessionNoteForm = ({
         client_nexttreatmentplanupdate: formState.nextTreatmentPlanUpdate,
       };
 
-      const { error } = await supabase
-        .from('clients')
-        .update(clientUpdates)
-        .eq('id', clientData.id);
+      const clientResult = await updateClientProfile(clientData.id, clientUpdates);
 
-      if (error) {
-        throw error;
+      if (!clientResult.success) {
+        throw clientResult.error;
       }
       
       console.log("Client data updated successfully");
 
       // Step 2: Handle session_notes table update or creation
-      let pdfPath = null;
       let sessionDate = null;
       
       if (appointment?.date) {
@@ -291,7 +449,7 @@ export const useSessionNoteForm = ({
       console.log("Checking for existing session note...");
       const { data: existingNote, error: fetchError } = await supabase
         .from('session_notes')
-        .select('id')
+        .select('*')
         .eq('client_id', clientData.id)
         .eq('appointment_id', appointment?.id || null)
         .maybeSingle();
@@ -299,6 +457,10 @@ export const useSessionNoteForm = ({
       if (fetchError && fetchError.code !== 'PGRST116') {
         console.error('Error checking for existing session note:', fetchError);
       }
+
+      if (existingNote?.signed_at) {
+        throw new Error(SESSION_NOTE_LOCKED_ERROR);
+      }
       
       // Prepare data for session_notes table
       const sessionNoteData = {
@@ -347,51 +509,65 @@ export const useSessionNoteForm = ({
         session_narrative: formState.sessionNarrative,
         next_treatment_plan_update: formState.nextTreatmentPlanUpdate,
         signature: formState.signature,
+        // The database records the actual signing time and signer
+        signed_at: sign ? new Date().toISOString() : null,
         private_note: formState.privateNote,
         phq9_data: phq9Data,
         phq9_score: phq9Data?.total_score || null
       };
 
       // Step 3: Update or insert session note
-      let sessionNoteId;
+      let note: SessionNote;
       console.log("Saving session note data...");
       if (existingNote?.id) {
         console.log("Updating existing session note:", existingNote.id);
-        const { error: updateError } = await supabase
+        const { data: updatedNote, error: updateError } = await supabase
           .from('session_notes')
           .update(sessionNoteData)
-          .eq('id', existingNote.id);
-          
-        if (updateError) {
-          console.error('Error updating session note:', updateError);
-          toast({
-            title: "Warning",
-            description: "Updated client data but failed to update session note.",
-            variant: "default",
-          });
-        } else {
-          sessionNoteId = existingNote.id;
-          console.log("Session note updated successfully");
-        }
+          .eq('id', existingNote.id)
+          .select()
+          .single();
+
+        if (updateError) throw updateError;
+
+        note = updatedNote;
+        console.log("Session note updated successfully");
+        await logAuditEvent({
+          action: 'update',
+          tableName: 'session_notes',
+          recordId: existingNote.id,
+          clientId: clientData.id,
+          changes: getChangedFields(existingNote, sessionNoteData),
+        });
       } else {
         console.log("Creating new session note");
         const { data: newNote, error: insertError } = await supabase
           .from('session_notes')
           .insert(sessionNoteData)
-          .select('id')
+          .select()
           .single();
-          
-        if (insertError) {
-          console.error('Error creating session note:', insertError);
-          toast({
-            title: "Warning",
-            description: "Updated client data but failed to create session note record.",
-            variant: "default",
-          });
-        } else if (newNote) {
-          sessionNoteId = newNote.id;
-          console.log("Session note created successfully with ID:", sessionNoteId);
-        }
+
+        if (insertError) throw insertError;
+
+        note = newNote;
+        console.log("Session note created successfully with ID:", newNote.id);
+        await logAuditEvent({
+          action: 'create',
+          tableName: 'session_notes',
+          recordId: newNote.id,
+          clientId: clientData.id,
+          changes: getChangedFields(null, sessionNoteData),
+        });
+      }
+
+      if (!sign) {
+        setSavedNote(note);
+        toast({
+          title: "Draft saved",
+          description: "The session note is saved as a draft. Sign it to complete documentation.",
+        });
+        onClose();
+        return;
       }
 
       // Step 4: Update appointment status to Documented
@@ -414,55 +590,21 @@ export const useSessionNoteForm = ({
         }
       }
 
-      // Step 5: Generate and save PDF
-      if (contentRef?.current && sessionDate) {
-        console.log("Generating PDF...");
-        const clientName = formState.patientName || 'Unknown Client';
-        const documentInfo = {
-          clientId: clientData.id,
-          documentType: 'session_note',
-          documentDate: sessionDate,
-          documentTitle: `Session Note - ${clientName} - ${sessionDate}`,
-          createdBy: clinicianName
-        };
-
-        try {
-          pdfPath = await generateAndSavePDF('session-note-content', documentInfo);
-          
-          if (pdfPath && sessionNoteId) {
-            console.log("Updating session note with PDF path:", pdfPath);
-            await supabase
-              .from('session_notes')
-              .update({ pdf_path: pdfPath })
-              .eq('id', sessionNoteId);
-          }
-          
-          if (pdfPath) {
-            console.log('PDF saved successfully:', pdfPath);
-            toast({
-              title: "Success",
-              description: "Session note saved and PDF generated successfully.",
-            });
-          } else {
-            console.error('Failed to generate PDF');
-            toast({
-              title: "Warning",
-              description: "Session note saved, but PDF generation failed.",
-              variant: "default",
-            });
-          }
-        } catch (pdfError) {
-          console.error('Error generating PDF:', pdfError);
-          toast({
-            title: "Warning",
-            description: "Session note saved, but PDF generation failed.",
-            variant: "default",
-          });
-        }
-      } else {
+      // Step 5: Generate and save PDF, with the signature block rendered
+      flushSync(() => setSavedNote(note));
+      const pdfPath = await savePDF(note.id, sessionDate);
+
+      if (pdfPath) {
+        console.log('PDF saved successfully:', pdfPath);
         toast({
           title: "Success",
-          description: "Session note saved successfully.",
+          description: "Session note signed and PDF generated successfully.",
+        });
+      } else {
+        toast({
+          title: "Warning",
+          description: "Session note signed, but PDF generation failed.",
+          variant: "default",
         });
       }
 
@@ -471,9 +613,53 @@ export const useSessionNoteForm = ({
       console.error('Error saving session note:', error);
       toast({
         title: "Error",
-        description: "Failed to save session note.",
+        description: isLockedError(error)
+          ? "This session note has already been signed and can't be changed. Add an addendum instead."
+          : "Failed to save session note.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleAddAddendum = async (content: string, signature: string) => {
+    if (!savedNote?.signed_at) return false;
+
+    if (!content.trim() || !signature.trim()) {
+      toast({
+        title: "Missing Information",
+        description: "Write the addendum and type your signature to sign it.",
         variant: "destructive",
       });
+      return false;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const result = await addSessionNoteAddendum(savedNote, content.trim(), signature.trim());
+      if (!result.success) {
+        toast({
+          title: "Error",
+          description: "Failed to add the addendum. Please try again.",
+          variant: "destructive",
+        });
+        return false;
+      }
+
+      // Regenerate the PDF so it carries the new addendum
+      flushSync(() => setAddenda(prev => [...prev, result.data]));
+      const pdfPath = await savePDF(savedNote.id, savedNote.session_date);
+
+      toast({
+        title: "Addendum signed",
+        description: pdfPath
+          ? "The addendum was added to the session note and its PDF."
+          : "The addendum was added, but the PDF couldn't be regenerated.",
+        variant: "default",
+      });
+      return true;
     } finally {
       setIsSubmitting(false);
     }
@@ -482,8 +668,12 @@ export const useSessionNoteForm = ({
   return {
     formState,
     isSubmitting,
+    isLocked,
+    savedNote,
+    addenda,
     phq9Data,
     handleChange,
-    handleSave
+    handleSave,
+    handleAddAddendum
   };
 };
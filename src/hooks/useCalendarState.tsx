@@ -11,6 +11,8 @@ interface Client {
 export const useCalendarState = (initialClinicianId: string | null = null) => {
   const [showAvailability, setShowAvailability] = useState(false);
   const [selectedClinicianId, setSelectedClinicianId] = useState<string | null>(initialClinicianId);
+  // Clinicians shown side by side in the team view
+  const [selectedClinicianIds, setSelectedClinicianIds] = useState<string[]>(initialClinicianId ? [initialClinicianId] : []);
   const [clinicians, setClinicians] = useState<Array<{ id: string; clinician_professional_name: string }>>([]);
   const [loadingClinicians, setLoadingClinicians] = useState(true);
   const [currentDate, setCurrentDate] = useState(new Date());
@@ -67,6 +69,7 @@ export const useCalendarState = (initialClinicianId: string | null = null) => {
           setClinicians(data || []);
           if (data && data.length > 0 && !selectedClinicianId) {
             setSelectedClinicianId(data[0].id);
+            setSelectedClinicianIds([data[0].id]);
           }
         }
       } catch (error) {
@@ -118,6 +121,8 @@ export const useCalendarState = (initialClinicianId: string | null = null) => {
     setShowAvailability,
     selectedClinicianId,
     setSelectedClinicianId,
+    selectedClinicianIds,
+    setSelectedClinicianIds,
     clinicians,
     loadingClinicians,
     currentDate,
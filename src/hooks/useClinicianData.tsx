@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { supabase, getCurrentUser } from "@/integrations/supabase/client";
 import { Clinician } from "@/types/client";
 
 export const useClinicianData = () => {
@@ -12,18 +12,39 @@ export const useClinicianData = () => {
       try {
         setLoading(true);
         
-        // Get the first clinician for now (in a real app, you would get the current user's clinician)
+        const user = await getCurrentUser();
+        if (!user) {
+          setClinicianData(null);
+          return;
+        }
+
+        // Clinician records are keyed by user ID, but older ones can only be matched by email
         const { data, error } = await supabase
           .from('clinicians')
           .select('*')
-          .limit(1)
-          .single();
+          .eq('id', user.id)
+          .maybeSingle();
 
         if (error) {
           throw error;
         }
 
-        setClinicianData(data);
+        if (data || !user.email) {
+          setClinicianData(data);
+          return;
+        }
+
+        const { data: byEmail, error: emailError } = await supabase
+          .from('clinicians')
+          .select('*')
+          .eq('clinician_email', user.email)
+          .maybeSingle();
+
+        if (emailError) {
+          throw emailError;
+        }
+
+        setClinicianData(byEmail);
       } catch (err) {
         console.error('Error fetching clinician data:', err);
         setError(err as Error);
@@ -0,0 +1,42 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase, fetchUnreadMessageCounts } from "@/integrations/supabase/client";
+
+/**
+ * Unread message counts for the signed-in user, kept current through a
+ * realtime subscription on the messages table. RLS limits both the query and
+ * the realtime events to conversations the user takes part in.
+ */
+export const useUnreadMessages = (userId: string | null) => {
+  const [unreadByThread, setUnreadByThread] = useState<Record<string, number>>({});
+
+  const refresh = useCallback(async () => {
+    if (!userId) {
+      setUnreadByThread({});
+      return;
+    }
+    const counts = await fetchUnreadMessageCounts(userId);
+    setUnreadByThread(counts);
+  }, [userId]);
+
+  useEffect(() => {
+    refresh();
+
+    if (!userId) return;
+
+    // Sidebar and the Messages page both use this hook, so each needs its own channel
+    const channel = supabase
+      .channel(`unread-messages-${userId}-${crypto.randomUUID()}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'messages' }, () => {
+        refresh();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, refresh]);
+
+  const totalUnread = Object.values(unreadByThread).reduce((sum, count) => sum + count, 0);
+
+  return { unreadByThread, totalUnread, refresh };
+};
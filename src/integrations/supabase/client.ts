@@ -1,4 +1,14 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, FunctionsHttpError } from '@supabase/supabase-js';
+import { getChangedFields, FieldChanges } from '@/utils/recordDiff';
+import { ensureIANATimeZone } from '@/utils/timeZoneUtils';
+import { ObjectiveProgress, TreatmentPlanStatus } from '@/utils/treatmentPlans';
+import {
+  addRecurrenceException,
+  formatRecurrenceRule,
+  parseRecurrenceRule,
+  shiftRecurrenceRule,
+  splitRecurrenceRule
+} from '@/utils/recurrence';
 
 // Check for required environment variables
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
@@ -126,6 +136,15 @@ export const getDocumentDownloadURL = async (filePath: string) => {
       .createSignedUrl(filePath, 60); // 60 seconds expiration
       
     if (error) throw error;
+
+    // Documents are stored under "<client_id>/<document_type>/..."
+    await logAuditEvent({
+      action: 'download',
+      tableName: 'clinical_documents',
+      recordId: filePath,
+      clientId: filePath.split('/')[0],
+    });
+
     return data.signedUrl;
   } catch (error) {
     console.error('Error getting document download URL:', error);
@@ -183,6 +202,127 @@ export const fetchPHQ9Assessments = async (clientId: string) => {
   }
 };
 
+// Interface for GAD-7 assessment data
+export interface GAD7Assessment {
+  client_id: string;
+  clinician_id?: string | null;
+  assessment_date: string;
+  question_1: number;
+  question_2: number;
+  question_3: number;
+  question_4: number;
+  question_5: number;
+  question_6: number;
+  question_7: number;
+  total_score: number;
+  severity: string;
+  gad7_narrative?: string;
+  additional_notes?: string;
+}
+
+// Function to save GAD-7 assessment
+export const saveGAD7Assessment = async (assessment: GAD7Assessment) => {
+  try {
+    const { data, error } = await supabase
+      .from('gad7_assessments')
+      .insert([assessment])
+      .select();
+
+    if (error) throw error;
+    return { success: true, data };
+  } catch (error) {
+    console.error('Error saving GAD7 assessment:', error);
+    return { success: false, error };
+  }
+};
+
+// Function to fetch GAD-7 assessments for a client
+export const fetchGAD7Assessments = async (clientId: string) => {
+  try {
+    const { data, error } = await supabase
+      .from('gad7_assessments')
+      .select('*')
+      .eq('client_id', clientId)
+      .order('assessment_date', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching GAD7 assessments:', error);
+    return [];
+  }
+};
+
+// Interface for PCL-5 assessment data
+export interface PCL5Assessment {
+  client_id: string;
+  clinician_id?: string | null;
+  appointment_id?: string | null;
+  assessment_date: string;
+  event_description?: string;
+  question_1: number;
+  question_2: number;
+  question_3: number;
+  question_4: number;
+  question_5: number;
+  question_6: number;
+  question_7: number;
+  question_8: number;
+  question_9: number;
+  question_10: number;
+  question_11: number;
+  question_12: number;
+  question_13: number;
+  question_14: number;
+  question_15: number;
+  question_16: number;
+  question_17: number;
+  question_18: number;
+  question_19: number;
+  question_20: number;
+  cluster_b_intrusion: number;
+  cluster_c_avoidance: number;
+  cluster_d_negative_alterations: number;
+  cluster_e_arousal: number;
+  total_score: number;
+  meets_symptom_criteria: boolean;
+  provisional_ptsd: boolean;
+  additional_notes?: string;
+}
+
+// Function to save PCL-5 assessment
+export const savePCL5Assessment = async (assessment: PCL5Assessment) => {
+  try {
+    const { data, error } = await supabase
+      .from('pcl5_assessments')
+      .insert([assessment])
+      .select();
+
+    if (error) throw error;
+    return { success: true, data };
+  } catch (error) {
+    console.error('Error saving PCL5 assessment:', error);
+    return { success: false, error };
+  }
+};
+
+// Function to fetch PCL-5 assessments for a client
+export const fetchPCL5Assessments = async (clientId: string) => {
+  try {
+    const { data, error } = await supabase
+      .from('pcl5_assessments')
+      .select('*')
+      .eq('client_id', clientId)
+      .order('assessment_date', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching PCL5 assessments:', error);
+    return [];
+  }
+};
+
 // Interface for CPT Code
 export interface CPTCode {
   code: string;
@@ -261,12 +401,28 @@ export const getClientByUserId = async (userId: string) => {
 
 export const updateClientProfile = async (clientId: string, updates: any) => {
   try {
+    // Read the current values first so the audit entry records what changed
+    const { data: before } = await supabase
+      .from('clients')
+      .select('*')
+      .eq('id', clientId)
+      .maybeSingle();
+
     const { error } = await supabase
       .from('clients')
       .update(updates)
       .eq('id', clientId);
       
     if (error) throw error;
+
+    await logAuditEvent({
+      action: 'update',
+      tableName: 'clients',
+      recordId: clientId,
+      clientId,
+      changes: getChangedFields(before, updates),
+    });
+
     return { success: true };
   } catch (error) {
     console.error('Error updating client profile:', error);
@@ -398,3 +554,1910 @@ export const updatePracticeInfo = async (updates: Partial<PracticeInfo>) => {
     return { success: false, error };
   }
 };
+
+// Interface for appointment reminder rules
+export interface ReminderRule {
+  id?: string;
+  name: string;
+  appointment_type: string | null;
+  minutes_before: number;
+  channel: 'email' | 'sms';
+  message_template: string | null;
+  is_active: boolean;
+}
+
+// Interface for queued appointment reminders
+export interface AppointmentReminder {
+  id: string;
+  appointment_id: string;
+  rule_id: string | null;
+  client_id: string;
+  channel: 'email' | 'sms';
+  recipient: string | null;
+  scheduled_for: string;
+  status: 'pending' | 'sent' | 'failed' | 'cancelled';
+  attempts: number;
+  last_error: string | null;
+  provider: string | null;
+  sent_at: string | null;
+  clients?: {
+    client_first_name: string | null;
+    client_last_name: string | null;
+  } | null;
+  appointments?: {
+    date: string;
+    start_time: string;
+    type: string;
+  } | null;
+  reminder_rules?: {
+    name: string;
+  } | null;
+}
+
+// Reminder rule functions
+export const fetchReminderRules = async (): Promise<ReminderRule[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('reminder_rules')
+      .select('*')
+      .order('minutes_before', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching reminder rules:', error);
+    return [];
+  }
+};
+
+export const saveReminderRule = async (rule: ReminderRule) => {
+  try {
+    const { id, ...values } = rule;
+    const { error } = id
+      ? await supabase
+          .from('reminder_rules')
+          .update({ ...values, updated_at: new Date().toISOString() })
+          .eq('id', id)
+      : await supabase
+          .from('reminder_rules')
+          .insert([values]);
+
+    if (error) throw error;
+    return { success: true };
+  } catch (error) {
+    console.error('Error saving reminder rule:', error);
+    return { success: false, error };
+  }
+};
+
+export const deleteReminderRule = async (ruleId: string) => {
+  try {
+    const { error } = await supabase
+      .from('reminder_rules')
+      .delete()
+      .eq('id', ruleId);
+
+    if (error) throw error;
+    return { success: true };
+  } catch (error) {
+    console.error('Error deleting reminder rule:', error);
+    return { success: false, error };
+  }
+};
+
+// Appointment reminder queue functions
+export const fetchAppointmentReminders = async (status?: string): Promise<AppointmentReminder[]> => {
+  try {
+    let query = supabase
+      .from('appointment_reminders')
+      .select(`
+        *,
+        clients (client_first_name, client_last_name),
+        appointments (date, start_time, type),
+        reminder_rules (name)
+      `)
+      .order('scheduled_for', { ascending: false })
+      .limit(200);
+
+    if (status && status !== 'all') {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching appointment reminders:', error);
+    return [];
+  }
+};
+
+// Runs the reminder engine now; pass reminder IDs to retry specific reminders
+export const runAppointmentReminders = async (reminderIds?: string[]) => {
+  try {
+    const { data, error } = await supabase.functions.invoke('send-appointment-reminders', {
+      body: reminderIds ? { reminderIds } : {}
+    });
+
+    if (error) throw error;
+    return { success: true, data };
+  } catch (error) {
+    console.error('Error running appointment reminders:', error);
+    return { success: false, error };
+  }
+};
+
+// Interface for secure clinician-client messages
+export interface Message {
+  id: string;
+  thread_id: string;
+  sender_id: string;
+  body: string;
+  attachment_path: string | null;
+  attachment_name: string | null;
+  attachment_type: string | null;
+  attachment_size: number | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+export interface MessageThread {
+  id: string;
+  client_id: string;
+  last_message_at: string | null;
+  created_at: string;
+}
+
+// Each client has a single conversation with their assigned therapist
+export const getOrCreateMessageThread = async (clientId: string) => {
+  try {
+    const { data: existing, error: fetchError } = await supabase
+      .from('message_threads')
+      .select('*')
+      .eq('client_id', clientId)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+    if (existing) return { success: true, data: existing as MessageThread };
+
+    const { data, error } = await supabase
+      .from('message_threads')
+      .insert([{ client_id: clientId }])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return { success: true, data: data as MessageThread };
+  } catch (error) {
+    console.error('Error getting/creating message thread:', error);
+    return { success: false, error };
+  }
+};
+
+export const fetchMessageThreads = async (): Promise<MessageThread[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('message_threads')
+      .select('*')
+      .order('last_message_at', { ascending: false, nullsFirst: false });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching message threads:', error);
+    return [];
+  }
+};
+
+export const fetchMessages = async (threadId: string): Promise<Message[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('messages')
+      .select('*')
+      .eq('thread_id', threadId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching messages:', error);
+    return [];
+  }
+};
+
+export const sendMessage = async (threadId: string, senderId: string, body: string, attachment?: File | null) => {
+  try {
+    let attachmentFields = {};
+
+    if (attachment) {
+      const attachmentPath = `${threadId}/${crypto.randomUUID()}-${attachment.name}`;
+      const { error: uploadError } = await supabase.storage
+        .from('message-attachments')
+        .upload(attachmentPath, attachment);
+
+      if (uploadError) throw uploadError;
+
+      attachmentFields = {
+        attachment_path: attachmentPath,
+        attachment_name: attachment.name,
+        attachment_type: attachment.type || null,
+        attachment_size: attachment.size
+      };
+    }
+
+    const { data, error } = await supabase
+      .from('messages')
+      .insert([{ thread_id: threadId, sender_id: senderId, body, ...attachmentFields }])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return { success: true, data: data as Message };
+  } catch (error) {
+    console.error('Error sending message:', error);
+    return { success: false, error };
+  }
+};
+
+export const markMessageThreadRead = async (threadId: string) => {
+  try {
+    const { error } = await supabase.rpc('mark_message_thread_read', { p_thread_id: threadId });
+
+    if (error) throw error;
+    return { success: true };
+  } catch (error) {
+    console.error('Error marking message thread as read:', error);
+    return { success: false, error };
+  }
+};
+
+// Unread messages sent to the given user, keyed by thread ID
+export const fetchUnreadMessageCounts = async (userId: string): Promise<Record<string, number>> => {
+  try {
+    const { data, error } = await supabase
+      .from('messages')
+      .select('thread_id')
+      .is('read_at', null)
+      .neq('sender_id', userId);
+
+    if (error) throw error;
+    return (data || []).reduce((counts: Record<string, number>, message) => {
+      counts[message.thread_id] = (counts[message.thread_id] || 0) + 1;
+      return counts;
+    }, {});
+  } catch (error) {
+    console.error('Error fetching unread message counts:', error);
+    return {};
+  }
+};
+
+export const getMessageAttachmentURL = async (attachmentPath: string) => {
+  try {
+    const { data, error } = await supabase.storage
+      .from('message-attachments')
+      .createSignedUrl(attachmentPath, 60); // 60 seconds expiration
+
+    if (error) throw error;
+    return data.signedUrl;
+  } catch (error) {
+    console.error('Error getting message attachment URL:', error);
+    return null;
+  }
+};
+
+// Raw data behind the practice analytics page; pass a clinician ID to narrow it to one caseload
+export const fetchPracticeAnalyticsData = async (startDate: string, endDate: string, clinicianId?: string) => {
+  try {
+    let appointmentsQuery = supabase
+      .from('appointments')
+      .select('id, client_id, clinician_id, date, start_time, end_time, type, status')
+      .gte('date', startDate)
+      .lte('date', endDate)
+      .order('date', { ascending: true });
+
+    let availabilityQuery = supabase
+      .from('availability')
+      .select('clinician_id, day_of_week, start_time, end_time, is_active');
+
+    let clientsQuery = supabase
+      .from('clients')
+      .select('id, created_at, client_status')
+      .gte('created_at', `${startDate}T00:00:00`)
+      .lte('created_at', `${endDate}T23:59:59`);
+
+    if (clinicianId) {
+      appointmentsQuery = appointmentsQuery.eq('clinician_id', clinicianId);
+      availabilityQuery = availabilityQuery.eq('clinician_id', clinicianId);
+      clientsQuery = clientsQuery.eq('client_assigned_therapist', clinicianId);
+    }
+
+    const [appointments, availability, clients, cptCodes] = await Promise.all([
+      appointmentsQuery,
+      availabilityQuery,
+      clientsQuery,
+      fetchCPTCodes()
+    ]);
+
+    if (appointments.error) throw appointments.error;
+    if (availability.error) throw availability.error;
+    if (clients.error) throw clients.error;
+
+    return {
+      success: true,
+      data: {
+        appointments: appointments.data || [],
+        availability: availability.data || [],
+        clients: clients.data || [],
+        cptCodes
+      }
+    };
+  } catch (error) {
+    console.error('Error fetching practice analytics data:', error);
+    return { success: false, error };
+  }
+};
+
+// Audit trail for access to and changes of protected health information
+export type AuditAction = 'view' | 'create' | 'update' | 'delete' | 'download';
+
+export interface AuditEvent {
+  action: AuditAction;
+  tableName: string;
+  recordId?: string | null;
+  clientId?: string | null;
+  changes?: FieldChanges | null;
+  metadata?: Record<string, unknown> | null;
+}
+
+export interface AuditLogEntry {
+  id: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  actor_role: string | null;
+  action: AuditAction;
+  table_name: string;
+  record_id: string | null;
+  client_id: string | null;
+  changes: FieldChanges | null;
+  metadata: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export interface AuditLogFilters {
+  action?: string;
+  tableName?: string;
+  actorEmail?: string;
+  clientId?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+// Never throws: a failed audit write is logged but must not block clinical work
+export const logAuditEvent = async (event: AuditEvent) => {
+  try {
+    // Updates that didn't change anything aren't worth an entry
+    if (event.action === 'update' && event.changes && Object.keys(event.changes).length === 0) {
+      return { success: true };
+    }
+
+    const { error } = await supabase.rpc('record_audit_event', {
+      p_action: event.action,
+      p_table_name: event.tableName,
+      p_record_id: event.recordId ?? null,
+      p_client_id: event.clientId ?? null,
+      p_changes: event.changes ?? null,
+      p_metadata: event.metadata ?? null
+    });
+
+    if (error) throw error;
+    return { success: true };
+  } catch (error) {
+    console.error('Error recording audit event:', error);
+    return { success: false, error };
+  }
+};
+
+export const fetchAuditLog = async (filters: AuditLogFilters = {}): Promise<AuditLogEntry[]> => {
+  try {
+    let query = supabase
+      .from('audit_log')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(500);
+
+    if (filters.action) query = query.eq('action', filters.action);
+    if (filters.tableName) query = query.eq('table_name', filters.tableName);
+    if (filters.actorEmail) query = query.ilike('actor_email', `%${filters.actorEmail}%`);
+    if (filters.clientId) query = query.eq('client_id', filters.clientId);
+    if (filters.startDate) query = query.gte('created_at', `${filters.startDate}T00:00:00`);
+    if (filters.endDate) query = query.lte('created_at', `${filters.endDate}T23:59:59`);
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching audit log:', error);
+    return [];
+  }
+};
+
+// Interface for professional claims (CMS-1500 / 837P)
+export type ClaimStatus = 'draft' | 'submitted' | 'paid' | 'denied';
+export type PayerOrder = 'primary' | 'secondary' | 'tertiary';
+
+export interface Claim {
+  id?: string;
+  claim_number?: string;
+  appointment_id: string;
+  session_note_id: string | null;
+  client_id: string;
+  clinician_id: string | null;
+  status: ClaimStatus;
+  payer_order: PayerOrder;
+  payer_name: string | null;
+  payer_id: string | null;
+  insurance_type: string | null;
+  policy_number: string | null;
+  group_number: string | null;
+  subscriber_name: string | null;
+  subscriber_dob: string | null;
+  subscriber_relationship: string | null;
+  patient_first_name: string | null;
+  patient_last_name: string | null;
+  patient_dob: string | null;
+  patient_gender: string | null;
+  patient_address1: string | null;
+  patient_city: string | null;
+  patient_state: string | null;
+  patient_zip: string | null;
+  diagnosis_codes: string[];
+  service_date: string;
+  place_of_service: string;
+  cpt_code: string | null;
+  modifier: string | null;
+  units: number;
+  charge_amount: number;
+  rendering_provider_first_name: string | null;
+  rendering_provider_last_name: string | null;
+  rendering_provider_npi: string | null;
+  rendering_provider_taxonomy: string | null;
+  billing_provider_name: string | null;
+  billing_provider_npi: string | null;
+  billing_provider_tax_id: string | null;
+  billing_provider_taxonomy: string | null;
+  billing_provider_address1: string | null;
+  billing_provider_city: string | null;
+  billing_provider_state: string | null;
+  billing_provider_zip: string | null;
+  paid_amount: number | null;
+  denial_reason: string | null;
+  submitted_at: string | null;
+  adjudicated_at: string | null;
+  notes: string | null;
+  created_at?: string;
+}
+
+export interface BillableAppointment {
+  id: string;
+  client_id: string;
+  clinician_id: string;
+  date: string;
+  start_time: string;
+  type: string;
+  client_name: string;
+  clinician_name: string | null;
+  session_note: {
+    id: string;
+    signature: string | null;
+    signed_at: string | null;
+    cosignatures: { status: string } | { status: string }[] | null;
+  } | null;
+}
+
+// Documented appointments that don't have a claim yet, with their session note
+export const fetchBillableAppointments = async (): Promise<BillableAppointment[]> => {
+  try {
+    const { data: claimed, error: claimedError } = await supabase
+      .from('claims')
+      .select('appointment_id');
+
+    if (claimedError) throw claimedError;
+
+    const { data, error } = await supabase
+      .from('appointments')
+      .select(`
+        id, client_id, clinician_id, date, start_time, type, status,
+        clients (client_first_name, client_last_name),
+        clinicians (clinician_professional_name),
+        session_notes (id, signature, signed_at, cosignatures (status))
+      `)
+      .eq('status', 'Documented')
+      .order('date', { ascending: false })
+      .limit(200);
+
+    if (error) throw error;
+
+    const claimedIds = new Set((claimed || []).map(claim => claim.appointment_id));
+    return (data || [])
+      .filter(appointment => !claimedIds.has(appointment.id))
+      .map(({ clients, clinicians, session_notes, status, ...appointment }) => {
+        // Embedded rows come back as objects or single-item arrays depending on the relationship
+        const client = Array.isArray(clients) ? clients[0] : clients;
+        const clinician = Array.isArray(clinicians) ? clinicians[0] : clinicians;
+        return {
+          ...appointment,
+          client_name: `${client?.client_first_name || ''} ${client?.client_last_name || ''}`.trim() || 'Unknown client',
+          clinician_name: clinician?.clinician_professional_name || null,
+          session_note: (Array.isArray(session_notes) ? session_notes[0] : session_notes) || null
+        };
+      });
+  } catch (error) {
+    console.error('Error fetching billable appointments:', error);
+    return [];
+  }
+};
+
+// Everything needed to build a claim for one appointment
+export const fetchClaimSourceData = async (appointmentId: string) => {
+  try {
+    const { data: appointment, error: appointmentError } = await supabase
+      .from('appointments')
+      .select('*')
+      .eq('id', appointmentId)
+      .single();
+
+    if (appointmentError) throw appointmentError;
+
+    const [sessionNote, client, clinician, practice, cptCodes] = await Promise.all([
+      supabase.from('session_notes').select('*, cosignatures (status)').eq('appointment_id', appointmentId).maybeSingle(),
+      supabase.from('clients').select('*').eq('id', appointment.client_id).single(),
+      supabase.from('clinicians').select('*').eq('id', appointment.clinician_id).maybeSingle(),
+      fetchPracticeInfo(),
+      fetchCPTCodes()
+    ]);
+
+    if (sessionNote.error) throw sessionNote.error;
+    if (client.error) throw client.error;
+    if (clinician.error) throw clinician.error;
+
+    return {
+      success: true,
+      data: {
+        appointment,
+        sessionNote: sessionNote.data,
+        client: client.data,
+        clinician: clinician.data,
+        practice,
+        cptCodes
+      }
+    };
+  } catch (error) {
+    console.error('Error fetching claim source data:', error);
+    return { success: false, error };
+  }
+};
+
+export const fetchClaims = async (status?: string): Promise<Claim[]> => {
+  try {
+    let query = supabase
+      .from('claims')
+      .select('*')
+      .order('service_date', { ascending: false })
+      .limit(500);
+
+    if (status && status !== 'all') {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching claims:', error);
+    return [];
+  }
+};
+
+export const saveClaim = async (claim: Claim) => {
+  try {
+    const { id, claim_number, created_at, ...values } = claim;
+    const { data, error } = id
+      ? await supabase
+          .from('claims')
+          .update({ ...values, updated_at: new Date().toISOString() })
+          .eq('id', id)
+          .select()
+          .single()
+      : await supabase
+          .from('claims')
+          .insert([{ ...values, created_by: (await getCurrentUser())?.id }])
+          .select()
+          .single();
+
+    if (error) throw error;
+
+    await logAuditEvent({
+      action: id ? 'update' : 'create',
+      tableName: 'claims',
+      recordId: data.id,
+      clientId: data.client_id,
+      metadata: { claim_number: data.claim_number, status: data.status },
+    });
+
+    return { success: true, data: data as Claim };
+  } catch (error) {
+    console.error('Error saving claim:', error);
+    return { success: false, error };
+  }
+};
+
+// Interface for clinician licenses
+export interface ClinicianLicense {
+  id?: string;
+  clinician_id: string;
+  state: string;
+  license_type: string | null;
+  license_number: string;
+  issue_date: string | null;
+  expiration_date: string | null;
+  proof_path: string | null;
+  proof_file_name: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Pass a clinician ID to narrow the list to one clinician
+export const fetchClinicianLicenses = async (clinicianId?: string): Promise<ClinicianLicense[]> => {
+  try {
+    let query = supabase
+      .from('licenses')
+      .select('*')
+      .order('expiration_date', { ascending: true, nullsFirst: false });
+
+    if (clinicianId) {
+      query = query.eq('clinician_id', clinicianId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching clinician licenses:', error);
+    return [];
+  }
+};
+
+// Saving a license re-syncs clinicians.clinician_licensed_states through a database trigger
+export const saveClinicianLicense = async (license: ClinicianLicense, proof?: File | null) => {
+  try {
+    const { id, created_at, updated_at, ...values } = license;
+
+    if (proof) {
+      const proofPath = `${license.clinician_id}/${crypto.randomUUID()}-${proof.name}`;
+      const { error: uploadError } = await supabase.storage
+        .from('license-documents')
+        .upload(proofPath, proof);
+
+      if (uploadError) throw uploadError;
+
+      values.proof_path = proofPath;
+      values.proof_file_name = proof.name;
+    }
+
+    const { data, error } = id
+      ? await supabase
+          .from('licenses')
+          .update({ ...values, updated_at: new Date().toISOString() })
+          .eq('id', id)
+          .select()
+          .single()
+      : await supabase
+          .from('licenses')
+          .insert([values])
+          .select()
+          .single();
+
+    if (error) throw error;
+
+    // Replace the old proof only once the new one is attached to the license
+    if (proof && license.proof_path) {
+      await supabase.storage.from('license-documents').remove([license.proof_path]);
+    }
+
+    return { success: true, data: data as ClinicianLicense };
+  } catch (error) {
+    console.error('Error saving clinician license:', error);
+    return { success: false, error };
+  }
+};
+
+export const deleteClinicianLicense = async (license: ClinicianLicense) => {
+  try {
+    const { error } = await supabase
+      .from('licenses')
+      .delete()
+      .eq('id', license.id);
+
+    if (error) throw error;
+
+    if (license.proof_path) {
+      await supabase.storage.from('license-documents').remove([license.proof_path]);
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error deleting clinician license:', error);
+    return { success: false, error };
+  }
+};
+
+export const getLicenseProofURL = async (proofPath: string) => {
+  try {
+    const { data, error } = await supabase.storage
+      .from('license-documents')
+      .createSignedUrl(proofPath, 60); // 60 seconds expiration
+
+    if (error) throw error;
+    return data.signedUrl;
+  } catch (error) {
+    console.error('Error getting license proof URL:', error);
+    return null;
+  }
+};
+
+// Whether the clinician holds an active license in the client's state on the given date
+export const checkAppointmentLicensure = async (clinicianId: string, clientId: string, date: string) => {
+  try {
+    const { data, error } = await supabase.rpc('check_appointment_licensure', {
+      p_clinician_id: clinicianId,
+      p_client_id: clientId,
+      p_date: date
+    });
+
+    if (error) throw error;
+    const result = data?.[0];
+    return {
+      success: true,
+      data: {
+        clientState: (result?.client_state as string | null) || null,
+        isLicensed: result ? !!result.is_licensed : true
+      }
+    };
+  } catch (error) {
+    console.error('Error checking appointment licensure:', error);
+    return { success: false, error };
+  }
+};
+
+// Everything the slot engine needs for one clinician between two clinician-local dates
+export const fetchSlotEngineData = async (clinicianId: string, startDate: string, endDate: string) => {
+  try {
+    const [availability, exceptions, timeOff, closures, appointments, settings, clinician] = await Promise.all([
+      supabase.from('availability').select('*').eq('clinician_id', clinicianId).eq('is_active', true),
+      supabase
+        .from('availability_exceptions')
+        .select('*')
+        .eq('clinician_id', clinicianId)
+        .gte('specific_date', startDate)
+        .lte('specific_date', endDate),
+      supabase
+        .from('time_off_blocks')
+        .select('*')
+        .eq('clinician_id', clinicianId)
+        .lte('start_date', endDate)
+        .gte('end_date', startDate),
+      supabase
+        .from('practice_closures')
+        .select('start_date, end_date, name')
+        .lte('start_date', endDate)
+        .gte('end_date', startDate),
+      supabase
+        .from('appointments')
+        .select('id, date, start_time, end_time, status')
+        .eq('clinician_id', clinicianId)
+        .gte('date', startDate)
+        .lte('date', endDate),
+      supabase.from('availability_settings').select('*').eq('clinician_id', clinicianId).maybeSingle(),
+      supabase.from('clinicians').select('clinician_timezone').eq('id', clinicianId).maybeSingle()
+    ]);
+
+    if (availability.error) throw availability.error;
+    if (exceptions.error) throw exceptions.error;
+    if (timeOff.error) throw timeOff.error;
+    if (closures.error) throw closures.error;
+    if (appointments.error) throw appointments.error;
+
+    return {
+      success: true,
+      data: {
+        availability: availability.data || [],
+        exceptions: exceptions.data || [],
+        timeOff: timeOff.data || [],
+        closures: closures.data || [],
+        appointments: appointments.data || [],
+        settings: settings.data || null,
+        clinicianTimeZone: ensureIANATimeZone(clinician.data?.clinician_timezone || 'America/Chicago')
+      }
+    };
+  } catch (error) {
+    console.error('Error fetching slot engine data:', error);
+    return { success: false, error };
+  }
+};
+
+export interface TimeOffBlock {
+  id?: string;
+  clinician_id: string;
+  start_date: string;
+  end_date: string;
+  time_off_type: string;
+  note: string | null;
+  is_active?: boolean | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Time off for one clinician overlapping the given dates, inclusive
+export const fetchTimeOffBlocks = async (clinicianId: string, startDate?: string, endDate?: string): Promise<TimeOffBlock[]> => {
+  try {
+    let query = supabase
+      .from('time_off_blocks')
+      .select('*')
+      .eq('clinician_id', clinicianId)
+      .eq('is_active', true)
+      .order('start_date', { ascending: true });
+
+    if (startDate) {
+      query = query.gte('end_date', startDate);
+    }
+    if (endDate) {
+      query = query.lte('start_date', endDate);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching time off:', error);
+    return [];
+  }
+};
+
+export const saveTimeOffBlock = async (block: TimeOffBlock) => {
+  try {
+    const { id, created_at, updated_at, ...values } = block;
+
+    const { data, error } = id
+      ? await supabase
+          .from('time_off_blocks')
+          .update({ ...values, updated_at: new Date().toISOString() })
+          .eq('id', id)
+          .select()
+          .single()
+      : await supabase
+          .from('time_off_blocks')
+          .insert([{ ...values, is_active: true }])
+          .select()
+          .single();
+
+    if (error) throw error;
+    return { success: true, data: data as TimeOffBlock };
+  } catch (error) {
+    console.error('Error saving time off:', error);
+    return { success: false, error };
+  }
+};
+
+export const deleteTimeOffBlock = async (id: string) => {
+  try {
+    const { error } = await supabase
+      .from('time_off_blocks')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+    return { success: true };
+  } catch (error) {
+    console.error('Error deleting time off:', error);
+    return { success: false, error };
+  }
+};
+
+export interface PracticeClosure {
+  id?: string;
+  start_date: string;
+  end_date: string;
+  name: string;
+  closure_type: 'holiday' | 'custom';
+  created_at?: string;
+}
+
+// Practice-wide closures overlapping the given dates, inclusive
+export const fetchPracticeClosures = async (startDate?: string, endDate?: string): Promise<PracticeClosure[]> => {
+  try {
+    let query = supabase
+      .from('practice_closures')
+      .select('*')
+      .order('start_date', { ascending: true });
+
+    if (startDate) {
+      query = query.gte('end_date', startDate);
+    }
+    if (endDate) {
+      query = query.lte('start_date', endDate);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return (data || []) as PracticeClosure[];
+  } catch (error) {
+    console.error('Error fetching practice closures:', error);
+    return [];
+  }
+};
+
+// Closures already on the list (same start date and name) are left as they are
+export const addPracticeClosures = async (closures: PracticeClosure[]) => {
+  try {
+    const { data, error } = await supabase
+      .from('practice_closures')
+      .upsert(closures, { onConflict: 'start_date,name', ignoreDuplicates: true })
+      .select();
+
+    if (error) throw error;
+    return { success: true, data: (data || []) as PracticeClosure[] };
+  } catch (error) {
+    console.error('Error adding practice closures:', error);
+    return { success: false, error };
+  }
+};
+
+export const deletePracticeClosure = async (id: string) => {
+  try {
+    const { error } = await supabase
+      .from('practice_closures')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+    return { success: true };
+  } catch (error) {
+    console.error('Error deleting practice closure:', error);
+    return { success: false, error };
+  }
+};
+
+export interface ScheduledAppointment {
+  id: string;
+  client_id: string;
+  clinician_id: string;
+  date: string;
+  start_time: string;
+  end_time: string;
+  type: string;
+  status: string;
+  client_name: string;
+}
+
+// Appointments still on the books between two dates, e.g. ones that need moving for time off.
+// Pass several clinician ids to load a shared schedule.
+export const fetchScheduledAppointments = async (clinicianIds: string | string[], startDate: string, endDate: string): Promise<ScheduledAppointment[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('appointments')
+      .select('id, client_id, clinician_id, date, start_time, end_time, type, status, clients(client_first_name, client_last_name, client_preferred_name)')
+      .in('clinician_id', Array.isArray(clinicianIds) ? clinicianIds : [clinicianIds])
+      .eq('status', 'scheduled')
+      .gte('date', startDate)
+      .lte('date', endDate)
+      .order('date', { ascending: true })
+      .order('start_time', { ascending: true });
+
+    if (error) throw error;
+
+    return (data || []).map(appointment => {
+      const client = Array.isArray(appointment.clients) ? appointment.clients[0] : appointment.clients;
+      return {
+        id: appointment.id,
+        client_id: appointment.client_id,
+        clinician_id: appointment.clinician_id,
+        date: appointment.date,
+        start_time: appointment.start_time,
+        end_time: appointment.end_time,
+        type: appointment.type,
+        status: appointment.status,
+        client_name: client
+          ? `${client.client_preferred_name || client.client_first_name || ''} ${client.client_last_name || ''}`.trim()
+          : 'Unknown Client'
+      };
+    });
+  } catch (error) {
+    console.error('Error fetching scheduled appointments:', error);
+    return [];
+  }
+};
+
+export interface BookingSession {
+  date: string;
+  start_time: string;
+  end_time: string;
+}
+
+export interface BookAppointmentRequest {
+  clientId: string;
+  clinicianId: string;
+  sessions: BookingSession[];
+  type?: string;
+  notes?: string;
+  appointmentRecurring?: string;
+  recurringGroupId?: string;
+  licensureOverrideReason?: string | null;
+}
+
+// Structured error from the book-appointment function. code is SLOT_CONFLICT,
+// SLOT_UNAVAILABLE, LICENSURE_REQUIRED, FORBIDDEN, INVALID_REQUEST or BOOKING_FAILED.
+export interface BookingError {
+  code: string;
+  message: string;
+  conflicts?: (BookingSession & { conflicting_appointment_id?: string })[];
+}
+
+// All bookings go through the edge function, which re-checks the slot and
+// inserts every session in one transaction so two people can't take the same time
+export const bookAppointment = async (request: BookAppointmentRequest) => {
+  try {
+    const { data, error } = await supabase.functions.invoke('book-appointment', {
+      body: request
+    });
+
+    if (error) {
+      const body = error instanceof FunctionsHttpError ? await error.context.json().catch(() => null) : null;
+      throw body?.error || { code: 'BOOKING_FAILED', message: error.message };
+    }
+
+    return { success: true, data: data.appointments };
+  } catch (error) {
+    console.error('Error booking appointment:', error);
+    return { success: false, error: error as BookingError };
+  }
+};
+
+export interface WaitlistEntry {
+  id?: string;
+  clinician_id: string;
+  client_id: string;
+  preferred_days: string[];
+  earliest_time: string | null;
+  latest_time: string | null;
+  priority: number;
+  notes: string | null;
+  status?: string;
+  created_at?: string;
+  updated_at?: string;
+  client_name?: string;
+}
+
+export interface WaitlistOffer {
+  id: string;
+  clinician_id: string;
+  client_id: string;
+  date: string;
+  start_time: string;
+  end_time: string;
+  token: string;
+  status: string;
+  expires_at: string;
+  appointment_id: string | null;
+  clinician_name?: string;
+}
+
+// Active waitlist entries, in the order openings are offered
+export const fetchWaitlistEntries = async (filters: { clinicianId?: string; clientId?: string }): Promise<WaitlistEntry[]> => {
+  try {
+    let query = supabase
+      .from('waitlist_entries')
+      .select('*, clients(client_first_name, client_last_name, client_preferred_name)')
+      .eq('status', 'active')
+      .order('priority', { ascending: false })
+      .order('created_at', { ascending: true });
+
+    if (filters.clinicianId) {
+      query = query.eq('clinician_id', filters.clinicianId);
+    }
+    if (filters.clientId) {
+      query = query.eq('client_id', filters.clientId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+
+    return (data || []).map(({ clients, ...entry }) => {
+      const client = Array.isArray(clients) ? clients[0] : clients;
+      return {
+        ...entry,
+        client_name: client
+          ? `${client.client_preferred_name || client.client_first_name || ''} ${client.client_last_name || ''}`.trim()
+          : 'Unknown Client'
+      };
+    });
+  } catch (error) {
+    console.error('Error fetching waitlist:', error);
+    return [];
+  }
+};
+
+export const saveWaitlistEntry = async (entry: WaitlistEntry) => {
+  try {
+    const { id, created_at, updated_at, client_name, status, ...values } = entry;
+
+    const { data, error } = id
+      ? await supabase
+          .from('waitlist_entries')
+          .update({ ...values, updated_at: new Date().toISOString() })
+          .eq('id', id)
+          .select()
+          .single()
+      : await supabase
+          .from('waitlist_entries')
+          .insert([values])
+          .select()
+          .single();
+
+    if (error) throw error;
+    return { success: true, data };
+  } catch (error) {
+    console.error('Error saving waitlist entry:', error);
+    return { success: false, error };
+  }
+};
+
+// Entries are kept for history; removing one just takes it out of line
+export const removeWaitlistEntry = async (id: string) => {
+  try {
+    const { error } = await supabase
+      .from('waitlist_entries')
+      .update({ status: 'removed', updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) throw error;
+    return { success: true };
+  } catch (error) {
+    console.error('Error removing waitlist entry:', error);
+    return { success: false, error };
+  }
+};
+
+const WAITLIST_OFFER_SELECT = '*, clinicians(clinician_professional_name)';
+
+type ClinicianName = { clinician_professional_name: string | null };
+
+const toWaitlistOffer = ({ clinicians, ...offer }: WaitlistOffer & { clinicians: ClinicianName | ClinicianName[] | null }): WaitlistOffer => {
+  const clinician = Array.isArray(clinicians) ? clinicians[0] : clinicians;
+  return { ...offer, clinician_name: clinician?.clinician_professional_name || 'your clinician' };
+};
+
+// Offers a client can still claim
+export const fetchWaitlistOffers = async (clientId: string): Promise<WaitlistOffer[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('waitlist_offers')
+      .select(WAITLIST_OFFER_SELECT)
+      .eq('client_id', clientId)
+      .eq('status', 'pending')
+      .gt('expires_at', new Date().toISOString())
+      .order('expires_at', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(toWaitlistOffer);
+  } catch (error) {
+    console.error('Error fetching waitlist offers:', error);
+    return [];
+  }
+};
+
+export const fetchWaitlistOfferByToken = async (token: string): Promise<WaitlistOffer | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('waitlist_offers')
+      .select(WAITLIST_OFFER_SELECT)
+      .eq('token', token)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toWaitlistOffer(data) : null;
+  } catch (error) {
+    console.error('Error fetching waitlist offer:', error);
+    return null;
+  }
+};
+
+// Errors come back with code WAITLIST_OFFER_NOT_FOUND, WAITLIST_OFFER_UNAVAILABLE,
+// SLOT_CONFLICT or LICENSURE_REQUIRED when the database raised one of those
+export const claimWaitlistOffer = async (token: string) => {
+  try {
+    const { data, error } = await supabase.rpc('claim_waitlist_offer', { p_token: token });
+
+    if (error) throw { code: error.message, message: error.details || error.message };
+    return { success: true, data: data as string };
+  } catch (error) {
+    console.error('Error claiming waitlist offer:', error);
+    return { success: false, error: error as BookingError };
+  }
+};
+
+export const declineWaitlistOffer = async (token: string) => {
+  try {
+    const { error } = await supabase.rpc('decline_waitlist_offer', { p_token: token });
+
+    if (error) throw { code: error.message, message: error.details || error.message };
+    return { success: true };
+  } catch (error) {
+    console.error('Error declining waitlist offer:', error);
+    return { success: false, error: error as BookingError };
+  }
+};
+
+// Offers are created in the database when a slot opens; this sends them right
+// away instead of waiting for the next scheduled run
+export const notifyWaitlist = async () => {
+  try {
+    const { error } = await supabase.functions.invoke('send-waitlist-offers', { body: {} });
+
+    if (error) throw error;
+    return { success: true };
+  } catch (error) {
+    console.error('Error sending waitlist offers:', error);
+    return { success: false, error };
+  }
+};
+
+export type AppointmentMove = {
+  clinician_id?: string;
+  date?: string;
+  start_time?: string;
+  end_time?: string;
+};
+
+// Reassign or reschedule one appointment. The database rejects the move with
+// SLOT_CONFLICT or LICENSURE_REQUIRED, which callers can check on error.message.
+export const moveAppointment = async (appointmentId: string, move: AppointmentMove) => {
+  try {
+    const { data: before } = await supabase
+      .from('appointments')
+      .select('clinician_id, client_id, date, start_time, end_time')
+      .eq('id', appointmentId)
+      .maybeSingle();
+
+    const { data, error } = await supabase
+      .from('appointments')
+      .update(move)
+      .eq('id', appointmentId)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await logAuditEvent({
+      action: 'update',
+      tableName: 'appointments',
+      recordId: appointmentId,
+      clientId: data.client_id,
+      changes: getChangedFields(before, move),
+    });
+
+    // The old time may now go to someone on the waitlist
+    notifyWaitlist();
+
+    return { success: true, data };
+  } catch (error) {
+    console.error('Error moving appointment:', error);
+    return { success: false, error: error as { message?: string; details?: string } };
+  }
+};
+
+export type AppointmentReschedule = {
+  id: string;
+  date: string;
+  start_time: string;
+  end_time: string;
+  // Set only to restore a session's place in a recurring series, e.g. when undoing a split
+  recurring_group_id?: string | null;
+  appointment_recurring?: string | null;
+  recurrence_date?: string | null;
+};
+
+// Moves one or more appointments in a single transaction, in the order given.
+// On success `previous` holds the old values in reverse order, ready to pass
+// back in to undo the move.
+export const rescheduleAppointments = async (changes: AppointmentReschedule[]) => {
+  try {
+    const { data: before, error: beforeError } = await supabase
+      .from('appointments')
+      .select('id, date, start_time, end_time, recurring_group_id, appointment_recurring, recurrence_date')
+      .in('id', changes.map(change => change.id));
+
+    if (beforeError) throw beforeError;
+
+    const { data, error } = await supabase.rpc('reschedule_appointments', { p_changes: changes });
+
+    if (error) throw error;
+
+    const previous = changes.map((change): AppointmentReschedule => {
+      const row = before?.find(appointment => appointment.id === change.id);
+      return {
+        id: change.id,
+        date: row?.date ?? change.date,
+        start_time: row?.start_time ?? change.start_time,
+        end_time: row?.end_time ?? change.end_time,
+        ...('recurring_group_id' in change && { recurring_group_id: row?.recurring_group_id ?? null }),
+        ...('appointment_recurring' in change && { appointment_recurring: row?.appointment_recurring ?? null }),
+        ...('recurrence_date' in change && { recurrence_date: row?.recurrence_date ?? null })
+      };
+    }).reverse();
+
+    await Promise.all(changes.map(({ id, ...change }) => logAuditEvent({
+      action: 'update',
+      tableName: 'appointments',
+      recordId: id,
+      clientId: data?.find(appointment => appointment.id === id)?.client_id,
+      changes: getChangedFields(before?.find(appointment => appointment.id === id), change),
+    })));
+
+    // The old times may now go to someone on the waitlist
+    notifyWaitlist();
+
+    return { success: true, data: data || [], previous };
+  } catch (error) {
+    console.error('Error rescheduling appointments:', error);
+    return { success: false, error: error as { message?: string; details?: string } };
+  }
+};
+
+type SeriesSession = {
+  id: string;
+  client_id: string;
+  date: string;
+  start_time: string;
+  end_time: string;
+  recurring_group_id: string | null;
+  appointment_recurring: string | null;
+  recurrence_date: string | null;
+};
+
+// Every session in a series and its rule. Legacy rules don't record their
+// start, so the earliest session stands in for it.
+const fetchSeries = async (recurringGroupId: string) => {
+  const { data, error } = await supabase
+    .from('appointments')
+    .select('id, client_id, date, start_time, end_time, recurring_group_id, appointment_recurring, recurrence_date')
+    .eq('recurring_group_id', recurringGroupId)
+    .order('date', { ascending: true });
+
+  if (error) throw error;
+
+  const sessions: SeriesSession[] = data || [];
+  const start = sessions.map(session => session.recurrence_date || session.date).sort()[0];
+  const rule = start ? parseRecurrenceRule(sessions[0].appointment_recurring, start) : null;
+  return { sessions, rule };
+};
+
+// Every session in a recurring series, earliest first
+export const fetchSeriesSessions = async (recurringGroupId: string) => {
+  try {
+    const { sessions } = await fetchSeries(recurringGroupId);
+    return { success: true, data: sessions };
+  } catch (error) {
+    console.error('Error fetching appointment series:', error);
+    return { success: false, error };
+  }
+};
+
+export interface SeriesAppointment {
+  id: string;
+  date: string;
+  recurring_group_id?: string | null;
+  recurrence_date?: string | null;
+}
+
+/**
+ * "This and following": the session and the rest of its series become a new
+ * series moved by dayOffset days to the new times; earlier sessions are left
+ * alone. Like rescheduleAppointments, `previous` undoes the whole split.
+ */
+export const splitAppointmentSeries = async (
+  appointment: SeriesAppointment,
+  move: { dayOffset: number; startTime: string; endTime: string }
+) => {
+  try {
+    if (!appointment.recurring_group_id) throw new Error('Appointment is not part of a recurring series');
+
+    const { sessions, rule } = await fetchSeries(appointment.recurring_group_id);
+    const splitDate = appointment.recurrence_date || appointment.date;
+    const split = rule ? splitRecurrenceRule(rule, splitDate) : null;
+
+    const { data, error } = await supabase.rpc('split_appointment_series', {
+      p_appointment_id: appointment.id,
+      p_rule_before: split ? formatRecurrenceRule(split.before) : null,
+      p_rule_after: split ? formatRecurrenceRule(shiftRecurrenceRule(split.after, move.dayOffset)) : null,
+      p_day_offset: move.dayOffset,
+      p_start_time: move.startTime,
+      p_end_time: move.endTime
+    });
+
+    if (error) throw error;
+
+    // Undo in the reverse of the order the sessions were moved in, then restore the earlier rules
+    const moved = (data || []).map(row => sessions.find(session => session.id === row.id)).filter(Boolean) as SeriesSession[];
+    const unmoved = sessions.filter(session => !moved.includes(session));
+    const previous: AppointmentReschedule[] = [...moved.reverse(), ...unmoved].map(session => ({
+      id: session.id,
+      date: session.date,
+      start_time: session.start_time,
+      end_time: session.end_time,
+      recurring_group_id: session.recurring_group_id,
+      appointment_recurring: session.appointment_recurring,
+      recurrence_date: session.recurrence_date
+    }));
+
+    await Promise.all((data || []).map(row => logAuditEvent({
+      action: 'update',
+      tableName: 'appointments',
+      recordId: row.id,
+      clientId: row.client_id,
+      changes: getChangedFields(sessions.find(session => session.id === row.id), {
+        date: row.date,
+        start_time: row.start_time,
+        end_time: row.end_time,
+        recurring_group_id: row.recurring_group_id
+      }),
+    })));
+
+    notifyWaitlist();
+
+    return { success: true, data: data || [], previous };
+  } catch (error) {
+    console.error('Error splitting appointment series:', error);
+    return { success: false, error: error as { message?: string; details?: string } };
+  }
+};
+
+// Deletes the session and everything after it; earlier sessions stay booked
+export const endAppointmentSeries = async (appointment: SeriesAppointment) => {
+  try {
+    if (!appointment.recurring_group_id) throw new Error('Appointment is not part of a recurring series');
+
+    const { rule } = await fetchSeries(appointment.recurring_group_id);
+    const splitDate = appointment.recurrence_date || appointment.date;
+
+    const { data, error } = await supabase.rpc('end_appointment_series', {
+      p_appointment_id: appointment.id,
+      p_rule_before: rule ? formatRecurrenceRule(splitRecurrenceRule(rule, splitDate).before) : null
+    });
+
+    if (error) throw error;
+
+    notifyWaitlist();
+    return { success: true, data };
+  } catch (error) {
+    console.error('Error ending appointment series:', error);
+    return { success: false, error };
+  }
+};
+
+// Deletes one session of a series and records it as an exception to the rule
+export const deleteAppointmentOccurrence = async (appointment: SeriesAppointment) => {
+  try {
+    const { rule } = appointment.recurring_group_id
+      ? await fetchSeries(appointment.recurring_group_id)
+      : { rule: null };
+
+    const { error } = await supabase.rpc('delete_appointment_occurrence', {
+      p_appointment_id: appointment.id,
+      p_rule: rule ? formatRecurrenceRule(addRecurrenceException(rule, appointment.recurrence_date || appointment.date)) : null
+    });
+
+    if (error) throw error;
+
+    notifyWaitlist();
+    return { success: true };
+  } catch (error) {
+    console.error('Error deleting appointment occurrence:', error);
+    return { success: false, error };
+  }
+};
+
+// The secret calendar-feed link for a clinician, or null if they haven't created one yet
+export const fetchCalendarFeedToken = async (clinicianId: string): Promise<string | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('calendar_feed_tokens')
+      .select('token')
+      .eq('clinician_id', clinicianId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.token || null;
+  } catch (error) {
+    console.error('Error fetching calendar feed token:', error);
+    return null;
+  }
+};
+
+// Creates the clinician's feed link, or replaces it so the old one stops working
+export const rotateCalendarFeedToken = async (clinicianId: string) => {
+  try {
+    const { data, error } = await supabase.rpc('rotate_calendar_feed_token', { p_clinician_id: clinicianId });
+
+    if (error) throw error;
+    return { success: true, data };
+  } catch (error) {
+    console.error('Error rotating calendar feed token:', error);
+    return { success: false, error };
+  }
+};
+
+export const getCalendarFeedUrl = (token: string) =>
+  `${supabaseUrl || 'http://localhost:54321'}/functions/v1/calendar-feed?token=${token}`;
+
+export interface SessionNoteAddendum {
+  id: string;
+  session_note_id: string;
+  content: string;
+  signature: string;
+  signed_at: string;
+  signed_by: string;
+  signed_by_name: string | null;
+}
+
+// Raised by the database when anything tries to change a signed session note
+export const SESSION_NOTE_LOCKED_ERROR = 'SESSION_NOTE_LOCKED';
+
+export const fetchSessionNoteAddenda = async (sessionNoteId: string): Promise<SessionNoteAddendum[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('session_note_addenda')
+      .select('*')
+      .eq('session_note_id', sessionNoteId)
+      .order('signed_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching session note addenda:', error);
+    return [];
+  }
+};
+
+// The database signs the addendum as the current user; only the typed signature comes from here
+export const addSessionNoteAddendum = async (
+  sessionNote: { id: string; client_id: string },
+  content: string,
+  signature: string
+) => {
+  try {
+    const { data, error } = await supabase
+      .from('session_note_addenda')
+      .insert({ session_note_id: sessionNote.id, content, signature })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await logAuditEvent({
+      action: 'create',
+      tableName: 'session_note_addenda',
+      recordId: data.id,
+      clientId: sessionNote.client_id,
+      changes: getChangedFields(null, { session_note_id: sessionNote.id, content, signature }),
+    });
+
+    return { success: true, data: data as SessionNoteAddendum };
+  } catch (error) {
+    console.error('Error adding session note addendum:', error);
+    return { success: false, error };
+  }
+};
+
+export interface SessionNoteVersion {
+  id: string;
+  session_note_id: string;
+  session_data: Record<string, unknown>;
+  saved_at: string | null;
+  saved_by_name: string | null;
+  is_current: boolean;
+}
+
+// Every saved version of a client's session notes for a date, grouped by note and newest first
+export const fetchSessionNoteVersions = async (clientId: string, sessionDate: string): Promise<SessionNoteVersion[]> => {
+  try {
+    const { data: notes, error: notesError } = await supabase
+      .from('session_notes')
+      .select('*')
+      .eq('client_id', clientId)
+      .eq('session_date', sessionDate)
+      .order('created_at', { ascending: true });
+
+    if (notesError) throw notesError;
+    if (!notes || notes.length === 0) return [];
+
+    const { data: history, error: historyError } = await supabase
+      .from('session_notes_history')
+      .select('id, session_note_id, session_data, saved_at, saved_by_name, created_at')
+      .in('session_note_id', notes.map(note => note.id))
+      .order('created_at', { ascending: false });
+
+    if (historyError) throw historyError;
+
+    return notes.flatMap(note => [
+      {
+        id: note.id,
+        session_note_id: note.id,
+        session_data: note,
+        saved_at: note.saved_at || note.updated_at,
+        saved_by_name: note.saved_by_name,
+        is_current: true
+      },
+      ...(history || [])
+        .filter(version => version.session_note_id === note.id)
+        .map(version => ({
+          id: version.id,
+          session_note_id: note.id,
+          session_data: version.session_data as Record<string, unknown>,
+          saved_at: version.saved_at || version.created_at,
+          saved_by_name: version.saved_by_name,
+          is_current: false
+        }))
+    ]);
+  } catch (error) {
+    console.error('Error fetching session note versions:', error);
+    return [];
+  }
+};
+
+export type CosignatureStatus = 'pending' | 'approved' | 'returned';
+
+export interface Cosignature {
+  id: string;
+  session_note_id: string | null;
+  treatment_plan_id: string | null;
+  client_id: string;
+  clinician_id: string;
+  supervisor_id: string;
+  status: CosignatureStatus;
+  requested_at: string;
+  supervisor_signature: string | null;
+  supervisor_comments: string | null;
+  reviewed_at: string | null;
+  reviewed_by_name: string | null;
+  client_name: string;
+  clinician_name: string | null;
+  appointment_id: string | null;
+  document_date: string | null;
+  pdf_path: string | null;
+}
+
+// Documents waiting on this clinician: requests to review as a supervisor, and
+// their own documents their supervisor has returned
+export const fetchCosignatureQueue = async (clinicianId: string): Promise<Cosignature[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('cosignatures')
+      .select(`
+        *,
+        clients (client_first_name, client_last_name),
+        clinicians!cosignatures_clinician_id_fkey (clinician_professional_name),
+        session_notes (appointment_id, session_date, pdf_path),
+        treatment_plans (start_date, pdf_path)
+      `)
+      .or(`and(supervisor_id.eq.${clinicianId},status.eq.pending),and(clinician_id.eq.${clinicianId},status.eq.returned)`)
+      .order('requested_at', { ascending: true });
+
+    if (error) throw error;
+
+    return (data || []).map(({ clients, clinicians, session_notes, treatment_plans, ...cosignature }) => ({
+      ...cosignature,
+      status: cosignature.status as CosignatureStatus,
+      client_name: `${clients?.client_first_name || ''} ${clients?.client_last_name || ''}`.trim() || 'Unknown client',
+      clinician_name: clinicians?.clinician_professional_name || null,
+      appointment_id: session_notes?.appointment_id || null,
+      document_date: session_notes?.session_date || treatment_plans?.start_date || null,
+      pdf_path: session_notes?.pdf_path || treatment_plans?.pdf_path || null
+    }));
+  } catch (error) {
+    console.error('Error fetching co-signature queue:', error);
+    return [];
+  }
+};
+
+// Approve with the supervisor's signature, or return to the supervisee with comments
+export const reviewCosignature = async (
+  cosignature: Cosignature,
+  approve: boolean,
+  signatureOrComments: string
+) => {
+  try {
+    const { data, error } = await supabase.rpc('review_cosignature', {
+      p_cosignature_id: cosignature.id,
+      p_approve: approve,
+      p_signature: approve ? signatureOrComments : undefined,
+      p_comments: approve ? undefined : signatureOrComments
+    });
+
+    if (error) throw error;
+
+    await logAuditEvent({
+      action: 'update',
+      tableName: 'cosignatures',
+      recordId: cosignature.id,
+      clientId: cosignature.client_id,
+      changes: getChangedFields({
+        status: cosignature.status,
+        supervisor_signature: cosignature.supervisor_signature,
+        supervisor_comments: cosignature.supervisor_comments
+      }, {
+        status: data.status,
+        supervisor_signature: data.supervisor_signature,
+        supervisor_comments: data.supervisor_comments
+      }),
+    });
+
+    return { success: true, data };
+  } catch (error) {
+    console.error('Error reviewing co-signature:', error);
+    return { success: false, error };
+  }
+};
+
+// Recent sessions with their notes, and active treatment plans, for the
+// documentation compliance panel. Leave clinicianId out to cover every clinician.
+export const fetchDocumentationComplianceData = async (clinicianId?: string) => {
+  try {
+    const since = new Date();
+    since.setDate(since.getDate() - 90);
+    // Clinicians ahead of the browser's time zone may already be a day further on
+    const until = new Date();
+    until.setDate(until.getDate() + 1);
+
+    let appointmentsQuery = supabase
+      .from('appointments')
+      .select(`
+        id, client_id, clinician_id, date, end_time, status,
+        clients (client_first_name, client_last_name),
+        clinicians (clinician_professional_name, clinician_timezone),
+        session_notes (id, signed_at)
+      `)
+      .gte('date', formatDateForDB(since))
+      .lte('date', formatDateForDB(until))
+      .order('date', { ascending: false });
+
+    let plansQuery = supabase
+      .from('treatment_plans')
+      .select(`
+        id, client_id, clinician_id, review_due_date,
+        clients (client_first_name, client_last_name),
+        clinicians (clinician_professional_name)
+      `)
+      .eq('status', 'active')
+      .order('review_due_date', { ascending: true });
+
+    if (clinicianId) {
+      appointmentsQuery = appointmentsQuery.eq('clinician_id', clinicianId);
+      plansQuery = plansQuery.eq('clinician_id', clinicianId);
+    }
+
+    const [appointments, plans] = await Promise.all([appointmentsQuery, plansQuery]);
+
+    if (appointments.error) throw appointments.error;
+    if (plans.error) throw plans.error;
+
+    // Embedded rows come back as objects or single-item arrays depending on the relationship
+    const first = <T>(value: T | T[] | null): T | null => (Array.isArray(value) ? value[0] || null : value);
+    const clientName = (client: { client_first_name: string | null; client_last_name: string | null } | null) =>
+      `${client?.client_first_name || ''} ${client?.client_last_name || ''}`.trim() || 'Unknown client';
+
+    return {
+      success: true,
+      data: {
+        appointments: (appointments.data || []).map(({ clients, clinicians, session_notes, ...appointment }) => ({
+          ...appointment,
+          client_name: clientName(first(clients)),
+          clinician_name: first(clinicians)?.clinician_professional_name || null,
+          clinician_timezone: ensureIANATimeZone(first(clinicians)?.clinician_timezone || 'America/Chicago'),
+          session_note: first(session_notes)
+        })),
+        treatmentPlans: (plans.data || []).map(({ clients, clinicians, ...plan }) => ({
+          ...plan,
+          client_name: clientName(first(clients)),
+          clinician_name: first(clinicians)?.clinician_professional_name || null
+        }))
+      }
+    };
+  } catch (error) {
+    console.error('Error fetching documentation compliance data:', error);
+    return { success: false, error };
+  }
+};
+
+export interface TreatmentPlan {
+  id: string;
+  client_id: string;
+  clinician_id: string;
+  clinician_name: string | null;
+  version: number;
+  previous_plan_id: string | null;
+  status: TreatmentPlanStatus;
+  start_date: string;
+  plan_length: string;
+  treatment_frequency: string;
+  review_due_date: string | null;
+  next_update: string;
+  diagnosis: string[] | null;
+  problem_narrative: string | null;
+  treatment_goal_narrative: string | null;
+  primary_objective: string;
+  secondary_objective: string | null;
+  tertiary_objective: string | null;
+  intervention1: string;
+  intervention2: string;
+  intervention3: string | null;
+  intervention4: string | null;
+  intervention5: string | null;
+  intervention6: string | null;
+  private_note: string | null;
+  objective_progress: ObjectiveProgress[];
+  pdf_path: string | null;
+  created_at: string;
+}
+
+type TreatmentPlanRow = Omit<TreatmentPlan, 'status' | 'objective_progress'> & {
+  status: string;
+  objective_progress: unknown;
+};
+
+const toTreatmentPlan = (plan: TreatmentPlanRow): TreatmentPlan => ({
+  ...plan,
+  status: plan.status as TreatmentPlanStatus,
+  objective_progress: Array.isArray(plan.objective_progress) ? plan.objective_progress as ObjectiveProgress[] : []
+});
+
+// Every version of a client's treatment plan, newest first
+export const fetchTreatmentPlans = async (clientId: string): Promise<TreatmentPlan[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('treatment_plans')
+      .select('*')
+      .eq('client_id', clientId)
+      .order('version', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(toTreatmentPlan);
+  } catch (error) {
+    console.error('Error fetching treatment plans:', error);
+    return [];
+  }
+};
+
+// The plan a review starts from; null when the client has never had one
+export const fetchActiveTreatmentPlan = async (clientId: string): Promise<TreatmentPlan | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('treatment_plans')
+      .select('*')
+      .eq('client_id', clientId)
+      .eq('status', 'active')
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toTreatmentPlan(data) : null;
+  } catch (error) {
+    console.error('Error fetching active treatment plan:', error);
+    return null;
+  }
+};
@@ -9,6 +9,82 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      appointment_reminders: {
+        Row: {
+          appointment_id: string
+          attempts: number
+          channel: string
+          client_id: string
+          created_at: string
+          id: string
+          last_error: string | null
+          provider: string | null
+          provider_message_id: string | null
+          recipient: string | null
+          rule_id: string | null
+          scheduled_for: string
+          sent_at: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          appointment_id: string
+          attempts?: number
+          channel: string
+          client_id: string
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          provider?: string | null
+          provider_message_id?: string | null
+          recipient?: string | null
+          rule_id?: string | null
+          scheduled_for: string
+          sent_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          appointment_id?: string
+          attempts?: number
+          channel?: string
+          client_id?: string
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          provider?: string | null
+          provider_message_id?: string | null
+          recipient?: string | null
+          rule_id?: string | null
+          scheduled_for?: string
+          sent_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appointment_reminders_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointment_reminders_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointment_reminders_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "reminder_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       appointments: {
         Row: {
           appointment_recurring: string | null
@@ -18,7 +94,10 @@ export type Database = {
           date: string
           end_time: string
           id: string
+          licensure_override_by: string | null
+          licensure_override_reason: string | null
           notes: string | null
+          recurrence_date: string | null
           recurring_group_id: string | null
           start_time: string
           status: string
@@ -34,7 +113,10 @@ export type Database = {
           date: string
           end_time: string
           id?: string
+          licensure_override_by?: string | null
+          licensure_override_reason?: string | null
           notes?: string | null
+          recurrence_date?: string | null
           recurring_group_id?: string | null
           start_time: string
           status?: string
@@ -50,7 +132,10 @@ export type Database = {
           date?: string
           end_time?: string
           id?: string
+          licensure_override_by?: string | null
+          licensure_override_reason?: string | null
           notes?: string | null
+          recurrence_date?: string | null
           recurring_group_id?: string | null
           start_time?: string
           status?: string
@@ -68,6 +153,48 @@ export type Database = {
           },
         ]
       }
+      audit_log: {
+        Row: {
+          action: string
+          actor_email: string | null
+          actor_id: string | null
+          actor_role: string | null
+          changes: Json | null
+          client_id: string | null
+          created_at: string
+          id: string
+          metadata: Json | null
+          record_id: string | null
+          table_name: string
+        }
+        Insert: {
+          action: string
+          actor_email?: string | null
+          actor_id?: string | null
+          actor_role?: string | null
+          changes?: Json | null
+          client_id?: string | null
+          created_at?: string
+          id?: string
+          metadata?: Json | null
+          record_id?: string | null
+          table_name: string
+        }
+        Update: {
+          action?: string
+          actor_email?: string | null
+          actor_id?: string | null
+          actor_role?: string | null
+          changes?: Json | null
+          client_id?: string | null
+          created_at?: string
+          id?: string
+          metadata?: Json | null
+          record_id?: string | null
+          table_name?: string
+        }
+        Relationships: []
+      }
       availability: {
         Row: {
           clinician_id: string | null
@@ -187,6 +314,226 @@ export type Database = {
         }
         Relationships: []
       }
+      calendar_feed_tokens: {
+        Row: {
+          clinician_id: string
+          created_at: string
+          rotated_at: string | null
+          token: string
+        }
+        Insert: {
+          clinician_id: string
+          created_at?: string
+          rotated_at?: string | null
+          token?: string
+        }
+        Update: {
+          clinician_id?: string
+          created_at?: string
+          rotated_at?: string | null
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendar_feed_tokens_clinician_id_fkey"
+            columns: ["clinician_id"]
+            isOneToOne: false
+            referencedRelation: "clinicians"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      claims: {
+        Row: {
+          adjudicated_at: string | null
+          appointment_id: string
+          billing_provider_address1: string | null
+          billing_provider_city: string | null
+          billing_provider_name: string | null
+          billing_provider_npi: string | null
+          billing_provider_state: string | null
+          billing_provider_tax_id: string | null
+          billing_provider_taxonomy: string | null
+          billing_provider_zip: string | null
+          charge_amount: number
+          claim_number: string
+          client_id: string
+          clinician_id: string | null
+          cpt_code: string | null
+          created_at: string
+          created_by: string | null
+          denial_reason: string | null
+          diagnosis_codes: string[]
+          group_number: string | null
+          id: string
+          insurance_type: string | null
+          modifier: string | null
+          notes: string | null
+          paid_amount: number | null
+          patient_address1: string | null
+          patient_city: string | null
+          patient_dob: string | null
+          patient_first_name: string | null
+          patient_gender: string | null
+          patient_last_name: string | null
+          patient_state: string | null
+          patient_zip: string | null
+          payer_id: string | null
+          payer_name: string | null
+          payer_order: string
+          place_of_service: string
+          policy_number: string | null
+          rendering_provider_first_name: string | null
+          rendering_provider_last_name: string | null
+          rendering_provider_npi: string | null
+          rendering_provider_taxonomy: string | null
+          service_date: string
+          session_note_id: string | null
+          status: string
+          submitted_at: string | null
+          subscriber_dob: string | null
+          subscriber_name: string | null
+          subscriber_relationship: string | null
+          units: number
+          updated_at: string
+        }
+        Insert: {
+          adjudicated_at?: string | null
+          appointment_id: string
+          billing_provider_address1?: string | null
+          billing_provider_city?: string | null
+          billing_provider_name?: string | null
+          billing_provider_npi?: string | null
+          billing_provider_state?: string | null
+          billing_provider_tax_id?: string | null
+          billing_provider_taxonomy?: string | null
+          billing_provider_zip?: string | null
+          charge_amount?: number
+          claim_number?: string
+          client_id: string
+          clinician_id?: string | null
+          cpt_code?: string | null
+          created_at?: string
+          created_by?: string | null
+          denial_reason?: string | null
+          diagnosis_codes?: string[]
+          group_number?: string | null
+          id?: string
+          insurance_type?: string | null
+          modifier?: string | null
+          notes?: string | null
+          paid_amount?: number | null
+          patient_address1?: string | null
+          patient_city?: string | null
+          patient_dob?: string | null
+          patient_first_name?: string | null
+          patient_gender?: string | null
+          patient_last_name?: string | null
+          patient_state?: string | null
+          patient_zip?: string | null
+          payer_id?: string | null
+          payer_name?: string | null
+          payer_order?: string
+          place_of_service?: string
+          policy_number?: string | null
+          rendering_provider_first_name?: string | null
+          rendering_provider_last_name?: string | null
+          rendering_provider_npi?: string | null
+          rendering_provider_taxonomy?: string | null
+          service_date: string
+          session_note_id?: string | null
+          status?: string
+          submitted_at?: string | null
+          subscriber_dob?: string | null
+          subscriber_name?: string | null
+          subscriber_relationship?: string | null
+          units?: number
+          updated_at?: string
+        }
+        Update: {
+          adjudicated_at?: string | null
+          appointment_id?: string
+          billing_provider_address1?: string | null
+          billing_provider_city?: string | null
+          billing_provider_name?: string | null
+          billing_provider_npi?: string | null
+          billing_provider_state?: string | null
+          billing_provider_tax_id?: string | null
+          billing_provider_taxonomy?: string | null
+          billing_provider_zip?: string | null
+          charge_amount?: number
+          claim_number?: string
+          client_id?: string
+          clinician_id?: string | null
+          cpt_code?: string | null
+          created_at?: string
+          created_by?: string | null
+          denial_reason?: string | null
+          diagnosis_codes?: string[]
+          group_number?: string | null
+          id?: string
+          insurance_type?: string | null
+          modifier?: string | null
+          notes?: string | null
+          paid_amount?: number | null
+          patient_address1?: string | null
+          patient_city?: string | null
+          patient_dob?: string | null
+          patient_first_name?: string | null
+          patient_gender?: string | null
+          patient_last_name?: string | null
+          patient_state?: string | null
+          patient_zip?: string | null
+          payer_id?: string | null
+          payer_name?: string | null
+          payer_order?: string
+          place_of_service?: string
+          policy_number?: string | null
+          rendering_provider_first_name?: string | null
+          rendering_provider_last_name?: string | null
+          rendering_provider_npi?: string | null
+          rendering_provider_taxonomy?: string | null
+          service_date?: string
+          session_note_id?: string | null
+          status?: string
+          submitted_at?: string | null
+          subscriber_dob?: string | null
+          subscriber_name?: string | null
+          subscriber_relationship?: string | null
+          units?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "claims_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "claims_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "claims_clinician_id_fkey"
+            columns: ["clinician_id"]
+            isOneToOne: false
+            referencedRelation: "clinicians"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "claims_session_note_id_fkey"
+            columns: ["session_note_id"]
+            isOneToOne: false
+            referencedRelation: "session_notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       clients: {
         Row: {
           client_affect: string | null
@@ -536,6 +883,7 @@ export type Database = {
           clinician_professional_name: string | null
           clinician_state: string[] | null
           clinician_status: string | null
+          clinician_supervisor_id: string | null
           clinician_taxonomy_code: string | null
           clinician_timezone: string | null
           clinician_treatment_approaches: string[] | null
@@ -560,6 +908,7 @@ export type Database = {
           clinician_professional_name?: string | null
           clinician_state?: string[] | null
           clinician_status?: string | null
+          clinician_supervisor_id?: string | null
           clinician_taxonomy_code?: string | null
           clinician_timezone?: string | null
           clinician_treatment_approaches?: string[] | null
@@ -584,6 +933,7 @@ export type Database = {
           clinician_professional_name?: string | null
           clinician_state?: string[] | null
           clinician_status?: string | null
+          clinician_supervisor_id?: string | null
           clinician_taxonomy_code?: string | null
           clinician_timezone?: string | null
           clinician_treatment_approaches?: string[] | null
@@ -592,7 +942,15 @@ export type Database = {
           id?: string
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "clinicians_clinician_supervisor_id_fkey"
+            columns: ["clinician_supervisor_id"]
+            isOneToOne: false
+            referencedRelation: "clinicians"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       completed_appointments: {
         Row: {
@@ -609,6 +967,87 @@ export type Database = {
         }
         Relationships: []
       }
+      cosignatures: {
+        Row: {
+          client_id: string
+          clinician_id: string
+          id: string
+          requested_at: string
+          reviewed_at: string | null
+          reviewed_by_name: string | null
+          session_note_id: string | null
+          status: string
+          supervisor_comments: string | null
+          supervisor_id: string
+          supervisor_signature: string | null
+          treatment_plan_id: string | null
+        }
+        Insert: {
+          client_id: string
+          clinician_id: string
+          id?: string
+          requested_at?: string
+          reviewed_at?: string | null
+          reviewed_by_name?: string | null
+          session_note_id?: string | null
+          status?: string
+          supervisor_comments?: string | null
+          supervisor_id: string
+          supervisor_signature?: string | null
+          treatment_plan_id?: string | null
+        }
+        Update: {
+          client_id?: string
+          clinician_id?: string
+          id?: string
+          requested_at?: string
+          reviewed_at?: string | null
+          reviewed_by_name?: string | null
+          session_note_id?: string | null
+          status?: string
+          supervisor_comments?: string | null
+          supervisor_id?: string
+          supervisor_signature?: string | null
+          treatment_plan_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cosignatures_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cosignatures_clinician_id_fkey"
+            columns: ["clinician_id"]
+            isOneToOne: false
+            referencedRelation: "clinicians"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cosignatures_session_note_id_fkey"
+            columns: ["session_note_id"]
+            isOneToOne: true
+            referencedRelation: "session_notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cosignatures_supervisor_id_fkey"
+            columns: ["supervisor_id"]
+            isOneToOne: false
+            referencedRelation: "clinicians"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cosignatures_treatment_plan_id_fkey"
+            columns: ["treatment_plan_id"]
+            isOneToOne: true
+            referencedRelation: "treatment_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       cpt_codes: {
         Row: {
           clinical_type: string | null
@@ -717,59 +1156,15 @@ export type Database = {
         }
         Relationships: []
       }
-      icd10: {
-        Row: {
-          diagnosis_name: string
-          icd10: string
-          id: number
-        }
-        Insert: {
-          diagnosis_name: string
-          icd10: string
-          id?: number
-        }
-        Update: {
-          diagnosis_name?: string
-          icd10?: string
-          id?: number
-        }
-        Relationships: []
-      }
-      licenses: {
-        Row: {
-          clinician_id: string
-          created_at: string
-          id: string
-          license_number: string
-          state: string
-          updated_at: string
-        }
-        Insert: {
-          clinician_id: string
-          created_at?: string
-          id?: string
-          license_number: string
-          state: string
-          updated_at?: string
-        }
-        Update: {
-          clinician_id?: string
-          created_at?: string
-          id?: string
-          license_number?: string
-          state?: string
-          updated_at?: string
-        }
-        Relationships: []
-      }
-      phq9_assessments: {
+      gad7_assessments: {
         Row: {
           additional_notes: string | null
           assessment_date: string
           client_id: string
+          clinician_id: string | null
           created_at: string
+          gad7_narrative: string | null
           id: string
-          phq9_narrative: string | null
           question_1: number
           question_2: number
           question_3: number
@@ -777,17 +1172,17 @@ export type Database = {
           question_5: number
           question_6: number
           question_7: number
-          question_8: number
-          question_9: number
+          severity: string
           total_score: number
         }
         Insert: {
           additional_notes?: string | null
           assessment_date?: string
           client_id: string
+          clinician_id?: string | null
           created_at?: string
+          gad7_narrative?: string | null
           id?: string
-          phq9_narrative?: string | null
           question_1: number
           question_2: number
           question_3: number
@@ -795,17 +1190,17 @@ export type Database = {
           question_5: number
           question_6: number
           question_7: number
-          question_8: number
-          question_9: number
+          severity: string
           total_score: number
         }
         Update: {
           additional_notes?: string | null
           assessment_date?: string
           client_id?: string
+          clinician_id?: string | null
           created_at?: string
+          gad7_narrative?: string | null
           id?: string
-          phq9_narrative?: string | null
           question_1?: number
           question_2?: number
           question_3?: number
@@ -813,36 +1208,406 @@ export type Database = {
           question_5?: number
           question_6?: number
           question_7?: number
-          question_8?: number
-          question_9?: number
+          severity?: string
           total_score?: number
         }
         Relationships: [
           {
-            foreignKeyName: "phq9_assessments_client_id_fkey"
+            foreignKeyName: "gad7_assessments_client_id_fkey"
             columns: ["client_id"]
             isOneToOne: false
             referencedRelation: "clients"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "gad7_assessments_clinician_id_fkey"
+            columns: ["clinician_id"]
+            isOneToOne: false
+            referencedRelation: "clinicians"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      practiceinfo: {
+      icd10: {
         Row: {
-          created_at: string
-          id: string
-          practice_address1: string | null
-          practice_address2: string | null
-          practice_city: string | null
-          practice_name: string | null
-          practice_npi: string | null
-          practice_state: string | null
-          practice_taxid: string | null
-          practice_taxonomy: string | null
-          practice_zip: string | null
-          updated_at: string
-        }
-        Insert: {
+          diagnosis_name: string
+          icd10: string
+          id: number
+        }
+        Insert: {
+          diagnosis_name: string
+          icd10: string
+          id?: number
+        }
+        Update: {
+          diagnosis_name?: string
+          icd10?: string
+          id?: number
+        }
+        Relationships: []
+      }
+      licenses: {
+        Row: {
+          clinician_id: string
+          created_at: string
+          expiration_date: string | null
+          id: string
+          issue_date: string | null
+          license_number: string
+          license_type: string | null
+          proof_file_name: string | null
+          proof_path: string | null
+          state: string
+          updated_at: string
+        }
+        Insert: {
+          clinician_id: string
+          created_at?: string
+          expiration_date?: string | null
+          id?: string
+          issue_date?: string | null
+          license_number: string
+          license_type?: string | null
+          proof_file_name?: string | null
+          proof_path?: string | null
+          state: string
+          updated_at?: string
+        }
+        Update: {
+          clinician_id?: string
+          created_at?: string
+          expiration_date?: string | null
+          id?: string
+          issue_date?: string | null
+          license_number?: string
+          license_type?: string | null
+          proof_file_name?: string | null
+          proof_path?: string | null
+          state?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      message_threads: {
+        Row: {
+          client_id: string
+          created_at: string
+          id: string
+          last_message_at: string | null
+        }
+        Insert: {
+          client_id: string
+          created_at?: string
+          id?: string
+          last_message_at?: string | null
+        }
+        Update: {
+          client_id?: string
+          created_at?: string
+          id?: string
+          last_message_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_threads_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      messages: {
+        Row: {
+          attachment_name: string | null
+          attachment_path: string | null
+          attachment_size: number | null
+          attachment_type: string | null
+          body: string
+          created_at: string
+          id: string
+          read_at: string | null
+          sender_id: string
+          thread_id: string
+        }
+        Insert: {
+          attachment_name?: string | null
+          attachment_path?: string | null
+          attachment_size?: number | null
+          attachment_type?: string | null
+          body?: string
+          created_at?: string
+          id?: string
+          read_at?: string | null
+          sender_id: string
+          thread_id: string
+        }
+        Update: {
+          attachment_name?: string | null
+          attachment_path?: string | null
+          attachment_size?: number | null
+          attachment_type?: string | null
+          body?: string
+          created_at?: string
+          id?: string
+          read_at?: string | null
+          sender_id?: string
+          thread_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "messages_thread_id_fkey"
+            columns: ["thread_id"]
+            isOneToOne: false
+            referencedRelation: "message_threads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pcl5_assessments: {
+        Row: {
+          additional_notes: string | null
+          appointment_id: string | null
+          assessment_date: string
+          client_id: string
+          clinician_id: string | null
+          cluster_b_intrusion: number
+          cluster_c_avoidance: number
+          cluster_d_negative_alterations: number
+          cluster_e_arousal: number
+          created_at: string
+          event_description: string | null
+          id: string
+          meets_symptom_criteria: boolean
+          provisional_ptsd: boolean
+          question_1: number
+          question_10: number
+          question_11: number
+          question_12: number
+          question_13: number
+          question_14: number
+          question_15: number
+          question_16: number
+          question_17: number
+          question_18: number
+          question_19: number
+          question_2: number
+          question_20: number
+          question_3: number
+          question_4: number
+          question_5: number
+          question_6: number
+          question_7: number
+          question_8: number
+          question_9: number
+          total_score: number
+        }
+        Insert: {
+          additional_notes?: string | null
+          appointment_id?: string | null
+          assessment_date?: string
+          client_id: string
+          clinician_id?: string | null
+          cluster_b_intrusion: number
+          cluster_c_avoidance: number
+          cluster_d_negative_alterations: number
+          cluster_e_arousal: number
+          created_at?: string
+          event_description?: string | null
+          id?: string
+          meets_symptom_criteria?: boolean
+          provisional_ptsd?: boolean
+          question_1: number
+          question_10: number
+          question_11: number
+          question_12: number
+          question_13: number
+          question_14: number
+          question_15: number
+          question_16: number
+          question_17: number
+          question_18: number
+          question_19: number
+          question_2: number
+          question_20: number
+          question_3: number
+          question_4: number
+          question_5: number
+          question_6: number
+          question_7: number
+          question_8: number
+          question_9: number
+          total_score: number
+        }
+        Update: {
+          additional_notes?: string | null
+          appointment_id?: string | null
+          assessment_date?: string
+          client_id?: string
+          clinician_id?: string | null
+          cluster_b_intrusion?: number
+          cluster_c_avoidance?: number
+          cluster_d_negative_alterations?: number
+          cluster_e_arousal?: number
+          created_at?: string
+          event_description?: string | null
+          id?: string
+          meets_symptom_criteria?: boolean
+          provisional_ptsd?: boolean
+          question_1?: number
+          question_10?: number
+          question_11?: number
+          question_12?: number
+          question_13?: number
+          question_14?: number
+          question_15?: number
+          question_16?: number
+          question_17?: number
+          question_18?: number
+          question_19?: number
+          question_2?: number
+          question_20?: number
+          question_3?: number
+          question_4?: number
+          question_5?: number
+          question_6?: number
+          question_7?: number
+          question_8?: number
+          question_9?: number
+          total_score?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pcl5_assessments_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pcl5_assessments_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pcl5_assessments_clinician_id_fkey"
+            columns: ["clinician_id"]
+            isOneToOne: false
+            referencedRelation: "clinicians"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      phq9_assessments: {
+        Row: {
+          additional_notes: string | null
+          assessment_date: string
+          client_id: string
+          created_at: string
+          id: string
+          phq9_narrative: string | null
+          question_1: number
+          question_2: number
+          question_3: number
+          question_4: number
+          question_5: number
+          question_6: number
+          question_7: number
+          question_8: number
+          question_9: number
+          total_score: number
+        }
+        Insert: {
+          additional_notes?: string | null
+          assessment_date?: string
+          client_id: string
+          created_at?: string
+          id?: string
+          phq9_narrative?: string | null
+          question_1: number
+          question_2: number
+          question_3: number
+          question_4: number
+          question_5: number
+          question_6: number
+          question_7: number
+          question_8: number
+          question_9: number
+          total_score: number
+        }
+        Update: {
+          additional_notes?: string | null
+          assessment_date?: string
+          client_id?: string
+          created_at?: string
+          id?: string
+          phq9_narrative?: string | null
+          question_1?: number
+          question_2?: number
+          question_3?: number
+          question_4?: number
+          question_5?: number
+          question_6?: number
+          question_7?: number
+          question_8?: number
+          question_9?: number
+          total_score?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "phq9_assessments_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      practice_closures: {
+        Row: {
+          closure_type: string
+          created_at: string
+          end_date: string
+          id: string
+          name: string
+          start_date: string
+        }
+        Insert: {
+          closure_type?: string
+          created_at?: string
+          end_date: string
+          id?: string
+          name: string
+          start_date: string
+        }
+        Update: {
+          closure_type?: string
+          created_at?: string
+          end_date?: string
+          id?: string
+          name?: string
+          start_date?: string
+        }
+        Relationships: []
+      }
+      practiceinfo: {
+        Row: {
+          created_at: string
+          id: string
+          practice_address1: string | null
+          practice_address2: string | null
+          practice_city: string | null
+          practice_name: string | null
+          practice_npi: string | null
+          practice_state: string | null
+          practice_taxid: string | null
+          practice_taxonomy: string | null
+          practice_zip: string | null
+          updated_at: string
+        }
+        Insert: {
           created_at?: string
           id?: string
           practice_address1?: string | null
@@ -911,6 +1676,80 @@ export type Database = {
         }
         Relationships: []
       }
+      reminder_rules: {
+        Row: {
+          appointment_type: string | null
+          channel: string
+          created_at: string
+          id: string
+          is_active: boolean
+          message_template: string | null
+          minutes_before: number
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          appointment_type?: string | null
+          channel: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          message_template?: string | null
+          minutes_before: number
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          appointment_type?: string | null
+          channel?: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          message_template?: string | null
+          minutes_before?: number
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      session_note_addenda: {
+        Row: {
+          content: string
+          id: string
+          session_note_id: string
+          signature: string
+          signed_at: string
+          signed_by: string
+          signed_by_name: string | null
+        }
+        Insert: {
+          content: string
+          id?: string
+          session_note_id: string
+          signature: string
+          signed_at?: string
+          signed_by?: string
+          signed_by_name?: string | null
+        }
+        Update: {
+          content?: string
+          id?: string
+          session_note_id?: string
+          signature?: string
+          signed_at?: string
+          signed_by?: string
+          signed_by_name?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_note_addenda_session_note_id_fkey"
+            columns: ["session_note_id"]
+            isOneToOne: false
+            referencedRelation: "session_notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       session_notes: {
         Row: {
           affect: string | null
@@ -954,11 +1793,17 @@ export type Database = {
           problem_narrative: string | null
           prognosis: string | null
           progress: string | null
+          saved_at: string | null
+          saved_by: string | null
+          saved_by_name: string | null
           secondary_objective: string | null
           session_date: string
           session_narrative: string | null
           session_type: string | null
           signature: string | null
+          signed_at: string | null
+          signed_by: string | null
+          signed_by_name: string | null
           speech: string | null
           substance_abuse_risk: string | null
           suicidal_ideation: string | null
@@ -1010,11 +1855,17 @@ export type Database = {
           problem_narrative?: string | null
           prognosis?: string | null
           progress?: string | null
+          saved_at?: string | null
+          saved_by?: string | null
+          saved_by_name?: string | null
           secondary_objective?: string | null
           session_date: string
           session_narrative?: string | null
           session_type?: string | null
           signature?: string | null
+          signed_at?: string | null
+          signed_by?: string | null
+          signed_by_name?: string | null
           speech?: string | null
           substance_abuse_risk?: string | null
           suicidal_ideation?: string | null
@@ -1066,11 +1917,17 @@ export type Database = {
           problem_narrative?: string | null
           prognosis?: string | null
           progress?: string | null
+          saved_at?: string | null
+          saved_by?: string | null
+          saved_by_name?: string | null
           secondary_objective?: string | null
           session_date?: string
           session_narrative?: string | null
           session_type?: string | null
           signature?: string | null
+          signed_at?: string | null
+          signed_by?: string | null
+          signed_by_name?: string | null
           speech?: string | null
           substance_abuse_risk?: string | null
           suicidal_ideation?: string | null
@@ -1105,8 +1962,12 @@ export type Database = {
           created_at: string
           id: string
           pdf_path: string | null
+          saved_at: string | null
+          saved_by: string | null
+          saved_by_name: string | null
           session_data: Json
           session_date: string
+          session_note_id: string | null
           session_type: string | null
         }
         Insert: {
@@ -1116,8 +1977,12 @@ export type Database = {
           created_at?: string
           id?: string
           pdf_path?: string | null
+          saved_at?: string | null
+          saved_by?: string | null
+          saved_by_name?: string | null
           session_data: Json
           session_date: string
+          session_note_id?: string | null
           session_type?: string | null
         }
         Update: {
@@ -1127,8 +1992,12 @@ export type Database = {
           created_at?: string
           id?: string
           pdf_path?: string | null
+          saved_at?: string | null
+          saved_by?: string | null
+          saved_by_name?: string | null
           session_data?: Json
           session_date?: string
+          session_note_id?: string | null
           session_type?: string | null
         }
         Relationships: [
@@ -1146,6 +2015,13 @@ export type Database = {
             referencedRelation: "clients"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "session_notes_history_session_note_id_fkey"
+            columns: ["session_note_id"]
+            isOneToOne: false
+            referencedRelation: "session_notes"
+            referencedColumns: ["id"]
+          },
         ]
       }
       staff_licenses: {
@@ -1187,6 +2063,7 @@ export type Database = {
           is_active: boolean | null
           note: string | null
           start_date: string
+          time_off_type: string
           updated_at: string
         }
         Insert: {
@@ -1197,6 +2074,7 @@ export type Database = {
           is_active?: boolean | null
           note?: string | null
           start_date: string
+          time_off_type?: string
           updated_at?: string
         }
         Update: {
@@ -1207,6 +2085,7 @@ export type Database = {
           is_active?: boolean | null
           note?: string | null
           start_date?: string
+          time_off_type?: string
           updated_at?: string
         }
         Relationships: []
@@ -1228,17 +2107,22 @@ export type Database = {
           intervention5: string | null
           intervention6: string | null
           next_update: string
+          objective_progress: Json
           pdf_path: string | null
           plan_length: string
+          previous_plan_id: string | null
           primary_objective: string
           private_note: string | null
           problem_narrative: string | null
+          review_due_date: string | null
           secondary_objective: string | null
           start_date: string
+          status: string
           tertiary_objective: string | null
           treatment_frequency: string
           treatment_goal_narrative: string | null
           updated_at: string
+          version: number
         }
         Insert: {
           client_dob?: string | null
@@ -1256,17 +2140,22 @@ export type Database = {
           intervention5?: string | null
           intervention6?: string | null
           next_update: string
+          objective_progress?: Json
           pdf_path?: string | null
           plan_length: string
+          previous_plan_id?: string | null
           primary_objective: string
           private_note?: string | null
           problem_narrative?: string | null
+          review_due_date?: string | null
           secondary_objective?: string | null
           start_date: string
+          status?: string
           tertiary_objective?: string | null
           treatment_frequency: string
           treatment_goal_narrative?: string | null
           updated_at?: string
+          version?: number
         }
         Update: {
           client_dob?: string | null
@@ -1284,17 +2173,22 @@ export type Database = {
           intervention5?: string | null
           intervention6?: string | null
           next_update?: string
+          objective_progress?: Json
           pdf_path?: string | null
           plan_length?: string
+          previous_plan_id?: string | null
           primary_objective?: string
           private_note?: string | null
           problem_narrative?: string | null
+          review_due_date?: string | null
           secondary_objective?: string | null
           start_date?: string
+          status?: string
           tertiary_objective?: string | null
           treatment_frequency?: string
           treatment_goal_narrative?: string | null
           updated_at?: string
+          version?: number
         }
         Relationships: [
           {
@@ -1304,6 +2198,153 @@ export type Database = {
             referencedRelation: "clients"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "treatment_plans_previous_plan_id_fkey"
+            columns: ["previous_plan_id"]
+            isOneToOne: false
+            referencedRelation: "treatment_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      waitlist_entries: {
+        Row: {
+          client_id: string
+          clinician_id: string
+          created_at: string
+          created_by: string | null
+          earliest_time: string | null
+          id: string
+          latest_time: string | null
+          notes: string | null
+          preferred_days: string[]
+          priority: number
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          client_id: string
+          clinician_id: string
+          created_at?: string
+          created_by?: string | null
+          earliest_time?: string | null
+          id?: string
+          latest_time?: string | null
+          notes?: string | null
+          preferred_days?: string[]
+          priority?: number
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          client_id?: string
+          clinician_id?: string
+          created_at?: string
+          created_by?: string | null
+          earliest_time?: string | null
+          id?: string
+          latest_time?: string | null
+          notes?: string | null
+          preferred_days?: string[]
+          priority?: number
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "waitlist_entries_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "waitlist_entries_clinician_id_fkey"
+            columns: ["clinician_id"]
+            isOneToOne: false
+            referencedRelation: "clinicians"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      waitlist_offers: {
+        Row: {
+          appointment_id: string | null
+          client_id: string
+          clinician_id: string
+          created_at: string
+          date: string
+          end_time: string
+          expires_at: string
+          id: string
+          notified_at: string | null
+          responded_at: string | null
+          start_time: string
+          status: string
+          token: string
+          waitlist_entry_id: string
+        }
+        Insert: {
+          appointment_id?: string | null
+          client_id: string
+          clinician_id: string
+          created_at?: string
+          date: string
+          end_time: string
+          expires_at: string
+          id?: string
+          notified_at?: string | null
+          responded_at?: string | null
+          start_time: string
+          status?: string
+          token?: string
+          waitlist_entry_id: string
+        }
+        Update: {
+          appointment_id?: string | null
+          client_id?: string
+          clinician_id?: string
+          created_at?: string
+          date?: string
+          end_time?: string
+          expires_at?: string
+          id?: string
+          notified_at?: string | null
+          responded_at?: string | null
+          start_time?: string
+          status?: string
+          token?: string
+          waitlist_entry_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "waitlist_offers_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "waitlist_offers_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "waitlist_offers_clinician_id_fkey"
+            columns: ["clinician_id"]
+            isOneToOne: false
+            referencedRelation: "clinicians"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "waitlist_offers_waitlist_entry_id_fkey"
+            columns: ["waitlist_entry_id"]
+            isOneToOne: false
+            referencedRelation: "waitlist_entries"
+            referencedColumns: ["id"]
+          },
         ]
       }
     }
@@ -1311,7 +2352,216 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      book_appointments: {
+        Args: {
+          p_client_id: string
+          p_clinician_id: string
+          p_sessions: Json
+          p_type?: string
+          p_notes?: string
+          p_appointment_recurring?: string
+          p_recurring_group_id?: string
+          p_licensure_override_reason?: string
+        }
+        Returns: {
+          appointment_recurring: string | null
+          client_id: string
+          clinician_id: string
+          created_at: string
+          date: string
+          end_time: string
+          id: string
+          licensure_override_by: string | null
+          licensure_override_reason: string | null
+          notes: string | null
+          recurrence_date: string | null
+          recurring_group_id: string | null
+          start_time: string
+          status: string
+          type: string
+          updated_at: string
+          video_room_url: string | null
+        }[]
+      }
+      can_access_client_messages: {
+        Args: {
+          p_client_id: string
+        }
+        Returns: boolean
+      }
+      can_access_message_thread: {
+        Args: {
+          p_thread_id: string
+        }
+        Returns: boolean
+      }
+      claim_waitlist_offer: {
+        Args: {
+          p_token: string
+        }
+        Returns: string
+      }
+      check_appointment_licensure: {
+        Args: {
+          p_clinician_id: string
+          p_client_id: string
+          p_date: string
+        }
+        Returns: {
+          client_state: string | null
+          is_licensed: boolean
+        }[]
+      }
+      decline_waitlist_offer: {
+        Args: {
+          p_token: string
+        }
+        Returns: undefined
+      }
+      delete_appointment_occurrence: {
+        Args: {
+          p_appointment_id: string
+          p_rule: string
+        }
+        Returns: undefined
+      }
+      end_appointment_series: {
+        Args: {
+          p_appointment_id: string
+          p_rule_before: string
+        }
+        Returns: number
+      }
+      expire_waitlist_offers: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      get_current_clinician_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      get_signer_name: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      mark_message_thread_read: {
+        Args: {
+          p_thread_id: string
+        }
+        Returns: undefined
+      }
+      parse_treatment_plan_next_update: {
+        Args: {
+          p_next_update: string
+        }
+        Returns: string
+      }
+      record_audit_event: {
+        Args: {
+          p_action: string
+          p_table_name: string
+          p_record_id?: string
+          p_client_id?: string
+          p_changes?: Json
+          p_metadata?: Json
+        }
+        Returns: string
+      }
+      reschedule_appointments: {
+        Args: {
+          p_changes: Json
+        }
+        Returns: {
+          appointment_recurring: string | null
+          client_id: string
+          clinician_id: string
+          created_at: string
+          date: string
+          end_time: string
+          id: string
+          licensure_override_by: string | null
+          licensure_override_reason: string | null
+          notes: string | null
+          recurrence_date: string | null
+          recurring_group_id: string | null
+          start_time: string
+          status: string
+          type: string
+          updated_at: string
+          video_room_url: string | null
+        }[]
+      }
+      review_cosignature: {
+        Args: {
+          p_cosignature_id: string
+          p_approve: boolean
+          p_signature?: string
+          p_comments?: string
+        }
+        Returns: {
+          client_id: string
+          clinician_id: string
+          id: string
+          requested_at: string
+          reviewed_at: string | null
+          reviewed_by_name: string | null
+          session_note_id: string | null
+          status: string
+          supervisor_comments: string | null
+          supervisor_id: string
+          supervisor_signature: string | null
+          treatment_plan_id: string | null
+        }
+      }
+      rotate_calendar_feed_token: {
+        Args: {
+          p_clinician_id: string
+        }
+        Returns: string
+      }
+      split_appointment_series: {
+        Args: {
+          p_appointment_id: string
+          p_rule_before: string
+          p_rule_after: string
+          p_day_offset?: number
+          p_start_time?: string
+          p_end_time?: string
+        }
+        Returns: {
+          appointment_recurring: string | null
+          client_id: string
+          clinician_id: string
+          created_at: string
+          date: string
+          end_time: string
+          id: string
+          licensure_override_by: string | null
+          licensure_override_reason: string | null
+          notes: string | null
+          recurrence_date: string | null
+          recurring_group_id: string | null
+          start_time: string
+          status: string
+          type: string
+          updated_at: string
+          video_room_url: string | null
+        }[]
+      }
+      sync_clinician_licensed_states: {
+        Args: {
+          p_clinician_id: string
+        }
+        Returns: undefined
+      }
+      treatment_plan_review_due_date: {
+        Args: {
+          p_start_date: string
+          p_plan_length: string
+          p_next_update: string
+        }
+        Returns: string
+      }
     }
     Enums: {
       app_role: "admin" | "client" | "clinician"
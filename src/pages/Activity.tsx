@@ -1,17 +1,246 @@
-
+import { useState, useEffect, useCallback } from 'react';
+import { format, subDays } from 'date-fns';
+import { RefreshCw } from 'lucide-react';
 import Layout from '../components/layout/Layout';
+import { supabase, fetchAuditLog, AuditLogEntry } from '@/integrations/supabase/client';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+const ALL = 'all';
+
+const ACTION_STYLES: Record<AuditLogEntry['action'], string> = {
+  view: 'bg-blue-100 text-blue-800',
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-amber-100 text-amber-800',
+  delete: 'bg-red-100 text-red-800',
+  download: 'bg-purple-100 text-purple-800'
+};
+
+const TABLE_LABELS: Record<string, string> = {
+  clients: 'Client chart',
+  session_notes: 'Session note',
+  session_note_addenda: 'Session note addendum',
+  cosignatures: 'Co-signature',
+  treatment_plans: 'Treatment plan',
+  clinical_documents: 'Clinical document',
+  claims: 'Claim',
+  appointments: 'Appointment'
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
 
 const Activity = () => {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [clientNames, setClientNames] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [actionFilter, setActionFilter] = useState(ALL);
+  const [tableFilter, setTableFilter] = useState(ALL);
+  const [actorFilter, setActorFilter] = useState('');
+  const [startDate, setStartDate] = useState(format(subDays(new Date(), 7), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [selectedEntry, setSelectedEntry] = useState<AuditLogEntry | null>(null);
+
+  const loadEntries = useCallback(async () => {
+    setIsLoading(true);
+    const data = await fetchAuditLog({
+      action: actionFilter === ALL ? undefined : actionFilter,
+      tableName: tableFilter === ALL ? undefined : tableFilter,
+      actorEmail: actorFilter.trim() || undefined,
+      startDate,
+      endDate
+    });
+    setEntries(data);
+
+    const clientIds = Array.from(new Set(data.map(entry => entry.client_id).filter((id): id is string => !!id)));
+    if (clientIds.length > 0) {
+      const { data: clients } = await supabase
+        .from('clients')
+        .select('id, client_first_name, client_last_name')
+        .in('id', clientIds);
+
+      setClientNames(Object.fromEntries(
+        (clients || []).map(client => [client.id, `${client.client_first_name || ''} ${client.client_last_name || ''}`.trim()])
+      ));
+    }
+    setIsLoading(false);
+  }, [actionFilter, tableFilter, actorFilter, startDate, endDate]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const selectedChanges = selectedEntry?.changes ? Object.entries(selectedEntry.changes) : [];
+
   return (
     <Layout>
-      <div className="bg-white rounded-lg shadow-sm p-8 animate-fade-in">
-        <div className="flex flex-col items-center justify-center py-12 text-center">
-          <h2 className="text-2xl font-bold mb-4 text-gray-800">Activity Coming Soon</h2>
-          <p className="text-gray-600 max-w-md">
-            The activity tracking feature will be implemented in the next phase.
-          </p>
+      <div className="bg-white rounded-lg shadow-sm p-6 animate-fade-in">
+        <div className="mb-6">
+          <h2 className="text-xl font-semibold">Activity</h2>
+          <p className="text-sm text-gray-500">Audit trail of who viewed, changed or downloaded client records.</p>
         </div>
+
+        <div className="flex flex-wrap items-end gap-3 mb-6">
+          <div className="space-y-1">
+            <Label>Action</Label>
+            <Select value={actionFilter} onValueChange={setActionFilter}>
+              <SelectTrigger className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All actions</SelectItem>
+                <SelectItem value="view">View</SelectItem>
+                <SelectItem value="create">Create</SelectItem>
+                <SelectItem value="update">Update</SelectItem>
+                <SelectItem value="delete">Delete</SelectItem>
+                <SelectItem value="download">Download</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Record type</Label>
+            <Select value={tableFilter} onValueChange={setTableFilter}>
+              <SelectTrigger className="w-[170px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All records</SelectItem>
+                {Object.entries(TABLE_LABELS).map(([table, label]) => (
+                  <SelectItem key={table} value={table}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="activity-actor">User</Label>
+            <Input
+              id="activity-actor"
+              value={actorFilter}
+              onChange={(e) => setActorFilter(e.target.value)}
+              placeholder="Search by email"
+              className="w-[200px]"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="activity-start">From</Label>
+            <Input id="activity-start" type="date" value={startDate} max={endDate} onChange={(e) => setStartDate(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="activity-end">To</Label>
+            <Input id="activity-end" type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} />
+          </div>
+          <Button variant="outline" size="icon" onClick={loadEntries} disabled={isLoading}>
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>User</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Record</TableHead>
+                <TableHead>Client</TableHead>
+                <TableHead className="text-right">Details</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-gray-500">
+                    Loading activity...
+                  </TableCell>
+                </TableRow>
+              ) : entries.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-gray-500">
+                    No activity matches these filters.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                entries.map(entry => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap">{format(new Date(entry.created_at), 'MMM d, yyyy h:mm:ss a')}</TableCell>
+                    <TableCell>
+                      <div>{entry.actor_email || 'Unknown user'}</div>
+                      {entry.actor_role && <div className="text-xs text-gray-500 capitalize">{entry.actor_role}</div>}
+                    </TableCell>
+                    <TableCell>
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${ACTION_STYLES[entry.action]}`}>
+                        {entry.action}
+                      </span>
+                    </TableCell>
+                    <TableCell>{TABLE_LABELS[entry.table_name] || entry.table_name}</TableCell>
+                    <TableCell>{entry.client_id ? clientNames[entry.client_id] || entry.client_id : '—'}</TableCell>
+                    <TableCell className="text-right">
+                      {(entry.changes || entry.metadata || entry.record_id) && (
+                        <Button variant="outline" size="sm" onClick={() => setSelectedEntry(entry)}>
+                          View
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+        {entries.length === 500 && (
+          <p className="text-xs text-gray-500 mt-2">Showing the 500 most recent entries. Narrow the filters to see older activity.</p>
+        )}
       </div>
+
+      <Dialog open={!!selectedEntry} onOpenChange={(open) => !open && setSelectedEntry(null)}>
+        <DialogContent className="sm:max-w-[700px] max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Activity Details</DialogTitle>
+          </DialogHeader>
+          {selectedEntry && (
+            <div className="space-y-4 text-sm">
+              <div className="grid grid-cols-2 gap-2">
+                <div><span className="text-gray-500">User:</span> {selectedEntry.actor_email || 'Unknown user'}</div>
+                <div><span className="text-gray-500">When:</span> {format(new Date(selectedEntry.created_at), 'MMM d, yyyy h:mm:ss a')}</div>
+                <div><span className="text-gray-500">Record type:</span> {TABLE_LABELS[selectedEntry.table_name] || selectedEntry.table_name}</div>
+                <div className="break-all"><span className="text-gray-500">Record:</span> {selectedEntry.record_id || '—'}</div>
+              </div>
+              {selectedChanges.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Field</TableHead>
+                      <TableHead>Before</TableHead>
+                      <TableHead>After</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {selectedChanges.map(([field, change]) => (
+                      <TableRow key={field}>
+                        <TableCell className="font-medium">{field}</TableCell>
+                        <TableCell className="text-red-700 break-words max-w-[220px]">{formatValue(change.before)}</TableCell>
+                        <TableCell className="text-green-700 break-words max-w-[220px]">{formatValue(change.after)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+              {selectedEntry.metadata && (
+                <pre className="bg-gray-50 rounded p-3 text-xs overflow-x-auto">
+                  {JSON.stringify(selectedEntry.metadata, null, 2)}
+                </pre>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </Layout>
   );
 };
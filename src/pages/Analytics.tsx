@@ -1,16 +1,399 @@
 
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { format, subDays } from 'date-fns';
+import { Download, RefreshCw } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid } from 'recharts';
 import Layout from '../components/layout/Layout';
+import { supabase, fetchPracticeAnalyticsData } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import {
+  AnalyticsAppointment,
+  AnalyticsAvailability,
+  AnalyticsClient,
+  AnalyticsCPTCode,
+  AppointmentOutcome,
+  OUTCOME_LABELS,
+  getAppointmentOutcome,
+  summarizeAppointments,
+  calculateUtilization,
+  countNewClientsByMonth,
+  calculateRevenue,
+  findFeeForType
+} from '@/utils/practiceAnalytics';
+import { downloadCSV } from '@/utils/csvExport';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent } from '@/components/ui/chart';
+import { Progress } from '@/components/ui/progress';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface ClinicianOption {
+  id: string;
+  clinician_professional_name: string | null;
+  clinician_first_name: string | null;
+  clinician_last_name: string | null;
+}
+
+const ALL_CLINICIANS = 'all';
+const OUTCOME_ORDER: AppointmentOutcome[] = ['kept', 'scheduled', 'noShow', 'lateCancel', 'cancelled'];
+const STATUS_COLORS = ['#47694A', '#7B9F7F', '#C0D1C2', '#f59e0b', '#94a3b8', '#dc2626'];
+
+const currency = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' });
+const formatPercent = (value: number | null) => (value === null ? '—' : `${Math.round(value * 100)}%`);
+const formatHours = (value: number) => value.toFixed(1);
+
+const getClinicianName = (clinician?: ClinicianOption) =>
+  clinician
+    ? clinician.clinician_professional_name || `${clinician.clinician_first_name || ''} ${clinician.clinician_last_name || ''}`.trim()
+    : 'Unknown clinician';
 
 const Analytics = () => {
+  const { toast } = useToast();
+  const [startDate, setStartDate] = useState(format(subDays(new Date(), 90), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [clinicianFilter, setClinicianFilter] = useState(ALL_CLINICIANS);
+  const [clinicians, setClinicians] = useState<ClinicianOption[]>([]);
+  const [appointments, setAppointments] = useState<AnalyticsAppointment[]>([]);
+  const [availability, setAvailability] = useState<AnalyticsAvailability[]>([]);
+  const [clients, setClients] = useState<AnalyticsClient[]>([]);
+  const [cptCodes, setCptCodes] = useState<AnalyticsCPTCode[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchClinicians = async () => {
+      const { data, error } = await supabase
+        .from('clinicians')
+        .select('id, clinician_professional_name, clinician_first_name, clinician_last_name')
+        .order('clinician_last_name');
+
+      if (error) {
+        console.error('Error fetching clinicians:', error);
+        return;
+      }
+      setClinicians(data || []);
+    };
+
+    fetchClinicians();
+  }, []);
+
+  const loadAnalytics = useCallback(async () => {
+    if (!startDate || !endDate || startDate > endDate) return;
+
+    setIsLoading(true);
+    const result = await fetchPracticeAnalyticsData(
+      startDate,
+      endDate,
+      clinicianFilter === ALL_CLINICIANS ? undefined : clinicianFilter
+    );
+    setIsLoading(false);
+
+    if (!result.success || !result.data) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load analytics. Please try again.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setAppointments(result.data.appointments);
+    setAvailability(result.data.availability);
+    setClients(result.data.clients);
+    setCptCodes(result.data.cptCodes);
+  }, [startDate, endDate, clinicianFilter, toast]);
+
+  useEffect(() => {
+    loadAnalytics();
+  }, [loadAnalytics]);
+
+  const cliniciansById = useMemo(() => new Map(clinicians.map(clinician => [clinician.id, clinician])), [clinicians]);
+
+  const summary = useMemo(() => summarizeAppointments(appointments), [appointments]);
+  const revenue = useMemo(() => calculateRevenue(appointments, cptCodes), [appointments, cptCodes]);
+  const newClientsByMonth = useMemo(() => countNewClientsByMonth(clients), [clients]);
+
+  const utilization = useMemo(() => {
+    const clinicianIds = clinicianFilter === ALL_CLINICIANS
+      ? Array.from(new Set([
+          ...availability.map(block => block.clinician_id).filter((id): id is string => !!id),
+          ...appointments.map(appointment => appointment.clinician_id)
+        ]))
+      : [clinicianFilter];
+    return calculateUtilization(appointments, availability, clinicianIds, startDate, endDate)
+      .sort((a, b) => (b.utilization ?? -1) - (a.utilization ?? -1));
+  }, [appointments, availability, clinicianFilter, startDate, endDate]);
+
+  const clientStatuses = useMemo(
+    () => Array.from(new Set(newClientsByMonth.flatMap(month => Object.keys(month.byStatus)))).sort(),
+    [newClientsByMonth]
+  );
+
+  // Statuses such as "Profile Complete" aren't valid CSS variable names, so chart series use indexed keys
+  const newClientsChartData = newClientsByMonth.map(month => ({
+    month: format(new Date(`${month.month}-01T00:00:00`), 'MMM yyyy'),
+    ...Object.fromEntries(clientStatuses.map((status, index) => [`status${index}`, month.byStatus[status] || 0]))
+  }));
+
+  const newClientsChartConfig = Object.fromEntries(
+    clientStatuses.map((status, index) => [`status${index}`, { label: status, color: STATUS_COLORS[index % STATUS_COLORS.length] }])
+  );
+
+  const exportSuffix = `${startDate}_to_${endDate}`;
+
+  const handleExportAppointments = () => {
+    downloadCSV(
+      `appointments_${exportSuffix}.csv`,
+      ['Date', 'Start', 'End', 'Clinician', 'Type', 'Status', 'Outcome', 'Fee'],
+      appointments.map(appointment => [
+        appointment.date,
+        appointment.start_time.substring(0, 5),
+        appointment.end_time.substring(0, 5),
+        getClinicianName(cliniciansById.get(appointment.clinician_id)),
+        appointment.type,
+        appointment.status,
+        OUTCOME_LABELS[getAppointmentOutcome(appointment.status)],
+        findFeeForType(appointment.type, cptCodes)
+      ])
+    );
+  };
+
+  const handleExportUtilization = () => {
+    downloadCSV(
+      `clinician_utilization_${exportSuffix}.csv`,
+      ['Clinician', 'Available Hours', 'Booked Hours', 'Kept Hours', 'Utilization'],
+      utilization.map(row => [
+        getClinicianName(cliniciansById.get(row.clinicianId)),
+        formatHours(row.availableHours),
+        formatHours(row.bookedHours),
+        formatHours(row.keptHours),
+        formatPercent(row.utilization)
+      ])
+    );
+  };
+
+  const handleExportNewClients = () => {
+    downloadCSV(
+      `new_clients_${exportSuffix}.csv`,
+      ['Month', ...clientStatuses, 'Total'],
+      newClientsByMonth.map(month => [
+        month.month,
+        ...clientStatuses.map(status => month.byStatus[status] || 0),
+        month.total
+      ])
+    );
+  };
+
+  const kpis = [
+    { label: 'Appointments', value: String(summary.total) },
+    { label: 'Show Rate', value: formatPercent(summary.showRate) },
+    { label: 'No-Show Rate', value: formatPercent(summary.noShowRate) },
+    { label: 'Cancellation Rate', value: formatPercent(summary.cancellationRate) },
+    { label: 'Realized Revenue', value: currency.format(revenue.realized) },
+    { label: 'Projected Revenue', value: currency.format(revenue.projected) },
+  ];
+
   return (
     <Layout>
-      <div className="bg-white rounded-lg shadow-sm p-8 animate-fade-in">
-        <div className="flex flex-col items-center justify-center py-12 text-center">
-          <h2 className="text-2xl font-bold mb-4 text-gray-800">Analytics Coming Soon</h2>
-          <p className="text-gray-600 max-w-md">
-            The analytics feature will be implemented in the next phase.
-          </p>
+      <div className="space-y-6 animate-fade-in">
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <div className="flex flex-wrap items-end justify-between gap-4">
+            <div>
+              <h2 className="text-xl font-semibold">Practice Analytics</h2>
+              <p className="text-sm text-gray-500">Appointment outcomes, utilization, client growth and revenue.</p>
+            </div>
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="analytics-start">From</Label>
+                <Input id="analytics-start" type="date" value={startDate} max={endDate} onChange={(e) => setStartDate(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="analytics-end">To</Label>
+                <Input id="analytics-end" type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label>Clinician</Label>
+                <Select value={clinicianFilter} onValueChange={setClinicianFilter}>
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_CLINICIANS}>All clinicians</SelectItem>
+                    {clinicians.map(clinician => (
+                      <SelectItem key={clinician.id} value={clinician.id}>{getClinicianName(clinician)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button variant="outline" size="icon" onClick={loadAnalytics} disabled={isLoading}>
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+              <Button onClick={handleExportAppointments} disabled={isLoading || appointments.length === 0} className="bg-valorwell-700 hover:bg-valorwell-800">
+                <Download className="h-4 w-4 mr-1" />
+                Export CSV
+              </Button>
+            </div>
+          </div>
         </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-valorwell-600"></div>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-4">
+              {kpis.map(kpi => (
+                <Card key={kpi.label}>
+                  <CardContent className="p-4">
+                    <p className="text-sm text-gray-500">{kpi.label}</p>
+                    <p className="text-2xl font-semibold mt-1">{kpi.value}</p>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            <div className="grid gap-6 lg:grid-cols-2">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Appointment Outcomes</CardTitle>
+                  <CardDescription>Show and no-show rates only count sessions that were kept or did not occur.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Outcome</TableHead>
+                        <TableHead className="text-right">Appointments</TableHead>
+                        <TableHead className="text-right">Share</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {OUTCOME_ORDER.map(outcome => (
+                        <TableRow key={outcome}>
+                          <TableCell>{OUTCOME_LABELS[outcome]}</TableCell>
+                          <TableCell className="text-right">{summary.counts[outcome]}</TableCell>
+                          <TableCell className="text-right">
+                            {formatPercent(summary.total > 0 ? summary.counts[outcome] / summary.total : null)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Revenue</CardTitle>
+                  <CardDescription>Fees come from the CPT code matching each appointment type.</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Realized (kept sessions)</span>
+                    <span className="font-medium">{currency.format(revenue.realized)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Projected (kept + scheduled)</span>
+                    <span className="font-medium">{currency.format(revenue.projected)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Missed (no-shows and late cancels)</span>
+                    <span className="font-medium text-red-600">{currency.format(revenue.missed)}</span>
+                  </div>
+                  {revenue.unpricedTypes.length > 0 && (
+                    <p className="text-sm text-amber-700 bg-amber-50 rounded p-2">
+                      No CPT fee is set up for: {revenue.unpricedTypes.join(', ')}. Add a CPT code with a matching clinical type in Settings → Billing.
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div>
+                  <CardTitle className="text-lg">Clinician Utilization</CardTitle>
+                  <CardDescription>Booked hours compared with weekly availability over the selected dates.</CardDescription>
+                </div>
+                <Button variant="outline" size="sm" onClick={handleExportUtilization} disabled={utilization.length === 0}>
+                  <Download className="h-4 w-4 mr-1" />
+                  Export
+                </Button>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Clinician</TableHead>
+                      <TableHead className="text-right">Available Hours</TableHead>
+                      <TableHead className="text-right">Booked Hours</TableHead>
+                      <TableHead className="text-right">Kept Hours</TableHead>
+                      <TableHead className="w-[220px]">Utilization</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {utilization.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={5} className="text-center py-6 text-gray-500">
+                          No availability or appointments in this period.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      utilization.map(row => (
+                        <TableRow key={row.clinicianId}>
+                          <TableCell className="font-medium">{getClinicianName(cliniciansById.get(row.clinicianId))}</TableCell>
+                          <TableCell className="text-right">{formatHours(row.availableHours)}</TableCell>
+                          <TableCell className="text-right">{formatHours(row.bookedHours)}</TableCell>
+                          <TableCell className="text-right">{formatHours(row.keptHours)}</TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-2">
+                              <Progress value={Math.min(100, (row.utilization ?? 0) * 100)} className="h-2" />
+                              <span className="text-sm w-12 text-right">{formatPercent(row.utilization)}</span>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div>
+                  <CardTitle className="text-lg">New Clients per Month</CardTitle>
+                  <CardDescription>Clients who signed up in the selected dates, by their current status.</CardDescription>
+                </div>
+                <Button variant="outline" size="sm" onClick={handleExportNewClients} disabled={newClientsByMonth.length === 0}>
+                  <Download className="h-4 w-4 mr-1" />
+                  Export
+                </Button>
+              </CardHeader>
+              <CardContent>
+                {newClientsByMonth.length === 0 ? (
+                  <p className="text-center py-6 text-gray-500">No new clients in this period.</p>
+                ) : (
+                  <ChartContainer config={newClientsChartConfig} className="aspect-auto h-72 w-full">
+                    <BarChart data={newClientsChartData} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+                      <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                      <XAxis dataKey="month" />
+                      <YAxis allowDecimals={false} width={32} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <ChartLegend content={<ChartLegendContent />} />
+                      {clientStatuses.map((status, index) => (
+                        <Bar key={status} dataKey={`status${index}`} stackId="status" fill={`var(--color-status${index})`} isAnimationActive={false} />
+                      ))}
+                    </BarChart>
+                  </ChartContainer>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
       </div>
     </Layout>
   );
@@ -4,14 +4,18 @@ import Layout from '../components/layout/Layout';
 import CalendarView from '../components/calendar/CalendarView';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Loader2, Calendar as CalendarIcon, Plus } from 'lucide-react';
-import { addMonths, subMonths, addWeeks, subWeeks } from 'date-fns';
+import { addMonths, subMonths, addWeeks, subWeeks, addDays, subDays } from 'date-fns';
 import { useCalendarState } from '../hooks/useCalendarState';
 import CalendarHeader from '../components/calendar/CalendarHeader';
 import CalendarViewControls from '../components/calendar/CalendarViewControls';
 import AppointmentDialog from '../components/calendar/AppointmentDialog';
+import WaitlistDialog from '../components/calendar/WaitlistDialog';
+import ResourceView from '../components/calendar/resource-view';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
-import { Clock } from 'lucide-react';
+import { Clock, ListOrdered, Columns3 } from 'lucide-react';
+import { useUser } from '@/context/UserContext';
+import { getUserTimeZone } from '@/utils/timeZoneUtils';
 
 const CalendarPage = () => {
   const {
@@ -19,6 +23,8 @@ const CalendarPage = () => {
     setShowAvailability,
     selectedClinicianId,
     setSelectedClinicianId,
+    selectedClinicianIds,
+    setSelectedClinicianIds,
     clinicians,
     loadingClinicians,
     currentDate,
@@ -33,11 +39,24 @@ const CalendarPage = () => {
     isLoadingTimeZone,
   } = useCalendarState();
 
-  // Use only the month view mode state
-  const [calendarViewMode, setCalendarViewMode] = useState<'month' | 'week'>('month');
+  const [calendarViewMode, setCalendarViewMode] = useState<'month' | 'week' | 'day'>('month');
+  const [isWaitlistOpen, setIsWaitlistOpen] = useState(false);
+  const [showResourceView, setShowResourceView] = useState(false);
+  const { userRole } = useUser();
+  const canCompareClinicians = userRole === 'admin' || userRole === 'moderator';
+
+  // Clinicians are compared by day or week; the month grid has no room for columns
+  const toggleResourceView = () => {
+    if (!showResourceView && calendarViewMode === 'month') {
+      setCalendarViewMode('week');
+    }
+    setShowResourceView(!showResourceView);
+  };
 
   const navigatePrevious = () => {
-    if (calendarViewMode === 'week') {
+    if (calendarViewMode === 'day') {
+      setCurrentDate(subDays(currentDate, 1));
+    } else if (calendarViewMode === 'week') {
       setCurrentDate(subWeeks(currentDate, 1));
     } else {
       setCurrentDate(subMonths(currentDate, 1));
@@ -45,7 +64,9 @@ const CalendarPage = () => {
   };
 
   const navigateNext = () => {
-    if (calendarViewMode === 'week') {
+    if (calendarViewMode === 'day') {
+      setCurrentDate(addDays(currentDate, 1));
+    } else if (calendarViewMode === 'week') {
       setCurrentDate(addWeeks(currentDate, 1));
     } else {
       setCurrentDate(addMonths(currentDate, 1));
@@ -71,8 +92,15 @@ const CalendarPage = () => {
           <div className="flex justify-between items-center">
             <h1 className="text-2xl font-bold text-gray-800">Calendar</h1>
             <div className="flex items-center gap-4">
-              <Tabs value={calendarViewMode} onValueChange={(value) => setCalendarViewMode(value as 'month' | 'week')}>
+              <Tabs value={calendarViewMode} onValueChange={(value) => {
+                setCalendarViewMode(value as 'month' | 'week' | 'day');
+                if (value === 'month') setShowResourceView(false);
+              }}>
                 <TabsList>
+                  <TabsTrigger value="day">
+                    <CalendarIcon className="h-4 w-4 mr-2" />
+                    Daily
+                  </TabsTrigger>
                   <TabsTrigger value="month">
                     <CalendarIcon className="h-4 w-4 mr-2" />
                     Monthly
@@ -92,6 +120,21 @@ const CalendarPage = () => {
                 Availability
               </Button>
 
+              {canCompareClinicians && (
+                <Button
+                  variant={showResourceView ? "default" : "outline"}
+                  onClick={toggleResourceView}
+                >
+                  <Columns3 className="mr-2 h-4 w-4" />
+                  Side by Side
+                </Button>
+              )}
+
+              <Button variant="outline" onClick={() => setIsWaitlistOpen(true)}>
+                <ListOrdered className="mr-2 h-4 w-4" />
+                Waitlist
+              </Button>
+
               <Button onClick={() => setIsDialogOpen(true)}>
                 <Plus className="h-4 w-4 mr-2" />
                 New Appointment
@@ -134,15 +177,27 @@ const CalendarPage = () => {
             onNavigateToday={navigateToday}
           />
 
-          <CalendarView
-            view="month"
-            showAvailability={showAvailability}
-            clinicianId={selectedClinicianId}
-            userTimeZone={userTimeZone}
-            refreshTrigger={appointmentRefreshTrigger}
-            monthViewMode={calendarViewMode}
-            currentDate={currentDate}
-          />
+          {showResourceView && calendarViewMode !== 'month' ? (
+            <ResourceView
+              currentDate={currentDate}
+              view={calendarViewMode}
+              clinicians={clinicians}
+              selectedClinicianIds={selectedClinicianIds}
+              onSelectedClinicianIdsChange={setSelectedClinicianIds}
+              viewerTimeZone={getUserTimeZone()}
+              refreshTrigger={appointmentRefreshTrigger}
+            />
+          ) : (
+            <CalendarView
+              view="month"
+              showAvailability={showAvailability}
+              clinicianId={selectedClinicianId}
+              userTimeZone={userTimeZone}
+              refreshTrigger={appointmentRefreshTrigger}
+              monthViewMode={calendarViewMode}
+              currentDate={currentDate}
+            />
+          )}
         </div>
       </div>
 
@@ -154,6 +209,13 @@ const CalendarPage = () => {
         selectedClinicianId={selectedClinicianId}
         onAppointmentCreated={handleAppointmentCreated}
       />
+
+      <WaitlistDialog
+        isOpen={isWaitlistOpen}
+        onClose={() => setIsWaitlistOpen(false)}
+        clients={clients}
+        selectedClinicianId={selectedClinicianId}
+      />
     </Layout>
   );
 };
@@ -0,0 +1,287 @@
+import { useState, useEffect, useCallback } from 'react';
+import { format, parseISO } from 'date-fns';
+import { RefreshCw } from 'lucide-react';
+import Layout from '../components/layout/Layout';
+import ClaimEditorDialog from '@/components/claims/ClaimEditorDialog';
+import {
+  supabase,
+  fetchBillableAppointments,
+  fetchClaimSourceData,
+  fetchClaims,
+  BillableAppointment,
+  Claim
+} from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { BillingSessionNote, CLAIM_STATUS_LABELS, buildClaimDraft, getClaimTotalCharge, isCosignaturePending, isSessionNoteSigned } from '@/utils/claims';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+
+const ClaimTabs = {
+  READY: 'ready',
+  CLAIMS: 'claims'
+};
+
+const ALL = 'all';
+
+const STATUS_STYLES: Record<Claim['status'], string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  submitted: 'bg-blue-100 text-blue-800',
+  paid: 'bg-green-100 text-green-800',
+  denied: 'bg-red-100 text-red-800'
+};
+
+type SessionNoteSignature = BillingSessionNote | null;
+
+const currency = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' });
+
+const formatDate = (date: string) => format(parseISO(date), 'MMM d, yyyy');
+
+const Claims = () => {
+  const [activeTab, setActiveTab] = useState(ClaimTabs.READY);
+  const [billable, setBillable] = useState<BillableAppointment[]>([]);
+  const [claims, setClaims] = useState<Claim[]>([]);
+  const [statusFilter, setStatusFilter] = useState(ALL);
+  const [isLoading, setIsLoading] = useState(true);
+  const [creatingId, setCreatingId] = useState<string | null>(null);
+  const [editingClaim, setEditingClaim] = useState<Claim | null>(null);
+  const [editingNote, setEditingNote] = useState<SessionNoteSignature>(null);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+
+  const loadData = useCallback(async () => {
+    setIsLoading(true);
+    const [appointments, claimList] = await Promise.all([
+      fetchBillableAppointments(),
+      fetchClaims(statusFilter)
+    ]);
+    setBillable(appointments);
+    setClaims(claimList);
+    setIsLoading(false);
+  }, [statusFilter]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const handleCreateClaim = async (appointmentId: string) => {
+    setCreatingId(appointmentId);
+    const result = await fetchClaimSourceData(appointmentId);
+    setCreatingId(null);
+
+    if (!result.success || !result.data) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load the appointment for billing',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setEditingNote(result.data.sessionNote);
+    setEditingClaim(buildClaimDraft(result.data));
+    setIsEditorOpen(true);
+  };
+
+  const handleOpenClaim = async (claim: Claim) => {
+    let sessionNote: SessionNoteSignature = null;
+    if (claim.session_note_id) {
+      const { data } = await supabase
+        .from('session_notes')
+        .select('id, signed_at, cosignatures (status)')
+        .eq('id', claim.session_note_id)
+        .maybeSingle();
+      sessionNote = data;
+    }
+    setEditingNote(sessionNote);
+    setEditingClaim(claim);
+    setIsEditorOpen(true);
+  };
+
+  const handleClaimSaved = (saved: Claim) => {
+    setEditingClaim(saved);
+    setBillable(prev => prev.filter(appointment => appointment.id !== saved.appointment_id));
+    setClaims(prev => {
+      const exists = prev.some(claim => claim.id === saved.id);
+      const next = exists ? prev.map(claim => (claim.id === saved.id ? saved : claim)) : [saved, ...prev];
+      return statusFilter === ALL ? next : next.filter(claim => claim.status === statusFilter);
+    });
+  };
+
+  return (
+    <Layout>
+      <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+        <div className="flex items-center border-b pr-4">
+          <button
+            className={`settings-tab ${activeTab === ClaimTabs.READY ? 'active' : ''}`}
+            onClick={() => setActiveTab(ClaimTabs.READY)}
+          >
+            Ready to Bill ({billable.length})
+          </button>
+          <button
+            className={`settings-tab ${activeTab === ClaimTabs.CLAIMS ? 'active' : ''}`}
+            onClick={() => setActiveTab(ClaimTabs.CLAIMS)}
+          >
+            Claims
+          </button>
+          <Button variant="outline" size="icon" className="ml-auto" onClick={loadData} disabled={isLoading}>
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {activeTab === ClaimTabs.READY && (
+          <div className="p-6 animate-fade-in">
+            <div className="mb-4">
+              <h2 className="text-xl font-semibold">Ready to Bill</h2>
+              <p className="text-sm text-gray-500">Documented sessions that don't have a claim yet.</p>
+            </div>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Client</TableHead>
+                    <TableHead>Clinician</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Session Note</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isLoading ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center py-8 text-gray-500">
+                        Loading sessions...
+                      </TableCell>
+                    </TableRow>
+                  ) : billable.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center py-8 text-gray-500">
+                        Every documented session has a claim.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    billable.map(appointment => {
+                      const note = appointment.session_note;
+                      const signed = isSessionNoteSigned(note);
+                      const awaitingCosignature = isCosignaturePending(note);
+                      return (
+                        <TableRow key={appointment.id}>
+                          <TableCell className="whitespace-nowrap">{formatDate(appointment.date)}</TableCell>
+                          <TableCell>{appointment.client_name}</TableCell>
+                          <TableCell>{appointment.clinician_name || '—'}</TableCell>
+                          <TableCell>{appointment.type}</TableCell>
+                          <TableCell>
+                            <span className={`px-2 py-1 rounded-full text-xs font-medium ${signed && !awaitingCosignature ? 'bg-green-100 text-green-800' : 'bg-amber-100 text-amber-800'}`}>
+                              {note ? (signed ? (awaitingCosignature ? 'Awaiting co-signature' : 'Signed') : 'Unsigned') : 'Missing'}
+                            </span>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleCreateClaim(appointment.id)}
+                              disabled={creatingId === appointment.id || awaitingCosignature}
+                              title={awaitingCosignature ? 'The supervisor must co-sign the session note first' : undefined}
+                            >
+                              {creatingId === appointment.id ? 'Loading...' : 'Create Claim'}
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        {activeTab === ClaimTabs.CLAIMS && (
+          <div className="p-6 animate-fade-in">
+            <div className="flex justify-between items-center mb-4">
+              <div>
+                <h2 className="text-xl font-semibold">Claims</h2>
+                <p className="text-sm text-gray-500">Track claims from draft through payment.</p>
+              </div>
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All statuses</SelectItem>
+                  {Object.entries(CLAIM_STATUS_LABELS).map(([status, label]) => (
+                    <SelectItem key={status} value={status}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Claim #</TableHead>
+                    <TableHead>Date of Service</TableHead>
+                    <TableHead>Patient</TableHead>
+                    <TableHead>Payer</TableHead>
+                    <TableHead>CPT</TableHead>
+                    <TableHead className="text-right">Charge</TableHead>
+                    <TableHead className="text-right">Paid</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isLoading ? (
+                    <TableRow>
+                      <TableCell colSpan={9} className="text-center py-8 text-gray-500">
+                        Loading claims...
+                      </TableCell>
+                    </TableRow>
+                  ) : claims.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={9} className="text-center py-8 text-gray-500">
+                        No claims found.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    claims.map(claim => (
+                      <TableRow key={claim.id}>
+                        <TableCell className="font-mono text-xs">{claim.claim_number}</TableCell>
+                        <TableCell className="whitespace-nowrap">{formatDate(claim.service_date)}</TableCell>
+                        <TableCell>{`${claim.patient_first_name || ''} ${claim.patient_last_name || ''}`.trim()}</TableCell>
+                        <TableCell>{claim.payer_name || '—'}</TableCell>
+                        <TableCell>{[claim.cpt_code, claim.modifier].filter(Boolean).join('-') || '—'}</TableCell>
+                        <TableCell className="text-right">{currency.format(getClaimTotalCharge(claim))}</TableCell>
+                        <TableCell className="text-right">{claim.paid_amount !== null ? currency.format(claim.paid_amount) : '—'}</TableCell>
+                        <TableCell>
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[claim.status]}`}>
+                            {CLAIM_STATUS_LABELS[claim.status]}
+                          </span>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="outline" size="sm" onClick={() => handleOpenClaim(claim)}>
+                            Open
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <ClaimEditorDialog
+        claim={editingClaim}
+        sessionNote={editingNote}
+        open={isEditorOpen}
+        onOpenChange={setIsEditorOpen}
+        onSaved={handleClaimSaved}
+      />
+    </Layout>
+  );
+};
+
+export default Claims;
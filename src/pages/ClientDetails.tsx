@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from "react";
 import { useParams, useNavigate } from "react-router-dom";
-import { supabase, parseDateString, formatDateForDB } from "@/integrations/supabase/client";
+import { supabase, parseDateString, formatDateForDB, updateClientProfile, logAuditEvent } from "@/integrations/supabase/client";
 import { 
   Card, 
   CardContent,
@@ -20,6 +20,7 @@ import PersonalInfoTab from "@/components/client/PersonalInfoTab";
 import InsuranceTab from "@/components/client/InsuranceTab";
 import TreatmentTab from "@/components/client/TreatmentTab";
 import DocumentationTab from "@/components/client/DocumentationTab";
+import OutcomesTab from "@/components/client/OutcomesTab";
 import { ClientDetails as ClientDetailsType, Clinician } from "@/types/client";
 import { useUser } from "@/context/UserContext";
 
@@ -50,6 +51,13 @@ const ClientDetails = () => {
 
         setClientData(data);
         setIsLoading(false);
+
+        logAuditEvent({
+          action: 'view',
+          tableName: 'clients',
+          recordId: data.id,
+          clientId: data.id,
+        });
       } catch (err) {
         console.error('Error fetching client:', err);
         setError(err as Error);
@@ -262,13 +270,10 @@ const ClientDetails = () => {
         client_age: values.client_age ? parseInt(values.client_age) : null,
       };
 
-      const { error } = await supabase
-        .from('clients')
-        .update(formattedValues)
-        .eq('id', clientId);
+      const result = await updateClientProfile(clientId as string, formattedValues);
 
-      if (error) {
-        throw error;
+      if (!result.success) {
+        throw result.error;
       }
 
       toast({
@@ -367,13 +372,14 @@ const ClientDetails = () => {
       <Form {...form}>
         <form onSubmit={form.handleSubmit(handleSaveChanges)}>
           <Tabs defaultValue="personal" value={activeTab} onValueChange={setActiveTab}>
-            <TabsList className={`grid ${isRestrictedRole ? 'grid-cols-3' : 'grid-cols-4'} mb-4`}>
+            <TabsList className={`grid ${isRestrictedRole ? 'grid-cols-4' : 'grid-cols-5'} mb-4`}>
               <TabsTrigger value="personal">Personal Info</TabsTrigger>
               <TabsTrigger value="insurance">Insurance</TabsTrigger>
               {!isRestrictedRole && (
                 <TabsTrigger value="treatment">Treatment</TabsTrigger>
               )}
               <TabsTrigger value="documentation">Documentation</TabsTrigger>
+              <TabsTrigger value="outcomes">Outcomes</TabsTrigger>
             </TabsList>
 
             <TabsContent value="personal">
@@ -408,6 +414,10 @@ const ClientDetails = () => {
             <TabsContent value="documentation">
               <DocumentationTab clientData={clientData} />
             </TabsContent>
+
+            <TabsContent value="outcomes">
+              <OutcomesTab clientData={clientData} />
+            </TabsContent>
           </Tabs>
         </form>
       </Form>
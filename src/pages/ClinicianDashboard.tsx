@@ -11,6 +11,9 @@ import SessionNoteTemplate from '@/components/templates/SessionNoteTemplate';
 import { useAppointments } from '@/hooks/useAppointments';
 import { getClinicianTimeZone } from '@/hooks/useClinicianData';
 import { SessionDidNotOccurDialog } from '@/components/dashboard/SessionDidNotOccurDialog';
+import { CosignatureQueue } from '@/components/dashboard/CosignatureQueue';
+import { DocumentationCompliancePanel } from '@/components/dashboard/DocumentationCompliancePanel';
+import { useToast } from '@/hooks/use-toast';
 
 const ClinicianDashboard = () => {
   const { userRole, userId } = useUser();
@@ -20,6 +23,7 @@ const ClinicianDashboard = () => {
   const timeZoneDisplay = formatTimeZoneDisplay(clinicianTimeZone);
   const [showSessionDidNotOccurDialog, setShowSessionDidNotOccurDialog] = useState(false);
   const [selectedAppointmentForNoShow, setSelectedAppointmentForNoShow] = useState<any>(null);
+  const { toast } = useToast();
 
   useEffect(() => {
     const fetchUserId = async () => {
@@ -78,6 +82,29 @@ const ClinicianDashboard = () => {
     setShowSessionDidNotOccurDialog(true);
   };
 
+  // Returned and late notes may belong to documented or older sessions that
+  // aren't in any appointment list, so load the appointment first
+  const openSessionNoteForAppointment = async (appointmentId: string) => {
+    const { data, error } = await supabase
+      .from('appointments')
+      .select('id, client_id, date, start_time, end_time, type, status, video_room_url, clients (client_first_name, client_last_name)')
+      .eq('id', appointmentId)
+      .single();
+
+    if (error || !data) {
+      console.error('Error fetching appointment for session note:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not open the session note.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const { clients, ...appointment } = data;
+    openSessionTemplate({ ...appointment, client: Array.isArray(clients) ? clients[0] : clients });
+  };
+
   const closeSessionDidNotOccurDialog = () => {
     setShowSessionDidNotOccurDialog(false);
     setSelectedAppointmentForNoShow(null);
@@ -148,7 +175,26 @@ const ClinicianDashboard = () => {
               showViewAllButton={true}
             />
           </div>
+
+          {/* Pending Co-signature */}
+          {currentUserId && (
+            <CosignatureQueue
+              clinicianId={currentUserId}
+              onOpenSessionNote={openSessionNoteForAppointment}
+            />
+          )}
         </div>
+
+        {/* Documentation Compliance */}
+        {currentUserId && (
+          <div className="mt-8">
+            <DocumentationCompliancePanel
+              clinicianId={currentUserId}
+              isAdmin={userRole === 'admin' || userRole === 'moderator'}
+              onOpenSessionNote={openSessionNoteForAppointment}
+            />
+          </div>
+        )}
       </div>
       
       {/* Video Chat Component */}
@@ -9,9 +9,10 @@ import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { DropdownMenu, DropdownMenuCheckboxItem, DropdownMenuContent, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Label } from "@/components/ui/label";
 import { timezoneOptions } from '@/utils/timezoneOptions';
+import { useUser } from '@/context/UserContext';
+import CalendarFeedCard from '@/components/calendar/CalendarFeedCard';
 
 interface Clinician {
   id: string;
@@ -31,8 +32,16 @@ interface Clinician {
   clinician_image_url: string | null;
   clinician_timezone: string | null;
   clinician_min_client_age: number | null;
+  clinician_supervisor_id: string | null;
 }
 
+interface SupervisorOption {
+  id: string;
+  name: string;
+}
+
+const NO_SUPERVISOR = 'none';
+
 const ClinicianDetails = () => {
   const {
     clinicianId
@@ -45,163 +54,14 @@ const ClinicianDetails = () => {
   const [editedClinician, setEditedClinician] = useState<Clinician | null>(null);
   const [isEditing, setIsEditing] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
-  const [selectedStates, setSelectedStates] = useState<string[]>([]);
   const [profileImage, setProfileImage] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [isUploading, setIsUploading] = useState(false);
+  const [supervisorOptions, setSupervisorOptions] = useState<SupervisorOption[]>([]);
+  const { userId, userRole } = useUser();
+  const isAdmin = userRole === 'admin' || userRole === 'moderator';
   const licenseTypes = ["LPC", "LCSW", "LMHT", "LMFT", "Psychologist", "SLP"];
   const clinicianTypeOptions = ["Mental Health", "Speech Therapy"];
-  const states = [{
-    code: "Alabama",
-    name: "Alabama"
-  }, {
-    code: "Alaska",
-    name: "Alaska"
-  }, {
-    code: "Arizona",
-    name: "Arizona"
-  }, {
-    code: "Arkansas",
-    name: "Arkansas"
-  }, {
-    code: "California",
-    name: "California"
-  }, {
-    code: "Colorado",
-    name: "Colorado"
-  }, {
-    code: "Connecticut",
-    name: "Connecticut"
-  }, {
-    code: "Delaware",
-    name: "Delaware"
-  }, {
-    code: "Florida",
-    name: "Florida"
-  }, {
-    code: "Georgia",
-    name: "Georgia"
-  }, {
-    code: "Hawaii",
-    name: "Hawaii"
-  }, {
-    code: "Idaho",
-    name: "Idaho"
-  }, {
-    code: "Illinois",
-    name: "Illinois"
-  }, {
-    code: "Indiana",
-    name: "Indiana"
-  }, {
-    code: "Iowa",
-    name: "Iowa"
-  }, {
-    code: "Kansas",
-    name: "Kansas"
-  }, {
-    code: "Kentucky",
-    name: "Kentucky"
-  }, {
-    code: "Louisiana",
-    name: "Louisiana"
-  }, {
-    code: "Maine",
-    name: "Maine"
-  }, {
-    code: "Maryland",
-    name: "Maryland"
-  }, {
-    code: "Massachusetts",
-    name: "Massachusetts"
-  }, {
-    code: "Michigan",
-    name: "Michigan"
-  }, {
-    code: "Minnesota",
-    name: "Minnesota"
-  }, {
-    code: "Mississippi",
-    name: "Mississippi"
-  }, {
-    code: "Missouri",
-    name: "Missouri"
-  }, {
-    code: "Montana",
-    name: "Montana"
-  }, {
-    code: "Nebraska",
-    name: "Nebraska"
-  }, {
-    code: "Nevada",
-    name: "Nevada"
-  }, {
-    code: "New Hampshire",
-    name: "New Hampshire"
-  }, {
-    code: "New Jersey",
-    name: "New Jersey"
-  }, {
-    code: "New Mexico",
-    name: "New Mexico"
-  }, {
-    code: "New York",
-    name: "New York"
-  }, {
-    code: "North Carolina",
-    name: "North Carolina"
-  }, {
-    code: "North Dakota",
-    name: "North Dakota"
-  }, {
-    code: "Ohio",
-    name: "Ohio"
-  }, {
-    code: "Oklahoma",
-    name: "Oklahoma"
-  }, {
-    code: "Oregon",
-    name: "Oregon"
-  }, {
-    code: "Pennsylvania",
-    name: "Pennsylvania"
-  }, {
-    code: "Rhode Island",
-    name: "Rhode Island"
-  }, {
-    code: "South Carolina",
-    name: "South Carolina"
-  }, {
-    code: "South Dakota",
-    name: "South Dakota"
-  }, {
-    code: "Tennessee",
-    name: "Tennessee"
-  }, {
-    code: "Texas",
-    name: "Texas"
-  }, {
-    code: "Utah",
-    name: "Utah"
-  }, {
-    code: "Vermont",
-    name: "Vermont"
-  }, {
-    code: "Virginia",
-    name: "Virginia"
-  }, {
-    code: "Washington",
-    name: "Washington"
-  }, {
-    code: "West Virginia",
-    name: "West Virginia"
-  }, {
-    code: "Wisconsin",
-    name: "Wisconsin"
-  }, {
-    code: "Wyoming",
-    name: "Wyoming"
-  }];
 
   useEffect(() => {
     if (clinicianId) {
@@ -210,17 +70,26 @@ const ClinicianDetails = () => {
   }, [clinicianId]);
 
   useEffect(() => {
-    if (clinician?.clinician_licensed_states) {
-      const fullStateNames = clinician.clinician_licensed_states.map(state => {
-        if (states.some(s => s.name === state)) {
-          return state;
-        }
-        const stateObj = states.find(s => s.code === state);
-        return stateObj ? stateObj.name : state;
-      });
-      setSelectedStates(fullStateNames);
+    const fetchSupervisorOptions = async () => {
+      const { data, error } = await supabase
+        .from('clinicians')
+        .select('id, clinician_first_name, clinician_last_name, clinician_professional_name')
+        .neq('id', clinicianId)
+        .order('clinician_last_name');
+      if (error) {
+        console.error('Error fetching supervisors:', error);
+        return;
+      }
+      setSupervisorOptions((data || []).map(option => ({
+        id: option.id,
+        name: option.clinician_professional_name || `${option.clinician_first_name || ''} ${option.clinician_last_name || ''}`.trim() || 'Unnamed clinician'
+      })));
+    };
+
+    if (clinicianId) {
+      fetchSupervisorOptions();
     }
-  }, [clinician]);
+  }, [clinicianId]);
 
   useEffect(() => {
     if (clinician?.clinician_image_url) {
@@ -251,16 +120,6 @@ const ClinicianDetails = () => {
       console.log("Fetched clinician data:", data);
       setClinician(data);
       setEditedClinician(data);
-      if (data.clinician_licensed_states) {
-        const fullStateNames = data.clinician_licensed_states.map(state => {
-          if (states.some(s => s.name === state)) {
-            return state;
-          }
-          const stateObj = states.find(s => s.code === state);
-          return stateObj ? stateObj.name : state;
-        });
-        setSelectedStates(fullStateNames);
-      }
       if (data.clinician_image_url) {
         setImagePreview(data.clinician_image_url);
       }
@@ -361,9 +220,10 @@ const ClinicianDetails = () => {
           console.error("Failed to upload profile image");
         }
       }
+      // Licensed states are derived from the licenses on file, never saved from here
+      const { clinician_licensed_states: _licensedStates, ...editableFields } = editedClinician;
       const updatedClinicianData = {
-        ...editedClinician,
-        clinician_licensed_states: selectedStates,
+        ...editableFields,
         clinician_type: editedClinician.clinician_type,
         clinician_license_type: editedClinician.clinician_license_type,
         clinician_image_url: imageUrl,
@@ -379,7 +239,6 @@ const ClinicianDetails = () => {
       }
       setClinician({
         ...editedClinician,
-        clinician_licensed_states: selectedStates,
         clinician_image_url: imageUrl
       });
       setIsEditing(false);
@@ -401,20 +260,11 @@ const ClinicianDetails = () => {
 
   const handleCancel = () => {
     setEditedClinician(clinician);
-    if (clinician?.clinician_licensed_states) {
-      setSelectedStates(clinician.clinician_licensed_states);
-    } else {
-      setSelectedStates([]);
-    }
     setIsEditing(false);
     setProfileImage(null);
     setImagePreview(clinician?.clinician_image_url || null);
   };
 
-  const toggleState = (stateName: string) => {
-    setSelectedStates(current => current.includes(stateName) ? current.filter(s => s !== stateName) : [...current, stateName]);
-  };
-
   if (isLoading) {
     return <Layout>
         <div className="flex justify-center items-center h-full">
@@ -629,25 +479,43 @@ const ClinicianDetails = () => {
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Licensed States
                 </label>
-                {isEditing ? <DropdownMenu>
-                    <DropdownMenuTrigger asChild>
-                      <Button variant="outline" className="w-full justify-start">
-                        {selectedStates.length > 0 ? `${selectedStates.length} state${selectedStates.length > 1 ? 's' : ''} selected` : 'Select states'}
-                      </Button>
-                    </DropdownMenuTrigger>
-                    <DropdownMenuContent className="w-56 max-h-[300px] overflow-y-auto">
-                      {states.map(state => <DropdownMenuCheckboxItem key={state.name} checked={selectedStates.includes(state.name)} onCheckedChange={() => toggleState(state.name)}>
-                          {state.name}
-                        </DropdownMenuCheckboxItem>)}
-                    </DropdownMenuContent>
-                  </DropdownMenu> : <p className="p-2 border rounded-md bg-gray-50">
-                    {clinician.clinician_licensed_states && clinician.clinician_licensed_states.length > 0 ? clinician.clinician_licensed_states.join(', ') : '—'}
+                <p className="p-2 border rounded-md bg-gray-50">
+                  {clinician.clinician_licensed_states && clinician.clinician_licensed_states.length > 0 ? clinician.clinician_licensed_states.join(', ') : '—'}
+                </p>
+                <p className="text-xs text-gray-500 mt-1">
+                  Derived from the unexpired licenses on file in Settings &gt; Licenses. Add or renew a license there to change it.
+                </p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Supervisor
+                </label>
+                {isEditing && isAdmin ? <Select value={editedClinician?.clinician_supervisor_id || NO_SUPERVISOR} onValueChange={value => setEditedClinician(editedClinician && {
+                    ...editedClinician,
+                    clinician_supervisor_id: value === NO_SUPERVISOR ? null : value
+                  })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select supervisor" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_SUPERVISOR}>No supervisor</SelectItem>
+                      {supervisorOptions.map(option => <SelectItem key={option.id} value={option.id}>
+                          {option.name}
+                        </SelectItem>)}
+                    </SelectContent>
+                  </Select> : <p className="p-2 border rounded-md bg-gray-50">
+                    {supervisorOptions.find(option => option.id === clinician.clinician_supervisor_id)?.name || '—'}
                   </p>}
+                <p className="text-xs text-gray-500 mt-1">
+                  Session notes and treatment plans by a supervised clinician need their supervisor's co-signature.
+                </p>
               </div>
             </div>
           </CardContent>
         </Card>
 
+        {(userId === clinician.id || userRole === 'admin' || userRole === 'moderator') && <CalendarFeedCard clinicianId={clinician.id} />}
+
         {isEditing && <div className="flex justify-end gap-2 mt-4">
             <Button variant="outline" onClick={handleCancel}>
               Cancel
@@ -1,15 +1,209 @@
 
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { Search, MessageSquare } from 'lucide-react';
 import Layout from '../components/layout/Layout';
+import ConversationView from '@/components/messages/ConversationView';
+import {
+  supabase,
+  getCurrentUser,
+  fetchMessageThreads,
+  getOrCreateMessageThread,
+  MessageThread
+} from '@/integrations/supabase/client';
+import { useUser } from '@/context/UserContext';
+import { useUnreadMessages } from '@/hooks/useUnreadMessages';
+import { useToast } from '@/hooks/use-toast';
+import { Input } from '@/components/ui/input';
+
+interface MessageClient {
+  id: string;
+  client_first_name: string | null;
+  client_last_name: string | null;
+  client_preferred_name: string | null;
+}
+
+const getClientName = (client: MessageClient) =>
+  `${client.client_preferred_name || client.client_first_name || ''} ${client.client_last_name || ''}`.trim() || 'Unnamed client';
 
 const Messages = () => {
+  const { userId } = useUser();
+  const { unreadByThread, refresh: refreshUnread } = useUnreadMessages(userId);
+  const { toast } = useToast();
+  const [clients, setClients] = useState<MessageClient[]>([]);
+  const [threads, setThreads] = useState<MessageThread[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [selectedClient, setSelectedClient] = useState<MessageClient | null>(null);
+  const [selectedThread, setSelectedThread] = useState<MessageThread | null>(null);
+
+  useEffect(() => {
+    const loadConversations = async () => {
+      if (!userId) return;
+
+      setIsLoading(true);
+      try {
+        // Clinician records are keyed by user ID, but older ones can only be matched by email
+        const user = await getCurrentUser();
+        const therapistIds = [userId];
+        if (user?.email) {
+          const { data: clinician } = await supabase
+            .from('clinicians')
+            .select('id')
+            .eq('clinician_email', user.email)
+            .maybeSingle();
+          if (clinician && clinician.id !== userId) therapistIds.push(clinician.id);
+        }
+
+        const [{ data, error }, threadData] = await Promise.all([
+          supabase
+            .from('clients')
+            .select('id, client_first_name, client_last_name, client_preferred_name')
+            .in('client_assigned_therapist', therapistIds)
+            .order('client_last_name', { ascending: true }),
+          fetchMessageThreads()
+        ]);
+
+        if (error) throw error;
+        setClients(data || []);
+        setThreads(threadData);
+      } catch (error) {
+        console.error('Error loading conversations:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load your conversations",
+          variant: "destructive"
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadConversations();
+  }, [userId, toast]);
+
+  // Keep the conversation list ordered by latest activity as messages arrive
+  useEffect(() => {
+    const channel = supabase
+      .channel('message-threads-list')
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'messages' }, async () => {
+        setThreads(await fetchMessageThreads());
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, []);
+
+  const handleSelectClient = async (client: MessageClient) => {
+    setSelectedClient(client);
+    setSelectedThread(null);
+
+    const result = await getOrCreateMessageThread(client.id);
+    if (!result.success || !result.data) {
+      toast({
+        title: "Error",
+        description: "Failed to open this conversation",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const thread = result.data;
+    setSelectedThread(thread);
+    setThreads(current => current.some(t => t.id === thread.id) ? current : [...current, thread]);
+  };
+
+  const threadsByClient = new Map(threads.map(thread => [thread.client_id, thread]));
+
+  const filteredClients = clients
+    .filter(client => getClientName(client).toLowerCase().includes(searchQuery.toLowerCase()))
+    .sort((a, b) => {
+      const aLast = threadsByClient.get(a.id)?.last_message_at || '';
+      const bLast = threadsByClient.get(b.id)?.last_message_at || '';
+      return bLast.localeCompare(aLast);
+    });
+
   return (
     <Layout>
-      <div className="bg-white rounded-lg shadow-sm p-8 animate-fade-in">
-        <div className="flex flex-col items-center justify-center py-12 text-center">
-          <h2 className="text-2xl font-bold mb-4 text-gray-800">Messages Coming Soon</h2>
-          <p className="text-gray-600 max-w-md">
-            The messaging feature will be implemented in the next phase.
-          </p>
+      <div className="bg-white rounded-lg shadow-sm overflow-hidden animate-fade-in">
+        <div className="flex min-h-[600px]">
+          <div className="w-80 border-r flex flex-col">
+            <div className="p-4 border-b">
+              <h2 className="text-xl font-semibold mb-3">Messages</h2>
+              <div className="relative">
+                <Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-400" />
+                <Input
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  placeholder="Search clients..."
+                  className="pl-8"
+                />
+              </div>
+            </div>
+            <div className="flex-1 overflow-y-auto">
+              {isLoading ? (
+                <p className="text-center text-sm text-gray-500 py-8">Loading conversations...</p>
+              ) : filteredClients.length === 0 ? (
+                <p className="text-center text-sm text-gray-500 py-8 px-4">
+                  {clients.length === 0 ? 'No clients are assigned to you yet.' : 'No clients match your search.'}
+                </p>
+              ) : (
+                filteredClients.map(client => {
+                  const thread = threadsByClient.get(client.id);
+                  const unread = thread ? unreadByThread[thread.id] || 0 : 0;
+                  return (
+                    <button
+                      key={client.id}
+                      type="button"
+                      onClick={() => handleSelectClient(client)}
+                      className={`w-full text-left px-4 py-3 border-b hover:bg-gray-50 flex items-center justify-between ${
+                        selectedClient?.id === client.id ? 'bg-valorwell-50' : ''
+                      }`}
+                    >
+                      <div className="min-w-0">
+                        <p className={`truncate ${unread > 0 ? 'font-semibold' : 'font-medium'}`}>{getClientName(client)}</p>
+                        <p className="text-xs text-gray-500">
+                          {thread?.last_message_at
+                            ? format(new Date(thread.last_message_at), 'MMM d, h:mm a')
+                            : 'No messages yet'}
+                        </p>
+                      </div>
+                      {unread > 0 && (
+                        <span className="ml-2 rounded-full bg-valorwell-600 px-2 py-0.5 text-xs font-medium text-white">
+                          {unread}
+                        </span>
+                      )}
+                    </button>
+                  );
+                })
+              )}
+            </div>
+          </div>
+
+          <div className="flex-1 flex flex-col">
+            {selectedClient && selectedThread && userId ? (
+              <>
+                <div className="p-4 border-b">
+                  <h3 className="font-semibold">{getClientName(selectedClient)}</h3>
+                </div>
+                <ConversationView
+                  threadId={selectedThread.id}
+                  currentUserId={userId}
+                  otherPartyName={getClientName(selectedClient)}
+                  onMessagesRead={refreshUnread}
+                />
+              </>
+            ) : (
+              <div className="flex flex-1 flex-col items-center justify-center text-center p-8">
+                <MessageSquare className="h-10 w-10 text-gray-300 mb-3" />
+                <p className="text-gray-500">
+                  {selectedClient ? 'Opening conversation...' : 'Select a client to view your conversation.'}
+                </p>
+              </div>
+            )}
+          </div>
         </div>
       </div>
     </Layout>
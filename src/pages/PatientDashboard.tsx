@@ -1,9 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import Layout from '@/components/layout/Layout';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
-import { LayoutDashboard, User, Clock3, Shield, ClipboardList } from 'lucide-react';
+import { LayoutDashboard, User, Clock3, Shield, ClipboardList, MessageSquare } from 'lucide-react';
 import { useForm } from 'react-hook-form';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { getCurrentUser, getClientByUserId, updateClientProfile, getClinicianNameById, formatDateForDB } from '@/integrations/supabase/client';
 import { useToast } from '@/components/ui/use-toast';
 
@@ -13,6 +13,7 @@ import MyProfile from '@/components/patient/MyProfile';
 import MyAppointments from '@/components/patient/MyAppointments';
 import MyInsurance from '@/components/patient/MyInsurance';
 import MyDocuments from '@/components/patient/MyDocuments';
+import MyMessages from '@/components/patient/MyMessages';
 
 const PatientDashboard: React.FC = () => {
   const [loading, setLoading] = useState<boolean>(true);
@@ -24,6 +25,8 @@ const PatientDashboard: React.FC = () => {
     toast
   } = useToast();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const activeTab = searchParams.get('tab') || 'dashboard';
   const genderOptions = ['Male', 'Female', 'Non-Binary', 'Other', 'Prefer not to say'];
   const genderIdentityOptions = ['Male', 'Female', 'Trans Man', 'Trans Woman', 'Non-Binary', 'Other', 'Prefer not to say'];
   const stateOptions = ['Alabama', 'Alaska', 'Arizona', 'Arkansas', 'California', 'Colorado', 'Connecticut', 'Delaware', 'Florida', 'Georgia', 'Hawaii', 'Idaho', 'Illinois', 'Indiana', 'Iowa', 'Kansas', 'Kentucky', 'Louisiana', 'Maine', 'Maryland', 'Massachusetts', 'Michigan', 'Minnesota', 'Mississippi', 'Missouri', 'Montana', 'Nebraska', 'Nevada', 'New Hampshire', 'New Jersey', 'New Mexico', 'New York', 'North Carolina', 'North Dakota', 'Ohio', 'Oklahoma', 'Oregon', 'Pennsylvania', 'Rhode Island', 'South Carolina', 'South Dakota', 'Tennessee', 'Texas', 'Utah', 'Vermont', 'Virginia', 'Washington', 'West Virginia', 'Wisconsin', 'Wyoming'];
@@ -303,7 +306,7 @@ const PatientDashboard: React.FC = () => {
           </div>
         </div>
 
-        <Tabs defaultValue="dashboard" className="w-full">
+        <Tabs value={activeTab} onValueChange={tab => setSearchParams({ tab })} className="w-full">
           <TabsList className="mb-6 w-full justify-start border-b pb-0 pt-0">
             <TabsTrigger value="dashboard" className="gap-2 rounded-b-none rounded-t-lg data-[state=active]:border-b-2 data-[state=active]:border-valorwell-600">
               <LayoutDashboard className="h-4 w-4" />
@@ -325,6 +328,10 @@ const PatientDashboard: React.FC = () => {
               <ClipboardList className="h-4 w-4" />
               Documents
             </TabsTrigger>
+            <TabsTrigger value="messages" className="gap-2 rounded-b-none rounded-t-lg data-[state=active]:border-b-2 data-[state=active]:border-valorwell-600">
+              <MessageSquare className="h-4 w-4" />
+              Messages
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="dashboard" className="mt-0">
@@ -346,6 +353,10 @@ const PatientDashboard: React.FC = () => {
           <TabsContent value="documents" className="mt-0">
             <MyDocuments />
           </TabsContent>
+
+          <TabsContent value="messages" className="mt-0">
+            <MyMessages clientData={clientData} loading={loading} />
+          </TabsContent>
         </Tabs>
       </div>
     </Layout>;
@@ -1,16 +1,36 @@
-
+import { useState } from 'react';
 import Layout from '../components/layout/Layout';
+import ReminderQueueTab from '@/components/reminders/ReminderQueueTab';
+import ReminderRulesTab from '@/components/reminders/ReminderRulesTab';
+
+const ReminderTabs = {
+  QUEUE: 'queue',
+  RULES: 'rules'
+};
 
 const Reminders = () => {
+  const [activeTab, setActiveTab] = useState(ReminderTabs.QUEUE);
+
   return (
     <Layout>
-      <div className="bg-white rounded-lg shadow-sm p-8 animate-fade-in">
-        <div className="flex flex-col items-center justify-center py-12 text-center">
-          <h2 className="text-2xl font-bold mb-4 text-gray-800">Reminders Coming Soon</h2>
-          <p className="text-gray-600 max-w-md">
-            The reminders feature will be implemented in the next phase.
-          </p>
+      <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+        <div className="flex border-b">
+          <button
+            className={`settings-tab ${activeTab === ReminderTabs.QUEUE ? 'active' : ''}`}
+            onClick={() => setActiveTab(ReminderTabs.QUEUE)}
+          >
+            Queue
+          </button>
+          <button
+            className={`settings-tab ${activeTab === ReminderTabs.RULES ? 'active' : ''}`}
+            onClick={() => setActiveTab(ReminderTabs.RULES)}
+          >
+            Rules
+          </button>
         </div>
+
+        {activeTab === ReminderTabs.QUEUE && <ReminderQueueTab />}
+        {activeTab === ReminderTabs.RULES && <ReminderRulesTab />}
       </div>
     </Layout>
   );
@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { CalendarCheck, Loader2 } from 'lucide-react';
+import Layout from '@/components/layout/Layout';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useToast } from '@/hooks/use-toast';
+import {
+  WaitlistOffer,
+  fetchWaitlistOfferByToken,
+  claimWaitlistOffer,
+  declineWaitlistOffer
+} from '@/integrations/supabase/client';
+import { getWaitlistOfferErrorMessage } from '@/utils/waitlist';
+import { formatTime12Hour } from '@/utils/timeZoneUtils';
+
+const WaitlistClaim = () => {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [offer, setOffer] = useState<WaitlistOffer | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isResponding, setIsResponding] = useState(false);
+  const [errorCode, setErrorCode] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadOffer = async () => {
+      if (!token) return;
+      const result = await fetchWaitlistOfferByToken(token);
+      setOffer(result);
+      if (!result) {
+        setErrorCode('WAITLIST_OFFER_NOT_FOUND');
+      } else if (result.status !== 'pending' || parseISO(result.expires_at) <= new Date()) {
+        setErrorCode('WAITLIST_OFFER_UNAVAILABLE');
+      }
+      setLoading(false);
+    };
+    loadOffer();
+  }, [token]);
+
+  const handleClaim = async () => {
+    if (!token) return;
+    setIsResponding(true);
+    const result = await claimWaitlistOffer(token);
+    setIsResponding(false);
+
+    if (!result.success) {
+      setErrorCode(result.error?.code || 'BOOKING_FAILED');
+      return;
+    }
+
+    toast({
+      title: "Appointment booked",
+      description: "Your new appointment is on your dashboard."
+    });
+    navigate('/patient-dashboard');
+  };
+
+  const handleDecline = async () => {
+    if (!token) return;
+    setIsResponding(true);
+    const result = await declineWaitlistOffer(token);
+    setIsResponding(false);
+
+    if (!result.success) {
+      setErrorCode(result.error?.code || 'BOOKING_FAILED');
+      return;
+    }
+
+    toast({
+      title: "Offer declined",
+      description: "You're still on the waitlist for other openings."
+    });
+    navigate('/patient-dashboard');
+  };
+
+  return (
+    <Layout>
+      <div className="max-w-lg mx-auto">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarCheck className="h-5 w-5 text-valorwell-600" />
+              Earlier Appointment Available
+            </CardTitle>
+            {offer && (
+              <CardDescription>With {offer.clinician_name}</CardDescription>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {loading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            ) : (
+              <>
+                {offer && (
+                  <div className="rounded-md bg-gray-50 p-4">
+                    <div className="text-lg font-medium">{format(parseISO(offer.date), 'EEEE, MMMM d, yyyy')}</div>
+                    <div className="text-gray-700">
+                      {formatTime12Hour(offer.start_time)} – {formatTime12Hour(offer.end_time)}
+                    </div>
+                    {offer.status === 'pending' && !errorCode && (
+                      <div className="text-sm text-gray-500 mt-2">
+                        This offer expires at {format(parseISO(offer.expires_at), 'h:mm a')}.
+                      </div>
+                    )}
+                  </div>
+                )}
+                {errorCode && (
+                  <Alert variant="destructive">
+                    <AlertDescription>{getWaitlistOfferErrorMessage(errorCode)}</AlertDescription>
+                  </Alert>
+                )}
+              </>
+            )}
+          </CardContent>
+          <CardFooter className="flex justify-end gap-2">
+            {!loading && !errorCode ? (
+              <>
+                <Button variant="outline" onClick={handleDecline} disabled={isResponding}>
+                  Decline
+                </Button>
+                <Button onClick={handleClaim} disabled={isResponding}>
+                  {isResponding && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Claim Appointment
+                </Button>
+              </>
+            ) : (
+              <Button variant="outline" onClick={() => navigate('/patient-dashboard')}>
+                Back to Dashboard
+              </Button>
+            )}
+          </CardFooter>
+        </Card>
+      </div>
+    </Layout>
+  );
+};
+
+export default WaitlistClaim;
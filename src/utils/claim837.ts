@@ -0,0 +1,178 @@
+import { format } from 'date-fns';
+import type { Claim } from '@/integrations/supabase/client';
+import { getClaimTotalCharge, getSubscriberNameParts, stripDiagnosisCode, toGenderCode } from '@/utils/claims';
+import { downloadFile } from '@/utils/csvExport';
+
+// X12 delimiters: element, component and segment terminator
+const ELEMENT = '*';
+const COMPONENT = ':';
+const SEGMENT = '~';
+
+// SBR09 claim filing indicator by insurance type
+const CLAIM_FILING_CODES: Record<string, string> = {
+  PPO: '12',
+  POS: '13',
+  EPO: '14',
+  HMO: 'HM',
+  HDHP: 'CI',
+  Medicare: 'MB',
+  Medicaid: 'MC',
+  Other: 'CI'
+};
+
+// PAT01 individual relationship codes for a patient who isn't the subscriber
+const RELATIONSHIP_CODES: Record<string, string> = {
+  Spouse: '01',
+  Child: '19',
+  Other: 'G8'
+};
+
+const PAYER_ORDER_CODES: Record<Claim['payer_order'], string> = {
+  primary: 'P',
+  secondary: 'S',
+  tertiary: 'T'
+};
+
+export interface Export837Options {
+  // Interchange IDs agreed with the clearinghouse; default to the billing NPI and payer ID
+  senderId?: string;
+  receiverId?: string;
+  receiverName?: string;
+  contactName?: string;
+  contactPhone?: string;
+  // "T" for test files, "P" for production
+  usageIndicator?: 'T' | 'P';
+  controlNumber?: number;
+}
+
+// Strip characters that would be read as delimiters and uppercase, as most payers expect
+const clean = (value: string | null | undefined) =>
+  (value || '').replace(/[*:~^]/g, ' ').replace(/\s+/g, ' ').trim().toUpperCase();
+
+const digitsOnly = (value: string | null | undefined) => (value || '').replace(/\D/g, '');
+
+const formatD8 = (date: string | null | undefined) => (date ? date.replace(/-/g, '').substring(0, 8) : '');
+
+const formatAmount = (amount: number) => Number(amount).toFixed(2).replace(/\.00$/, '');
+
+const padRight = (value: string, length: number) => value.substring(0, length).padEnd(length, ' ');
+
+const segment = (...elements: (string | number)[]) => {
+  // Trailing empty elements are dropped, as the implementation guide requires
+  const values = elements.map(String);
+  while (values.length > 1 && values[values.length - 1] === '') values.pop();
+  return values.join(ELEMENT) + SEGMENT;
+};
+
+/**
+ * Build a single-claim ASC X12 005010X222A1 (837P) file. Validate the claim
+ * with validateClaim first; this function formats whatever it is given.
+ */
+export const generate837P = (claim: Claim, options: Export837Options = {}) => {
+  const now = new Date();
+  const controlNumber = String(options.controlNumber ?? Math.floor(now.getTime() / 1000) % 1000000000).padStart(9, '0');
+  const senderId = clean(options.senderId || claim.billing_provider_npi);
+  const receiverId = clean(options.receiverId || claim.payer_id);
+  const usage = options.usageIndicator || 'P';
+  const claimNumber = clean(claim.claim_number || claim.id);
+  const subscriberIsPatient = claim.subscriber_relationship === 'Self';
+  const subscriber = getSubscriberNameParts(claim);
+
+  const transaction: string[] = [];
+  transaction.push(segment('ST', '837', '0001', '005010X222A1'));
+  transaction.push(segment('BHT', '0019', '00', claimNumber, format(now, 'yyyyMMdd'), format(now, 'HHmm'), 'CH'));
+
+  // 1000A submitter and 1000B receiver
+  transaction.push(segment('NM1', '41', '2', clean(claim.billing_provider_name), '', '', '', '', '46', senderId));
+  transaction.push(segment('PER', 'IC', clean(options.contactName || claim.billing_provider_name), 'TE', digitsOnly(options.contactPhone) || '0000000000'));
+  transaction.push(segment('NM1', '40', '2', clean(options.receiverName || claim.payer_name), '', '', '', '', '46', receiverId));
+
+  // 2000A / 2010AA billing provider
+  transaction.push(segment('HL', '1', '', '20', '1'));
+  transaction.push(segment('PRV', 'BI', 'PXC', clean(claim.billing_provider_taxonomy)));
+  transaction.push(segment('NM1', '85', '2', clean(claim.billing_provider_name), '', '', '', '', 'XX', digitsOnly(claim.billing_provider_npi)));
+  transaction.push(segment('N3', clean(claim.billing_provider_address1)));
+  transaction.push(segment('N4', clean(claim.billing_provider_city), clean(claim.billing_provider_state), digitsOnly(claim.billing_provider_zip)));
+  transaction.push(segment('REF', 'EI', digitsOnly(claim.billing_provider_tax_id)));
+
+  // 2000B / 2010BA subscriber and 2010BB payer
+  transaction.push(segment('HL', '2', '1', '22', subscriberIsPatient ? '0' : '1'));
+  transaction.push(segment(
+    'SBR',
+    PAYER_ORDER_CODES[claim.payer_order],
+    subscriberIsPatient ? '18' : '',
+    clean(claim.group_number),
+    '', '', '', '', '',
+    CLAIM_FILING_CODES[claim.insurance_type || ''] || 'CI'
+  ));
+  transaction.push(segment('NM1', 'IL', '1', clean(subscriber.last), clean(subscriber.first), '', '', '', 'MI', clean(claim.policy_number)));
+  if (subscriberIsPatient) {
+    transaction.push(segment('N3', clean(claim.patient_address1)));
+    transaction.push(segment('N4', clean(claim.patient_city), clean(claim.patient_state), digitsOnly(claim.patient_zip)));
+    transaction.push(segment('DMG', 'D8', formatD8(claim.patient_dob), toGenderCode(claim.patient_gender)));
+  } else if (claim.subscriber_dob) {
+    transaction.push(segment('DMG', 'D8', formatD8(claim.subscriber_dob), 'U'));
+  }
+  transaction.push(segment('NM1', 'PR', '2', clean(claim.payer_name), '', '', '', '', 'PI', clean(claim.payer_id)));
+
+  // 2000C / 2010CA patient, only when the patient isn't the subscriber
+  if (!subscriberIsPatient) {
+    transaction.push(segment('HL', '3', '2', '23', '0'));
+    transaction.push(segment('PAT', RELATIONSHIP_CODES[claim.subscriber_relationship || ''] || 'G8'));
+    transaction.push(segment('NM1', 'QC', '1', clean(claim.patient_last_name), clean(claim.patient_first_name)));
+    transaction.push(segment('N3', clean(claim.patient_address1)));
+    transaction.push(segment('N4', clean(claim.patient_city), clean(claim.patient_state), digitsOnly(claim.patient_zip)));
+    transaction.push(segment('DMG', 'D8', formatD8(claim.patient_dob), toGenderCode(claim.patient_gender)));
+  }
+
+  // 2300 claim
+  const charge = formatAmount(getClaimTotalCharge(claim));
+  transaction.push(segment(
+    'CLM',
+    claimNumber,
+    charge,
+    '', '',
+    [claim.place_of_service, 'B', '1'].join(COMPONENT),
+    'Y', 'A', 'Y', 'Y'
+  ));
+  const diagnoses = claim.diagnosis_codes.slice(0, 12).map(stripDiagnosisCode);
+  transaction.push(segment('HI', ...diagnoses.map((code, index) => `${index === 0 ? 'ABK' : 'ABF'}${COMPONENT}${code}`)));
+
+  // 2310B rendering provider
+  transaction.push(segment(
+    'NM1', '82', '1',
+    clean(claim.rendering_provider_last_name),
+    clean(claim.rendering_provider_first_name),
+    '', '', '', 'XX', digitsOnly(claim.rendering_provider_npi)
+  ));
+  if (claim.rendering_provider_taxonomy) {
+    transaction.push(segment('PRV', 'PE', 'PXC', clean(claim.rendering_provider_taxonomy)));
+  }
+
+  // 2400 service line; diagnosis pointers reference the first four HI codes
+  const procedure = ['HC', clean(claim.cpt_code), ...(claim.modifier ? [clean(claim.modifier)] : [])].join(COMPONENT);
+  const pointers = diagnoses.slice(0, 4).map((_, index) => index + 1).join(COMPONENT);
+  transaction.push(segment('LX', '1'));
+  transaction.push(segment('SV1', procedure, charge, 'UN', String(claim.units), '', '', pointers));
+  transaction.push(segment('DTP', '472', 'D8', formatD8(claim.service_date)));
+
+  // SE counts every segment from ST through SE inclusive
+  transaction.push(segment('SE', String(transaction.length + 1), '0001'));
+
+  const interchange = [
+    [
+      'ISA', '00', padRight('', 10), '00', padRight('', 10),
+      'ZZ', padRight(senderId, 15), 'ZZ', padRight(receiverId, 15),
+      format(now, 'yyMMdd'), format(now, 'HHmm'), '^', '00501', controlNumber, '0', usage, COMPONENT
+    ].join(ELEMENT) + SEGMENT,
+    segment('GS', 'HC', senderId, receiverId, format(now, 'yyyyMMdd'), format(now, 'HHmm'), '1', 'X', '005010X222A1'),
+    ...transaction,
+    segment('GE', '1', '1'),
+    segment('IEA', '1', controlNumber)
+  ];
+
+  return interchange.join('\n');
+};
+
+export const download837P = (claim: Claim, options?: Export837Options) =>
+  downloadFile(`837P_${claim.claim_number || 'draft'}.txt`, generate837P(claim, options), 'text/plain;charset=utf-8;');
@@ -0,0 +1,268 @@
+import type { Claim, ClaimStatus, PayerOrder, CPTCode, PracticeInfo } from '@/integrations/supabase/client';
+import { findCPTCodeForType } from '@/utils/practiceAnalytics';
+import { US_STATE_CODES } from '@/utils/usStates';
+
+export const CLAIM_STATUS_LABELS: Record<ClaimStatus, string> = {
+  draft: 'Draft',
+  submitted: 'Submitted',
+  paid: 'Paid',
+  denied: 'Denied'
+};
+
+// Place of service codes used for behavioral health sessions
+export const PLACE_OF_SERVICE_OPTIONS = [
+  { code: '02', label: '02 – Telehealth (not in patient home)' },
+  { code: '10', label: '10 – Telehealth in patient home' },
+  { code: '11', label: '11 – Office' }
+];
+
+// Client and practice records store full state names; claims need USPS codes
+export const toStateCode = (state: string | null | undefined) => {
+  if (!state) return null;
+  const trimmed = state.trim();
+  if (/^[A-Za-z]{2}$/.test(trimmed)) return trimmed.toUpperCase();
+  return US_STATE_CODES[trimmed] || trimmed;
+};
+
+export const toGenderCode = (gender: string | null | undefined) => {
+  if (gender === 'Male') return 'M';
+  if (gender === 'Female') return 'F';
+  return 'U';
+};
+
+// ICD-10 codes are stored with a dot ("F43.10"); claims send them without it
+export const stripDiagnosisCode = (code: string) => code.replace('.', '').trim().toUpperCase();
+
+// Diagnosis entries are sometimes stored as "F43.10 - Post-traumatic stress disorder"
+const extractDiagnosisCode = (entry: string) => entry.split(' ')[0].trim();
+
+/**
+ * NPIs carry a Luhn check digit computed with the "80840" health industry
+ * prefix, which catches most typos before a payer rejects the claim.
+ */
+export const isValidNPI = (npi: string | null | undefined) => {
+  if (!npi || !/^\d{10}$/.test(npi)) return false;
+  const digits = `80840${npi.slice(0, 9)}`.split('').map(Number);
+  const sum = digits.reverse().reduce((total, digit, index) => {
+    if (index % 2 === 0) {
+      const doubled = digit * 2;
+      return total + (doubled > 9 ? doubled - 9 : doubled);
+    }
+    return total + digit;
+  }, 0);
+  return (10 - (sum % 10)) % 10 === Number(npi[9]);
+};
+
+const splitName = (fullName: string | null | undefined) => {
+  const parts = (fullName || '').trim().split(/\s+/).filter(Boolean);
+  if (parts.length === 0) return { first: '', last: '' };
+  if (parts.length === 1) return { first: '', last: parts[0] };
+  return { first: parts.slice(0, -1).join(' '), last: parts[parts.length - 1] };
+};
+
+export const getSubscriberNameParts = (claim: Claim) =>
+  claim.subscriber_relationship === 'Self' || !claim.subscriber_name
+    ? { first: claim.patient_first_name || '', last: claim.patient_last_name || '' }
+    : splitName(claim.subscriber_name);
+
+// charge_amount is the per-unit fee; the claim and its one service line bill every unit
+export const getClaimTotalCharge = (claim: Claim) => claim.charge_amount * claim.units;
+
+// The parts of a session note that decide whether its session can be billed
+export interface BillingSessionNote {
+  signed_at?: string | null;
+  // Embedded rows come back as objects or single-item arrays depending on the relationship
+  cosignatures?: { status: string } | { status: string }[] | null;
+}
+
+// Signed through the sign-and-lock workflow; a typed signature on its own doesn't count
+export const isSessionNoteSigned = (sessionNote: BillingSessionNote | null) =>
+  !!sessionNote?.signed_at;
+
+// Notes by supervised clinicians can't be billed until their supervisor co-signs
+export const isCosignaturePending = (sessionNote: BillingSessionNote | null) => {
+  const cosignature = Array.isArray(sessionNote?.cosignatures) ? sessionNote.cosignatures[0] : sessionNote?.cosignatures;
+  return !!cosignature && cosignature.status !== 'approved';
+};
+
+interface ClaimSourceClient {
+  client_first_name: string | null;
+  client_last_name: string | null;
+  client_date_of_birth: string | null;
+  client_gender: string | null;
+  client_state: string | null;
+  client_diagnosis: string[] | null;
+  // Insurance columns repeat per payer, e.g. client_policy_number_secondary
+  [insuranceField: `client_${string}_${PayerOrder}`]: string | null;
+}
+
+interface ClaimSourceClinician {
+  clinician_first_name: string | null;
+  clinician_last_name: string | null;
+  clinician_npi_number: string | null;
+  clinician_taxonomy_code: string | null;
+}
+
+interface ClaimSource {
+  appointment: { id: string; client_id: string; clinician_id: string; date: string; type: string };
+  sessionNote: (BillingSessionNote & { id: string; diagnosis?: string[] | null }) | null;
+  client: ClaimSourceClient;
+  clinician: ClaimSourceClinician | null;
+  practice: PracticeInfo | null;
+  cptCodes: CPTCode[];
+}
+
+/**
+ * Build a draft claim from a documented appointment, copying payer, patient and
+ * provider details from the chart. Diagnoses come from the session note when it
+ * has them, otherwise from the client's chart.
+ */
+export const buildClaimDraft = (source: ClaimSource, payerOrder: PayerOrder = 'primary'): Claim => {
+  const { appointment, sessionNote, client, clinician, practice, cptCodes } = source;
+  const cptCode = findCPTCodeForType(appointment.type, cptCodes);
+  const diagnoses = (sessionNote?.diagnosis?.length ? sessionNote.diagnosis : client.client_diagnosis) || [];
+
+  return {
+    appointment_id: appointment.id,
+    session_note_id: sessionNote?.id || null,
+    client_id: appointment.client_id,
+    clinician_id: appointment.clinician_id,
+    status: 'draft',
+    payer_order: payerOrder,
+    payer_name: client[`client_insurance_company_${payerOrder}`] || null,
+    payer_id: null,
+    insurance_type: client[`client_insurance_type_${payerOrder}`] || null,
+    policy_number: client[`client_policy_number_${payerOrder}`] || null,
+    group_number: client[`client_group_number_${payerOrder}`] || null,
+    subscriber_name: client[`client_subscriber_name_${payerOrder}`] || null,
+    subscriber_dob: client[`client_subscriber_dob_${payerOrder}`] || null,
+    subscriber_relationship: client[`client_subscriber_relationship_${payerOrder}`] || null,
+    patient_first_name: client.client_first_name,
+    patient_last_name: client.client_last_name,
+    patient_dob: client.client_date_of_birth,
+    patient_gender: client.client_gender,
+    patient_address1: null,
+    patient_city: null,
+    patient_state: toStateCode(client.client_state),
+    patient_zip: null,
+    diagnosis_codes: diagnoses.map(extractDiagnosisCode).filter(Boolean).slice(0, 12),
+    service_date: appointment.date,
+    place_of_service: '10',
+    cpt_code: cptCode?.code || null,
+    modifier: '95',
+    units: 1,
+    charge_amount: cptCode ? Number(cptCode.fee) : 0,
+    rendering_provider_first_name: clinician?.clinician_first_name || null,
+    rendering_provider_last_name: clinician?.clinician_last_name || null,
+    rendering_provider_npi: clinician?.clinician_npi_number || null,
+    rendering_provider_taxonomy: clinician?.clinician_taxonomy_code || null,
+    billing_provider_name: practice?.practice_name || null,
+    billing_provider_npi: practice?.practice_npi || null,
+    billing_provider_tax_id: practice?.practice_taxid || null,
+    billing_provider_taxonomy: practice?.practice_taxonomy || null,
+    billing_provider_address1: practice?.practice_address1 || null,
+    billing_provider_city: practice?.practice_city || null,
+    billing_provider_state: toStateCode(practice?.practice_state),
+    billing_provider_zip: practice?.practice_zip || null,
+    paid_amount: null,
+    denial_reason: null,
+    submitted_at: null,
+    adjudicated_at: null,
+    notes: null
+  };
+};
+
+export interface ClaimIssue {
+  field: keyof Claim | 'session_note';
+  message: string;
+}
+
+/**
+ * Check a claim for the fields clearinghouses reject most often. An empty
+ * result means the claim can be exported.
+ */
+export const validateClaim = (claim: Claim, sessionNote: BillingSessionNote | null): ClaimIssue[] => {
+  const issues: ClaimIssue[] = [];
+  const require = (field: keyof Claim, label: string) => {
+    const value = claim[field];
+    if (value === null || value === undefined || String(value).trim() === '') {
+      issues.push({ field, message: `${label} is required` });
+      return false;
+    }
+    return true;
+  };
+
+  if (!isSessionNoteSigned(sessionNote)) {
+    issues.push({ field: 'session_note', message: 'The session note must be signed before billing' });
+  }
+  if (isCosignaturePending(sessionNote)) {
+    issues.push({ field: 'session_note', message: 'The session note must be co-signed by the supervisor before billing' });
+  }
+
+  require('payer_name', 'Payer name');
+  if (require('payer_id', 'Payer ID') && !/^[A-Za-z0-9]{2,80}$/.test(claim.payer_id || '')) {
+    issues.push({ field: 'payer_id', message: 'Payer ID may only contain letters and numbers' });
+  }
+  require('policy_number', 'Insured ID (policy number)');
+  require('subscriber_relationship', 'Patient relationship to insured');
+  if (claim.subscriber_relationship && claim.subscriber_relationship !== 'Self') {
+    require('subscriber_name', 'Insured name');
+    require('subscriber_dob', 'Insured date of birth');
+  }
+
+  require('patient_first_name', 'Patient first name');
+  require('patient_last_name', 'Patient last name');
+  require('patient_dob', 'Patient date of birth');
+  require('patient_address1', 'Patient address');
+  require('patient_city', 'Patient city');
+  if (require('patient_state', 'Patient state') && !/^[A-Z]{2}$/.test(claim.patient_state || '')) {
+    issues.push({ field: 'patient_state', message: 'Patient state must be a two-letter code' });
+  }
+  if (require('patient_zip', 'Patient ZIP code') && !/^\d{5}(\d{4})?$/.test((claim.patient_zip || '').replace('-', ''))) {
+    issues.push({ field: 'patient_zip', message: 'Patient ZIP code must be 5 or 9 digits' });
+  }
+
+  if (claim.diagnosis_codes.length === 0) {
+    issues.push({ field: 'diagnosis_codes', message: 'At least one diagnosis code is required' });
+  }
+  claim.diagnosis_codes.forEach(code => {
+    if (!/^[A-Z]\d[A-Z0-9]{1,5}$/.test(stripDiagnosisCode(code))) {
+      issues.push({ field: 'diagnosis_codes', message: `"${code}" is not a valid ICD-10 code` });
+    }
+  });
+
+  if (require('cpt_code', 'CPT code') && !/^\d{4}[0-9A-Z]$/.test(claim.cpt_code || '')) {
+    issues.push({ field: 'cpt_code', message: 'CPT code must be five characters' });
+  }
+  if (!(claim.charge_amount > 0)) {
+    issues.push({ field: 'charge_amount', message: 'Charge amount must be greater than zero' });
+  }
+  if (!/^\d{2}$/.test(claim.place_of_service)) {
+    issues.push({ field: 'place_of_service', message: 'Place of service must be a two-digit code' });
+  }
+
+  require('rendering_provider_last_name', 'Rendering provider name');
+  if (!isValidNPI(claim.rendering_provider_npi)) {
+    issues.push({ field: 'rendering_provider_npi', message: 'Rendering provider NPI is missing or invalid' });
+  }
+
+  require('billing_provider_name', 'Billing provider name');
+  if (!isValidNPI(claim.billing_provider_npi)) {
+    issues.push({ field: 'billing_provider_npi', message: 'Billing provider NPI is missing or invalid' });
+  }
+  if (!/^\d{9}$/.test((claim.billing_provider_tax_id || '').replace('-', ''))) {
+    issues.push({ field: 'billing_provider_tax_id', message: 'Billing provider tax ID must be 9 digits' });
+  }
+  if (require('billing_provider_taxonomy', 'Billing provider taxonomy') && !/^[0-9A-Z]{9}X$/.test(claim.billing_provider_taxonomy || '')) {
+    issues.push({ field: 'billing_provider_taxonomy', message: 'Billing provider taxonomy must be a 10-character code ending in X' });
+  }
+  require('billing_provider_address1', 'Billing provider address');
+  require('billing_provider_city', 'Billing provider city');
+  require('billing_provider_state', 'Billing provider state');
+  if (require('billing_provider_zip', 'Billing provider ZIP code') && !/^\d{9}$/.test((claim.billing_provider_zip || '').replace('-', ''))) {
+    // 837P requires the full ZIP+4 for the billing provider
+    issues.push({ field: 'billing_provider_zip', message: 'Billing provider ZIP code must include the +4 extension' });
+  }
+
+  return issues;
+};
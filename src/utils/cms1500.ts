@@ -0,0 +1,152 @@
+import jsPDF from 'jspdf';
+import { format, parseISO } from 'date-fns';
+import type { Claim } from '@/integrations/supabase/client';
+import { getClaimTotalCharge, getSubscriberNameParts, toGenderCode } from '@/utils/claims';
+
+// Page is US Letter in points; the form body spans 36pt margins on either side
+const LEFT = 36;
+const RIGHT = 576;
+const MID = 330;
+const ROW_HEIGHT = 28;
+
+const DIAGNOSIS_LETTERS = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'I', 'J', 'K', 'L'];
+
+const formatFormDate = (date: string | null | undefined) => (date ? format(parseISO(date), 'MM dd yyyy') : '');
+
+const formatName = (last: string | null | undefined, first: string | null | undefined) =>
+  [last, first].filter(Boolean).join(', ').toUpperCase();
+
+const formatMoney = (amount: number | null | undefined) => (amount ? Number(amount).toFixed(2) : '0.00');
+
+// Draw a labelled box: small caption in the top-left, value underneath
+const drawBox = (pdf: jsPDF, x: number, y: number, width: number, height: number, label: string, value = '') => {
+  pdf.rect(x, y, width, height);
+  pdf.setFontSize(6);
+  pdf.setTextColor(140, 30, 30);
+  pdf.text(label, x + 2, y + 7, { maxWidth: width - 4 });
+  pdf.setFontSize(9);
+  pdf.setTextColor(0, 0, 0);
+  if (value) {
+    pdf.text(value, x + 4, y + height - 6, { maxWidth: width - 8 });
+  }
+};
+
+/**
+ * Render a claim onto a printable replica of the CMS-1500 (02/12) form.
+ * Box numbers follow the NUCC instructions so the printout can be keyed into
+ * a payer portal or mailed with a red-ink form underneath.
+ */
+export const generateCMS1500PDF = (claim: Claim) => {
+  const pdf = new jsPDF('p', 'pt', 'letter');
+  const subscriber = getSubscriberNameParts(claim);
+  const selfInsured = claim.subscriber_relationship === 'Self';
+  const rendering = formatName(claim.rendering_provider_last_name, claim.rendering_provider_first_name);
+  const fullWidth = RIGHT - LEFT;
+  const half = MID - LEFT;
+  const rightHalf = RIGHT - MID;
+
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(14);
+  pdf.setTextColor(140, 30, 30);
+  pdf.text('HEALTH INSURANCE CLAIM FORM', LEFT, 40);
+  pdf.setFontSize(7);
+  pdf.text('APPROVED BY NATIONAL UNIFORM CLAIM COMMITTEE (NUCC) 02/12', LEFT, 50);
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(9);
+  pdf.setTextColor(0, 0, 0);
+  pdf.text([
+    (claim.payer_name || '').toUpperCase(),
+    claim.payer_id ? `PAYER ID ${claim.payer_id.toUpperCase()}` : ''
+  ], RIGHT - 200, 32);
+
+  let y = 60;
+  drawBox(pdf, LEFT, y, half, ROW_HEIGHT, '1. MEDICARE / MEDICAID / TRICARE / CHAMPVA / GROUP HEALTH PLAN / OTHER', (claim.insurance_type || 'Group health plan').toUpperCase());
+  drawBox(pdf, MID, y, rightHalf, ROW_HEIGHT, "1a. INSURED'S I.D. NUMBER", (claim.policy_number || '').toUpperCase());
+
+  y += ROW_HEIGHT;
+  drawBox(pdf, LEFT, y, 190, ROW_HEIGHT, "2. PATIENT'S NAME (Last, First)", formatName(claim.patient_last_name, claim.patient_first_name));
+  drawBox(pdf, LEFT + 190, y, half - 190, ROW_HEIGHT, "3. PATIENT'S BIRTH DATE / SEX", `${formatFormDate(claim.patient_dob)}   ${toGenderCode(claim.patient_gender)}`);
+  drawBox(pdf, MID, y, rightHalf, ROW_HEIGHT, "4. INSURED'S NAME (Last, First)", formatName(subscriber.last, subscriber.first));
+
+  y += ROW_HEIGHT;
+  drawBox(pdf, LEFT, y, 190, ROW_HEIGHT, "5. PATIENT'S ADDRESS", (claim.patient_address1 || '').toUpperCase());
+  drawBox(pdf, LEFT + 190, y, half - 190, ROW_HEIGHT, '6. PATIENT RELATIONSHIP TO INSURED', (claim.subscriber_relationship || '').toUpperCase());
+  drawBox(pdf, MID, y, rightHalf, ROW_HEIGHT, "7. INSURED'S ADDRESS", selfInsured ? (claim.patient_address1 || '').toUpperCase() : '');
+
+  y += ROW_HEIGHT;
+  drawBox(pdf, LEFT, y, 130, ROW_HEIGHT, 'CITY', (claim.patient_city || '').toUpperCase());
+  drawBox(pdf, LEFT + 130, y, 40, ROW_HEIGHT, 'STATE', claim.patient_state || '');
+  drawBox(pdf, LEFT + 170, y, half - 170, ROW_HEIGHT, 'ZIP CODE', claim.patient_zip || '');
+  drawBox(pdf, MID, y, rightHalf, ROW_HEIGHT, 'CITY / STATE / ZIP CODE', selfInsured
+    ? [claim.patient_city, claim.patient_state, claim.patient_zip].filter(Boolean).join(' ').toUpperCase()
+    : '');
+
+  y += ROW_HEIGHT;
+  drawBox(pdf, LEFT, y, half, ROW_HEIGHT, "9. OTHER INSURED'S NAME");
+  drawBox(pdf, MID, y, rightHalf, ROW_HEIGHT, "11. INSURED'S POLICY GROUP OR FECA NUMBER", (claim.group_number || '').toUpperCase());
+
+  y += ROW_HEIGHT;
+  drawBox(pdf, LEFT, y, half, ROW_HEIGHT, "10. IS PATIENT'S CONDITION RELATED TO: EMPLOYMENT / AUTO ACCIDENT / OTHER ACCIDENT", 'NO   NO   NO');
+  drawBox(pdf, MID, y, rightHalf, ROW_HEIGHT, "11a. INSURED'S DATE OF BIRTH", formatFormDate(selfInsured ? claim.patient_dob : claim.subscriber_dob));
+
+  y += ROW_HEIGHT;
+  drawBox(pdf, LEFT, y, half, ROW_HEIGHT, '10d. CLAIM CODES');
+  drawBox(pdf, MID, y, rightHalf, ROW_HEIGHT, '11c. INSURANCE PLAN NAME OR PROGRAM NAME', (claim.payer_name || '').toUpperCase());
+
+  y += ROW_HEIGHT;
+  drawBox(pdf, LEFT, y, half, ROW_HEIGHT, "12. PATIENT'S OR AUTHORIZED PERSON'S SIGNATURE", `SIGNATURE ON FILE   ${formatFormDate(claim.service_date)}`);
+  drawBox(pdf, MID, y, rightHalf, ROW_HEIGHT, "13. INSURED'S OR AUTHORIZED PERSON'S SIGNATURE", 'SIGNATURE ON FILE');
+
+  // Box 21 holds up to twelve diagnoses in three columns of four
+  y += ROW_HEIGHT;
+  const diagnosisHeight = 56;
+  drawBox(pdf, LEFT, y, fullWidth, diagnosisHeight, '21. DIAGNOSIS OR NATURE OF ILLNESS OR INJURY (ICD Ind. 0)');
+  pdf.setFontSize(9);
+  DIAGNOSIS_LETTERS.forEach((letter, index) => {
+    const column = index % 4;
+    const row = Math.floor(index / 4);
+    const code = claim.diagnosis_codes[index] || '';
+    pdf.text(`${letter}. ${code}`, LEFT + 8 + column * 135, y + 20 + row * 13);
+  });
+
+  // Box 24 service line; with a single line, its charge is also the box 28 total
+  const totalCharge = getClaimTotalCharge(claim);
+  y += diagnosisHeight;
+  const lineColumns: { label: string; width: number; value: string }[] = [
+    { label: '24A. DATE(S) OF SERVICE', width: 110, value: `${formatFormDate(claim.service_date)} - ${formatFormDate(claim.service_date)}` },
+    { label: 'B. POS', width: 35, value: claim.place_of_service },
+    { label: 'D. CPT/HCPCS   MODIFIER', width: 95, value: [claim.cpt_code, claim.modifier].filter(Boolean).join('   ') },
+    { label: 'E. DIAG. POINTER', width: 60, value: DIAGNOSIS_LETTERS.slice(0, Math.min(claim.diagnosis_codes.length, 4)).join('') },
+    { label: 'F. $ CHARGES', width: 70, value: formatMoney(totalCharge) },
+    { label: 'G. UNITS', width: 45, value: String(claim.units) },
+    { label: 'J. RENDERING PROVIDER ID. #', width: fullWidth - 415, value: claim.rendering_provider_npi || '' }
+  ];
+  let x = LEFT;
+  lineColumns.forEach(column => {
+    drawBox(pdf, x, y, column.width, ROW_HEIGHT + 6, column.label, column.value);
+    x += column.width;
+  });
+
+  y += ROW_HEIGHT + 6;
+  drawBox(pdf, LEFT, y, 150, ROW_HEIGHT, '25. FEDERAL TAX I.D. NUMBER (EIN)', claim.billing_provider_tax_id || '');
+  drawBox(pdf, LEFT + 150, y, 140, ROW_HEIGHT, "26. PATIENT'S ACCOUNT NO.", claim.claim_number || '');
+  drawBox(pdf, LEFT + 290, y, 90, ROW_HEIGHT, '27. ACCEPT ASSIGNMENT?', 'YES');
+  drawBox(pdf, LEFT + 380, y, 80, ROW_HEIGHT, '28. TOTAL CHARGE', formatMoney(totalCharge));
+  drawBox(pdf, LEFT + 460, y, fullWidth - 460, ROW_HEIGHT, '29. AMOUNT PAID', formatMoney(claim.paid_amount));
+
+  y += ROW_HEIGHT;
+  const footerHeight = 70;
+  drawBox(pdf, LEFT, y, 180, footerHeight, '31. SIGNATURE OF PHYSICIAN OR SUPPLIER');
+  pdf.text([rendering, formatFormDate(claim.service_date)], LEFT + 4, y + 30);
+  drawBox(pdf, LEFT + 180, y, 170, footerHeight, '32. SERVICE FACILITY LOCATION INFORMATION');
+  pdf.text(claim.place_of_service === '11' ? (claim.billing_provider_name || '').toUpperCase() : 'TELEHEALTH', LEFT + 184, y + 30);
+  drawBox(pdf, LEFT + 350, y, fullWidth - 350, footerHeight, '33. BILLING PROVIDER INFO & PH #');
+  pdf.text([
+    (claim.billing_provider_name || '').toUpperCase(),
+    (claim.billing_provider_address1 || '').toUpperCase(),
+    [claim.billing_provider_city, claim.billing_provider_state, claim.billing_provider_zip].filter(Boolean).join(' ').toUpperCase(),
+    `a. NPI ${claim.billing_provider_npi || ''}`
+  ], LEFT + 354, y + 20);
+
+  pdf.save(`CMS-1500_${claim.claim_number || 'draft'}.pdf`);
+};
@@ -0,0 +1,25 @@
+type CSVValue = string | number | boolean | null | undefined;
+
+const escapeCSVValue = (value: CSVValue) => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCSV = (headers: string[], rows: CSVValue[][]) =>
+  [headers, ...rows].map(row => row.map(escapeCSVValue).join(',')).join('\r\n');
+
+export const downloadFile = (filename: string, content: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+export const downloadCSV = (filename: string, headers: string[], rows: CSVValue[][]) =>
+  downloadFile(filename, toCSV(headers, rows), 'text/csv;charset=utf-8;');
@@ -0,0 +1,143 @@
+import { differenceInHours, parseISO, startOfDay } from 'date-fns';
+import { getAppointmentOutcome } from '@/utils/practiceAnalytics';
+import { zonedTimeToInstant } from '@/utils/slotEngine';
+
+// A note is due within 24 hours of the session and overdue after 72
+export const NOTE_DUE_HOURS = 24;
+export const NOTE_OVERDUE_HOURS = 72;
+
+export interface ComplianceAppointment {
+  id: string;
+  client_id: string;
+  clinician_id: string;
+  date: string;
+  end_time: string;
+  status: string;
+  client_name: string;
+  clinician_name: string | null;
+  // IANA zone the session's date and end time are recorded in
+  clinician_timezone: string;
+  session_note: { id: string; signed_at: string | null } | null;
+}
+
+export interface ComplianceTreatmentPlan {
+  id: string;
+  client_id: string;
+  clinician_id: string;
+  review_due_date: string | null;
+  client_name: string;
+  clinician_name: string | null;
+}
+
+export type ComplianceIssueType = 'missingNote' | 'unsignedNote' | 'unclosedSession' | 'planDue';
+
+export interface ComplianceIssue {
+  id: string;
+  type: ComplianceIssueType;
+  overdue: boolean;
+  client_id: string;
+  client_name: string;
+  clinician_id: string;
+  clinician_name: string | null;
+  // Session date, or the date the treatment plan was due for review
+  date: string;
+  hoursLate: number;
+  appointment_id: string | null;
+}
+
+export const COMPLIANCE_ISSUE_LABELS: Record<ComplianceIssueType, string> = {
+  missingNote: 'No session note',
+  unsignedNote: 'Note not signed',
+  unclosedSession: 'Session still marked scheduled',
+  planDue: 'Treatment plan review due'
+};
+
+/**
+ * Kept sessions without a note, notes left unsigned for more than
+ * NOTE_DUE_HOURS, past sessions whose status was never updated from scheduled,
+ * and active treatment plans past their review date.
+ */
+export const getComplianceIssues = (
+  appointments: ComplianceAppointment[],
+  treatmentPlans: ComplianceTreatmentPlan[],
+  now = new Date()
+): ComplianceIssue[] => {
+  const issues: ComplianceIssue[] = [];
+
+  appointments.forEach(appointment => {
+    const outcome = getAppointmentOutcome(appointment.status);
+    if (outcome !== 'kept' && outcome !== 'scheduled') return;
+
+    const hoursLate = differenceInHours(now, zonedTimeToInstant(appointment.date, appointment.end_time, appointment.clinician_timezone));
+    if (hoursLate < 0) return;
+
+    let type: ComplianceIssueType;
+    if (outcome === 'scheduled') {
+      type = 'unclosedSession';
+    } else if (appointment.session_note?.signed_at) {
+      return;
+    } else {
+      type = appointment.session_note ? 'unsignedNote' : 'missingNote';
+      if (type === 'unsignedNote' && hoursLate < NOTE_DUE_HOURS) return;
+    }
+
+    issues.push({
+      id: appointment.id,
+      type,
+      overdue: hoursLate >= NOTE_OVERDUE_HOURS,
+      client_id: appointment.client_id,
+      client_name: appointment.client_name,
+      clinician_id: appointment.clinician_id,
+      clinician_name: appointment.clinician_name,
+      date: appointment.date,
+      hoursLate,
+      appointment_id: appointment.id
+    });
+  });
+
+  treatmentPlans.forEach(plan => {
+    if (!plan.review_due_date) return;
+    const dueDate = parseISO(plan.review_due_date);
+    if (dueDate >= startOfDay(now)) return;
+
+    issues.push({
+      id: plan.id,
+      type: 'planDue',
+      overdue: true,
+      client_id: plan.client_id,
+      client_name: plan.client_name,
+      clinician_id: plan.clinician_id,
+      clinician_name: plan.clinician_name,
+      date: plan.review_due_date,
+      hoursLate: differenceInHours(now, dueDate),
+      appointment_id: null
+    });
+  });
+
+  return issues.sort((a, b) => b.hoursLate - a.hoursLate);
+};
+
+export interface ClinicianComplianceSummary {
+  clinician_id: string;
+  clinician_name: string | null;
+  counts: Record<ComplianceIssueType, number>;
+  overdue: number;
+}
+
+// Issue counts per clinician, worst first, for the practice-wide view
+export const summarizeComplianceByClinician = (issues: ComplianceIssue[]): ClinicianComplianceSummary[] => {
+  const summaries = new Map<string, ClinicianComplianceSummary>();
+  issues.forEach(issue => {
+    const summary = summaries.get(issue.clinician_id) || {
+      clinician_id: issue.clinician_id,
+      clinician_name: issue.clinician_name,
+      counts: { missingNote: 0, unsignedNote: 0, unclosedSession: 0, planDue: 0 },
+      overdue: 0
+    };
+    summary.counts[issue.type]++;
+    if (issue.overdue) summary.overdue++;
+    summaries.set(issue.clinician_id, summary);
+  });
+
+  return Array.from(summaries.values()).sort((a, b) => b.overdue - a.overdue);
+};
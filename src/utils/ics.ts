@@ -0,0 +1,7 @@
+import { downloadFile } from './csvExport';
+
+// The iCalendar builder lives with the edge functions so the calendar feed can use it too
+export * from '../../supabase/functions/_shared/ics.ts';
+
+export const downloadICS = (filename: string, content: string) =>
+  downloadFile(filename, content, 'text/calendar;charset=utf-8;');
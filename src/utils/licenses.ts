@@ -0,0 +1,49 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+
+export const LICENSE_TYPES = ['LPC', 'LCSW', 'LMHT', 'LMFT', 'Psychologist', 'SLP'];
+
+// Days before expiration at which a license is flagged
+export const LICENSE_WARNING_DAYS = 60;
+export const LICENSE_CRITICAL_DAYS = 30;
+
+export type LicenseExpiryStatus = 'expired' | 'critical' | 'warning' | 'active' | 'no_expiration';
+
+export const LICENSE_STATUS_LABELS: Record<LicenseExpiryStatus, string> = {
+  expired: 'Expired',
+  critical: 'Expires within 30 days',
+  warning: 'Expires within 60 days',
+  active: 'Active',
+  no_expiration: 'No expiration on file'
+};
+
+export const LICENSE_STATUS_STYLES: Record<LicenseExpiryStatus, string> = {
+  expired: 'bg-red-100 text-red-800',
+  critical: 'bg-orange-100 text-orange-800',
+  warning: 'bg-amber-100 text-amber-800',
+  active: 'bg-green-100 text-green-800',
+  no_expiration: 'bg-gray-100 text-gray-800'
+};
+
+export const getDaysUntilExpiration = (expirationDate: string | null, today = new Date()) =>
+  expirationDate ? differenceInCalendarDays(parseISO(expirationDate), today) : null;
+
+export const getLicenseExpiryStatus = (expirationDate: string | null, today = new Date()): LicenseExpiryStatus => {
+  const daysLeft = getDaysUntilExpiration(expirationDate, today);
+  if (daysLeft === null) return 'no_expiration';
+  if (daysLeft < 0) return 'expired';
+  if (daysLeft <= LICENSE_CRITICAL_DAYS) return 'critical';
+  if (daysLeft <= LICENSE_WARNING_DAYS) return 'warning';
+  return 'active';
+};
+
+// A license counts on the given date unless it has already lapsed; matches the database sync
+export const isLicenseActive = (license: { expiration_date: string | null }, date = new Date()) =>
+  getLicenseExpiryStatus(license.expiration_date, date) !== 'expired';
+
+// Raised by the appointments trigger when a booking isn't covered by a license
+export const LICENSURE_ERROR = 'LICENSURE_REQUIRED';
+
+// Matches both the raw database error and the book-appointment function's error code
+export const isLicensureError = (error: unknown) =>
+  !!error && typeof error === 'object' &&
+  ((error as { message?: string }).message === LICENSURE_ERROR || (error as { code?: string }).code === LICENSURE_ERROR);
@@ -0,0 +1,119 @@
+export type OutcomeMeasureKey = 'phq9' | 'gad7' | 'pcl5';
+
+export interface SeverityBand {
+  label: string;
+  min: number;
+  max: number;
+  color: string;
+}
+
+export interface OutcomeMeasure {
+  key: OutcomeMeasureKey;
+  label: string;
+  maxScore: number;
+  bands: SeverityBand[];
+  // Smallest score change that exceeds measurement error (reliable change index)
+  reliableChange: number;
+  // Scores at or above this value are in the clinical range
+  clinicalCutoff: number;
+}
+
+export interface OutcomeScore {
+  date: string;
+  score: number;
+}
+
+export interface ChangeIndicators {
+  baseline: OutcomeScore;
+  latest: OutcomeScore;
+  change: number;
+  reliableImprovement: boolean;
+  reliableDeterioration: boolean;
+  clinicallySignificantImprovement: boolean;
+}
+
+/**
+ * Scoring conventions for the standardized measures we collect.
+ * Lower scores are better on all three instruments.
+ */
+export const OUTCOME_MEASURES: Record<OutcomeMeasureKey, OutcomeMeasure> = {
+  phq9: {
+    key: 'phq9',
+    label: 'PHQ-9',
+    maxScore: 27,
+    bands: [
+      { label: 'None-minimal', min: 0, max: 4, color: '#dcfce7' },
+      { label: 'Mild', min: 5, max: 9, color: '#fef9c3' },
+      { label: 'Moderate', min: 10, max: 14, color: '#fed7aa' },
+      { label: 'Moderately severe', min: 15, max: 19, color: '#fecaca' },
+      { label: 'Severe', min: 20, max: 27, color: '#fca5a5' }
+    ],
+    reliableChange: 6,
+    clinicalCutoff: 10
+  },
+  gad7: {
+    key: 'gad7',
+    label: 'GAD-7',
+    maxScore: 21,
+    bands: [
+      { label: 'Minimal', min: 0, max: 4, color: '#dcfce7' },
+      { label: 'Mild', min: 5, max: 9, color: '#fef9c3' },
+      { label: 'Moderate', min: 10, max: 14, color: '#fed7aa' },
+      { label: 'Severe', min: 15, max: 21, color: '#fca5a5' }
+    ],
+    reliableChange: 4,
+    clinicalCutoff: 10
+  },
+  pcl5: {
+    key: 'pcl5',
+    label: 'PCL-5',
+    maxScore: 80,
+    bands: [
+      { label: 'Below threshold', min: 0, max: 32, color: '#dcfce7' },
+      { label: 'Probable PTSD', min: 33, max: 80, color: '#fca5a5' }
+    ],
+    reliableChange: 10,
+    clinicalCutoff: 33
+  }
+};
+
+/**
+ * Find the severity band a score falls into
+ */
+export const getSeverityBand = (measure: OutcomeMeasure, score: number): SeverityBand | null => {
+  return measure.bands.find(band => score >= band.min && score <= band.max) || null;
+};
+
+/**
+ * Compare the first and most recent scores using the Jacobson-Truax criteria:
+ * a change is reliable when it exceeds the measure's reliable change index, and
+ * clinically significant when it is a reliable improvement that also moves the
+ * client from the clinical range to below the cutoff.
+ */
+export const calculateChangeIndicators = (
+  measure: OutcomeMeasure,
+  scores: OutcomeScore[]
+): ChangeIndicators | null => {
+  if (scores.length < 2) return null;
+
+  const sorted = [...scores].sort((a, b) => a.date.localeCompare(b.date));
+  const baseline = sorted[0];
+  const latest = sorted[sorted.length - 1];
+  const change = latest.score - baseline.score;
+
+  const reliableImprovement = change <= -measure.reliableChange;
+  const reliableDeterioration = change >= measure.reliableChange;
+  const clinicallySignificantImprovement =
+    reliableImprovement &&
+    baseline.score >= measure.clinicalCutoff &&
+    latest.score < measure.clinicalCutoff;
+
+  return {
+    baseline,
+    latest,
+    change,
+    reliableImprovement,
+    reliableDeterioration,
+    clinicallySignificantImprovement
+  };
+};
@@ -0,0 +1,213 @@
+import { eachDayOfInterval, format, parseISO } from 'date-fns';
+
+export interface AnalyticsAppointment {
+  id: string;
+  client_id: string;
+  clinician_id: string;
+  date: string;
+  start_time: string;
+  end_time: string;
+  type: string;
+  status: string;
+}
+
+export interface AnalyticsAvailability {
+  clinician_id: string | null;
+  day_of_week: string;
+  start_time: string;
+  end_time: string;
+  is_active: boolean | null;
+}
+
+export interface AnalyticsClient {
+  id: string;
+  created_at: string;
+  client_status: string | null;
+}
+
+export interface AnalyticsCPTCode {
+  code: string;
+  name: string;
+  fee: number;
+  clinical_type: string | null;
+  status?: string | null;
+}
+
+/**
+ * How an appointment turned out. "lateCancel" and "noShow" are the
+ * "session did not occur" outcomes recorded from the clinician dashboard;
+ * lowercase "cancelled" is an appointment cancelled ahead of time.
+ */
+export type AppointmentOutcome = 'kept' | 'scheduled' | 'cancelled' | 'lateCancel' | 'noShow';
+
+export const getAppointmentOutcome = (status: string): AppointmentOutcome => {
+  switch (status) {
+    case 'Documented':
+      return 'kept';
+    case 'No Call/No Show':
+      return 'noShow';
+    case 'Cancelled':
+      return 'lateCancel';
+    case 'cancelled':
+      return 'cancelled';
+    default:
+      return 'scheduled';
+  }
+};
+
+export const OUTCOME_LABELS: Record<AppointmentOutcome, string> = {
+  kept: 'Kept',
+  scheduled: 'Scheduled',
+  cancelled: 'Cancelled',
+  lateCancel: 'Late Cancel',
+  noShow: 'No Call/No Show'
+};
+
+export interface AppointmentSummary {
+  total: number;
+  counts: Record<AppointmentOutcome, number>;
+  // Share of sessions that should have happened and did
+  showRate: number | null;
+  noShowRate: number | null;
+  cancellationRate: number | null;
+}
+
+const ratio = (part: number, whole: number) => (whole > 0 ? part / whole : null);
+
+export const summarizeAppointments = (appointments: AnalyticsAppointment[]): AppointmentSummary => {
+  const counts: Record<AppointmentOutcome, number> = { kept: 0, scheduled: 0, cancelled: 0, lateCancel: 0, noShow: 0 };
+  appointments.forEach(appointment => {
+    counts[getAppointmentOutcome(appointment.status)]++;
+  });
+
+  const resolved = counts.kept + counts.noShow + counts.lateCancel;
+
+  return {
+    total: appointments.length,
+    counts,
+    showRate: ratio(counts.kept, resolved),
+    noShowRate: ratio(counts.noShow, resolved),
+    cancellationRate: ratio(counts.cancelled + counts.lateCancel, appointments.length)
+  };
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+const durationHours = (start: string, end: string) => Math.max(0, toMinutes(end) - toMinutes(start)) / 60;
+
+export interface ClinicianUtilization {
+  clinicianId: string;
+  availableHours: number;
+  bookedHours: number;
+  keptHours: number;
+  utilization: number | null;
+}
+
+/**
+ * Compare booked time with each clinician's weekly availability repeated over
+ * the date range. Cancelled appointments don't count as booked time.
+ */
+export const calculateUtilization = (
+  appointments: AnalyticsAppointment[],
+  availability: AnalyticsAvailability[],
+  clinicianIds: string[],
+  startDate: string,
+  endDate: string
+): ClinicianUtilization[] => {
+  const dayCounts: Record<string, number> = {};
+  eachDayOfInterval({ start: parseISO(startDate), end: parseISO(endDate) }).forEach(day => {
+    const dayName = format(day, 'EEEE');
+    dayCounts[dayName] = (dayCounts[dayName] || 0) + 1;
+  });
+
+  return clinicianIds.map(clinicianId => {
+    const availableHours = availability
+      .filter(block => block.clinician_id === clinicianId && block.is_active !== false)
+      .reduce((sum, block) => sum + durationHours(block.start_time, block.end_time) * (dayCounts[block.day_of_week] || 0), 0);
+
+    const clinicianAppointments = appointments.filter(appointment => appointment.clinician_id === clinicianId);
+    const bookedHours = clinicianAppointments
+      .filter(appointment => getAppointmentOutcome(appointment.status) !== 'cancelled')
+      .reduce((sum, appointment) => sum + durationHours(appointment.start_time, appointment.end_time), 0);
+    const keptHours = clinicianAppointments
+      .filter(appointment => getAppointmentOutcome(appointment.status) === 'kept')
+      .reduce((sum, appointment) => sum + durationHours(appointment.start_time, appointment.end_time), 0);
+
+    return {
+      clinicianId,
+      availableHours,
+      bookedHours,
+      keptHours,
+      utilization: ratio(bookedHours, availableHours)
+    };
+  });
+};
+
+export interface MonthlyNewClients {
+  month: string;
+  total: number;
+  byStatus: Record<string, number>;
+}
+
+export const countNewClientsByMonth = (clients: AnalyticsClient[]): MonthlyNewClients[] => {
+  const months = new Map<string, MonthlyNewClients>();
+
+  clients.forEach(client => {
+    const month = format(parseISO(client.created_at), 'yyyy-MM');
+    const status = client.client_status || 'Unknown';
+    const entry = months.get(month) || { month, total: 0, byStatus: {} };
+    entry.total++;
+    entry.byStatus[status] = (entry.byStatus[status] || 0) + 1;
+    months.set(month, entry);
+  });
+
+  return Array.from(months.values()).sort((a, b) => a.month.localeCompare(b.month));
+};
+
+/**
+ * Appointment types are matched to the CPT code whose clinical type (or,
+ * failing that, name) equals the appointment type. Inactive codes are ignored.
+ */
+export const findCPTCodeForType = <T extends AnalyticsCPTCode>(type: string, cptCodes: T[]): T | null => {
+  const active = cptCodes.filter(code => code.status?.toLowerCase() !== 'inactive');
+  return active.find(code => code.clinical_type === type) || active.find(code => code.name === type) || null;
+};
+
+export const findFeeForType = (type: string, cptCodes: AnalyticsCPTCode[]): number | null => {
+  const match = findCPTCodeForType(type, cptCodes);
+  return match ? Number(match.fee) : null;
+};
+
+export interface RevenueSummary {
+  realized: number;
+  projected: number;
+  missed: number;
+  unpricedTypes: string[];
+}
+
+export const calculateRevenue = (appointments: AnalyticsAppointment[], cptCodes: AnalyticsCPTCode[]): RevenueSummary => {
+  const summary: RevenueSummary = { realized: 0, projected: 0, missed: 0, unpricedTypes: [] };
+
+  appointments.forEach(appointment => {
+    const fee = findFeeForType(appointment.type, cptCodes);
+    if (fee === null) {
+      if (!summary.unpricedTypes.includes(appointment.type)) summary.unpricedTypes.push(appointment.type);
+      return;
+    }
+
+    const outcome = getAppointmentOutcome(appointment.status);
+    if (outcome === 'kept') {
+      summary.realized += fee;
+      summary.projected += fee;
+    } else if (outcome === 'scheduled') {
+      summary.projected += fee;
+    } else if (outcome === 'noShow' || outcome === 'lateCancel') {
+      summary.missed += fee;
+    }
+  });
+
+  return summary;
+};
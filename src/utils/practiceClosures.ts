@@ -0,0 +1,39 @@
+import { addDays, format, getDay, lastDayOfMonth } from 'date-fns';
+
+export interface PracticeHoliday {
+  date: string;
+  name: string;
+}
+
+// The nth (1-based) weekday of a month, e.g. the third Monday of January
+const nthWeekday = (year: number, month: number, weekday: number, n: number) => {
+  const first = new Date(year, month, 1);
+  return addDays(first, ((weekday - getDay(first) + 7) % 7) + (n - 1) * 7);
+};
+
+const lastWeekday = (year: number, month: number, weekday: number) => {
+  const last = lastDayOfMonth(new Date(year, month, 1));
+  return addDays(last, -((getDay(last) - weekday + 7) % 7));
+};
+
+// Fixed-date holidays on a weekend are observed on the Friday before or the Monday after
+const observed = (year: number, month: number, day: number) => {
+  const date = new Date(year, month, day);
+  const weekday = getDay(date);
+  return weekday === 6 ? addDays(date, -1) : weekday === 0 ? addDays(date, 1) : date;
+};
+
+// US federal holidays for a year, on their observed dates
+export const getFederalHolidays = (year: number): PracticeHoliday[] => [
+  { date: observed(year, 0, 1), name: "New Year's Day" },
+  { date: nthWeekday(year, 0, 1, 3), name: 'Martin Luther King Jr. Day' },
+  { date: nthWeekday(year, 1, 1, 3), name: "Presidents' Day" },
+  { date: lastWeekday(year, 4, 1), name: 'Memorial Day' },
+  { date: observed(year, 5, 19), name: 'Juneteenth' },
+  { date: observed(year, 6, 4), name: 'Independence Day' },
+  { date: nthWeekday(year, 8, 1, 1), name: 'Labor Day' },
+  { date: nthWeekday(year, 9, 1, 2), name: 'Columbus Day' },
+  { date: observed(year, 10, 11), name: 'Veterans Day' },
+  { date: nthWeekday(year, 10, 4, 4), name: 'Thanksgiving Day' },
+  { date: observed(year, 11, 25), name: 'Christmas Day' }
+].map(holiday => ({ date: format(holiday.date, 'yyyy-MM-dd'), name: holiday.name }));
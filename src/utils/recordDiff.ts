@@ -0,0 +1,25 @@
+export type FieldChanges = Record<string, { before: unknown; after: unknown }>;
+
+const normalize = (value: unknown) => (value === undefined || value === '' ? null : value);
+
+/**
+ * Field-level differences between two versions of a record. Only keys present
+ * in `after` are compared, so partial updates only report the fields they set.
+ * Empty strings and missing values are treated as null.
+ */
+export const getChangedFields = (
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown>
+): FieldChanges => {
+  const changes: FieldChanges = {};
+
+  Object.keys(after).forEach(key => {
+    const previous = normalize(before?.[key]);
+    const next = normalize(after[key]);
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes[key] = { before: previous, after: next };
+    }
+  });
+
+  return changes;
+};
@@ -0,0 +1,194 @@
+import { addDays, format, getDay, parseISO } from 'date-fns';
+
+/**
+ * Recurring series are stored on each of their appointments (appointment_recurring)
+ * as iCalendar-style lines, e.g.
+ *
+ *   DTSTART;VALUE=DATE:20261020
+ *   RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH;COUNT=12
+ *   EXDATE;VALUE=DATE:20261124
+ *
+ * Only weekly rules are supported. As in iCalendar, COUNT includes the
+ * exception dates, which are occurrences that were skipped or removed.
+ */
+
+export const RECURRENCE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const;
+export type RecurrenceWeekday = typeof RECURRENCE_WEEKDAYS[number];
+
+export const RECURRENCE_WEEKDAY_LABELS: Record<RecurrenceWeekday, string> = {
+  SU: 'Sun',
+  MO: 'Mon',
+  TU: 'Tue',
+  WE: 'Wed',
+  TH: 'Thu',
+  FR: 'Fri',
+  SA: 'Sat'
+};
+
+export interface RecurrenceRule {
+  // First date of the series (yyyy-MM-dd)
+  start: string;
+  // Weeks between repeats
+  interval: number;
+  weekdays: RecurrenceWeekday[];
+  // Ends after this many occurrences, or on this date (inclusive); neither means open-ended
+  count?: number | null;
+  until?: string | null;
+  exceptionDates: string[];
+}
+
+// Upper bound on the sessions one rule generates, whatever its end
+export const MAX_RECURRENCE_OCCURRENCES = 104;
+
+// Series booked before rules were stored only recorded one of these
+const LEGACY_INTERVALS: Record<string, number> = {
+  weekly: 1,
+  biweekly: 2,
+  monthly: 4
+};
+
+const shiftDate = (date: string, days: number) => format(addDays(parseISO(date), days), 'yyyy-MM-dd');
+const toICSDate = (date: string) => date.replace(/-/g, '');
+const fromICSDate = (value: string) => `${value.substring(0, 4)}-${value.substring(4, 6)}-${value.substring(6, 8)}`;
+const weekdayIndex = (weekday: RecurrenceWeekday) => RECURRENCE_WEEKDAYS.indexOf(weekday);
+const sortWeekdays = (weekdays: RecurrenceWeekday[]) =>
+  [...new Set(weekdays)].sort((a, b) => weekdayIndex(a) - weekdayIndex(b));
+
+export const getRecurrenceWeekday = (date: string): RecurrenceWeekday => RECURRENCE_WEEKDAYS[getDay(parseISO(date))];
+
+export const formatRecurrenceRule = (rule: RecurrenceRule) => {
+  const parts = ['FREQ=WEEKLY', `INTERVAL=${rule.interval}`, `BYDAY=${sortWeekdays(rule.weekdays).join(',')}`];
+  if (rule.count) {
+    parts.push(`COUNT=${rule.count}`);
+  } else if (rule.until) {
+    parts.push(`UNTIL=${toICSDate(rule.until)}`);
+  }
+
+  const lines = [`DTSTART;VALUE=DATE:${toICSDate(rule.start)}`, `RRULE:${parts.join(';')}`];
+  if (rule.exceptionDates.length > 0) {
+    lines.push(`EXDATE;VALUE=DATE:${[...new Set(rule.exceptionDates)].sort().map(toICSDate).join(',')}`);
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Reads a stored rule. fallbackStart is used when the value has no DTSTART,
+ * as with legacy 'weekly'/'biweekly'/'monthly' values, whose end wasn't recorded.
+ */
+export const parseRecurrenceRule = (value: string | null | undefined, fallbackStart: string): RecurrenceRule | null => {
+  if (!value) return null;
+
+  if (LEGACY_INTERVALS[value]) {
+    return {
+      start: fallbackStart,
+      interval: LEGACY_INTERVALS[value],
+      weekdays: [getRecurrenceWeekday(fallbackStart)],
+      exceptionDates: []
+    };
+  }
+
+  const lines = value.split(/\r?\n/);
+  const getValue = (name: string) => {
+    const line = lines.find(l => l.startsWith(`${name}:`) || l.startsWith(`${name};`));
+    return line ? line.substring(line.indexOf(':') + 1) : null;
+  };
+
+  const rrule = getValue('RRULE');
+  if (!rrule) return null;
+
+  const properties = Object.fromEntries(rrule.split(';').map(part => part.split('=')));
+  if (properties.FREQ !== 'WEEKLY') return null;
+
+  const dtstart = getValue('DTSTART');
+  const start = dtstart ? fromICSDate(dtstart) : fallbackStart;
+  const weekdays = properties.BYDAY
+    ? (properties.BYDAY.split(',') as RecurrenceWeekday[]).filter(day => RECURRENCE_WEEKDAYS.includes(day))
+    : [getRecurrenceWeekday(start)];
+  const exdate = getValue('EXDATE');
+
+  return {
+    start,
+    interval: Math.max(1, Number(properties.INTERVAL) || 1),
+    weekdays: sortWeekdays(weekdays),
+    count: properties.COUNT ? Number(properties.COUNT) : null,
+    until: properties.UNTIL ? fromICSDate(properties.UNTIL) : null,
+    exceptionDates: exdate ? exdate.split(',').map(fromICSDate) : []
+  };
+};
+
+// Every date the rule generates in order, exception dates included
+export const getRecurrenceDates = (rule: RecurrenceRule): string[] => {
+  const dates: string[] = [];
+  const weekdays = sortWeekdays(rule.weekdays).map(weekdayIndex);
+  if (weekdays.length === 0 || rule.interval < 1) return dates;
+
+  const limit = Math.min(rule.count || MAX_RECURRENCE_OCCURRENCES, MAX_RECURRENCE_OCCURRENCES);
+  // Weeks are counted from the Sunday on or before the start
+  const firstWeek = shiftDate(rule.start, -getDay(parseISO(rule.start)));
+
+  for (let week = 0; dates.length < limit; week += rule.interval) {
+    for (const weekday of weekdays) {
+      const date = shiftDate(firstWeek, week * 7 + weekday);
+      if (date < rule.start) continue;
+      if (rule.until && date > rule.until) return dates;
+      dates.push(date);
+      if (dates.length >= limit) return dates;
+    }
+  }
+
+  return dates;
+};
+
+// The dates that get a session: everything generated except the exceptions
+export const getRecurrenceOccurrences = (rule: RecurrenceRule) =>
+  getRecurrenceDates(rule).filter(date => !rule.exceptionDates.includes(date));
+
+export const describeRecurrence = (rule: RecurrenceRule) => {
+  const frequency = rule.interval === 1 ? 'Weekly' : `Every ${rule.interval} weeks`;
+  const days = sortWeekdays(rule.weekdays).map(day => RECURRENCE_WEEKDAY_LABELS[day]).join(', ');
+  const end = rule.count
+    ? `, ${rule.count} time${rule.count === 1 ? '' : 's'}`
+    : rule.until
+      ? `, until ${format(parseISO(rule.until), 'MMM d, yyyy')}`
+      : '';
+  return `${frequency} on ${days}${end}`;
+};
+
+export const addRecurrenceException = (rule: RecurrenceRule, date: string): RecurrenceRule => ({
+  ...rule,
+  exceptionDates: [...new Set([...rule.exceptionDates, date])].sort()
+});
+
+/**
+ * Splits a series at one of its occurrences for "this and following" edits.
+ * The first part ends the day before; the second starts on the split date and
+ * keeps what's left of the original end.
+ */
+export const splitRecurrenceRule = (rule: RecurrenceRule, splitDate: string) => {
+  const before: RecurrenceRule = {
+    ...rule,
+    count: null,
+    until: shiftDate(splitDate, -1),
+    exceptionDates: rule.exceptionDates.filter(date => date < splitDate)
+  };
+
+  const after: RecurrenceRule = {
+    ...rule,
+    start: splitDate,
+    count: rule.count ? rule.count - getRecurrenceDates(rule).filter(date => date < splitDate).length : null,
+    exceptionDates: rule.exceptionDates.filter(date => date >= splitDate)
+  };
+
+  return { before, after };
+};
+
+// The same pattern moved by a number of days, weekdays included
+export const shiftRecurrenceRule = (rule: RecurrenceRule, days: number): RecurrenceRule => ({
+  ...rule,
+  start: shiftDate(rule.start, days),
+  weekdays: sortWeekdays(rule.weekdays.map(day =>
+    RECURRENCE_WEEKDAYS[(((weekdayIndex(day) + days) % 7) + 7) % 7]
+  )),
+  until: rule.until ? shiftDate(rule.until, days) : rule.until,
+  exceptionDates: rule.exceptionDates.map(date => shiftDate(date, days))
+});
@@ -0,0 +1,2 @@
+// The slot engine lives with the edge functions so Deno can import it too
+export * from '../../supabase/functions/_shared/slotEngine.ts';
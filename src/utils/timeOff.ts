@@ -0,0 +1,27 @@
+export const TIME_OFF_TYPES = ['vacation', 'continuing_education', 'sick', 'other'];
+
+export const TIME_OFF_TYPE_LABELS: Record<string, string> = {
+  vacation: 'Vacation',
+  continuing_education: 'CE Day',
+  sick: 'Sick Day',
+  other: 'Time Off'
+};
+
+export interface TimeOffRange {
+  start_date: string;
+  end_date: string;
+  time_off_type?: string;
+  note?: string | null;
+  is_active?: boolean | null;
+}
+
+// The block covering a yyyy-MM-dd date, if any; both ends of a block are days off
+export const getTimeOffForDate = <T extends TimeOffRange>(date: string, blocks: T[]): T | undefined =>
+  blocks.find(block =>
+    block.is_active !== false &&
+    block.start_date.substring(0, 10) <= date &&
+    block.end_date.substring(0, 10) >= date
+  );
+
+export const getTimeOffLabel = (block: TimeOffRange) =>
+  TIME_OFF_TYPE_LABELS[block.time_off_type || 'other'] || TIME_OFF_TYPE_LABELS.other;
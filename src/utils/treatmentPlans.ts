@@ -0,0 +1,77 @@
+import { addMonths, isValid, parse } from 'date-fns';
+
+export type TreatmentPlanStatus = 'active' | 'superseded';
+
+export type PlanObjectiveKey = 'primary' | 'secondary' | 'tertiary';
+
+export const PLAN_OBJECTIVES: { key: PlanObjectiveKey; label: string; field: 'primary_objective' | 'secondary_objective' | 'tertiary_objective' }[] = [
+  { key: 'primary', label: 'Primary Objective', field: 'primary_objective' },
+  { key: 'secondary', label: 'Secondary Objective', field: 'secondary_objective' },
+  { key: 'tertiary', label: 'Tertiary Objective', field: 'tertiary_objective' }
+];
+
+export type ObjectiveProgressStatus = 'achieved' | 'progressing' | 'no_change' | 'discontinued';
+
+export const OBJECTIVE_PROGRESS_LABELS: Record<ObjectiveProgressStatus, string> = {
+  achieved: 'Achieved',
+  progressing: 'Progressing',
+  no_change: 'No change',
+  discontinued: 'Discontinued'
+};
+
+// How the client did on one objective of the plan being replaced
+export interface ObjectiveProgress {
+  objective: PlanObjectiveKey;
+  text: string;
+  status: ObjectiveProgressStatus;
+  note: string;
+}
+
+type PlanObjectives = Partial<Record<'primary_objective' | 'secondary_objective' | 'tertiary_objective', string | null>>;
+
+// The objectives a plan actually has, in order
+export const getPlanObjectives = (plan: PlanObjectives) =>
+  PLAN_OBJECTIVES
+    .map(({ key, label, field }) => ({ key, label, text: (plan[field] || '').trim() }))
+    .filter(objective => !!objective.text);
+
+const NEXT_UPDATE_FORMATS = ['yyyy-MM-dd', 'MM/dd/yyyy', 'M/d/yyyy', 'MMMM d, yyyy', 'MMM d, yyyy'];
+
+/**
+ * "Next treatment plan update" is free text. Dates in the usual formats are
+ * recognised; anything else ("in 3 months") can't be tracked and returns null.
+ * Keep in step with parse_treatment_plan_next_update in the database.
+ */
+export const parseNextUpdateDate = (value: string | null | undefined) => {
+  const text = (value || '').trim();
+  if (!text) return null;
+  for (const pattern of NEXT_UPDATE_FORMATS) {
+    const date = parse(text, pattern, new Date());
+    if (isValid(date)) return date;
+  }
+  return null;
+};
+
+// Plan lengths are stored as '3month', '6month' and so on
+export const getPlanLengthMonths = (planLength: string | null | undefined) => {
+  const match = (planLength || '').match(/^(\d+)month$/);
+  return match ? parseInt(match[1], 10) : null;
+};
+
+export const formatPlanLength = (planLength: string | null | undefined) => {
+  const months = getPlanLengthMonths(planLength);
+  return months ? `${months} month` : planLength || '';
+};
+
+/**
+ * When a plan needs reviewing: the "next update" date if the clinician wrote
+ * one, otherwise the end of the plan length. treatment_plan_review_due_date
+ * applies the same rule in the database.
+ */
+export const getPlanReviewDueDate = (startDate: Date, planLength: string, nextUpdate: string) => {
+  const nextUpdateDate = parseNextUpdateDate(nextUpdate);
+  if (nextUpdateDate) return nextUpdateDate;
+
+  const months = getPlanLengthMonths(planLength);
+  return months ? addMonths(startDate, months) : null;
+};
@@ -0,0 +1,37 @@
+import { formatTime12Hour } from '@/utils/timeZoneUtils';
+
+// Stored as full day names to match the database's to_char(date, 'Day')
+export const WAITLIST_DAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+export interface WaitlistPreferences {
+  preferred_days: string[];
+  earliest_time: string | null;
+  latest_time: string | null;
+}
+
+export const describeWaitlistPreferences = (entry: WaitlistPreferences) => {
+  const days = entry.preferred_days.length === 0 || entry.preferred_days.length === WAITLIST_DAYS.length
+    ? 'Any day'
+    : WAITLIST_DAYS.filter(day => entry.preferred_days.includes(day)).map(day => day.substring(0, 3)).join(', ');
+
+  let times = 'any time';
+  if (entry.earliest_time && entry.latest_time) {
+    times = `${formatTime12Hour(entry.earliest_time)} – ${formatTime12Hour(entry.latest_time)}`;
+  } else if (entry.earliest_time) {
+    times = `after ${formatTime12Hour(entry.earliest_time)}`;
+  } else if (entry.latest_time) {
+    times = `before ${formatTime12Hour(entry.latest_time)}`;
+  }
+
+  return `${days}, ${times}`;
+};
+
+export const WAITLIST_OFFER_ERROR_MESSAGES: Record<string, string> = {
+  WAITLIST_OFFER_NOT_FOUND: "We couldn't find this offer. Check that you're signed in to the account it was sent to.",
+  WAITLIST_OFFER_UNAVAILABLE: 'This offer has expired or was already answered.',
+  SLOT_CONFLICT: 'Sorry, this time was just taken.',
+  LICENSURE_REQUIRED: "Your clinician can't see you on this date. Please contact the clinic."
+};
+
+export const getWaitlistOfferErrorMessage = (code?: string) =>
+  (code && WAITLIST_OFFER_ERROR_MESSAGES[code]) || 'Something went wrong. Please try again.';
@@ -0,0 +1,94 @@
+// iCalendar (RFC 5545) output shared by the calendar-feed edge function and the
+// web app's single-appointment downloads. Events are written in UTC, so no
+// VTIMEZONE blocks are needed.
+//
+// Calendars synced to personal accounts leave the practice's control, so
+// appointment events carry no client names or clinical details.
+
+import { zonedTimeToInstant } from './slotEngine.ts';
+
+export interface ICSEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  url?: string;
+  status?: 'CONFIRMED' | 'CANCELLED';
+}
+
+export interface ICSAppointment {
+  id: string;
+  date: string;
+  start_time: string;
+  end_time: string;
+  status: string;
+}
+
+const PRODUCT_ID = '-//ValorWell//Calendar//EN';
+const MAX_LINE_LENGTH = 75;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// 20261019T143000Z
+export const formatICSDate = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+  `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+export const escapeICSText = (text: string) =>
+  text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// Long lines continue on the next line after a single leading space
+const foldLine = (line: string) => {
+  if (line.length <= MAX_LINE_LENGTH) return line;
+  const parts = [line.substring(0, MAX_LINE_LENGTH)];
+  for (let i = MAX_LINE_LENGTH; i < line.length; i += MAX_LINE_LENGTH - 1) {
+    parts.push(` ${line.substring(i, i + MAX_LINE_LENGTH - 1)}`);
+  }
+  return parts.join('\r\n');
+};
+
+const buildEventLines = (event: ICSEvent, now: Date) => [
+  'BEGIN:VEVENT',
+  `UID:${event.uid}`,
+  `DTSTAMP:${formatICSDate(now)}`,
+  `DTSTART:${formatICSDate(event.start)}`,
+  `DTEND:${formatICSDate(event.end)}`,
+  `SUMMARY:${escapeICSText(event.summary)}`,
+  ...(event.description ? [`DESCRIPTION:${escapeICSText(event.description)}`] : []),
+  ...(event.url ? [`URL:${event.url}`] : []),
+  `STATUS:${event.status || 'CONFIRMED'}`,
+  'END:VEVENT'
+];
+
+export const buildICSCalendar = (events: ICSEvent[], options: { name?: string; now?: Date } = {}) => {
+  const now = options.now || new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...(options.name ? [`X-WR-CALNAME:${escapeICSText(options.name)}`] : []),
+    ...events.flatMap(event => buildEventLines(event, now)),
+    'END:VCALENDAR'
+  ];
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+};
+
+// An appointment stored in the clinician's time zone as an event at the right instant
+export const appointmentToICSEvent = (
+  appointment: ICSAppointment,
+  clinicianTimeZone: string,
+  details: { summary: string; description?: string; url?: string }
+): ICSEvent => ({
+  uid: `${appointment.id}@valorwell`,
+  start: zonedTimeToInstant(appointment.date, appointment.start_time, clinicianTimeZone),
+  end: zonedTimeToInstant(appointment.date, appointment.end_time, clinicianTimeZone),
+  status: ['cancelled', 'Cancelled'].includes(appointment.status) ? 'CANCELLED' : 'CONFIRMED',
+  ...details
+});
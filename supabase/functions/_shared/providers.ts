@@ -0,0 +1,108 @@
+
+export type ReminderChannel = 'email' | 'sms';
+
+export interface ReminderMessage {
+  channel: ReminderChannel;
+  to: string;
+  subject: string;
+  body: string;
+}
+
+export interface ReminderSendResult {
+  success: boolean;
+  providerMessageId?: string;
+  error?: string;
+}
+
+export interface ReminderProvider {
+  name: string;
+  send: (message: ReminderMessage) => Promise<ReminderSendResult>;
+}
+
+// Development provider: logs the message instead of delivering it
+const consoleProvider: ReminderProvider = {
+  name: 'console',
+  send: async (message) => {
+    console.log(`[console reminder] ${message.channel} to ${message.to}: ${message.subject}\n${message.body}`);
+    return { success: true, providerMessageId: `console-${crypto.randomUUID()}` };
+  }
+};
+
+const createResendProvider = (apiKey: string, from: string): ReminderProvider => ({
+  name: 'resend',
+  send: async (message) => {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${apiKey}`
+      },
+      body: JSON.stringify({
+        from,
+        to: [message.to],
+        subject: message.subject,
+        text: message.body
+      })
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      return { success: false, error: data?.message || `Resend error ${response.status}` };
+    }
+
+    return { success: true, providerMessageId: data.id };
+  }
+});
+
+const createTwilioProvider = (accountSid: string, authToken: string, from: string): ReminderProvider => ({
+  name: 'twilio',
+  send: async (message) => {
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Authorization': `Basic ${btoa(`${accountSid}:${authToken}`)}`
+      },
+      body: new URLSearchParams({ To: message.to, From: from, Body: message.body })
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      return { success: false, error: data?.message || `Twilio error ${response.status}` };
+    }
+
+    return { success: true, providerMessageId: data.sid };
+  }
+});
+
+/**
+ * Pick the delivery provider for a channel from the function's environment.
+ * REMINDER_EMAIL_PROVIDER / REMINDER_SMS_PROVIDER default to "console" so local
+ * development never sends real messages.
+ */
+export const getReminderProvider = (channel: ReminderChannel): ReminderProvider => {
+  if (channel === 'email') {
+    const providerName = Deno.env.get('REMINDER_EMAIL_PROVIDER') ?? 'console';
+    if (providerName === 'resend') {
+      const apiKey = Deno.env.get('RESEND_API_KEY');
+      const from = Deno.env.get('REMINDER_EMAIL_FROM');
+      if (!apiKey || !from) {
+        throw new Error('RESEND_API_KEY and REMINDER_EMAIL_FROM must be configured for the resend provider');
+      }
+      return createResendProvider(apiKey, from);
+    }
+    return consoleProvider;
+  }
+
+  const providerName = Deno.env.get('REMINDER_SMS_PROVIDER') ?? 'console';
+  if (providerName === 'twilio') {
+    const accountSid = Deno.env.get('TWILIO_ACCOUNT_SID');
+    const authToken = Deno.env.get('TWILIO_AUTH_TOKEN');
+    const from = Deno.env.get('TWILIO_FROM_NUMBER');
+    if (!accountSid || !authToken || !from) {
+      throw new Error('TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER must be configured for the twilio provider');
+    }
+    return createTwilioProvider(accountSid, authToken, from);
+  }
+  return consoleProvider;
+};
@@ -0,0 +1,231 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeBookableSlots,
+  findAppointmentConflict,
+  getAvailabilityWindows,
+  SlotAvailabilityBlock,
+  SlotEngineInput,
+  zonedTimeToInstant
+} from './slotEngine.ts';
+
+const CLINICIAN_ZONE = 'America/New_York';
+
+// Monday 2026-10-26, 8am in New York. US clocks fall back on Sunday 2026-11-01.
+const NOW = new Date('2026-10-26T12:00:00Z');
+
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const block = (id: string, day_of_week: string, start_time: string, end_time: string): SlotAvailabilityBlock => ({
+  id,
+  day_of_week,
+  start_time,
+  end_time,
+  is_active: true
+});
+
+const everyDay = (start_time: string, end_time: string) =>
+  DAYS.map(day => block(day.toLowerCase(), day, start_time, end_time));
+
+const slotsFor = (input: Partial<SlotEngineInput>) =>
+  computeBookableSlots({
+    availability: [block('monday', 'Monday', '09:00', '12:00')],
+    clinicianTimeZone: CLINICIAN_ZONE,
+    viewerTimeZone: CLINICIAN_ZONE,
+    startDate: '2026-11-02',
+    endDate: '2026-11-02',
+    now: NOW,
+    ...input
+  });
+
+const startTimes = (input: Partial<SlotEngineInput>) => slotsFor(input).map(slot => slot.startTime);
+
+describe('computeBookableSlots', () => {
+  it('steps through each availability window at the slot granularity', () => {
+    expect(startTimes({})).toEqual(['09:00', '10:00', '11:00']);
+    expect(startTimes({ settings: { time_granularity: 'half-hour' }, durationMinutes: 60 }))
+      .toEqual(['09:00', '09:30', '10:00', '10:30', '11:00']);
+  });
+
+  describe('availability exceptions', () => {
+    it('drops a weekly block deleted for the day', () => {
+      expect(startTimes({
+        exceptions: [{
+          id: 'e1', specific_date: '2026-11-02', original_availability_id: 'monday',
+          start_time: null, end_time: null, is_deleted: true
+        }]
+      })).toEqual([]);
+    });
+
+    it('uses the moved hours of a weekly block', () => {
+      expect(startTimes({
+        exceptions: [{
+          id: 'e1', specific_date: '2026-11-02', original_availability_id: 'monday',
+          start_time: '13:00', end_time: '15:00', is_deleted: false
+        }]
+      })).toEqual(['13:00', '14:00']);
+    });
+
+    it('adds a one-off window on a day without weekly availability', () => {
+      expect(startTimes({
+        startDate: '2026-11-03',
+        endDate: '2026-11-03',
+        exceptions: [{
+          id: 'e1', specific_date: '2026-11-03', original_availability_id: null,
+          start_time: '16:00', end_time: '18:00', is_deleted: false
+        }]
+      })).toEqual(['16:00', '17:00']);
+    });
+
+    it('only applies exceptions to their own date', () => {
+      expect(getAvailabilityWindows('2026-11-09', [block('monday', 'Monday', '09:00', '12:00')], [{
+        id: 'e1', specific_date: '2026-11-02', original_availability_id: 'monday',
+        start_time: null, end_time: null, is_deleted: true
+      }])).toEqual([{ start: 540, end: 720 }]);
+    });
+  });
+
+  describe('time off', () => {
+    it('blocks every day of an active time-off range, inclusive', () => {
+      const slots = slotsFor({
+        availability: everyDay('09:00', '10:00'),
+        startDate: '2026-11-02',
+        endDate: '2026-11-05',
+        timeOff: [{ start_date: '2026-11-03', end_date: '2026-11-04', is_active: true }]
+      });
+      expect(slots.map(slot => slot.date)).toEqual(['2026-11-02', '2026-11-05']);
+    });
+
+    it('ignores inactive time off', () => {
+      expect(startTimes({
+        timeOff: [{ start_date: '2026-11-02', end_date: '2026-11-02', is_active: false }]
+      })).toEqual(['09:00', '10:00', '11:00']);
+    });
+  });
+
+  describe('buffer padding', () => {
+    const appointments = [{ id: 'a1', date: '2026-11-02', start_time: '10:00', end_time: '11:00', status: 'scheduled' }];
+    const availability = [block('monday', 'Monday', '08:00', '13:00')];
+
+    it('only excludes the appointment itself without a buffer', () => {
+      expect(startTimes({ availability, appointments })).toEqual(['08:00', '09:00', '11:00', '12:00']);
+    });
+
+    it('pads existing appointments on both sides', () => {
+      expect(startTimes({ availability, appointments, settings: { buffer_minutes: 15 } }))
+        .toEqual(['08:00', '12:00']);
+    });
+  });
+
+  describe('booking window', () => {
+    it('keeps slots between min_days_ahead and max_days_ahead days from today', () => {
+      const slots = slotsFor({
+        availability: everyDay('09:00', '10:00'),
+        startDate: '2026-10-26',
+        endDate: '2026-11-06',
+        settings: { min_days_ahead: 2, max_days_ahead: 5 }
+      });
+      expect(slots.map(slot => slot.date)).toEqual(['2026-10-28', '2026-10-29', '2026-10-30', '2026-10-31']);
+    });
+
+    it('allows same-day booking with min_days_ahead 0 but never in the past', () => {
+      expect(startTimes({
+        availability: everyDay('09:00', '12:00'),
+        startDate: '2026-10-26',
+        endDate: '2026-10-26',
+        settings: { min_days_ahead: 0 },
+        // 10:30am in New York
+        now: new Date('2026-10-26T14:30:00Z')
+      })).toEqual(['11:00']);
+    });
+  });
+
+  it('clears overlapping appointments of different lengths', () => {
+    expect(startTimes({
+      availability: [block('monday', 'Monday', '09:00', '13:00')],
+      settings: { time_granularity: 'half-hour' },
+      durationMinutes: 60,
+      appointments: [
+        { id: 'short', date: '2026-11-02', start_time: '09:00', end_time: '09:30', status: 'scheduled' },
+        { id: 'long', date: '2026-11-02', start_time: '10:30', end_time: '12:00', status: 'scheduled' }
+      ]
+    })).toEqual(['09:30', '12:00']);
+  });
+
+  describe('time zones', () => {
+    it('reports each slot on the viewer wall clock, including across midnight', () => {
+      const slots = slotsFor({
+        availability: [block('tuesday', 'Tuesday', '09:00', '12:00')],
+        startDate: '2026-10-27',
+        endDate: '2026-10-27',
+        viewerTimeZone: 'Asia/Tokyo'
+      });
+      expect(slots.map(slot => [slot.startTime, slot.viewerDate, slot.viewerStartTime, slot.viewerEndTime])).toEqual([
+        ['09:00', '2026-10-27', '22:00', '23:00'],
+        ['10:00', '2026-10-27', '23:00', '00:00'],
+        ['11:00', '2026-10-28', '00:00', '01:00']
+      ]);
+    });
+
+    it('keeps clinician hours fixed across a DST change while UTC and the viewer clock shift', () => {
+      const slots = slotsFor({
+        availability: [block('friday', 'Friday', '09:00', '10:00'), block('monday', 'Monday', '09:00', '10:00')],
+        startDate: '2026-10-30',
+        endDate: '2026-11-02',
+        // London has already left summer time by then; New York changes in between
+        viewerTimeZone: 'Europe/London'
+      });
+      expect(slots.map(slot => [slot.date, slot.startTime, slot.start, slot.viewerStartTime])).toEqual([
+        ['2026-10-30', '09:00', '2026-10-30T13:00:00.000Z', '13:00'],
+        ['2026-11-02', '09:00', '2026-11-02T14:00:00.000Z', '14:00']
+      ]);
+    });
+
+    it('computes slots on the day of the DST change itself', () => {
+      const slots = slotsFor({
+        availability: [block('sunday', 'Sunday', '09:00', '10:00')],
+        startDate: '2026-11-01',
+        endDate: '2026-11-01'
+      });
+      expect(slots.map(slot => [slot.start, slot.end])).toEqual([['2026-11-01T14:00:00.000Z', '2026-11-01T15:00:00.000Z']]);
+    });
+  });
+});
+
+describe('findAppointmentConflict', () => {
+  const appointments = [
+    { id: 'a1', date: '2026-11-02', start_time: '10:00', end_time: '11:00', status: 'scheduled' },
+    { id: 'a2', date: '2026-11-02', start_time: '13:00', end_time: '14:00', status: 'cancelled' }
+  ];
+
+  it('finds an overlapping appointment on the same date', () => {
+    expect(findAppointmentConflict({ date: '2026-11-02', start_time: '10:30', end_time: '11:30' }, appointments)?.id).toBe('a1');
+    expect(findAppointmentConflict({ date: '2026-11-03', start_time: '10:30', end_time: '11:30' }, appointments)).toBeNull();
+  });
+
+  it('treats back-to-back appointments as free unless a buffer is set', () => {
+    const candidate = { date: '2026-11-02', start_time: '11:00', end_time: '12:00' };
+    expect(findAppointmentConflict(candidate, appointments)).toBeNull();
+    expect(findAppointmentConflict(candidate, appointments, 10)?.id).toBe('a1');
+  });
+
+  it('ignores cancelled appointments and the appointment being moved', () => {
+    expect(findAppointmentConflict({ date: '2026-11-02', start_time: '13:00', end_time: '14:00' }, appointments)).toBeNull();
+    expect(findAppointmentConflict({ date: '2026-11-02', start_time: '10:00', end_time: '11:00' }, appointments, 0, 'a1')).toBeNull();
+  });
+});
+
+describe('zonedTimeToInstant', () => {
+  it('uses the offset in effect on each side of a DST change', () => {
+    expect(zonedTimeToInstant('2026-10-30', '09:00', CLINICIAN_ZONE).toISOString()).toBe('2026-10-30T13:00:00.000Z');
+    expect(zonedTimeToInstant('2026-11-02', '09:00', CLINICIAN_ZONE).toISOString()).toBe('2026-11-02T14:00:00.000Z');
+  });
+
+  it('moves a wall-clock time skipped by spring-forward an hour early', () => {
+    expect(zonedTimeToInstant('2026-03-08', '02:30', CLINICIAN_ZONE).toISOString()).toBe('2026-03-08T06:30:00.000Z');
+    expect(zonedTimeToInstant('2026-03-08', '03:00', CLINICIAN_ZONE).toISOString()).toBe('2026-03-08T07:00:00.000Z');
+  });
+
+  it('resolves a repeated fall-back time to its first occurrence', () => {
+    expect(zonedTimeToInstant('2026-11-01', '01:30', CLINICIAN_ZONE).toISOString()).toBe('2026-11-01T05:30:00.000Z');
+  });
+});
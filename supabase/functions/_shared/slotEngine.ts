@@ -0,0 +1,307 @@
+// Bookable slot computation shared by the web app and edge functions. It has no
+// imports so it runs unchanged under Vite and Deno.
+//
+// Availability, exceptions, time off and appointments are stored as wall-clock
+// dates and times in the clinician's time zone. Slots are returned as UTC
+// instants plus the same moment in the clinician's and the viewer's time zones.
+
+export interface SlotAvailabilityBlock {
+  id: string;
+  day_of_week: string;
+  start_time: string;
+  end_time: string;
+  is_active?: boolean | null;
+}
+
+export interface SlotAvailabilityException {
+  id: string;
+  specific_date: string;
+  original_availability_id: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  is_deleted: boolean | null;
+}
+
+export interface SlotTimeOffBlock {
+  start_date: string;
+  end_date: string;
+  is_active?: boolean | null;
+}
+
+// A practice-wide closure, such as a holiday; it applies to every clinician
+export interface SlotClosure {
+  start_date: string;
+  end_date: string;
+  name: string;
+}
+
+export interface SlotAppointment {
+  id?: string;
+  date: string;
+  start_time: string;
+  end_time: string;
+  status: string;
+}
+
+export interface SlotSettings {
+  time_granularity?: string | null;
+  custom_minutes?: number | null;
+  buffer_minutes?: number | null;
+  min_days_ahead?: number | null;
+  max_days_ahead?: number | null;
+}
+
+export interface SlotEngineInput {
+  availability: SlotAvailabilityBlock[];
+  exceptions?: SlotAvailabilityException[];
+  timeOff?: SlotTimeOffBlock[];
+  closures?: SlotClosure[];
+  appointments?: SlotAppointment[];
+  settings?: SlotSettings | null;
+  clinicianTimeZone: string;
+  viewerTimeZone: string;
+  // Inclusive range of clinician-local dates (yyyy-MM-dd) to compute
+  startDate: string;
+  endDate: string;
+  durationMinutes?: number;
+  now?: Date;
+}
+
+export interface BookableSlot {
+  // UTC instants
+  start: string;
+  end: string;
+  // Clinician wall clock; these are the values stored on an appointment
+  date: string;
+  startTime: string;
+  endTime: string;
+  // Viewer wall clock, for display
+  viewerDate: string;
+  viewerStartTime: string;
+  viewerEndTime: string;
+}
+
+export interface TimeWindow {
+  start: number;
+  end: number;
+}
+
+export const DEFAULT_SLOT_SETTINGS = {
+  time_granularity: 'hour',
+  buffer_minutes: 0,
+  min_days_ahead: 1,
+  max_days_ahead: 60
+};
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Raised by the database when a booking overlaps another appointment
+export const SLOT_CONFLICT_ERROR = 'SLOT_CONFLICT';
+
+// Appointments in these statuses no longer hold their time
+const RELEASED_STATUSES = ['cancelled', 'Cancelled'];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// "HH:mm" or "HH:mm:ss" to minutes after midnight
+export const timeToMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+export const minutesToTime = (minutes: number) => `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+
+const parseDate = (date: string) => {
+  const [year, month, day] = date.substring(0, 10).split('-').map(Number);
+  return { year, month, day };
+};
+
+export const addDaysToDate = (date: string, days: number) => {
+  const { year, month, day } = parseDate(date);
+  const result = new Date(Date.UTC(year, month - 1, day + days));
+  return `${result.getUTCFullYear()}-${pad(result.getUTCMonth() + 1)}-${pad(result.getUTCDate())}`;
+};
+
+export const getDayOfWeek = (date: string) => {
+  const { year, month, day } = parseDate(date);
+  return DAY_NAMES[new Date(Date.UTC(year, month - 1, day)).getUTCDay()];
+};
+
+const formatterCache: Record<string, Intl.DateTimeFormat> = {};
+
+const getFormatter = (timeZone: string) => {
+  if (!formatterCache[timeZone]) {
+    formatterCache[timeZone] = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+  }
+  return formatterCache[timeZone];
+};
+
+// Wall-clock date and time of a UTC instant in the given zone
+export const toZonedParts = (instant: Date, timeZone: string) => {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone).formatToParts(instant).map(part => [part.type, part.value])
+  );
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}`
+  };
+};
+
+const getOffsetMinutes = (instant: Date, timeZone: string) => {
+  const { date, time } = toZonedParts(instant, timeZone);
+  const { year, month, day } = parseDate(date);
+  const asUTC = Date.UTC(year, month - 1, day) + timeToMinutes(time) * 60000;
+  return Math.round((asUTC - Math.floor(instant.getTime() / 60000) * 60000) / 60000);
+};
+
+// UTC instant of a wall-clock date and time in the given zone. Times that don't
+// exist because of a DST change come out an hour early.
+export const zonedTimeToInstant = (date: string, time: string, timeZone: string) => {
+  const { year, month, day } = parseDate(date);
+  const wallClock = Date.UTC(year, month - 1, day) + timeToMinutes(time) * 60000;
+  const firstGuess = wallClock - getOffsetMinutes(new Date(wallClock), timeZone) * 60000;
+  return new Date(wallClock - getOffsetMinutes(new Date(firstGuess), timeZone) * 60000);
+};
+
+export const getTodayInTimeZone = (timeZone: string, now = new Date()) => toZonedParts(now, timeZone).date;
+
+export const getSlotStepMinutes = (settings?: SlotSettings | null) => {
+  if (settings?.time_granularity === 'custom' && settings.custom_minutes && settings.custom_minutes > 0) {
+    return settings.custom_minutes;
+  }
+  return settings?.time_granularity === 'half-hour' ? 30 : 60;
+};
+
+/**
+ * Working windows for one date, in minutes after midnight: weekly availability
+ * with that date's exceptions applied. Exceptions either delete a weekly block,
+ * move it, or (without an original block) add a one-off window.
+ */
+export const getAvailabilityWindows = (
+  date: string,
+  availability: SlotAvailabilityBlock[],
+  exceptions: SlotAvailabilityException[] = []
+): TimeWindow[] => {
+  const dayOfWeek = getDayOfWeek(date);
+  const exceptionsForDay = exceptions.filter(exception => exception.specific_date.substring(0, 10) === date);
+
+  const weeklyWindows = availability
+    .filter(block => block.is_active !== false && block.day_of_week === dayOfWeek)
+    .flatMap(block => {
+      const exception = exceptionsForDay.find(e => e.original_availability_id === block.id);
+      if (exception?.is_deleted) return [];
+      if (exception?.start_time && exception.end_time) {
+        return [{ start: timeToMinutes(exception.start_time), end: timeToMinutes(exception.end_time) }];
+      }
+      return [{ start: timeToMinutes(block.start_time), end: timeToMinutes(block.end_time) }];
+    });
+
+  const oneOffWindows = exceptionsForDay
+    .filter(exception => !exception.original_availability_id && !exception.is_deleted && exception.start_time && exception.end_time)
+    .map(exception => ({ start: timeToMinutes(exception.start_time as string), end: timeToMinutes(exception.end_time as string) }));
+
+  return [...weeklyWindows, ...oneOffWindows]
+    .filter(window => window.end > window.start)
+    .sort((a, b) => a.start - b.start);
+};
+
+// Time off is stored as whole days, inclusive of both ends
+export const isDateInTimeOff = (date: string, timeOff: SlotTimeOffBlock[] = []) =>
+  timeOff.some(block =>
+    block.is_active !== false &&
+    block.start_date.substring(0, 10) <= date &&
+    block.end_date.substring(0, 10) >= date
+  );
+
+// The practice closure covering a date, if any; closures are whole days like time off
+export const getClosureForDate = <T extends SlotClosure>(date: string, closures: T[] = []): T | null =>
+  closures.find(closure =>
+    closure.start_date.substring(0, 10) <= date &&
+    closure.end_date.substring(0, 10) >= date
+  ) || null;
+
+/**
+ * The first appointment that overlaps the given clinician-local time range, with
+ * each existing appointment padded by the buffer on both sides. Cancelled
+ * appointments and the appointment being moved (ignoreId) don't count.
+ */
+export const findAppointmentConflict = (
+  candidate: { date: string; start_time: string; end_time: string },
+  appointments: SlotAppointment[],
+  bufferMinutes = 0,
+  ignoreId?: string
+): SlotAppointment | null => {
+  const start = timeToMinutes(candidate.start_time);
+  const end = timeToMinutes(candidate.end_time);
+
+  return appointments.find(appointment =>
+    (!ignoreId || appointment.id !== ignoreId) &&
+    !RELEASED_STATUSES.includes(appointment.status) &&
+    appointment.date.substring(0, 10) === candidate.date &&
+    timeToMinutes(appointment.start_time) - bufferMinutes < end &&
+    timeToMinutes(appointment.end_time) + bufferMinutes > start
+  ) || null;
+};
+
+const stripNulls = <T extends object>(value: T | null | undefined): Partial<T> =>
+  value ? Object.fromEntries(Object.entries(value).filter(([, v]) => v !== null && v !== undefined)) as Partial<T> : {};
+
+/**
+ * Every bookable slot between startDate and endDate. A slot must fit inside an
+ * availability window, fall outside time off and practice closures, clear
+ * existing appointments by the buffer, start in the future, and land within the
+ * clinician's booking window (min_days_ahead to max_days_ahead days from today,
+ * clinician time).
+ */
+export const computeBookableSlots = (input: SlotEngineInput): BookableSlot[] => {
+  const settings = { ...DEFAULT_SLOT_SETTINGS, ...stripNulls(input.settings) };
+  const step = getSlotStepMinutes(settings);
+  const duration = input.durationMinutes || step;
+  const buffer = Number(settings.buffer_minutes) || 0;
+  const now = input.now || new Date();
+  const today = getTodayInTimeZone(input.clinicianTimeZone, now);
+  const firstBookableDate = addDaysToDate(today, Number(settings.min_days_ahead) || 0);
+  const lastBookableDate = addDaysToDate(today, Number(settings.max_days_ahead) || DEFAULT_SLOT_SETTINGS.max_days_ahead);
+  const slots: BookableSlot[] = [];
+
+  for (let date = input.startDate; date <= input.endDate; date = addDaysToDate(date, 1)) {
+    if (date < firstBookableDate || date > lastBookableDate) continue;
+    if (isDateInTimeOff(date, input.timeOff) || getClosureForDate(date, input.closures)) continue;
+
+    getAvailabilityWindows(date, input.availability, input.exceptions).forEach(window => {
+      for (let start = window.start; start + duration <= window.end; start += step) {
+        const candidate = { date, start_time: minutesToTime(start), end_time: minutesToTime(start + duration) };
+        if (findAppointmentConflict(candidate, input.appointments || [], buffer)) continue;
+
+        const startInstant = zonedTimeToInstant(date, candidate.start_time, input.clinicianTimeZone);
+        if (startInstant <= now) continue;
+
+        const endInstant = new Date(startInstant.getTime() + duration * 60000);
+        const viewerStart = toZonedParts(startInstant, input.viewerTimeZone);
+        slots.push({
+          start: startInstant.toISOString(),
+          end: endInstant.toISOString(),
+          date,
+          startTime: candidate.start_time,
+          endTime: candidate.end_time,
+          viewerDate: viewerStart.date,
+          viewerStartTime: viewerStart.time,
+          viewerEndTime: toZonedParts(endInstant, input.viewerTimeZone).time
+        });
+      }
+    });
+  }
+
+  // Overlapping windows can produce the same slot twice
+  const unique = new Map(slots.map(slot => [slot.start, slot]));
+  return Array.from(unique.values()).sort((a, b) => a.start.localeCompare(b.start));
+};
@@ -0,0 +1,18 @@
+const DEFAULT_TIME_ZONE = 'America/Chicago'
+
+// Clinician time zones are sometimes stored as display names rather than IANA identifiers
+const TIME_ZONE_NAMES: Record<string, string> = {
+  'Eastern Time (ET)': 'America/New_York',
+  'Central Time (CT)': 'America/Chicago',
+  'Mountain Time (MT)': 'America/Denver',
+  'Pacific Time (PT)': 'America/Los_Angeles',
+  'Alaska Time (AKT)': 'America/Anchorage',
+  'Hawaii-Aleutian Time (HST)': 'Pacific/Honolulu',
+  'Atlantic Time (AST)': 'America/Puerto_Rico',
+}
+
+export const toIANATimeZone = (timeZone: string | null | undefined) => {
+  if (!timeZone) return DEFAULT_TIME_ZONE
+  if (timeZone.includes('/')) return timeZone
+  return TIME_ZONE_NAMES[timeZone] ?? DEFAULT_TIME_ZONE
+}
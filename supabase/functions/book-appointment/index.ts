@@ -0,0 +1,116 @@
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { SLOT_CONFLICT_ERROR, timeToMinutes } from '../_shared/slotEngine.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface BookingSession {
+  date: string
+  start_time: string
+  end_time: string
+}
+
+// Every failure comes back as { error: { code, message, conflicts? } }
+const errorResponse = (status: number, code: string, message: string, conflicts?: unknown) =>
+  new Response(
+    JSON.stringify({ error: { code, message, conflicts } }),
+    { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+
+const parseConflicts = (details?: string) => {
+  try {
+    return details ? JSON.parse(details) : []
+  } catch {
+    return []
+  }
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Act as the caller so RLS, auth.uid() and the licensure override check apply
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    )
+
+    const { data: { user } } = await supabaseClient.auth.getUser()
+    if (!user) {
+      return errorResponse(401, 'UNAUTHORIZED', 'You must be signed in to book an appointment')
+    }
+
+    const {
+      clientId,
+      clinicianId,
+      sessions,
+      type,
+      notes,
+      appointmentRecurring,
+      recurringGroupId,
+      licensureOverrideReason
+    } = await req.json()
+
+    if (!clientId || !clinicianId || !Array.isArray(sessions) || sessions.length === 0) {
+      return errorResponse(400, 'INVALID_REQUEST', 'Client, clinician and at least one session are required')
+    }
+
+    const invalidSession = (sessions as BookingSession[]).some(session =>
+      !session?.date || !session.start_time || !session.end_time ||
+      timeToMinutes(session.end_time) <= timeToMinutes(session.start_time)
+    )
+    if (invalidSession) {
+      return errorResponse(400, 'INVALID_REQUEST', 'Each session needs a date and an end time after its start time')
+    }
+
+    // Availability checks for clients, conflict checks and inserts run in one
+    // transaction, serialized per clinician
+    const { data, error } = await supabaseClient.rpc('book_appointments', {
+      p_client_id: clientId,
+      p_clinician_id: clinicianId,
+      p_sessions: sessions,
+      p_type: type || 'Therapy Session',
+      p_notes: notes || null,
+      p_appointment_recurring: appointmentRecurring || null,
+      p_recurring_group_id: recurringGroupId || null,
+      p_licensure_override_reason: licensureOverrideReason || null
+    })
+
+    if (error) {
+      console.error('Error booking appointment:', error)
+      if (error.message === SLOT_CONFLICT_ERROR) {
+        return errorResponse(409, SLOT_CONFLICT_ERROR, 'This time overlaps another appointment', parseConflicts(error.details))
+      }
+      if (error.message === 'SLOT_UNAVAILABLE') {
+        return errorResponse(409, 'SLOT_UNAVAILABLE', 'This time is no longer available', parseConflicts(error.details))
+      }
+      if (error.message === 'LICENSURE_REQUIRED') {
+        return errorResponse(422, 'LICENSURE_REQUIRED', error.details || 'The clinician is not licensed in the client\'s state')
+      }
+      if (error.message.startsWith('Not allowed')) {
+        return errorResponse(403, 'FORBIDDEN', error.message)
+      }
+      return errorResponse(400, 'BOOKING_FAILED', error.message)
+    }
+
+    return new Response(
+      JSON.stringify({ appointments: data }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    console.error('Error:', error)
+    return errorResponse(500, 'BOOKING_FAILED', error instanceof Error ? error.message : 'Unexpected error')
+  }
+})
@@ -0,0 +1,96 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { appointmentToICSEvent, buildICSCalendar } from '../_shared/ics.ts'
+import { addDaysToDate, getTodayInTimeZone } from '../_shared/slotEngine.ts'
+import { toIANATimeZone } from '../_shared/timeZones.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Enough history for recent sessions without sending the whole archive on every refresh
+const PAST_DAYS = 60
+const FUTURE_DAYS = 365
+
+/**
+ * A clinician's appointments as an iCalendar feed for calendar apps to
+ * subscribe to. Calendar apps can't sign in, so the secret token in the URL
+ * (?token=...) is the only credential; it is rotated from the clinician's
+ * profile. Events are titled generically and never include client names.
+ */
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const token = new URL(req.url).searchParams.get('token')
+    if (!token) {
+      return new Response('Missing feed token', { status: 400, headers: corsHeaders })
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const { data: feed, error: feedError } = await supabase
+      .from('calendar_feed_tokens')
+      .select('clinician_id')
+      .eq('token', token)
+      .maybeSingle()
+
+    if (feedError) throw feedError
+    if (!feed) {
+      return new Response('Calendar feed not found', { status: 404, headers: corsHeaders })
+    }
+
+    const { data: clinician, error: clinicianError } = await supabase
+      .from('clinicians')
+      .select('clinician_timezone')
+      .eq('id', feed.clinician_id)
+      .single()
+
+    if (clinicianError) throw clinicianError
+
+    const timeZone = toIANATimeZone(clinician?.clinician_timezone)
+    const today = getTodayInTimeZone(timeZone)
+
+    const { data: appointments, error: appointmentsError } = await supabase
+      .from('appointments')
+      .select('id, date, start_time, end_time, status')
+      .eq('clinician_id', feed.clinician_id)
+      .not('status', 'in', '(cancelled,Cancelled)')
+      .gte('date', addDaysToDate(today, -PAST_DAYS))
+      .lte('date', addDaysToDate(today, FUTURE_DAYS))
+      .order('date', { ascending: true })
+
+    if (appointmentsError) throw appointmentsError
+
+    const siteUrl = Deno.env.get('SITE_URL')?.replace(/\/$/, '')
+    const events = (appointments ?? []).map(appointment => appointmentToICSEvent(appointment, timeZone, {
+      summary: 'ValorWell session',
+      description: 'Open the ValorWell calendar for session details.',
+      url: siteUrl ? `${siteUrl}/calendar` : undefined,
+    }))
+
+    return new Response(buildICSCalendar(events, { name: 'ValorWell sessions' }), {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Cache-Control': 'private, max-age=300',
+      },
+    })
+  } catch (error) {
+    console.error('Error in calendar-feed function:', error)
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
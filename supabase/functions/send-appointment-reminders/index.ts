@@ -0,0 +1,334 @@
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { fromZonedTime, formatInTimeZone } from 'https://esm.sh/date-fns-tz@3.2.0'
+import { getReminderProvider, ReminderChannel } from '../_shared/providers.ts'
+import { toIANATimeZone } from '../_shared/timeZones.ts'
+import { addDaysToDate, getTodayInTimeZone } from '../_shared/slotEngine.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Automatic retries stop after this many attempts; admins can still retry manually
+const MAX_AUTOMATIC_ATTEMPTS = 3
+const DISPATCH_BATCH_SIZE = 100
+
+const DEFAULT_TEMPLATES: Record<ReminderChannel, string> = {
+  email: 'Hi {{client_name}}, this is a reminder of your {{appointment_type}} with {{clinician_name}} on {{date}} at {{time}}.',
+  sms: 'ValorWell reminder: {{appointment_type}} on {{date}} at {{time}}. Reply to your clinician if you need to reschedule.',
+}
+
+interface ReminderRule {
+  id: string
+  appointment_type: string | null
+  minutes_before: number
+  channel: ReminderChannel
+  message_template: string | null
+}
+
+interface AppointmentWithPeople {
+  id: string
+  client_id: string
+  date: string
+  start_time: string
+  type: string
+  status: string
+  clients: {
+    client_first_name: string | null
+    client_preferred_name: string | null
+    client_email: string | null
+    client_phone: string | null
+  } | null
+  clinicians: {
+    clinician_professional_name: string | null
+    clinician_timezone: string | null
+  } | null
+}
+
+const APPOINTMENT_SELECT = `
+  id, client_id, date, start_time, type, status,
+  clients (client_first_name, client_preferred_name, client_email, client_phone),
+  clinicians (clinician_professional_name, clinician_timezone)
+`
+
+const getAppointmentStart = (appointment: AppointmentWithPeople) => {
+  const timeZone = toIANATimeZone(appointment.clinicians?.clinician_timezone ?? null)
+  return fromZonedTime(`${appointment.date}T${appointment.start_time.substring(0, 5)}:00`, timeZone)
+}
+
+const getReminderDueTime = (appointment: AppointmentWithPeople, minutesBefore: number) =>
+  new Date(getAppointmentStart(appointment).getTime() - minutesBefore * 60 * 1000).toISOString()
+
+const renderTemplate = (template: string, appointment: AppointmentWithPeople) => {
+  const timeZone = toIANATimeZone(appointment.clinicians?.clinician_timezone ?? null)
+  const start = getAppointmentStart(appointment)
+  const values: Record<string, string> = {
+    client_name: appointment.clients?.client_preferred_name || appointment.clients?.client_first_name || 'there',
+    clinician_name: appointment.clinicians?.clinician_professional_name || 'your clinician',
+    appointment_type: appointment.type,
+    date: formatInTimeZone(start, timeZone, 'EEEE, MMMM d'),
+    time: formatInTimeZone(start, timeZone, 'h:mm a zzz'),
+  }
+
+  return template.replace(/{{\s*(\w+)\s*}}/g, (match, key) => values[key] ?? match)
+}
+
+/**
+ * Create queue rows for every upcoming scheduled appointment that matches an
+ * active rule, and move pending rows when an appointment has been rescheduled.
+ */
+const enqueueReminders = async (supabase: SupabaseClient) => {
+  const { data: rules, error: rulesError } = await supabase
+    .from('reminder_rules')
+    .select('id, appointment_type, minutes_before, channel, message_template')
+    .eq('is_active', true)
+
+  if (rulesError) throw rulesError
+  if (!rules || rules.length === 0) return 0
+
+  const longestLeadDays = Math.ceil(Math.max(...rules.map((rule: ReminderRule) => rule.minutes_before)) / 1440) + 1
+
+  // Appointment dates are clinician-local, so the query is padded by a day on
+  // each side and each appointment is checked against its clinician's own today
+  const utcToday = getTodayInTimeZone('UTC')
+  const { data: candidates, error: appointmentsError } = await supabase
+    .from('appointments')
+    .select(APPOINTMENT_SELECT)
+    .eq('status', 'scheduled')
+    .gte('date', addDaysToDate(utcToday, -1))
+    .lte('date', addDaysToDate(utcToday, longestLeadDays + 1))
+
+  if (appointmentsError) throw appointmentsError
+
+  const appointments = ((candidates ?? []) as AppointmentWithPeople[]).filter((appointment) => {
+    const today = getTodayInTimeZone(toIANATimeZone(appointment.clinicians?.clinician_timezone ?? null))
+    return appointment.date >= today && appointment.date <= addDaysToDate(today, longestLeadDays)
+  })
+  if (appointments.length === 0) return 0
+
+  const { data: existing, error: existingError } = await supabase
+    .from('appointment_reminders')
+    .select('id, appointment_id, rule_id, status, scheduled_for')
+    .in('appointment_id', appointments.map((appointment) => appointment.id))
+
+  if (existingError) throw existingError
+
+  const existingByKey = new Map(
+    (existing ?? []).map((reminder) => [`${reminder.appointment_id}:${reminder.rule_id}`, reminder])
+  )
+
+  const toInsert = []
+
+  for (const appointment of appointments) {
+    const start = getAppointmentStart(appointment)
+    if (start.getTime() <= Date.now()) continue
+
+    for (const rule of rules as ReminderRule[]) {
+      if (rule.appointment_type && rule.appointment_type !== appointment.type) continue
+
+      const scheduledFor = getReminderDueTime(appointment, rule.minutes_before)
+      const current = existingByKey.get(`${appointment.id}:${rule.id}`)
+
+      if (!current) {
+        // Appointments booked inside a rule's lead time skip that rule rather than sending late
+        if (Date.parse(scheduledFor) <= Date.now()) continue
+
+        toInsert.push({
+          appointment_id: appointment.id,
+          rule_id: rule.id,
+          client_id: appointment.client_id,
+          channel: rule.channel,
+          recipient: rule.channel === 'email' ? appointment.clients?.client_email : appointment.clients?.client_phone,
+          scheduled_for: scheduledFor,
+        })
+      } else if (current.status === 'pending' && new Date(current.scheduled_for).toISOString() !== scheduledFor) {
+        const { error } = await supabase
+          .from('appointment_reminders')
+          .update({ scheduled_for: scheduledFor, updated_at: new Date().toISOString() })
+          .eq('id', current.id)
+        if (error) throw error
+      }
+    }
+  }
+
+  if (toInsert.length > 0) {
+    const { error } = await supabase.from('appointment_reminders').insert(toInsert)
+    if (error) throw error
+  }
+
+  return toInsert.length
+}
+
+/**
+ * Send reminders that are due (or the specific ones an admin asked to retry)
+ * through the configured provider for their channel.
+ */
+const dispatchReminders = async (supabase: SupabaseClient, reminderIds?: string[]) => {
+  let query = supabase
+    .from('appointment_reminders')
+    .select('id, appointment_id, rule_id, channel, recipient, attempts, status, scheduled_for')
+    .limit(DISPATCH_BATCH_SIZE)
+
+  if (reminderIds && reminderIds.length > 0) {
+    query = query.in('id', reminderIds).in('status', ['pending', 'failed'])
+  } else {
+    query = query
+      .eq('status', 'pending')
+      .lte('scheduled_for', new Date().toISOString())
+      .lt('attempts', MAX_AUTOMATIC_ATTEMPTS)
+  }
+
+  const { data: reminders, error } = await query
+  if (error) throw error
+
+  const results = { sent: 0, failed: 0, cancelled: 0, requeued: 0 }
+
+  for (const reminder of reminders ?? []) {
+    const { data: appointment, error: appointmentError } = await supabase
+      .from('appointments')
+      .select(APPOINTMENT_SELECT)
+      .eq('id', reminder.appointment_id)
+      .single()
+
+    if (appointmentError || !appointment || appointment.status !== 'scheduled') {
+      await supabase
+        .from('appointment_reminders')
+        .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+        .eq('id', reminder.id)
+      results.cancelled++
+      continue
+    }
+
+    const { data: rule } = reminder.rule_id
+      ? await supabase.from('reminder_rules').select('message_template, minutes_before').eq('id', reminder.rule_id).single()
+      : { data: null }
+
+    // The appointment may have moved since this reminder was queued; never send
+    // a reminder early, and drop it once the appointment has started
+    if (rule) {
+      const dueTime = getReminderDueTime(appointment as AppointmentWithPeople, rule.minutes_before)
+      if (getAppointmentStart(appointment as AppointmentWithPeople).getTime() <= Date.now()) {
+        await supabase
+          .from('appointment_reminders')
+          .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+          .eq('id', reminder.id)
+        results.cancelled++
+        continue
+      }
+      if (Date.parse(dueTime) > Date.now()) {
+        await supabase
+          .from('appointment_reminders')
+          .update({ status: 'pending', scheduled_for: dueTime, updated_at: new Date().toISOString() })
+          .eq('id', reminder.id)
+        results.requeued++
+        continue
+      }
+    }
+
+    const channel = reminder.channel as ReminderChannel
+    const template = rule?.message_template || DEFAULT_TEMPLATES[channel]
+    const attempts = reminder.attempts + 1
+
+    let outcome: { success: boolean; providerMessageId?: string; error?: string; provider?: string }
+    if (!reminder.recipient) {
+      outcome = { success: false, error: `Client has no ${channel === 'email' ? 'email address' : 'phone number'} on file` }
+    } else {
+      try {
+        const provider = getReminderProvider(channel)
+        const result = await provider.send({
+          channel,
+          to: reminder.recipient,
+          subject: 'Appointment reminder',
+          body: renderTemplate(template, appointment as AppointmentWithPeople),
+        })
+        outcome = { ...result, provider: provider.name }
+      } catch (sendError) {
+        outcome = { success: false, error: sendError.message }
+      }
+    }
+
+    await supabase
+      .from('appointment_reminders')
+      .update({
+        status: outcome.success ? 'sent' : (attempts >= MAX_AUTOMATIC_ATTEMPTS || reminderIds ? 'failed' : 'pending'),
+        attempts,
+        last_error: outcome.success ? null : outcome.error,
+        provider: outcome.provider ?? null,
+        provider_message_id: outcome.providerMessageId ?? null,
+        sent_at: outcome.success ? new Date().toISOString() : null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', reminder.id)
+
+    if (outcome.success) {
+      results.sent++
+    } else {
+      results.failed++
+    }
+  }
+
+  return results
+}
+
+const isAuthorizedCaller = async (supabase: SupabaseClient, req: Request) => {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '')
+  if (!token) return false
+
+  // Scheduled runs from pg_cron authenticate with the service role key
+  if (token === Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) return true
+
+  const { data: { user } } = await supabase.auth.getUser(token)
+  if (!user) return false
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  return profile?.role === 'admin' || profile?.role === 'moderator'
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    if (!(await isAuthorizedCaller(supabase, req))) {
+      return new Response(
+        JSON.stringify({ error: 'Not authorized to run reminders' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { reminderIds } = await req.json().catch(() => ({}))
+
+    const queued = reminderIds ? 0 : await enqueueReminders(supabase)
+    const results = await dispatchReminders(supabase, reminderIds)
+
+    console.log('Reminder run complete:', { queued, ...results })
+
+    return new Response(
+      JSON.stringify({ queued, ...results }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    console.error('Error in send-appointment-reminders function:', error)
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
@@ -0,0 +1,169 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { fromZonedTime, formatInTimeZone } from 'https://esm.sh/date-fns-tz@3.2.0'
+import { getReminderProvider } from '../_shared/providers.ts'
+import { toIANATimeZone } from '../_shared/timeZones.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const SEND_BATCH_SIZE = 100
+
+interface OfferWithPeople {
+  id: string
+  date: string
+  start_time: string
+  token: string
+  expires_at: string
+  clients: {
+    client_first_name: string | null
+    client_preferred_name: string | null
+    client_email: string | null
+  } | null
+  clinicians: {
+    clinician_professional_name: string | null
+    clinician_timezone: string | null
+  } | null
+}
+
+const renderOfferEmail = (offer: OfferWithPeople, siteUrl: string) => {
+  const timeZone = toIANATimeZone(offer.clinicians?.clinician_timezone ?? null)
+  const start = fromZonedTime(`${offer.date}T${offer.start_time.substring(0, 5)}:00`, timeZone)
+  const clientName = offer.clients?.client_preferred_name || offer.clients?.client_first_name || 'there'
+  const clinicianName = offer.clinicians?.clinician_professional_name || 'your clinician'
+
+  return [
+    `Hi ${clientName},`,
+    '',
+    `An earlier appointment with ${clinicianName} has opened up on ${formatInTimeZone(start, timeZone, 'EEEE, MMMM d')} at ${formatInTimeZone(start, timeZone, 'h:mm a zzz')}.`,
+    '',
+    `Claim it here before ${formatInTimeZone(new Date(offer.expires_at), timeZone, 'h:mm a zzz')}:`,
+    `${siteUrl}/waitlist/claim/${offer.token}`,
+    '',
+    'If you don\'t respond in time, the opening goes to the next person on the waitlist.',
+  ].join('\n')
+}
+
+/**
+ * Email every pending offer that hasn't been sent yet. An offer that can't be
+ * delivered is left unsent and expires normally, passing the slot along.
+ */
+const sendOffers = async (supabase: SupabaseClient, siteUrl: string) => {
+  const { data: offers, error } = await supabase
+    .from('waitlist_offers')
+    .select(`
+      id, date, start_time, token, expires_at,
+      clients (client_first_name, client_preferred_name, client_email),
+      clinicians (clinician_professional_name, clinician_timezone)
+    `)
+    .eq('status', 'pending')
+    .is('notified_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .limit(SEND_BATCH_SIZE)
+
+  if (error) throw error
+
+  const results = { sent: 0, failed: 0 }
+  const provider = getReminderProvider('email')
+
+  for (const offer of (offers ?? []) as OfferWithPeople[]) {
+    if (!offer.clients?.client_email) {
+      console.error(`Waitlist offer ${offer.id}: client has no email address on file`)
+      results.failed++
+      continue
+    }
+
+    try {
+      const result = await provider.send({
+        channel: 'email',
+        to: offer.clients.client_email,
+        subject: 'An earlier appointment is available',
+        body: renderOfferEmail(offer, siteUrl),
+      })
+      if (!result.success) throw new Error(result.error)
+    } catch (sendError) {
+      console.error(`Waitlist offer ${offer.id} failed to send:`, sendError)
+      results.failed++
+      continue
+    }
+
+    const { error: updateError } = await supabase
+      .from('waitlist_offers')
+      .update({ notified_at: new Date().toISOString() })
+      .eq('id', offer.id)
+    if (updateError) throw updateError
+
+    results.sent++
+  }
+
+  return results
+}
+
+const isAuthorizedCaller = async (supabase: SupabaseClient, req: Request) => {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '')
+  if (!token) return false
+
+  // Scheduled runs from pg_cron authenticate with the service role key
+  if (token === Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) return true
+
+  const { data: { user } } = await supabase.auth.getUser(token)
+  if (!user) return false
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  // Staff trigger a run right after cancelling so the offer goes out immediately
+  return ['admin', 'moderator', 'clinician'].includes(profile?.role)
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    if (!(await isAuthorizedCaller(supabase, req))) {
+      return new Response(
+        JSON.stringify({ error: 'Not authorized to send waitlist offers' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const siteUrl = Deno.env.get('SITE_URL')
+    if (!siteUrl) {
+      throw new Error('SITE_URL must be configured to build claim links')
+    }
+
+    const { data: expired, error: expireError } = await supabase.rpc('expire_waitlist_offers')
+    if (expireError) throw expireError
+
+    const results = await sendOffers(supabase, siteUrl.replace(/\/$/, ''))
+
+    console.log('Waitlist run complete:', { expired, ...results })
+
+    return new Response(
+      JSON.stringify({ expired, ...results }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    console.error('Error in send-waitlist-offers function:', error)
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
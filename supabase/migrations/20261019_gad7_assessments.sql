@@ -0,0 +1,48 @@
+-- GAD-7 assessments, stored the same way as phq9_assessments
+CREATE TABLE IF NOT EXISTS public.gad7_assessments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  clinician_id UUID REFERENCES public.clinicians(id),
+  assessment_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  question_1 INTEGER NOT NULL CHECK (question_1 BETWEEN 0 AND 3),
+  question_2 INTEGER NOT NULL CHECK (question_2 BETWEEN 0 AND 3),
+  question_3 INTEGER NOT NULL CHECK (question_3 BETWEEN 0 AND 3),
+  question_4 INTEGER NOT NULL CHECK (question_4 BETWEEN 0 AND 3),
+  question_5 INTEGER NOT NULL CHECK (question_5 BETWEEN 0 AND 3),
+  question_6 INTEGER NOT NULL CHECK (question_6 BETWEEN 0 AND 3),
+  question_7 INTEGER NOT NULL CHECK (question_7 BETWEEN 0 AND 3),
+  total_score INTEGER NOT NULL CHECK (total_score BETWEEN 0 AND 21),
+  severity TEXT NOT NULL,
+  gad7_narrative TEXT,
+  additional_notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS gad7_assessments_client_date_idx
+  ON public.gad7_assessments (client_id, assessment_date DESC);
+
+ALTER TABLE public.gad7_assessments ENABLE ROW LEVEL SECURITY;
+
+-- Staff can read and record assessments; clients can read their own results
+CREATE POLICY "Staff can manage GAD-7 assessments"
+  ON public.gad7_assessments
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'clinician')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'clinician')
+    )
+  );
+
+CREATE POLICY "Clients can view their own GAD-7 assessments"
+  ON public.gad7_assessments
+  FOR SELECT
+  TO authenticated
+  USING (client_id = auth.uid());
@@ -0,0 +1,70 @@
+-- PCL-5 assessments with DSM-5 symptom cluster subtotals
+CREATE TABLE IF NOT EXISTS public.pcl5_assessments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  clinician_id UUID REFERENCES public.clinicians(id),
+  appointment_id UUID REFERENCES public.appointments(id) ON DELETE SET NULL,
+  assessment_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  event_description TEXT,
+  question_1 INTEGER NOT NULL CHECK (question_1 BETWEEN 0 AND 4),
+  question_2 INTEGER NOT NULL CHECK (question_2 BETWEEN 0 AND 4),
+  question_3 INTEGER NOT NULL CHECK (question_3 BETWEEN 0 AND 4),
+  question_4 INTEGER NOT NULL CHECK (question_4 BETWEEN 0 AND 4),
+  question_5 INTEGER NOT NULL CHECK (question_5 BETWEEN 0 AND 4),
+  question_6 INTEGER NOT NULL CHECK (question_6 BETWEEN 0 AND 4),
+  question_7 INTEGER NOT NULL CHECK (question_7 BETWEEN 0 AND 4),
+  question_8 INTEGER NOT NULL CHECK (question_8 BETWEEN 0 AND 4),
+  question_9 INTEGER NOT NULL CHECK (question_9 BETWEEN 0 AND 4),
+  question_10 INTEGER NOT NULL CHECK (question_10 BETWEEN 0 AND 4),
+  question_11 INTEGER NOT NULL CHECK (question_11 BETWEEN 0 AND 4),
+  question_12 INTEGER NOT NULL CHECK (question_12 BETWEEN 0 AND 4),
+  question_13 INTEGER NOT NULL CHECK (question_13 BETWEEN 0 AND 4),
+  question_14 INTEGER NOT NULL CHECK (question_14 BETWEEN 0 AND 4),
+  question_15 INTEGER NOT NULL CHECK (question_15 BETWEEN 0 AND 4),
+  question_16 INTEGER NOT NULL CHECK (question_16 BETWEEN 0 AND 4),
+  question_17 INTEGER NOT NULL CHECK (question_17 BETWEEN 0 AND 4),
+  question_18 INTEGER NOT NULL CHECK (question_18 BETWEEN 0 AND 4),
+  question_19 INTEGER NOT NULL CHECK (question_19 BETWEEN 0 AND 4),
+  question_20 INTEGER NOT NULL CHECK (question_20 BETWEEN 0 AND 4),
+  cluster_b_intrusion INTEGER NOT NULL CHECK (cluster_b_intrusion BETWEEN 0 AND 20),
+  cluster_c_avoidance INTEGER NOT NULL CHECK (cluster_c_avoidance BETWEEN 0 AND 8),
+  cluster_d_negative_alterations INTEGER NOT NULL CHECK (cluster_d_negative_alterations BETWEEN 0 AND 28),
+  cluster_e_arousal INTEGER NOT NULL CHECK (cluster_e_arousal BETWEEN 0 AND 24),
+  total_score INTEGER NOT NULL CHECK (total_score BETWEEN 0 AND 80),
+  meets_symptom_criteria BOOLEAN NOT NULL DEFAULT false,
+  provisional_ptsd BOOLEAN NOT NULL DEFAULT false,
+  additional_notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS pcl5_assessments_client_date_idx
+  ON public.pcl5_assessments (client_id, assessment_date DESC);
+
+CREATE INDEX IF NOT EXISTS pcl5_assessments_appointment_idx
+  ON public.pcl5_assessments (appointment_id);
+
+ALTER TABLE public.pcl5_assessments ENABLE ROW LEVEL SECURITY;
+
+-- Staff can read and record assessments; clients can read their own results
+CREATE POLICY "Staff can manage PCL-5 assessments"
+  ON public.pcl5_assessments
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'clinician')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'clinician')
+    )
+  );
+
+CREATE POLICY "Clients can view their own PCL-5 assessments"
+  ON public.pcl5_assessments
+  FOR SELECT
+  TO authenticated
+  USING (client_id = auth.uid());
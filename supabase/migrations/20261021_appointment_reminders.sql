@@ -0,0 +1,99 @@
+-- Configurable reminder rules, e.g. "email 48 hours before every Therapy Session"
+CREATE TABLE IF NOT EXISTS public.reminder_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  -- NULL applies the rule to every appointment type
+  appointment_type TEXT,
+  minutes_before INTEGER NOT NULL CHECK (minutes_before > 0),
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'sms')),
+  message_template TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Queue of reminders generated from appointments by the send-appointment-reminders function
+CREATE TABLE IF NOT EXISTS public.appointment_reminders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  appointment_id UUID NOT NULL REFERENCES public.appointments(id) ON DELETE CASCADE,
+  rule_id UUID REFERENCES public.reminder_rules(id) ON DELETE SET NULL,
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'sms')),
+  recipient TEXT,
+  scheduled_for TIMESTAMP WITH TIME ZONE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed', 'cancelled')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  provider TEXT,
+  provider_message_id TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (appointment_id, rule_id)
+);
+
+CREATE INDEX IF NOT EXISTS appointment_reminders_due_idx
+  ON public.appointment_reminders (status, scheduled_for);
+
+ALTER TABLE public.reminder_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.appointment_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage reminder rules"
+  ON public.reminder_rules
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'moderator')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'moderator')
+    )
+  );
+
+CREATE POLICY "Admins can manage appointment reminders"
+  ON public.appointment_reminders
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'moderator')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'moderator')
+    )
+  );
+
+-- Default rules: an email two days ahead and a text two hours ahead
+INSERT INTO public.reminder_rules (name, appointment_type, minutes_before, channel)
+VALUES
+  ('48 hour email reminder', NULL, 2880, 'email'),
+  ('2 hour text reminder', NULL, 120, 'sms');
+
+-- Run the reminder engine every five minutes. The service role key is read from Vault
+-- so the function can tell scheduled runs apart from admin-triggered retries.
+CREATE EXTENSION IF NOT EXISTS "pg_cron" WITH SCHEMA extensions;
+CREATE EXTENSION IF NOT EXISTS "pg_net" WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+  'send-appointment-reminders',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://gqlkritspnhjxfejvgfg.supabase.co/functions/v1/send-appointment-reminders',
+    body := '{}'::jsonb,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    )
+  );
+  $$
+);
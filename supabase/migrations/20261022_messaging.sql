@@ -0,0 +1,161 @@
+-- One conversation per client, shared with whichever clinician is currently assigned to them
+CREATE TABLE IF NOT EXISTS public.message_threads (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID NOT NULL UNIQUE REFERENCES public.clients(id) ON DELETE CASCADE,
+  last_message_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  thread_id UUID NOT NULL REFERENCES public.message_threads(id) ON DELETE CASCADE,
+  sender_id UUID NOT NULL REFERENCES auth.users(id),
+  body TEXT NOT NULL DEFAULT '',
+  -- Path inside the private message-attachments bucket
+  attachment_path TEXT,
+  attachment_name TEXT,
+  attachment_type TEXT,
+  attachment_size INTEGER,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (body <> '' OR attachment_path IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS messages_thread_id_created_at_idx
+  ON public.messages (thread_id, created_at);
+
+CREATE INDEX IF NOT EXISTS messages_unread_idx
+  ON public.messages (thread_id)
+  WHERE read_at IS NULL;
+
+-- Participants are the client and their assigned therapist. Access follows the
+-- assignment, so a reassigned client's history moves to the new clinician.
+-- Clinician records are matched by user ID or, for older rows, by email.
+CREATE OR REPLACE FUNCTION public.can_access_client_messages(p_client_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.clients
+    WHERE clients.id = p_client_id
+      AND (
+        clients.id = auth.uid()
+        OR clients.client_assigned_therapist = auth.uid()::text
+        OR EXISTS (
+          SELECT 1 FROM public.clinicians
+          WHERE clinicians.id::text = clients.client_assigned_therapist
+            AND clinicians.clinician_email = auth.jwt() ->> 'email'
+        )
+      )
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_access_message_thread(p_thread_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.message_threads
+    WHERE message_threads.id = p_thread_id
+      AND public.can_access_client_messages(message_threads.client_id)
+  );
+$$;
+
+ALTER TABLE public.message_threads ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view their message threads"
+  ON public.message_threads
+  FOR SELECT
+  TO authenticated
+  USING (public.can_access_client_messages(client_id));
+
+CREATE POLICY "Participants can start their message thread"
+  ON public.message_threads
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.can_access_client_messages(client_id));
+
+CREATE POLICY "Participants can view messages"
+  ON public.messages
+  FOR SELECT
+  TO authenticated
+  USING (public.can_access_message_thread(thread_id));
+
+CREATE POLICY "Participants can send messages as themselves"
+  ON public.messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (sender_id = auth.uid() AND public.can_access_message_thread(thread_id));
+
+-- Messages are otherwise immutable; read receipts go through this function so
+-- participants cannot edit message content.
+CREATE OR REPLACE FUNCTION public.mark_message_thread_read(p_thread_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.can_access_message_thread(p_thread_id) THEN
+    RAISE EXCEPTION 'Not a participant in this conversation';
+  END IF;
+
+  UPDATE public.messages
+  SET read_at = now()
+  WHERE thread_id = p_thread_id
+    AND sender_id <> auth.uid()
+    AND read_at IS NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.touch_message_thread()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.message_threads
+  SET last_message_at = NEW.created_at
+  WHERE id = NEW.thread_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER messages_touch_thread
+  AFTER INSERT ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.touch_message_thread();
+
+-- Realtime delivery honours the SELECT policies above
+ALTER PUBLICATION supabase_realtime ADD TABLE public.messages;
+
+-- Attachments live under "<thread_id>/<file>" in a private bucket
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('message-attachments', 'message-attachments', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Participants can read message attachments"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'message-attachments'
+    AND public.can_access_message_thread(((storage.foldername(name))[1])::uuid)
+  );
+
+CREATE POLICY "Participants can upload message attachments"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'message-attachments'
+    AND public.can_access_message_thread(((storage.foldername(name))[1])::uuid)
+  );
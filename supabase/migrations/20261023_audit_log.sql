@@ -0,0 +1,96 @@
+-- Append-only record of who viewed or changed protected health information
+CREATE TABLE IF NOT EXISTS public.audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- Copied at write time so entries stay readable after a user is removed or changes role
+  actor_email TEXT,
+  actor_role TEXT,
+  action TEXT NOT NULL CHECK (action IN ('view', 'create', 'update', 'delete', 'download')),
+  table_name TEXT NOT NULL,
+  record_id TEXT,
+  client_id UUID,
+  -- { "<column>": { "before": ..., "after": ... } } for the columns that changed
+  changes JSONB,
+  metadata JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS audit_log_created_at_idx ON public.audit_log (created_at DESC);
+CREATE INDEX IF NOT EXISTS audit_log_client_id_idx ON public.audit_log (client_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS audit_log_actor_id_idx ON public.audit_log (actor_id, created_at DESC);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Entries are written only through record_audit_event, so there is no INSERT policy
+CREATE POLICY "Admins can view the audit log"
+  ON public.audit_log
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'moderator')
+    )
+  );
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON public.audit_log FROM anon, authenticated;
+
+-- Enforce append-only even for privileged roles
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$;
+
+CREATE TRIGGER audit_log_append_only
+  BEFORE UPDATE OR DELETE ON public.audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+CREATE TRIGGER audit_log_no_truncate
+  BEFORE TRUNCATE ON public.audit_log
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+-- The actor is taken from the session rather than the caller so entries can't be forged
+CREATE OR REPLACE FUNCTION public.record_audit_event(
+  p_action TEXT,
+  p_table_name TEXT,
+  p_record_id TEXT DEFAULT NULL,
+  p_client_id UUID DEFAULT NULL,
+  p_changes JSONB DEFAULT NULL,
+  p_metadata JSONB DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Audit events require an authenticated user';
+  END IF;
+
+  INSERT INTO public.audit_log (actor_id, actor_email, actor_role, action, table_name, record_id, client_id, changes, metadata)
+  SELECT
+    auth.uid(),
+    auth.jwt() ->> 'email',
+    (SELECT profiles.role::text FROM public.profiles WHERE profiles.id = auth.uid()),
+    p_action,
+    p_table_name,
+    p_record_id,
+    p_client_id,
+    p_changes,
+    p_metadata
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_audit_event(TEXT, TEXT, TEXT, UUID, JSONB, JSONB) TO authenticated;
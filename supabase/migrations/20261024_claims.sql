@@ -0,0 +1,94 @@
+CREATE SEQUENCE IF NOT EXISTS public.claim_number_seq;
+
+-- Professional claims built from documented appointments. Patient, payer and
+-- provider details are copied onto the claim when it is created so the claim
+-- keeps showing what was billed even if the chart changes later.
+CREATE TABLE IF NOT EXISTS public.claims (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Patient control number (CLM01 / box 26); 837P allows at most 20 characters
+  claim_number TEXT NOT NULL UNIQUE DEFAULT ('VW' || to_char(now(), 'YYMMDD') || lpad(nextval('public.claim_number_seq')::text, 6, '0')),
+  appointment_id UUID NOT NULL UNIQUE REFERENCES public.appointments(id) ON DELETE RESTRICT,
+  session_note_id UUID REFERENCES public.session_notes(id) ON DELETE SET NULL,
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE RESTRICT,
+  clinician_id UUID REFERENCES public.clinicians(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'submitted', 'paid', 'denied')),
+
+  -- Payer / insured (CMS-1500 boxes 1, 1a, 4, 6, 7, 11)
+  payer_order TEXT NOT NULL DEFAULT 'primary' CHECK (payer_order IN ('primary', 'secondary', 'tertiary')),
+  payer_name TEXT,
+  payer_id TEXT,
+  insurance_type TEXT,
+  policy_number TEXT,
+  group_number TEXT,
+  subscriber_name TEXT,
+  subscriber_dob DATE,
+  subscriber_relationship TEXT,
+
+  -- Patient (boxes 2, 3, 5)
+  patient_first_name TEXT,
+  patient_last_name TEXT,
+  patient_dob DATE,
+  patient_gender TEXT,
+  patient_address1 TEXT,
+  patient_city TEXT,
+  patient_state TEXT,
+  patient_zip TEXT,
+
+  -- Service (boxes 21 and 24)
+  diagnosis_codes TEXT[] NOT NULL DEFAULT '{}',
+  service_date DATE NOT NULL,
+  place_of_service TEXT NOT NULL DEFAULT '10',
+  cpt_code TEXT,
+  modifier TEXT,
+  units INTEGER NOT NULL DEFAULT 1 CHECK (units > 0),
+  charge_amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+
+  -- Rendering provider (box 24J)
+  rendering_provider_first_name TEXT,
+  rendering_provider_last_name TEXT,
+  rendering_provider_npi TEXT,
+  rendering_provider_taxonomy TEXT,
+
+  -- Billing provider (boxes 25 and 33)
+  billing_provider_name TEXT,
+  billing_provider_npi TEXT,
+  billing_provider_tax_id TEXT,
+  billing_provider_taxonomy TEXT,
+  billing_provider_address1 TEXT,
+  billing_provider_city TEXT,
+  billing_provider_state TEXT,
+  billing_provider_zip TEXT,
+
+  -- Adjudication
+  paid_amount NUMERIC(10, 2),
+  denial_reason TEXT,
+  submitted_at TIMESTAMP WITH TIME ZONE,
+  adjudicated_at TIMESTAMP WITH TIME ZONE,
+  notes TEXT,
+
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS claims_status_idx ON public.claims (status, service_date DESC);
+CREATE INDEX IF NOT EXISTS claims_client_id_idx ON public.claims (client_id);
+
+ALTER TABLE public.claims ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage claims"
+  ON public.claims
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'moderator')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'moderator')
+    )
+  );
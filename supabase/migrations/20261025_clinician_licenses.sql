@@ -0,0 +1,135 @@
+-- Track the full license record for each clinician so expirations can be
+-- flagged and licensed states derived from what is actually on file.
+ALTER TABLE public.licenses
+  ADD COLUMN IF NOT EXISTS license_type TEXT,
+  ADD COLUMN IF NOT EXISTS issue_date DATE,
+  ADD COLUMN IF NOT EXISTS expiration_date DATE,
+  ADD COLUMN IF NOT EXISTS proof_path TEXT,
+  ADD COLUMN IF NOT EXISTS proof_file_name TEXT;
+
+CREATE INDEX IF NOT EXISTS licenses_clinician_id_idx ON public.licenses (clinician_id);
+CREATE INDEX IF NOT EXISTS licenses_expiration_date_idx ON public.licenses (expiration_date);
+
+ALTER TABLE public.licenses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage licenses"
+  ON public.licenses
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'moderator')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'moderator')
+    )
+  );
+
+CREATE POLICY "Clinicians can view their own licenses"
+  ON public.licenses
+  FOR SELECT
+  TO authenticated
+  USING (
+    clinician_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM public.clinicians
+      WHERE clinicians.id = licenses.clinician_id
+        AND clinicians.clinician_email = auth.jwt()->>'email'
+    )
+  );
+
+-- clinician_licensed_states drives state filtering on the therapist selection
+-- page, so keep it equal to the states of the clinician's unexpired licenses.
+CREATE OR REPLACE FUNCTION public.sync_clinician_licensed_states(p_clinician_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.clinicians
+  SET clinician_licensed_states = COALESCE((
+    SELECT array_agg(DISTINCT licenses.state ORDER BY licenses.state)
+    FROM public.licenses
+    WHERE licenses.clinician_id = p_clinician_id
+      AND (licenses.expiration_date IS NULL OR licenses.expiration_date >= CURRENT_DATE)
+  ), '{}')
+  WHERE clinicians.id = p_clinician_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_license_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.sync_clinician_licensed_states(OLD.clinician_id);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND (TG_OP = 'INSERT' OR NEW.clinician_id IS DISTINCT FROM OLD.clinician_id OR NEW.state IS DISTINCT FROM OLD.state OR NEW.expiration_date IS DISTINCT FROM OLD.expiration_date) THEN
+    PERFORM public.sync_clinician_licensed_states(NEW.clinician_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_licensed_states_on_license_change ON public.licenses;
+CREATE TRIGGER sync_licensed_states_on_license_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.licenses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_license_change();
+
+-- Licenses entered through the old staff_licenses table (keyed by profile)
+-- move over to the clinician they belong to, so licensed states derived above
+-- don't drop them. Their dates were never recorded and are left for the admin
+-- to fill in.
+INSERT INTO public.licenses (clinician_id, state, license_number, license_type)
+SELECT DISTINCT clinicians.id, staff_licenses.license_state, staff_licenses.license_number, staff_licenses.license_type
+FROM public.staff_licenses
+JOIN public.profiles ON profiles.id = staff_licenses.profile_id
+JOIN public.clinicians ON clinicians.id = profiles.id OR clinicians.clinician_email = profiles.email
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.licenses
+  WHERE licenses.clinician_id = clinicians.id
+    AND lower(trim(licenses.state)) = lower(trim(staff_licenses.license_state))
+    AND licenses.license_number = staff_licenses.license_number
+);
+
+-- Licenses lapse without any row changing, so re-sync every clinician with
+-- licenses on file shortly after midnight.
+SELECT cron.schedule(
+  'sync-clinician-licensed-states',
+  '5 0 * * *',
+  $$
+  SELECT public.sync_clinician_licensed_states(clinician_id)
+  FROM (SELECT DISTINCT clinician_id FROM public.licenses) AS licensed;
+  $$
+);
+
+-- Scanned license certificates, stored under the clinician's id
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('license-documents', 'license-documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Admins can manage license documents"
+  ON storage.objects
+  FOR ALL
+  TO authenticated
+  USING (
+    bucket_id = 'license-documents'
+    AND EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'moderator')
+    )
+  )
+  WITH CHECK (
+    bucket_id = 'license-documents'
+    AND EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'moderator')
+    )
+  );
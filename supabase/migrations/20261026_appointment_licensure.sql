@@ -0,0 +1,136 @@
+-- Clinicians may only see clients in states where they hold a license on the
+-- date of the session. Admins can override with a reason, which is recorded on
+-- the appointment and in the audit log.
+ALTER TABLE public.appointments
+  ADD COLUMN IF NOT EXISTS licensure_override_reason TEXT,
+  ADD COLUMN IF NOT EXISTS licensure_override_by UUID REFERENCES auth.users(id);
+
+-- A client with no state on file can't be checked and is treated as covered.
+-- Clinicians without any license records fall back to the states entered on
+-- their profile, so practices that haven't loaded licenses yet keep working.
+CREATE OR REPLACE FUNCTION public.is_clinician_licensed_for_client(p_clinician_id UUID, p_client_id UUID, p_date DATE)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_state TEXT;
+BEGIN
+  SELECT lower(trim(client_state)) INTO v_state FROM public.clients WHERE id = p_client_id;
+
+  IF v_state IS NULL OR v_state = '' THEN
+    RETURN TRUE;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.licenses WHERE clinician_id = p_clinician_id) THEN
+    RETURN EXISTS (
+      SELECT 1 FROM public.licenses
+      WHERE clinician_id = p_clinician_id
+        AND lower(trim(state)) = v_state
+        AND (issue_date IS NULL OR issue_date <= p_date)
+        AND (expiration_date IS NULL OR expiration_date >= p_date)
+    );
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1 FROM public.clinicians, unnest(clinicians.clinician_licensed_states) AS licensed_state
+    WHERE clinicians.id = p_clinician_id
+      AND lower(trim(licensed_state)) = v_state
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_clinician_licensed_for_client(UUID, UUID, DATE) FROM PUBLIC, anon, authenticated;
+
+-- Lets the booking screens warn before saving. Callers can only check their own
+-- appointments: the client, the clinician, or an admin.
+CREATE OR REPLACE FUNCTION public.check_appointment_licensure(p_clinician_id UUID, p_client_id UUID, p_date DATE)
+RETURNS TABLE (client_state TEXT, is_licensed BOOLEAN)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (
+    p_client_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM public.clinicians
+      WHERE clinicians.id = p_clinician_id
+        AND (clinicians.id = auth.uid() OR clinicians.clinician_email = auth.jwt() ->> 'email')
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'moderator')
+    )
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to check licensure for this appointment';
+  END IF;
+
+  RETURN QUERY
+  SELECT clients.client_state, public.is_clinician_licensed_for_client(p_clinician_id, p_client_id, p_date)
+  FROM public.clients
+  WHERE clients.id = p_client_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.check_appointment_licensure(UUID, UUID, DATE) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.enforce_appointment_licensure()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_client_state TEXT;
+BEGIN
+  IF NEW.status IN ('cancelled', 'Cancelled') THEN
+    RETURN NEW;
+  END IF;
+
+  IF public.is_clinician_licensed_for_client(NEW.clinician_id, NEW.client_id, NEW.date) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT client_state INTO v_client_state FROM public.clients WHERE id = NEW.client_id;
+
+  IF coalesce(trim(NEW.licensure_override_reason), '') = '' OR NOT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'moderator')
+  ) THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = 'LICENSURE_REQUIRED',
+      DETAIL = format('The clinician has no active license in %s on %s.', v_client_state, NEW.date),
+      HINT = 'An admin can schedule the appointment with an override reason.';
+  END IF;
+
+  NEW.licensure_override_by := auth.uid();
+
+  PERFORM public.record_audit_event(
+    CASE WHEN TG_OP = 'INSERT' THEN 'create' ELSE 'update' END,
+    'appointments',
+    NEW.id::text,
+    NEW.client_id,
+    NULL,
+    jsonb_build_object(
+      'licensure_override', true,
+      'reason', NEW.licensure_override_reason,
+      'client_state', v_client_state,
+      'clinician_id', NEW.clinician_id,
+      'date', NEW.date
+    )
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_appointment_licensure ON public.appointments;
+CREATE TRIGGER enforce_appointment_licensure
+  BEFORE INSERT OR UPDATE OF client_id, clinician_id, date ON public.appointments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_appointment_licensure();
@@ -0,0 +1,283 @@
+-- Two bookings for the same clinician can race: each checks for conflicts,
+-- sees none, and both insert. Serialize appointment writes per clinician with
+-- a transaction-level advisory lock and re-check for overlaps once it's held.
+-- A trigger rather than an exclusion constraint, so existing overlapping rows
+-- don't block the migration and cancelled appointments release their time.
+CREATE OR REPLACE FUNCTION public.lock_clinician_schedule(p_clinician_id UUID)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+  SELECT pg_advisory_xact_lock(hashtext('appointments:' || p_clinician_id::text));
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.lock_clinician_schedule(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.prevent_appointment_overlap()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_conflict public.appointments%ROWTYPE;
+BEGIN
+  IF NEW.status IN ('cancelled', 'Cancelled') THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.lock_clinician_schedule(NEW.clinician_id);
+
+  SELECT * INTO v_conflict FROM public.appointments
+  WHERE clinician_id = NEW.clinician_id
+    AND date = NEW.date
+    AND id <> NEW.id
+    AND status NOT IN ('cancelled', 'Cancelled')
+    AND start_time < NEW.end_time
+    AND end_time > NEW.start_time
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = 'SLOT_CONFLICT',
+      DETAIL = jsonb_build_array(jsonb_build_object(
+        'date', NEW.date,
+        'start_time', NEW.start_time,
+        'end_time', NEW.end_time,
+        'conflicting_appointment_id', v_conflict.id
+      ))::text,
+      HINT = 'The clinician already has an appointment at this time.';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_appointment_overlap ON public.appointments;
+CREATE TRIGGER prevent_appointment_overlap
+  BEFORE INSERT OR UPDATE OF clinician_id, date, start_time, end_time, status ON public.appointments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_appointment_overlap();
+
+-- Clinician time zones are sometimes stored as display names rather than IANA identifiers
+CREATE OR REPLACE FUNCTION public.to_iana_time_zone(p_time_zone TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_time_zone LIKE '%/%' THEN p_time_zone
+    WHEN p_time_zone LIKE 'Eastern%' THEN 'America/New_York'
+    WHEN p_time_zone LIKE 'Mountain%' THEN 'America/Denver'
+    WHEN p_time_zone LIKE 'Pacific%' THEN 'America/Los_Angeles'
+    WHEN p_time_zone LIKE 'Alaska%' THEN 'America/Anchorage'
+    WHEN p_time_zone LIKE 'Hawaii%' THEN 'Pacific/Honolulu'
+    WHEN p_time_zone LIKE 'Atlantic%' THEN 'America/Puerto_Rico'
+    ELSE 'America/Chicago'
+  END;
+$$;
+
+-- Whether a client may book this session themselves: it must start on a slot
+-- boundary inside the clinician's availability (with that date's exceptions),
+-- fall outside their time off, start in the future, and land within their
+-- booking window. Same rules as computeBookableSlots; keep the two in step.
+CREATE OR REPLACE FUNCTION public.is_appointment_slot_bookable(p_clinician_id UUID, p_date DATE, p_start_time TIME, p_end_time TIME)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings public.availability_settings%ROWTYPE;
+  v_time_zone TEXT;
+  v_today DATE;
+  v_step INTEGER;
+BEGIN
+  SELECT * INTO v_settings FROM public.availability_settings WHERE clinician_id = p_clinician_id;
+  SELECT public.to_iana_time_zone(clinician_timezone) INTO v_time_zone FROM public.clinicians WHERE id = p_clinician_id;
+  v_today := (now() AT TIME ZONE coalesce(v_time_zone, 'America/Chicago'))::date;
+
+  v_step := CASE
+    WHEN v_settings.time_granularity = 'custom' AND v_settings.custom_minutes > 0 THEN v_settings.custom_minutes
+    WHEN v_settings.time_granularity = 'half-hour' THEN 30
+    ELSE 60
+  END;
+
+  IF p_date < v_today + coalesce(v_settings.min_days_ahead, 1)
+    OR p_date > v_today + coalesce(nullif(v_settings.max_days_ahead, 0), 60)
+    OR (p_date + p_start_time) AT TIME ZONE coalesce(v_time_zone, 'America/Chicago') <= now()
+  THEN
+    RETURN FALSE;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.time_off_blocks
+    WHERE clinician_id = p_clinician_id
+      AND is_active IS NOT FALSE
+      AND start_date <= p_date
+      AND end_date >= p_date
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  RETURN EXISTS (
+    WITH day_exceptions AS (
+      SELECT * FROM public.availability_exceptions
+      WHERE clinician_id = p_clinician_id AND specific_date = p_date
+    ),
+    windows AS (
+      SELECT
+        CASE WHEN exception.start_time IS NOT NULL AND exception.end_time IS NOT NULL THEN exception.start_time ELSE availability.start_time END AS start_time,
+        CASE WHEN exception.start_time IS NOT NULL AND exception.end_time IS NOT NULL THEN exception.end_time ELSE availability.end_time END AS end_time
+      FROM public.availability
+      LEFT JOIN LATERAL (
+        SELECT * FROM day_exceptions WHERE day_exceptions.original_availability_id = availability.id LIMIT 1
+      ) AS exception ON TRUE
+      WHERE availability.clinician_id = p_clinician_id
+        AND availability.is_active IS NOT FALSE
+        AND availability.day_of_week = to_char(p_date, 'FMDay')
+        AND exception.is_deleted IS NOT TRUE
+      UNION ALL
+      SELECT start_time, end_time FROM day_exceptions
+      WHERE original_availability_id IS NULL
+        AND is_deleted IS NOT TRUE
+        AND start_time IS NOT NULL
+        AND end_time IS NOT NULL
+    )
+    SELECT 1 FROM windows
+    WHERE windows.end_time > windows.start_time
+      AND p_start_time >= windows.start_time
+      AND p_end_time <= windows.end_time
+      AND (extract(epoch FROM p_start_time - windows.start_time) / 60)::integer % v_step = 0
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_appointment_slot_bookable(UUID, DATE, TIME, TIME) FROM PUBLIC, anon, authenticated;
+
+-- Books one or more sessions (a recurring series) all-or-nothing. Each session
+-- in p_sessions is {date, start_time, end_time}. Clients booking themselves may
+-- only take bookable slots and must also clear the clinician's buffer;
+-- clinicians and admins may book outside availability and back to back.
+CREATE OR REPLACE FUNCTION public.book_appointments(
+  p_client_id UUID,
+  p_clinician_id UUID,
+  p_sessions JSONB,
+  p_type TEXT DEFAULT 'Therapy Session',
+  p_notes TEXT DEFAULT NULL,
+  p_appointment_recurring TEXT DEFAULT NULL,
+  p_recurring_group_id UUID DEFAULT NULL,
+  p_licensure_override_reason TEXT DEFAULT NULL
+)
+RETURNS SETOF public.appointments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_is_staff BOOLEAN;
+  v_buffer INTEGER := 0;
+  v_conflicts JSONB;
+  v_unavailable JSONB;
+BEGIN
+  v_is_staff := EXISTS (
+    SELECT 1 FROM public.clinicians
+    WHERE clinicians.id = p_clinician_id
+      AND (clinicians.id = auth.uid() OR clinicians.clinician_email = auth.jwt() ->> 'email')
+  ) OR EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'moderator')
+  );
+
+  IF NOT v_is_staff AND p_client_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Not allowed to book appointments for this client';
+  END IF;
+
+  IF jsonb_typeof(p_sessions) <> 'array' OR jsonb_array_length(p_sessions) = 0 OR EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_sessions) AS session
+    WHERE (session ->> 'end_time')::time <= (session ->> 'start_time')::time
+  ) THEN
+    RAISE EXCEPTION 'Each session needs a date and an end time after its start time';
+  END IF;
+
+  IF NOT v_is_staff THEN
+    SELECT jsonb_agg(session)
+    INTO v_unavailable
+    FROM jsonb_array_elements(p_sessions) AS session
+    WHERE NOT public.is_appointment_slot_bookable(
+      p_clinician_id,
+      (session ->> 'date')::date,
+      (session ->> 'start_time')::time,
+      (session ->> 'end_time')::time
+    );
+
+    IF v_unavailable IS NOT NULL THEN
+      RAISE EXCEPTION USING
+        ERRCODE = 'P0001',
+        MESSAGE = 'SLOT_UNAVAILABLE',
+        DETAIL = v_unavailable::text,
+        HINT = 'Clients can only book the clinician''s open slots.';
+    END IF;
+  END IF;
+
+  PERFORM public.lock_clinician_schedule(p_clinician_id);
+
+  IF NOT v_is_staff THEN
+    SELECT coalesce(buffer_minutes, 0) INTO v_buffer
+    FROM public.availability_settings
+    WHERE clinician_id = p_clinician_id;
+    v_buffer := coalesce(v_buffer, 0);
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object(
+    'date', session ->> 'date',
+    'start_time', session ->> 'start_time',
+    'end_time', session ->> 'end_time',
+    'conflicting_appointment_id', appointments.id
+  ))
+  INTO v_conflicts
+  FROM jsonb_array_elements(p_sessions) AS session
+  JOIN public.appointments
+    ON appointments.clinician_id = p_clinician_id
+   AND appointments.date = (session ->> 'date')::date
+   AND appointments.status NOT IN ('cancelled', 'Cancelled')
+   AND extract(epoch FROM appointments.start_time) / 60 - v_buffer < extract(epoch FROM (session ->> 'end_time')::time) / 60
+   AND extract(epoch FROM appointments.end_time) / 60 + v_buffer > extract(epoch FROM (session ->> 'start_time')::time) / 60;
+
+  IF v_conflicts IS NOT NULL THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = 'SLOT_CONFLICT',
+      DETAIL = v_conflicts::text,
+      HINT = 'The clinician already has an appointment at this time.';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO public.appointments (
+    client_id, clinician_id, date, start_time, end_time, type, status, notes,
+    appointment_recurring, recurring_group_id, licensure_override_reason
+  )
+  SELECT
+    p_client_id,
+    p_clinician_id,
+    (session ->> 'date')::date,
+    (session ->> 'start_time')::time,
+    (session ->> 'end_time')::time,
+    coalesce(p_type, 'Therapy Session'),
+    'scheduled',
+    p_notes,
+    p_appointment_recurring,
+    p_recurring_group_id,
+    p_licensure_override_reason
+  FROM jsonb_array_elements(p_sessions) AS session
+  RETURNING *;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.book_appointments(UUID, UUID, JSONB, TEXT, TEXT, TEXT, UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.book_appointments(UUID, UUID, JSONB, TEXT, TEXT, TEXT, UUID, TEXT) TO authenticated;
+
+-- Appointments are created through book_appointments (or other checked
+-- functions), never inserted directly by signed-in users
+REVOKE INSERT ON public.appointments FROM anon, authenticated;
@@ -0,0 +1,55 @@
+-- Clinicians record vacation, continuing-education and sick days as time off.
+-- Booking hides those days, so anyone signed in can read the dates; only the
+-- clinician and admins can change them.
+ALTER TABLE public.time_off_blocks
+  ADD COLUMN IF NOT EXISTS time_off_type TEXT NOT NULL DEFAULT 'vacation'
+    CHECK (time_off_type IN ('vacation', 'continuing_education', 'sick', 'other'));
+
+CREATE INDEX IF NOT EXISTS time_off_blocks_clinician_dates_idx
+  ON public.time_off_blocks (clinician_id, start_date, end_date);
+
+ALTER TABLE public.time_off_blocks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view time off"
+  ON public.time_off_blocks
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Clinicians can manage their own time off"
+  ON public.time_off_blocks
+  FOR ALL
+  TO authenticated
+  USING (
+    clinician_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM public.clinicians
+      WHERE clinicians.id = time_off_blocks.clinician_id
+        AND clinicians.clinician_email = auth.jwt()->>'email'
+    )
+  )
+  WITH CHECK (
+    clinician_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM public.clinicians
+      WHERE clinicians.id = time_off_blocks.clinician_id
+        AND clinicians.clinician_email = auth.jwt()->>'email'
+    )
+  );
+
+CREATE POLICY "Admins can manage time off"
+  ON public.time_off_blocks
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'moderator')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'moderator')
+    )
+  );
@@ -0,0 +1,331 @@
+-- Clients who want an earlier time with their clinician. Empty preferred_days
+-- means any day; a NULL earliest/latest time means no limit on that side.
+CREATE TABLE IF NOT EXISTS public.waitlist_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  clinician_id UUID NOT NULL REFERENCES public.clinicians(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  preferred_days TEXT[] NOT NULL DEFAULT '{}',
+  earliest_time TIME,
+  latest_time TIME,
+  -- Higher goes first; ties go to whoever joined earliest
+  priority INTEGER NOT NULL DEFAULT 0,
+  notes TEXT,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'booked', 'removed')),
+  created_by UUID REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS waitlist_entries_active_client_idx
+  ON public.waitlist_entries (clinician_id, client_id)
+  WHERE status = 'active';
+
+-- A freed slot offered to one waitlisted client at a time. The token is the
+-- claim link; an unclaimed offer expires and the slot moves down the list.
+CREATE TABLE IF NOT EXISTS public.waitlist_offers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  waitlist_entry_id UUID NOT NULL REFERENCES public.waitlist_entries(id) ON DELETE CASCADE,
+  clinician_id UUID NOT NULL REFERENCES public.clinicians(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'claimed', 'declined', 'expired')),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  notified_at TIMESTAMP WITH TIME ZONE,
+  responded_at TIMESTAMP WITH TIME ZONE,
+  appointment_id UUID REFERENCES public.appointments(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS waitlist_offers_pending_idx
+  ON public.waitlist_offers (status, expires_at);
+CREATE INDEX IF NOT EXISTS waitlist_offers_slot_idx
+  ON public.waitlist_offers (clinician_id, date, start_time);
+
+ALTER TABLE public.waitlist_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.waitlist_offers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clients can manage their own waitlist entries"
+  ON public.waitlist_entries
+  FOR ALL
+  TO authenticated
+  USING (client_id = auth.uid())
+  WITH CHECK (client_id = auth.uid());
+
+CREATE POLICY "Clinicians can manage their waitlist"
+  ON public.waitlist_entries
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.clinicians
+      WHERE clinicians.id = waitlist_entries.clinician_id
+        AND (clinicians.id = auth.uid() OR clinicians.clinician_email = auth.jwt()->>'email')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.clinicians
+      WHERE clinicians.id = waitlist_entries.clinician_id
+        AND (clinicians.id = auth.uid() OR clinicians.clinician_email = auth.jwt()->>'email')
+    )
+  );
+
+CREATE POLICY "Admins can manage waitlist entries"
+  ON public.waitlist_entries
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'moderator')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'moderator')
+    )
+  );
+
+-- Offers are created and answered only through the functions below
+CREATE POLICY "Clients can view their own waitlist offers"
+  ON public.waitlist_offers
+  FOR SELECT
+  TO authenticated
+  USING (client_id = auth.uid());
+
+CREATE POLICY "Clinicians can view their waitlist offers"
+  ON public.waitlist_offers
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.clinicians
+      WHERE clinicians.id = waitlist_offers.clinician_id
+        AND (clinicians.id = auth.uid() OR clinicians.clinician_email = auth.jwt()->>'email')
+    )
+  );
+
+CREATE POLICY "Admins can view waitlist offers"
+  ON public.waitlist_offers
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'moderator')
+    )
+  );
+
+-- Offer an open slot to the best-matching waitlisted client who hasn't already
+-- been offered it. Does nothing if the slot is in the past, already on offer,
+-- or has been booked again. Offers last two hours, or until the slot starts.
+CREATE OR REPLACE FUNCTION public.offer_waitlist_slot(p_clinician_id UUID, p_date DATE, p_start_time TIME, p_end_time TIME)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_starts_at TIMESTAMP WITH TIME ZONE;
+  v_entry public.waitlist_entries%ROWTYPE;
+  v_offer_id UUID;
+BEGIN
+  SELECT (p_date + p_start_time) AT TIME ZONE public.to_iana_time_zone(clinician_timezone)
+  INTO v_starts_at
+  FROM public.clinicians
+  WHERE id = p_clinician_id;
+
+  IF v_starts_at IS NULL OR v_starts_at <= now() THEN
+    RETURN NULL;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.waitlist_offers
+    WHERE clinician_id = p_clinician_id AND date = p_date AND start_time = p_start_time AND status = 'pending'
+  ) OR EXISTS (
+    SELECT 1 FROM public.appointments
+    WHERE clinician_id = p_clinician_id
+      AND date = p_date
+      AND status NOT IN ('cancelled', 'Cancelled', 'No Call/No Show')
+      AND start_time < p_end_time
+      AND end_time > p_start_time
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_entry
+  FROM public.waitlist_entries AS entry
+  WHERE entry.clinician_id = p_clinician_id
+    AND entry.status = 'active'
+    AND (cardinality(entry.preferred_days) = 0 OR trim(to_char(p_date, 'Day')) = ANY (entry.preferred_days))
+    AND (entry.earliest_time IS NULL OR entry.earliest_time <= p_start_time)
+    AND (entry.latest_time IS NULL OR entry.latest_time >= p_end_time)
+    -- One open offer per client, and never the same slot twice
+    AND NOT EXISTS (
+      SELECT 1 FROM public.waitlist_offers AS offer
+      WHERE offer.waitlist_entry_id = entry.id
+        AND (offer.status = 'pending' OR (offer.date = p_date AND offer.start_time = p_start_time))
+    )
+  ORDER BY entry.priority DESC, entry.created_at ASC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.waitlist_offers (waitlist_entry_id, clinician_id, client_id, date, start_time, end_time, expires_at)
+  VALUES (v_entry.id, p_clinician_id, v_entry.client_id, p_date, p_start_time, p_end_time, LEAST(now() + interval '2 hours', v_starts_at))
+  RETURNING id INTO v_offer_id;
+
+  RETURN v_offer_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.offer_waitlist_slot(UUID, DATE, TIME, TIME) FROM PUBLIC, anon, authenticated;
+
+-- A slot opens when an appointment is deleted, cancelled, marked as not having
+-- happened, or moved elsewhere
+CREATE OR REPLACE FUNCTION public.handle_appointment_slot_released()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status IN ('cancelled', 'Cancelled', 'No Call/No Show') THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'DELETE'
+    OR NEW.status IN ('cancelled', 'Cancelled', 'No Call/No Show')
+    OR NEW.clinician_id IS DISTINCT FROM OLD.clinician_id
+    OR NEW.date IS DISTINCT FROM OLD.date
+    OR NEW.start_time IS DISTINCT FROM OLD.start_time
+  THEN
+    PERFORM public.offer_waitlist_slot(OLD.clinician_id, OLD.date, OLD.start_time, OLD.end_time);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS offer_released_slot_to_waitlist ON public.appointments;
+CREATE TRIGGER offer_released_slot_to_waitlist
+  AFTER UPDATE OF status, clinician_id, date, start_time OR DELETE ON public.appointments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_appointment_slot_released();
+
+-- Expire unanswered offers and pass each slot to the next client in line.
+-- Run by the send-waitlist-offers function before it sends anything.
+CREATE OR REPLACE FUNCTION public.expire_waitlist_offers()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_offer public.waitlist_offers%ROWTYPE;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_offer IN
+    UPDATE public.waitlist_offers
+    SET status = 'expired'
+    WHERE status = 'pending' AND expires_at <= now()
+    RETURNING *
+  LOOP
+    v_count := v_count + 1;
+    PERFORM public.offer_waitlist_slot(v_offer.clinician_id, v_offer.date, v_offer.start_time, v_offer.end_time);
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_waitlist_offers() FROM PUBLIC, anon, authenticated;
+
+-- Book the offered slot for the client holding the claim link. The slot was
+-- freed by a cancellation, so it skips the client availability checks in
+-- book_appointments; the overlap trigger still re-checks it under the
+-- clinician lock.
+CREATE OR REPLACE FUNCTION public.claim_waitlist_offer(p_token TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_offer public.waitlist_offers%ROWTYPE;
+  v_appointment_id UUID;
+BEGIN
+  SELECT * INTO v_offer FROM public.waitlist_offers WHERE token = p_token FOR UPDATE;
+
+  IF NOT FOUND OR v_offer.client_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'WAITLIST_OFFER_NOT_FOUND';
+  END IF;
+
+  IF v_offer.status <> 'pending' OR v_offer.expires_at <= now() THEN
+    RAISE EXCEPTION 'WAITLIST_OFFER_UNAVAILABLE';
+  END IF;
+
+  INSERT INTO public.appointments (client_id, clinician_id, date, start_time, end_time, type, status)
+  VALUES (v_offer.client_id, v_offer.clinician_id, v_offer.date, v_offer.start_time, v_offer.end_time, 'Therapy Session', 'scheduled')
+  RETURNING id INTO v_appointment_id;
+
+  UPDATE public.waitlist_offers
+  SET status = 'claimed', responded_at = now(), appointment_id = v_appointment_id
+  WHERE id = v_offer.id;
+
+  UPDATE public.waitlist_entries
+  SET status = 'booked', updated_at = now()
+  WHERE id = v_offer.waitlist_entry_id;
+
+  RETURN v_appointment_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.decline_waitlist_offer(p_token TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_offer public.waitlist_offers%ROWTYPE;
+BEGIN
+  UPDATE public.waitlist_offers
+  SET status = 'declined', responded_at = now()
+  WHERE token = p_token AND client_id = auth.uid() AND status = 'pending'
+  RETURNING * INTO v_offer;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'WAITLIST_OFFER_UNAVAILABLE';
+  END IF;
+
+  PERFORM public.offer_waitlist_slot(v_offer.clinician_id, v_offer.date, v_offer.start_time, v_offer.end_time);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_waitlist_offer(TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.decline_waitlist_offer(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.claim_waitlist_offer(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.decline_waitlist_offer(TEXT) TO authenticated;
+
+-- Sweep expired offers and email new ones every five minutes
+SELECT cron.schedule(
+  'send-waitlist-offers',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://gqlkritspnhjxfejvgfg.supabase.co/functions/v1/send-waitlist-offers',
+    body := '{}'::jsonb,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    )
+  );
+  $$
+);
@@ -0,0 +1,39 @@
+-- Moves several appointments at once, all-or-nothing, for drag-and-drop
+-- rescheduling of a recurring series and for undoing a move. Each change in
+-- p_changes is {id, date, start_time, end_time}, optionally with
+-- recurring_group_id and appointment_recurring when a session leaves or
+-- rejoins its series. Runs as the caller, so RLS decides which appointments
+-- they may move; the overlap and licensure triggers still check every row.
+-- Changes are applied in the order given, so callers list them so that no
+-- session lands on a sibling that hasn't moved yet.
+CREATE OR REPLACE FUNCTION public.reschedule_appointments(p_changes JSONB)
+RETURNS SETOF public.appointments
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_change JSONB;
+  v_row public.appointments%ROWTYPE;
+BEGIN
+  FOR v_change IN SELECT * FROM jsonb_array_elements(p_changes) LOOP
+    UPDATE public.appointments
+    SET date = (v_change ->> 'date')::date,
+        start_time = (v_change ->> 'start_time')::time,
+        end_time = (v_change ->> 'end_time')::time,
+        recurring_group_id = CASE WHEN v_change ? 'recurring_group_id'
+          THEN (v_change ->> 'recurring_group_id')::uuid ELSE recurring_group_id END,
+        appointment_recurring = CASE WHEN v_change ? 'appointment_recurring'
+          THEN v_change ->> 'appointment_recurring' ELSE appointment_recurring END
+    WHERE id = (v_change ->> 'id')::uuid
+    RETURNING * INTO v_row;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Appointment % not found', v_change ->> 'id';
+    END IF;
+
+    RETURN NEXT v_row;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reschedule_appointments(JSONB) TO authenticated;
@@ -0,0 +1,70 @@
+-- A secret link to each clinician's appointments as an iCalendar feed, for
+-- subscribing from a personal calendar app. The calendar-feed edge function
+-- looks the token up with the service role key, so anyone with the link can
+-- read the feed; rotating replaces the token and old subscriptions stop updating.
+CREATE TABLE IF NOT EXISTS public.calendar_feed_tokens (
+  clinician_id UUID PRIMARY KEY REFERENCES public.clinicians(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  rotated_at TIMESTAMPTZ
+);
+
+ALTER TABLE public.calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Tokens are created and replaced only through rotate_calendar_feed_token
+CREATE POLICY "Clinicians can view their calendar feed token"
+  ON public.calendar_feed_tokens
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.clinicians
+      WHERE clinicians.id = calendar_feed_tokens.clinician_id
+        AND (clinicians.id = auth.uid() OR clinicians.clinician_email = auth.jwt()->>'email')
+    )
+  );
+
+CREATE POLICY "Admins can view calendar feed tokens"
+  ON public.calendar_feed_tokens
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'moderator')
+    )
+  );
+
+-- Issues the clinician's first token or replaces the current one
+CREATE OR REPLACE FUNCTION public.rotate_calendar_feed_token(p_clinician_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_token TEXT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.clinicians
+    WHERE clinicians.id = p_clinician_id
+      AND (clinicians.id = auth.uid() OR clinicians.clinician_email = auth.jwt()->>'email')
+  ) AND NOT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'moderator')
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to manage this calendar feed';
+  END IF;
+
+  INSERT INTO public.calendar_feed_tokens (clinician_id)
+  VALUES (p_clinician_id)
+  ON CONFLICT (clinician_id) DO UPDATE
+    SET token = replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+        rotated_at = now()
+  RETURNING token INTO v_token;
+
+  RETURN v_token;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.rotate_calendar_feed_token(UUID) TO authenticated;
@@ -0,0 +1,184 @@
+-- Recurring series now store an iCalendar-style rule in appointment_recurring
+-- (DTSTART, RRULE and EXDATE lines; see src/utils/recurrence.ts), repeated on
+-- every session in the series. Older series keep their 'weekly', 'biweekly'
+-- or 'monthly' values, which the app reads as the equivalent weekly rule.
+--
+-- recurrence_date is the date the rule generated a session for. It stays put
+-- when that one session is moved, so the session remains in its series as an
+-- exception instead of being detached from it.
+ALTER TABLE public.appointments ADD COLUMN IF NOT EXISTS recurrence_date DATE;
+
+UPDATE public.appointments
+SET recurrence_date = date
+WHERE recurring_group_id IS NOT NULL AND recurrence_date IS NULL;
+
+CREATE OR REPLACE FUNCTION public.set_appointment_recurrence_date()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.recurring_group_id IS NULL THEN
+    NEW.recurrence_date := NULL;
+  ELSIF NEW.recurrence_date IS NULL THEN
+    NEW.recurrence_date := NEW.date;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_appointment_recurrence_date ON public.appointments;
+CREATE TRIGGER set_appointment_recurrence_date
+  BEFORE INSERT OR UPDATE OF recurring_group_id, recurrence_date ON public.appointments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_appointment_recurrence_date();
+
+-- As before, plus recurrence_date so undoing a series split restores it
+CREATE OR REPLACE FUNCTION public.reschedule_appointments(p_changes JSONB)
+RETURNS SETOF public.appointments
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_change JSONB;
+  v_row public.appointments%ROWTYPE;
+BEGIN
+  FOR v_change IN SELECT * FROM jsonb_array_elements(p_changes) LOOP
+    UPDATE public.appointments
+    SET date = (v_change ->> 'date')::date,
+        start_time = (v_change ->> 'start_time')::time,
+        end_time = (v_change ->> 'end_time')::time,
+        recurring_group_id = CASE WHEN v_change ? 'recurring_group_id'
+          THEN (v_change ->> 'recurring_group_id')::uuid ELSE recurring_group_id END,
+        appointment_recurring = CASE WHEN v_change ? 'appointment_recurring'
+          THEN v_change ->> 'appointment_recurring' ELSE appointment_recurring END,
+        recurrence_date = CASE WHEN v_change ? 'recurrence_date'
+          THEN (v_change ->> 'recurrence_date')::date ELSE recurrence_date END
+    WHERE id = (v_change ->> 'id')::uuid
+    RETURNING * INTO v_row;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Appointment % not found', v_change ->> 'id';
+    END IF;
+
+    RETURN NEXT v_row;
+  END LOOP;
+END;
+$$;
+
+-- "This and following" edits. The session and everything after it in its
+-- series become a new series under p_rule_after, moved by p_day_offset days
+-- and given the new times; earlier sessions keep their times under
+-- p_rule_before, which ends the day before. The app works out both rules.
+-- Runs as the caller, so RLS applies and the overlap and licensure triggers
+-- check every moved session; any failure leaves the series untouched.
+CREATE OR REPLACE FUNCTION public.split_appointment_series(
+  p_appointment_id UUID,
+  p_rule_before TEXT,
+  p_rule_after TEXT,
+  p_day_offset INTEGER DEFAULT 0,
+  p_start_time TIME DEFAULT NULL,
+  p_end_time TIME DEFAULT NULL
+)
+RETURNS SETOF public.appointments
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_appointment public.appointments%ROWTYPE;
+  v_from DATE;
+  v_group UUID := gen_random_uuid();
+  v_row public.appointments%ROWTYPE;
+BEGIN
+  SELECT * INTO v_appointment FROM public.appointments WHERE id = p_appointment_id;
+  IF NOT FOUND OR v_appointment.recurring_group_id IS NULL THEN
+    RAISE EXCEPTION 'Appointment % is not part of a recurring series', p_appointment_id;
+  END IF;
+
+  v_from := coalesce(v_appointment.recurrence_date, v_appointment.date);
+
+  UPDATE public.appointments
+  SET appointment_recurring = coalesce(p_rule_before, appointment_recurring)
+  WHERE recurring_group_id = v_appointment.recurring_group_id
+    AND coalesce(recurrence_date, date) < v_from;
+
+  -- Moving later, shift the last session first so none lands on a sibling still in place
+  FOR v_row IN
+    SELECT * FROM public.appointments
+    WHERE recurring_group_id = v_appointment.recurring_group_id
+      AND coalesce(recurrence_date, date) >= v_from
+    ORDER BY CASE WHEN p_day_offset > 0 THEN date END DESC NULLS LAST, date ASC
+  LOOP
+    UPDATE public.appointments
+    SET recurring_group_id = v_group,
+        appointment_recurring = coalesce(p_rule_after, appointment_recurring),
+        recurrence_date = coalesce(recurrence_date, date) + p_day_offset,
+        date = date + p_day_offset,
+        start_time = coalesce(p_start_time, start_time),
+        end_time = coalesce(p_end_time, end_time)
+    WHERE id = v_row.id
+    RETURNING * INTO v_row;
+
+    RETURN NEXT v_row;
+  END LOOP;
+END;
+$$;
+
+-- Deletes a session and everything after it in its series; earlier sessions
+-- get p_rule_before, which ends the day before.
+CREATE OR REPLACE FUNCTION public.end_appointment_series(p_appointment_id UUID, p_rule_before TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_appointment public.appointments%ROWTYPE;
+  v_from DATE;
+  v_deleted INTEGER;
+BEGIN
+  SELECT * INTO v_appointment FROM public.appointments WHERE id = p_appointment_id;
+  IF NOT FOUND OR v_appointment.recurring_group_id IS NULL THEN
+    RAISE EXCEPTION 'Appointment % is not part of a recurring series', p_appointment_id;
+  END IF;
+
+  v_from := coalesce(v_appointment.recurrence_date, v_appointment.date);
+
+  DELETE FROM public.appointments
+  WHERE recurring_group_id = v_appointment.recurring_group_id
+    AND coalesce(recurrence_date, date) >= v_from;
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  UPDATE public.appointments
+  SET appointment_recurring = coalesce(p_rule_before, appointment_recurring)
+  WHERE recurring_group_id = v_appointment.recurring_group_id;
+
+  RETURN v_deleted;
+END;
+$$;
+
+-- Deletes one session and records its date as an exception on the rest of the series
+CREATE OR REPLACE FUNCTION public.delete_appointment_occurrence(p_appointment_id UUID, p_rule TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_appointment public.appointments%ROWTYPE;
+BEGIN
+  DELETE FROM public.appointments WHERE id = p_appointment_id
+  RETURNING * INTO v_appointment;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Appointment % not found', p_appointment_id;
+  END IF;
+
+  IF v_appointment.recurring_group_id IS NOT NULL AND p_rule IS NOT NULL THEN
+    UPDATE public.appointments
+    SET appointment_recurring = p_rule
+    WHERE recurring_group_id = v_appointment.recurring_group_id;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.split_appointment_series(UUID, TEXT, TEXT, INTEGER, TIME, TIME) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.end_appointment_series(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_appointment_occurrence(UUID, TEXT) TO authenticated;
@@ -0,0 +1,154 @@
+-- Practice-wide closures (federal holidays and custom closures such as office
+-- moves or staff retreats) apply to every clinician at once: online booking
+-- and new recurring series skip them, and every calendar shows them. Like time
+-- off they are whole days, inclusive of both ends. Anyone signed in can read
+-- them; only admins can change them.
+CREATE TABLE IF NOT EXISTS public.practice_closures (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  name TEXT NOT NULL,
+  closure_type TEXT NOT NULL DEFAULT 'custom' CHECK (closure_type IN ('holiday', 'custom')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (end_date >= start_date),
+  UNIQUE (start_date, name)
+);
+
+CREATE INDEX IF NOT EXISTS practice_closures_dates_idx
+  ON public.practice_closures (start_date, end_date);
+
+ALTER TABLE public.practice_closures ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view practice closures"
+  ON public.practice_closures
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage practice closures"
+  ON public.practice_closures
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'moderator')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'moderator')
+    )
+  );
+
+-- Federal holidays for the current and next year, on their observed dates.
+-- Later years are added from Settings > Practice.
+INSERT INTO public.practice_closures (start_date, end_date, name, closure_type)
+SELECT holiday.date, holiday.date, holiday.name, 'holiday'
+FROM (VALUES
+  ('2026-01-01'::date, 'New Year''s Day'),
+  ('2026-01-19'::date, 'Martin Luther King Jr. Day'),
+  ('2026-02-16'::date, 'Presidents'' Day'),
+  ('2026-05-25'::date, 'Memorial Day'),
+  ('2026-06-19'::date, 'Juneteenth'),
+  ('2026-07-03'::date, 'Independence Day'),
+  ('2026-09-07'::date, 'Labor Day'),
+  ('2026-10-12'::date, 'Columbus Day'),
+  ('2026-11-11'::date, 'Veterans Day'),
+  ('2026-11-26'::date, 'Thanksgiving Day'),
+  ('2026-12-25'::date, 'Christmas Day'),
+  ('2027-01-01'::date, 'New Year''s Day'),
+  ('2027-01-18'::date, 'Martin Luther King Jr. Day'),
+  ('2027-02-15'::date, 'Presidents'' Day'),
+  ('2027-05-31'::date, 'Memorial Day'),
+  ('2027-06-18'::date, 'Juneteenth'),
+  ('2027-07-05'::date, 'Independence Day'),
+  ('2027-09-06'::date, 'Labor Day'),
+  ('2027-10-11'::date, 'Columbus Day'),
+  ('2027-11-11'::date, 'Veterans Day'),
+  ('2027-11-25'::date, 'Thanksgiving Day'),
+  ('2027-12-24'::date, 'Christmas Day')
+) AS holiday(date, name)
+ON CONFLICT (start_date, name) DO NOTHING;
+
+-- Clients can't book a closed day themselves; staff still can
+CREATE OR REPLACE FUNCTION public.is_appointment_slot_bookable(p_clinician_id UUID, p_date DATE, p_start_time TIME, p_end_time TIME)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings public.availability_settings%ROWTYPE;
+  v_time_zone TEXT;
+  v_today DATE;
+  v_step INTEGER;
+BEGIN
+  SELECT * INTO v_settings FROM public.availability_settings WHERE clinician_id = p_clinician_id;
+  SELECT public.to_iana_time_zone(clinician_timezone) INTO v_time_zone FROM public.clinicians WHERE id = p_clinician_id;
+  v_today := (now() AT TIME ZONE coalesce(v_time_zone, 'America/Chicago'))::date;
+
+  v_step := CASE
+    WHEN v_settings.time_granularity = 'custom' AND v_settings.custom_minutes > 0 THEN v_settings.custom_minutes
+    WHEN v_settings.time_granularity = 'half-hour' THEN 30
+    ELSE 60
+  END;
+
+  IF p_date < v_today + coalesce(v_settings.min_days_ahead, 1)
+    OR p_date > v_today + coalesce(nullif(v_settings.max_days_ahead, 0), 60)
+    OR (p_date + p_start_time) AT TIME ZONE coalesce(v_time_zone, 'America/Chicago') <= now()
+  THEN
+    RETURN FALSE;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.time_off_blocks
+    WHERE clinician_id = p_clinician_id
+      AND is_active IS NOT FALSE
+      AND start_date <= p_date
+      AND end_date >= p_date
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.practice_closures
+    WHERE start_date <= p_date AND end_date >= p_date
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  RETURN EXISTS (
+    WITH day_exceptions AS (
+      SELECT * FROM public.availability_exceptions
+      WHERE clinician_id = p_clinician_id AND specific_date = p_date
+    ),
+    windows AS (
+      SELECT
+        CASE WHEN exception.start_time IS NOT NULL AND exception.end_time IS NOT NULL THEN exception.start_time ELSE availability.start_time END AS start_time,
+        CASE WHEN exception.start_time IS NOT NULL AND exception.end_time IS NOT NULL THEN exception.end_time ELSE availability.end_time END AS end_time
+      FROM public.availability
+      LEFT JOIN LATERAL (
+        SELECT * FROM day_exceptions WHERE day_exceptions.original_availability_id = availability.id LIMIT 1
+      ) AS exception ON TRUE
+      WHERE availability.clinician_id = p_clinician_id
+        AND availability.is_active IS NOT FALSE
+        AND availability.day_of_week = to_char(p_date, 'FMDay')
+        AND exception.is_deleted IS NOT TRUE
+      UNION ALL
+      SELECT start_time, end_time FROM day_exceptions
+      WHERE original_availability_id IS NULL
+        AND is_deleted IS NOT TRUE
+        AND start_time IS NOT NULL
+        AND end_time IS NOT NULL
+    )
+    SELECT 1 FROM windows
+    WHERE windows.end_time > windows.start_time
+      AND p_start_time >= windows.start_time
+      AND p_end_time <= windows.end_time
+      AND (extract(epoch FROM p_start_time - windows.start_time) / 60)::integer % v_step = 0
+  );
+END;
+$$;
@@ -0,0 +1,138 @@
+-- Session notes are signed and locked. Signing records who signed and when
+-- from the signed-in user, never from what the browser sends, and a signed
+-- note can't be edited or deleted. Anything added later goes in an addendum,
+-- which is signed the same way and is itself permanent.
+ALTER TABLE public.session_notes
+  ADD COLUMN IF NOT EXISTS signed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS signed_by UUID REFERENCES auth.users(id),
+  ADD COLUMN IF NOT EXISTS signed_by_name TEXT;
+
+-- The name printed under a signature: the clinician's professional name, else
+-- the user's profile name, else their email
+CREATE OR REPLACE FUNCTION public.get_signer_name()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    (SELECT nullif(trim(clinician_professional_name), '') FROM public.clinicians
+     WHERE clinicians.id = auth.uid() OR clinicians.clinician_email = auth.jwt() ->> 'email'
+     LIMIT 1),
+    (SELECT nullif(trim(concat_ws(' ', first_name, last_name)), '') FROM public.profiles WHERE profiles.id = auth.uid()),
+    auth.jwt() ->> 'email'
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_signer_name() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_signer_name() TO authenticated;
+
+-- Setting signed_at signs the note; the signer and time are filled in here.
+-- Once signed, only the PDF path may change, so the PDF can be regenerated
+-- when an addendum is added.
+CREATE OR REPLACE FUNCTION public.protect_signed_session_note()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.signed_at IS NOT NULL THEN
+      RAISE EXCEPTION 'SESSION_NOTE_LOCKED' USING DETAIL = 'Signed session notes cannot be deleted';
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.signed_at IS NOT NULL THEN
+    IF (to_jsonb(NEW) - 'pdf_path' - 'updated_at') IS DISTINCT FROM (to_jsonb(OLD) - 'pdf_path' - 'updated_at') THEN
+      RAISE EXCEPTION 'SESSION_NOTE_LOCKED' USING DETAIL = 'Signed session notes cannot be changed; add an addendum instead';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.signed_at IS NOT NULL THEN
+    IF auth.uid() IS NULL THEN
+      RAISE EXCEPTION 'Session notes can only be signed by a signed-in user';
+    END IF;
+    IF coalesce(trim(NEW.signature), '') = '' THEN
+      RAISE EXCEPTION 'A signature is required to sign a session note';
+    END IF;
+
+    NEW.signed_at := now();
+    NEW.signed_by := auth.uid();
+    NEW.signed_by_name := public.get_signer_name();
+  ELSE
+    NEW.signed_by := NULL;
+    NEW.signed_by_name := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_signed_session_note ON public.session_notes;
+CREATE TRIGGER protect_signed_session_note
+  BEFORE INSERT OR UPDATE OR DELETE ON public.session_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_signed_session_note();
+
+CREATE TABLE IF NOT EXISTS public.session_note_addenda (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_note_id UUID NOT NULL REFERENCES public.session_notes(id) ON DELETE RESTRICT,
+  content TEXT NOT NULL CHECK (trim(content) <> ''),
+  signature TEXT NOT NULL CHECK (trim(signature) <> ''),
+  signed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  signed_by UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id),
+  signed_by_name TEXT
+);
+
+CREATE INDEX IF NOT EXISTS session_note_addenda_note_idx
+  ON public.session_note_addenda (session_note_id, signed_at);
+
+-- Addenda are only for signed notes, and are signed by whoever adds them
+CREATE OR REPLACE FUNCTION public.sign_session_note_addendum()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.session_notes
+    WHERE id = NEW.session_note_id AND signed_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Addenda can only be added to a signed session note';
+  END IF;
+
+  NEW.signed_at := now();
+  NEW.signed_by := auth.uid();
+  NEW.signed_by_name := public.get_signer_name();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sign_session_note_addendum ON public.session_note_addenda;
+CREATE TRIGGER sign_session_note_addendum
+  BEFORE INSERT ON public.session_note_addenda
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sign_session_note_addendum();
+
+-- Readable by anyone who can read the note; there are no update or delete policies
+ALTER TABLE public.session_note_addenda ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view addenda on notes they can view"
+  ON public.session_note_addenda
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.session_notes WHERE session_notes.id = session_note_addenda.session_note_id)
+  );
+
+CREATE POLICY "Users can add addenda to notes they can view"
+  ON public.session_note_addenda
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    signed_by = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.session_notes WHERE session_notes.id = session_note_addenda.session_note_id)
+  );
@@ -0,0 +1,66 @@
+-- Every save of a session note keeps the version it replaces in
+-- session_notes_history, so earlier wording can always be recovered. Each
+-- version records who saved it and when, taken from the signed-in user. Only
+-- this trigger writes history, and nobody can edit or delete it.
+ALTER TABLE public.session_notes
+  ADD COLUMN IF NOT EXISTS saved_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS saved_by UUID REFERENCES auth.users(id),
+  ADD COLUMN IF NOT EXISTS saved_by_name TEXT;
+
+ALTER TABLE public.session_notes_history
+  ADD COLUMN IF NOT EXISTS session_note_id UUID REFERENCES public.session_notes(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS saved_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS saved_by UUID REFERENCES auth.users(id),
+  ADD COLUMN IF NOT EXISTS saved_by_name TEXT;
+
+CREATE INDEX IF NOT EXISTS session_notes_history_note_idx
+  ON public.session_notes_history (session_note_id, created_at DESC);
+
+-- Runs after protect_signed_session_note, so locked notes never get this far.
+-- Updates that only attach a regenerated PDF aren't a new version.
+CREATE OR REPLACE FUNCTION public.snapshot_session_note()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND (to_jsonb(NEW) - 'pdf_path' - 'updated_at') IS NOT DISTINCT FROM (to_jsonb(OLD) - 'pdf_path' - 'updated_at') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    INSERT INTO public.session_notes_history (
+      session_note_id, client_id, clinician_id, appointment_id, session_date, session_type,
+      pdf_path, session_data, saved_at, saved_by, saved_by_name
+    ) VALUES (
+      OLD.id, OLD.client_id, OLD.clinician_id, OLD.appointment_id, OLD.session_date, OLD.session_type,
+      OLD.pdf_path, to_jsonb(OLD), coalesce(OLD.saved_at, OLD.updated_at), OLD.saved_by, OLD.saved_by_name
+    );
+  END IF;
+
+  NEW.saved_at := now();
+  NEW.saved_by := auth.uid();
+  NEW.saved_by_name := public.get_signer_name();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS snapshot_session_note ON public.session_notes;
+CREATE TRIGGER snapshot_session_note
+  BEFORE INSERT OR UPDATE ON public.session_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.snapshot_session_note();
+
+ALTER TABLE public.session_notes_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view history of notes they can view"
+  ON public.session_notes_history
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.session_notes WHERE session_notes.id = session_notes_history.session_note_id)
+  );
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON public.session_notes_history FROM anon, authenticated;
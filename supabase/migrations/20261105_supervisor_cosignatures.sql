@@ -0,0 +1,237 @@
+-- Associates and interns practise under a supervisor, who must co-sign their
+-- clinical documentation. Signing a session note or saving a treatment plan
+-- as a supervisee opens a co-signature request for their supervisor, who
+-- either approves it with their own signature or returns it with comments.
+-- A session note can't be billed until its co-signature is approved.
+ALTER TABLE public.clinicians
+  ADD COLUMN IF NOT EXISTS clinician_supervisor_id UUID REFERENCES public.clinicians(id) ON DELETE SET NULL,
+  ADD CONSTRAINT clinicians_not_own_supervisor CHECK (clinician_supervisor_id IS DISTINCT FROM id);
+
+-- Only admins decide who needs supervision, so supervisees can't opt out
+CREATE OR REPLACE FUNCTION public.protect_clinician_supervisor()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.clinician_supervisor_id IS DISTINCT FROM OLD.clinician_supervisor_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'moderator')
+    ) THEN
+    RAISE EXCEPTION 'Only admins can change a clinician''s supervisor';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_clinician_supervisor ON public.clinicians;
+CREATE TRIGGER protect_clinician_supervisor
+  BEFORE UPDATE ON public.clinicians
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_clinician_supervisor();
+
+-- The signed-in user's clinician record. Records are keyed by user id, but
+-- older ones can only be matched by email.
+CREATE OR REPLACE FUNCTION public.get_current_clinician_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id FROM public.clinicians
+  WHERE clinicians.id = auth.uid() OR clinicians.clinician_email = auth.jwt() ->> 'email'
+  ORDER BY clinicians.id = auth.uid() DESC
+  LIMIT 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_current_clinician_id() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_current_clinician_id() TO authenticated;
+
+-- One request per document. A returned session note goes back to pending
+-- when the supervisee adds an addendum; a returned treatment plan is replaced
+-- by saving a new plan, which gets its own request.
+CREATE TABLE IF NOT EXISTS public.cosignatures (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_note_id UUID UNIQUE REFERENCES public.session_notes(id) ON DELETE CASCADE,
+  treatment_plan_id UUID UNIQUE REFERENCES public.treatment_plans(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  clinician_id UUID NOT NULL REFERENCES public.clinicians(id) ON DELETE CASCADE,
+  supervisor_id UUID NOT NULL REFERENCES public.clinicians(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'returned')),
+  requested_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  supervisor_signature TEXT,
+  supervisor_comments TEXT,
+  reviewed_at TIMESTAMPTZ,
+  reviewed_by_name TEXT,
+  CHECK (num_nonnulls(session_note_id, treatment_plan_id) = 1)
+);
+
+CREATE INDEX IF NOT EXISTS cosignatures_supervisor_idx ON public.cosignatures (supervisor_id, status);
+CREATE INDEX IF NOT EXISTS cosignatures_clinician_idx ON public.cosignatures (clinician_id, status);
+
+ALTER TABLE public.cosignatures ENABLE ROW LEVEL SECURITY;
+
+-- Requests are opened by the triggers below and reviewed through
+-- review_cosignature, so there are no write policies
+CREATE POLICY "Supervisors, supervisees and admins can view co-signatures"
+  ON public.cosignatures
+  FOR SELECT
+  TO authenticated
+  USING (
+    supervisor_id = (SELECT public.get_current_clinician_id())
+    OR clinician_id = (SELECT public.get_current_clinician_id())
+    OR EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'moderator')
+    )
+  );
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON public.cosignatures FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.request_session_note_cosignature()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_clinician_id UUID := public.get_current_clinician_id();
+  v_supervisor_id UUID;
+BEGIN
+  IF NEW.signed_at IS NULL OR (TG_OP = 'UPDATE' AND OLD.signed_at IS NOT NULL) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT clinician_supervisor_id INTO v_supervisor_id FROM public.clinicians WHERE id = v_clinician_id;
+  IF v_supervisor_id IS NOT NULL THEN
+    INSERT INTO public.cosignatures (session_note_id, client_id, clinician_id, supervisor_id)
+    VALUES (NEW.id, NEW.client_id, v_clinician_id, v_supervisor_id)
+    ON CONFLICT (session_note_id) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS request_session_note_cosignature ON public.session_notes;
+CREATE TRIGGER request_session_note_cosignature
+  AFTER INSERT OR UPDATE OF signed_at ON public.session_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.request_session_note_cosignature();
+
+CREATE OR REPLACE FUNCTION public.request_treatment_plan_cosignature()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_clinician_id UUID := public.get_current_clinician_id();
+  v_supervisor_id UUID;
+BEGIN
+  SELECT clinician_supervisor_id INTO v_supervisor_id FROM public.clinicians WHERE id = v_clinician_id;
+  IF v_supervisor_id IS NOT NULL THEN
+    INSERT INTO public.cosignatures (treatment_plan_id, client_id, clinician_id, supervisor_id)
+    VALUES (NEW.id, NEW.client_id, v_clinician_id, v_supervisor_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS request_treatment_plan_cosignature ON public.treatment_plans;
+CREATE TRIGGER request_treatment_plan_cosignature
+  AFTER INSERT ON public.treatment_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION public.request_treatment_plan_cosignature();
+
+CREATE OR REPLACE FUNCTION public.resubmit_session_note_cosignature()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.cosignatures
+  SET status = 'pending', requested_at = now()
+  WHERE session_note_id = NEW.session_note_id AND status = 'returned';
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS resubmit_session_note_cosignature ON public.session_note_addenda;
+CREATE TRIGGER resubmit_session_note_cosignature
+  AFTER INSERT ON public.session_note_addenda
+  FOR EACH ROW
+  EXECUTE FUNCTION public.resubmit_session_note_cosignature();
+
+-- Approve with a signature or return with comments. Only the assigned
+-- supervisor can review, and only while the request is pending.
+CREATE OR REPLACE FUNCTION public.review_cosignature(
+  p_cosignature_id UUID,
+  p_approve BOOLEAN,
+  p_signature TEXT DEFAULT NULL,
+  p_comments TEXT DEFAULT NULL
+)
+RETURNS public.cosignatures
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_cosignature public.cosignatures;
+BEGIN
+  SELECT * INTO v_cosignature FROM public.cosignatures WHERE id = p_cosignature_id FOR UPDATE;
+
+  IF v_cosignature.id IS NULL OR v_cosignature.supervisor_id IS DISTINCT FROM public.get_current_clinician_id() THEN
+    RAISE EXCEPTION 'Only the assigned supervisor can review this document';
+  END IF;
+  IF v_cosignature.status <> 'pending' THEN
+    RAISE EXCEPTION 'This document is not awaiting co-signature';
+  END IF;
+  IF p_approve AND coalesce(trim(p_signature), '') = '' THEN
+    RAISE EXCEPTION 'A signature is required to co-sign';
+  END IF;
+  IF NOT p_approve AND coalesce(trim(p_comments), '') = '' THEN
+    RAISE EXCEPTION 'Comments are required to return a document';
+  END IF;
+
+  UPDATE public.cosignatures
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'returned' END,
+      supervisor_signature = CASE WHEN p_approve THEN trim(p_signature) END,
+      supervisor_comments = nullif(trim(p_comments), ''),
+      reviewed_at = now(),
+      reviewed_by_name = public.get_signer_name()
+  WHERE id = p_cosignature_id
+  RETURNING * INTO v_cosignature;
+
+  RETURN v_cosignature;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.review_cosignature(UUID, BOOLEAN, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.review_cosignature(UUID, BOOLEAN, TEXT, TEXT) TO authenticated;
+
+-- Claims for a supervisee's session can't be created before the note is co-signed
+CREATE OR REPLACE FUNCTION public.require_claim_cosignature()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.cosignatures
+    JOIN public.session_notes ON session_notes.id = cosignatures.session_note_id
+    WHERE session_notes.appointment_id = NEW.appointment_id AND cosignatures.status <> 'approved'
+  ) THEN
+    RAISE EXCEPTION 'COSIGNATURE_REQUIRED' USING DETAIL = 'The session note is awaiting supervisor co-signature';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS require_claim_cosignature ON public.claims;
+CREATE TRIGGER require_claim_cosignature
+  BEFORE INSERT ON public.claims
+  FOR EACH ROW
+  EXECUTE FUNCTION public.require_claim_cosignature();
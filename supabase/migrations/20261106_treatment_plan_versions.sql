@@ -0,0 +1,131 @@
+-- Treatment plans are versioned documents. Saving a plan supersedes the
+-- client's active plan and links back to it, so every client has at most one
+-- active plan and a chain of earlier versions behind it. review_due_date is
+-- when a plan needs reviewing, and objective_progress records how the client
+-- did on the previous version's objectives.
+ALTER TABLE public.treatment_plans
+  ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS previous_plan_id UUID REFERENCES public.treatment_plans(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'superseded')),
+  ADD COLUMN IF NOT EXISTS review_due_date DATE,
+  ADD COLUMN IF NOT EXISTS objective_progress JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- "Next update" is free text. Accepts the same formats as parseNextUpdateDate
+-- in the app (2026-06-30, 06/30/2026, 6/30/2026, June 30, 2026, Jun 30, 2026)
+-- and returns null for anything else, including dates that don't exist.
+CREATE OR REPLACE FUNCTION public.parse_treatment_plan_next_update(p_next_update TEXT)
+RETURNS DATE
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_text TEXT := trim(coalesce(p_next_update, ''));
+  v_parts TEXT[];
+  v_month INT;
+  v_months CONSTANT TEXT[] := ARRAY[
+    'january', 'february', 'march', 'april', 'may', 'june',
+    'july', 'august', 'september', 'october', 'november', 'december'
+  ];
+BEGIN
+  v_parts := regexp_match(v_text, '^(\d{4})-(\d{1,2})-(\d{1,2})$');
+  IF v_parts IS NOT NULL THEN
+    RETURN make_date(v_parts[1]::int, v_parts[2]::int, v_parts[3]::int);
+  END IF;
+
+  v_parts := regexp_match(v_text, '^(\d{1,2})/(\d{1,2})/(\d{4})$');
+  IF v_parts IS NOT NULL THEN
+    RETURN make_date(v_parts[3]::int, v_parts[1]::int, v_parts[2]::int);
+  END IF;
+
+  v_parts := regexp_match(v_text, '^([A-Za-z]+) (\d{1,2}), (\d{4})$');
+  IF v_parts IS NOT NULL THEN
+    SELECT ordinality INTO v_month
+    FROM unnest(v_months) WITH ORDINALITY AS months(name)
+    WHERE name = lower(v_parts[1]) OR left(name, 3) = lower(v_parts[1]);
+
+    IF v_month IS NOT NULL THEN
+      RETURN make_date(v_parts[3]::int, v_month, v_parts[2]::int);
+    END IF;
+  END IF;
+
+  RETURN NULL;
+EXCEPTION
+  WHEN datetime_field_overflow OR invalid_datetime_format OR numeric_value_out_of_range THEN
+    RETURN NULL;
+END;
+$$;
+
+-- Same rule as getPlanReviewDueDate: the "next update" date when it is one,
+-- otherwise the end of the plan length ('3month', '6month' and so on)
+CREATE OR REPLACE FUNCTION public.treatment_plan_review_due_date(p_start_date DATE, p_plan_length TEXT, p_next_update TEXT)
+RETURNS DATE
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT coalesce(
+    public.parse_treatment_plan_next_update(p_next_update),
+    CASE
+      WHEN p_plan_length ~ '^\d+month$'
+        THEN (p_start_date + make_interval(months => substring(p_plan_length FROM '^\d+')::int))::date
+    END
+  );
+$$;
+
+-- Existing plans are numbered per client in the order they were saved, and
+-- only each client's latest plan stays active
+WITH ordered AS (
+  SELECT
+    id,
+    row_number() OVER w AS version,
+    lag(id) OVER w AS previous_plan_id,
+    row_number() OVER w = count(*) OVER (PARTITION BY client_id) AS is_latest
+  FROM public.treatment_plans
+  WINDOW w AS (PARTITION BY client_id ORDER BY created_at)
+)
+UPDATE public.treatment_plans
+SET version = ordered.version,
+    previous_plan_id = ordered.previous_plan_id,
+    status = CASE WHEN ordered.is_latest THEN 'active' ELSE 'superseded' END,
+    review_due_date = coalesce(
+      treatment_plans.review_due_date,
+      public.treatment_plan_review_due_date(treatment_plans.start_date, treatment_plans.plan_length, treatment_plans.next_update)
+    )
+FROM ordered
+WHERE treatment_plans.id = ordered.id;
+
+CREATE UNIQUE INDEX IF NOT EXISTS treatment_plans_active_plan_idx
+  ON public.treatment_plans (client_id) WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS treatment_plans_client_version_idx
+  ON public.treatment_plans (client_id, version DESC);
+
+-- The app sends review_due_date; plans saved without one get the same rule here
+CREATE OR REPLACE FUNCTION public.version_treatment_plan()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_active_id UUID;
+BEGIN
+  SELECT id INTO v_active_id
+  FROM public.treatment_plans
+  WHERE client_id = NEW.client_id AND status = 'active'
+  FOR UPDATE;
+
+  NEW.version := coalesce((SELECT max(version) FROM public.treatment_plans WHERE client_id = NEW.client_id), 0) + 1;
+  NEW.previous_plan_id := v_active_id;
+  NEW.status := 'active';
+  NEW.review_due_date := coalesce(NEW.review_due_date, public.treatment_plan_review_due_date(NEW.start_date, NEW.plan_length, NEW.next_update));
+
+  UPDATE public.treatment_plans SET status = 'superseded' WHERE id = v_active_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS version_treatment_plan ON public.treatment_plans;
+CREATE TRIGGER version_treatment_plan
+  BEFORE INSERT ON public.treatment_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION public.version_treatment_plan();